@@ -933,6 +933,7 @@ export default function EnterpriseDetailPage() {
                 return (
                   <div
                     key={est.establishmentNumber}
+                    id={`establishment-${est.establishmentNumber}`}
                     className={`border rounded-lg p-4 ${isAdded ? 'bg-green-50' : 'bg-white'}`}
                   >
                     <div className="flex items-start justify-between mb-2">
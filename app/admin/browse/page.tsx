@@ -2,23 +2,81 @@
 
 import { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
-import type { EnterpriseSearchResult } from '@/app/api/enterprises/search/route'
+import type {
+  EnterpriseSearchFacets,
+  EnterpriseSearchFacetCount,
+  EnterpriseSearchResult,
+  EstablishmentSearchResult,
+} from '@/app/api/enterprises/search/route'
+import { BELGIAN_PROVINCES } from '@/lib/config/provinces'
 import { useLanguage } from '@/lib/contexts/language-context'
 
+/**
+ * Structured filters, keyed by search route parameter
+ */
+interface FilterState {
+  juridical_form: string
+  status: string
+  entity_type: string
+  nace: string
+  nace_version: string
+  activity_group: string
+  zipcode_from: string
+  zipcode_to: string
+  province: string
+  start_date_from: string
+  start_date_to: string
+}
+
+const EMPTY_FILTERS: FilterState = {
+  juridical_form: '',
+  status: '',
+  entity_type: '',
+  nace: '',
+  nace_version: '',
+  activity_group: '',
+  zipcode_from: '',
+  zipcode_to: '',
+  province: '',
+  start_date_from: '',
+  start_date_to: '',
+}
+
+type SearchType = 'all' | 'number' | 'name' | 'nace' | 'establishment'
+
+const inputClassName = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+/**
+ * Option text with its facet count, e.g. "Active (1,234)"
+ */
+function withCount(label: string, count: number | undefined): string {
+  return count === undefined ? label : `${label} (${count.toLocaleString()})`
+}
+
 export default function BrowsePage() {
   const { language, isInitialized } = useLanguage()
   const [searchQuery, setSearchQuery] = useState('')
-  const [searchType, setSearchType] = useState<'all' | 'number' | 'name' | 'nace'>('all')
+  const [searchType, setSearchType] = useState<SearchType>('all')
   const [results, setResults] = useState<EnterpriseSearchResult[]>([])
   const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS)
+  const [facets, setFacets] = useState<EnterpriseSearchFacets | null>(null)
+  const [establishments, setEstablishments] = useState<EstablishmentSearchResult[]>([])
+  const [establishmentTotal, setEstablishmentTotal] = useState(0)
+  // Search type of the results on screen (the select may have changed since)
+  const [resultType, setResultType] = useState<SearchType>('all')
   const limit = 25
   const hasFetchedRef = useRef(false)
   const lastLanguageRef = useRef<string | null>(null)
 
-  const executeSearch = async (page: number = 1) => {
+  const executeSearch = async (
+    page: number = 1,
+    activeFilters: FilterState = filters,
+    type: SearchType = searchType
+  ) => {
     setLoading(true)
     setError(null)
 
@@ -26,26 +84,37 @@ export default function BrowsePage() {
       const offset = (page - 1) * limit
       const params = new URLSearchParams({
         q: searchQuery,
-        type: searchType,
+        type,
         limit: limit.toString(),
         offset: offset.toString(),
         language: language,
+        facets: 'true',
       })
+      for (const [name, value] of Object.entries(activeFilters)) {
+        if (value) params.set(name, value)
+      }
 
       const res = await fetch(`/api/enterprises/search?${params}`)
 
       if (!res.ok) {
-        throw new Error('Failed to search enterprises')
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to search enterprises')
       }
 
       const data = await res.json()
       setResults(data.results)
       setTotal(data.total)
+      setFacets(data.facets ?? null)
+      setEstablishments(data.establishments ?? [])
+      setEstablishmentTotal(data.establishmentTotal ?? 0)
+      setResultType(type)
       setCurrentPage(page)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
       setResults([])
       setTotal(0)
+      setEstablishments([])
+      setEstablishmentTotal(0)
     } finally {
       setLoading(false)
     }
@@ -56,6 +125,28 @@ export default function BrowsePage() {
     executeSearch(1)
   }
 
+  const updateFilter = (name: keyof FilterState, value: string) => {
+    setFilters((current) => ({ ...current, [name]: value }))
+  }
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS)
+    executeSearch(1, EMPTY_FILTERS)
+  }
+
+  const facetCount = (facet: keyof EnterpriseSearchFacets, value: string) =>
+    facets?.[facet].find((f) => f.value === value)?.count
+
+  // Facet values as options, keeping the selected value even when it has no count
+  const facetOptions = (facet: keyof EnterpriseSearchFacets, selected: string): EnterpriseSearchFacetCount[] => {
+    const options = facets?.[facet] ?? []
+    return selected && !options.some((f) => f.value === selected)
+      ? [{ value: selected, count: 0, label: null }, ...options]
+      : options
+  }
+
+  const activeFilterCount = Object.values(filters).filter(Boolean).length
+
   // Load initial data on mount and when language changes
   useEffect(() => {
     if (!isInitialized) return
@@ -73,7 +164,65 @@ export default function BrowsePage() {
     executeSearch(1)
   }, [language, isInitialized]) // eslint-disable-line react-hooks/exhaustive-deps
 
-  const totalPages = Math.ceil(total / limit)
+  const showAllEstablishments = () => {
+    setSearchType('establishment')
+    executeSearch(1, filters, 'establishment')
+  }
+
+  // Establishment searches page through establishments instead of enterprises
+  const establishmentsOnly = resultType === 'establishment'
+  const pagedTotal = establishmentsOnly ? establishmentTotal : total
+  const totalPages = Math.ceil(pagedTotal / limit)
+
+  const pagination = totalPages > 1 && (
+    <div className="border-t p-4">
+      <div className="flex justify-center gap-2">
+        <button
+          onClick={() => executeSearch(currentPage - 1, filters, resultType)}
+          disabled={currentPage === 1 || loading}
+          className="px-4 py-2 rounded-lg border hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Previous
+        </button>
+        <div className="flex items-center gap-2">
+          {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+            let pageNum: number
+            if (totalPages <= 5) {
+              pageNum = i + 1
+            } else if (currentPage <= 3) {
+              pageNum = i + 1
+            } else if (currentPage >= totalPages - 2) {
+              pageNum = totalPages - 4 + i
+            } else {
+              pageNum = currentPage - 2 + i
+            }
+
+            return (
+              <button
+                key={pageNum}
+                onClick={() => executeSearch(pageNum, filters, resultType)}
+                disabled={loading}
+                className={`px-4 py-2 rounded-lg border ${
+                  currentPage === pageNum
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'hover:bg-gray-50'
+                } disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {pageNum}
+              </button>
+            )
+          })}
+        </div>
+        <button
+          onClick={() => executeSearch(currentPage + 1, filters, resultType)}
+          disabled={currentPage === totalPages || loading}
+          className="px-4 py-2 rounded-lg border hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  )
 
   return (
     <div>
@@ -92,7 +241,7 @@ export default function BrowsePage() {
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Enter enterprise number, name, or NACE code..."
+                placeholder="Enter enterprise or establishment number, name, address, or NACE code..."
                 className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
@@ -103,13 +252,14 @@ export default function BrowsePage() {
               <select
                 id="type"
                 value={searchType}
-                onChange={(e) => setSearchType(e.target.value as 'all' | 'number' | 'name' | 'nace')}
+                onChange={(e) => setSearchType(e.target.value as SearchType)}
                 className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="all">All</option>
                 <option value="number">Enterprise Number</option>
                 <option value="name">Name</option>
                 <option value="nace">NACE Code</option>
+                <option value="establishment">Establishment</option>
               </select>
             </div>
             <div className="flex items-end">
@@ -122,6 +272,202 @@ export default function BrowsePage() {
               </button>
             </div>
           </div>
+
+          {/* Structured Filters (counts are for the current search) */}
+          <div className="border-t pt-4">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-sm font-medium text-gray-700">
+                Filters{activeFilterCount > 0 && ` (${activeFilterCount} active)`}
+              </h3>
+              {activeFilterCount > 0 && (
+                <button
+                  type="button"
+                  onClick={clearFilters}
+                  disabled={loading}
+                  className="text-sm text-blue-600 hover:text-blue-800 hover:underline disabled:opacity-50"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <label htmlFor="filter-status" className="block text-xs font-medium text-gray-600 mb-1">
+                  Status
+                </label>
+                <select
+                  id="filter-status"
+                  value={filters.status}
+                  onChange={(e) => updateFilter('status', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Any</option>
+                  <option value="AC">{withCount('Active', facetCount('status', 'AC'))}</option>
+                  <option value="ST">{withCount('Ceased', facetCount('status', 'ST'))}</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="filter-entity-type" className="block text-xs font-medium text-gray-600 mb-1">
+                  Entity Type
+                </label>
+                <select
+                  id="filter-entity-type"
+                  value={filters.entity_type}
+                  onChange={(e) => updateFilter('entity_type', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Any</option>
+                  <option value="1">{withCount('Natural person', facetCount('entityType', '1'))}</option>
+                  <option value="2">{withCount('Legal person', facetCount('entityType', '2'))}</option>
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label htmlFor="filter-juridical-form" className="block text-xs font-medium text-gray-600 mb-1">
+                  Juridical Form
+                </label>
+                <select
+                  id="filter-juridical-form"
+                  value={filters.juridical_form}
+                  onChange={(e) => updateFilter('juridical_form', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Any</option>
+                  {facetOptions('juridicalForm', filters.juridical_form).map((f) => (
+                    <option key={f.value} value={f.value}>
+                      {withCount(f.label ? `${f.value} - ${f.label}` : f.value, f.count)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="filter-nace" className="block text-xs font-medium text-gray-600 mb-1">
+                  NACE Code (prefix)
+                </label>
+                <input
+                  id="filter-nace"
+                  type="text"
+                  list="filter-nace-divisions"
+                  value={filters.nace}
+                  onChange={(e) => updateFilter('nace', e.target.value)}
+                  placeholder="e.g. 62 or 62.01"
+                  className={inputClassName}
+                />
+                <datalist id="filter-nace-divisions">
+                  {(facets?.nace ?? []).map((f) => (
+                    <option key={f.value} value={f.value}>{withCount(`Division ${f.value}`, f.count)}</option>
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label htmlFor="filter-nace-version" className="block text-xs font-medium text-gray-600 mb-1">
+                  NACE Version
+                </label>
+                <select
+                  id="filter-nace-version"
+                  value={filters.nace_version}
+                  onChange={(e) => updateFilter('nace_version', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Any</option>
+                  {['2003', '2008', '2025'].map((version) => (
+                    <option key={version} value={version}>
+                      {withCount(version, facetCount('naceVersion', version))}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label htmlFor="filter-activity-group" className="block text-xs font-medium text-gray-600 mb-1">
+                  Activity Group
+                </label>
+                <select
+                  id="filter-activity-group"
+                  value={filters.activity_group}
+                  onChange={(e) => updateFilter('activity_group', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Any</option>
+                  {facetOptions('activityGroup', filters.activity_group).map((f) => (
+                    <option key={f.value} value={f.value}>
+                      {withCount(f.label ? `${f.value} - ${f.label}` : f.value, f.count)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="filter-province" className="block text-xs font-medium text-gray-600 mb-1">
+                  Province
+                </label>
+                <select
+                  id="filter-province"
+                  value={filters.province}
+                  onChange={(e) => updateFilter('province', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Any</option>
+                  {BELGIAN_PROVINCES.map((province) => (
+                    <option key={province.name} value={province.name}>
+                      {withCount(province.name, facetCount('province', province.name))}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Postal Code Range
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={filters.zipcode_from}
+                    onChange={(e) => updateFilter('zipcode_from', e.target.value)}
+                    placeholder="From"
+                    aria-label="Postal code from"
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={filters.zipcode_to}
+                    onChange={(e) => updateFilter('zipcode_to', e.target.value)}
+                    placeholder="To"
+                    aria-label="Postal code to"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Start Date
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="date"
+                    value={filters.start_date_from}
+                    onChange={(e) => updateFilter('start_date_from', e.target.value)}
+                    aria-label="Start date from"
+                    className={inputClassName}
+                  />
+                  <input
+                    type="date"
+                    value={filters.start_date_to}
+                    onChange={(e) => updateFilter('start_date_to', e.target.value)}
+                    aria-label="Start date to"
+                    className={inputClassName}
+                  />
+                </div>
+                {facets && facets.startYear.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Most recent start years:{' '}
+                    {facets.startYear.slice(0, 5).map((f) => withCount(f.value, f.count)).join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
         </form>
       </div>
 
@@ -132,162 +478,208 @@ export default function BrowsePage() {
         </div>
       )}
 
-      {/* Results */}
-      <div className="bg-white rounded-lg border">
-        {/* Results Header */}
-        <div className="border-b p-4">
-          <div className="flex justify-between items-center">
-            <h2 className="text-lg font-semibold">
-              {total > 0 ? `${total.toLocaleString()} enterprises found` : 'No results'}
-            </h2>
-            {totalPages > 1 && (
-              <div className="text-sm text-gray-600">
-                Page {currentPage} of {totalPages}
-              </div>
-            )}
-          </div>
-        </div>
-
-        {/* Results Table */}
-        {loading ? (
-          <div className="p-8 text-center text-gray-500">
-            <div className="animate-pulse">Loading...</div>
+      {/* Establishment Results (preview for number and free-text searches) */}
+      {!loading && (establishmentsOnly || establishments.length > 0) && (
+        <div className="bg-white rounded-lg border mb-6">
+          <div className="border-b p-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-semibold">
+                {establishmentTotal > 0
+                  ? `${establishmentTotal.toLocaleString()} establishments found`
+                  : 'No establishments found'}
+              </h2>
+              {establishmentsOnly && totalPages > 1 && (
+                <div className="text-sm text-gray-600">
+                  Page {currentPage} of {totalPages}
+                </div>
+              )}
+              {!establishmentsOnly && establishmentTotal > establishments.length && (
+                <button
+                  onClick={showAllEstablishments}
+                  className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                  Show all establishments
+                </button>
+              )}
+            </div>
           </div>
-        ) : results.length > 0 ? (
-          <>
+          {establishments.length > 0 && (
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-gray-50 border-b">
                   <tr>
                     <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-40">
-                      Enterprise Number
+                      Establishment Number
                     </th>
                     <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">
                       Name
                     </th>
                     <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-64">
-                      Juridical Form
+                      Address
                     </th>
-                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-24">
-                      Status
-                    </th>
-                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-40">
-                      Location
+                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">
+                      Enterprise
                     </th>
-                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-32">
-                      Actions
+                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-24">
+                      Matched On
                     </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y">
-                  {results.map((enterprise) => (
+                  {establishments.map((est) => (
                     <tr
-                      key={enterprise.enterpriseNumber}
-                      className={`hover:bg-gray-50 ${!enterprise.isCurrent ? 'opacity-60' : ''}`}
+                      key={est.establishmentNumber}
+                      className={`hover:bg-gray-50 ${!est.isCurrent ? 'opacity-60' : ''}`}
                     >
                       <td className="px-4 py-3 text-sm font-mono w-40">
-                        {enterprise.enterpriseNumber}
+                        {est.establishmentNumber}
                       </td>
                       <td className="px-4 py-3 text-sm">
-                        <div className="flex items-center gap-2">
-                          <span>{enterprise.primaryName}</span>
-                          {!enterprise.isCurrent && (
-                            <span className="inline-block px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">
-                              Ceased
-                            </span>
-                          )}
-                        </div>
+                        {est.commercialName || '-'}
                       </td>
                       <td className="px-4 py-3 text-sm w-64">
-                        {enterprise.juridicalFormDescription || '-'}
-                      </td>
-                      <td className="px-4 py-3 text-sm w-24">
-                        <span
-                          className={`inline-block px-2 py-1 rounded text-xs font-medium ${
-                            enterprise.status === 'AC'
-                              ? 'bg-green-100 text-green-800'
-                              : enterprise.status === 'ST'
-                              ? 'bg-red-100 text-red-800'
-                              : 'bg-gray-100 text-gray-800'
-                          }`}
-                        >
-                          {enterprise.status === 'AC' ? 'Active' : enterprise.status === 'ST' ? 'Ceased' : enterprise.status}
-                        </span>
+                        {est.address || est.municipality
+                          ? [est.address, [est.zipcode, est.municipality].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+                          : '-'}
                       </td>
-                      <td className="px-4 py-3 text-sm w-40">
-                        {enterprise.municipality || '-'}
-                      </td>
-                      <td className="px-4 py-3 text-sm w-32">
+                      <td className="px-4 py-3 text-sm">
                         <Link
-                          href={`/admin/browse/${enterprise.enterpriseNumber}`}
+                          href={`/admin/browse/${est.enterpriseNumber}#establishment-${est.establishmentNumber}`}
                           className="text-blue-600 hover:text-blue-800 hover:underline"
                         >
-                          View Details
+                          {est.enterpriseName}
                         </Link>
+                        <div className="text-xs text-gray-500 font-mono">
+                          {est.enterpriseNumber}
+                          {est.enterpriseStatus === 'ST' && (
+                            <span className="ml-2 inline-block px-1.5 py-0.5 rounded font-sans font-medium bg-red-100 text-red-700">
+                              Ceased
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm w-24 capitalize">
+                        {est.matchedOn}
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
+          )}
+          {establishmentsOnly && pagination}
+        </div>
+      )}
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="border-t p-4">
-                <div className="flex justify-center gap-2">
-                  <button
-                    onClick={() => executeSearch(currentPage - 1)}
-                    disabled={currentPage === 1 || loading}
-                    className="px-4 py-2 rounded-lg border hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Previous
-                  </button>
-                  <div className="flex items-center gap-2">
-                    {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                      let pageNum: number
-                      if (totalPages <= 5) {
-                        pageNum = i + 1
-                      } else if (currentPage <= 3) {
-                        pageNum = i + 1
-                      } else if (currentPage >= totalPages - 2) {
-                        pageNum = totalPages - 4 + i
-                      } else {
-                        pageNum = currentPage - 2 + i
-                      }
-
-                      return (
-                        <button
-                          key={pageNum}
-                          onClick={() => executeSearch(pageNum)}
-                          disabled={loading}
-                          className={`px-4 py-2 rounded-lg border ${
-                            currentPage === pageNum
-                              ? 'bg-blue-600 text-white border-blue-600'
-                              : 'hover:bg-gray-50'
-                          } disabled:opacity-50 disabled:cursor-not-allowed`}
-                        >
-                          {pageNum}
-                        </button>
-                      )
-                    })}
-                  </div>
-                  <button
-                    onClick={() => executeSearch(currentPage + 1)}
-                    disabled={currentPage === totalPages || loading}
-                    className="px-4 py-2 rounded-lg border hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Next
-                  </button>
+      {/* Results */}
+      {!establishmentsOnly && (
+        <div className="bg-white rounded-lg border">
+          {/* Results Header */}
+          <div className="border-b p-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-semibold">
+                {total > 0 ? `${total.toLocaleString()} enterprises found` : 'No results'}
+              </h2>
+              {totalPages > 1 && (
+                <div className="text-sm text-gray-600">
+                  Page {currentPage} of {totalPages}
                 </div>
-              </div>
-            )}
-          </>
-        ) : (
-          <div className="p-8 text-center text-gray-500">
-            No enterprises found. Try a different search.
+              )}
+            </div>
           </div>
-        )}
-      </div>
+
+          {/* Results Table */}
+          {loading ? (
+            <div className="p-8 text-center text-gray-500">
+              <div className="animate-pulse">Loading...</div>
+            </div>
+          ) : results.length > 0 ? (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-40">
+                        Enterprise Number
+                      </th>
+                      <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">
+                        Name
+                      </th>
+                      <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-64">
+                        Juridical Form
+                      </th>
+                      <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-24">
+                        Status
+                      </th>
+                      <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-40">
+                        Location
+                      </th>
+                      <th className="text-left px-4 py-3 text-sm font-medium text-gray-600 w-32">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {results.map((enterprise) => (
+                      <tr
+                        key={enterprise.enterpriseNumber}
+                        className={`hover:bg-gray-50 ${!enterprise.isCurrent ? 'opacity-60' : ''}`}
+                      >
+                        <td className="px-4 py-3 text-sm font-mono w-40">
+                          {enterprise.enterpriseNumber}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span>{enterprise.primaryName}</span>
+                            {!enterprise.isCurrent && (
+                              <span className="inline-block px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">
+                                Ceased
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm w-64">
+                          {enterprise.juridicalFormDescription || '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm w-24">
+                          <span
+                            className={`inline-block px-2 py-1 rounded text-xs font-medium ${
+                              enterprise.status === 'AC'
+                                ? 'bg-green-100 text-green-800'
+                                : enterprise.status === 'ST'
+                                ? 'bg-red-100 text-red-800'
+                                : 'bg-gray-100 text-gray-800'
+                            }`}
+                          >
+                            {enterprise.status === 'AC' ? 'Active' : enterprise.status === 'ST' ? 'Ceased' : enterprise.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm w-40">
+                          {enterprise.municipality || '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm w-32">
+                          <Link
+                            href={`/admin/browse/${enterprise.enterpriseNumber}`}
+                            className="text-blue-600 hover:text-blue-800 hover:underline"
+                          >
+                            View Details
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {pagination}
+            </>
+          ) : (
+            <div className="p-8 text-center text-gray-500">
+              No enterprises found. Try a different search.
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
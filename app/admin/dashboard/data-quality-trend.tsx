@@ -0,0 +1,91 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { DataQualityResponse } from '@/app/api/import-jobs/data-quality/route'
+
+export function DataQualityTrend() {
+  const [data, setData] = useState<DataQualityResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const hasFetchedRef = useRef(false)
+
+  useEffect(() => {
+    // Prevent double-fetch in React Strict Mode
+    if (hasFetchedRef.current) return
+    hasFetchedRef.current = true
+
+    const fetchFindings = async () => {
+      try {
+        const res = await fetch('/api/import-jobs/data-quality')
+        if (!res.ok) throw new Error('Failed to fetch data quality findings')
+        setData(await res.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load data quality findings')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchFindings()
+  }, [])
+
+  return (
+    <div className="rounded-lg border bg-white p-6 mt-8">
+      <h2 className="text-xl font-semibold mb-1">Data Quality</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Rule violations after each import, oldest to newest. Red bars exceeded their threshold and failed the import.
+      </p>
+
+      {loading && <p className="text-sm text-gray-500">Loading...</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {data && data.jobs.length === 0 && (
+        <p className="text-sm text-gray-500">No import has been checked yet.</p>
+      )}
+
+      {data && data.jobs.length > 0 && (
+        <div className="space-y-5">
+          {data.rules.map((rule) => {
+            const points = data.jobs.map((job) => ({
+              job,
+              finding: job.findings.find((f) => f.rule_id === rule.id),
+            }))
+            const maxViolations = Math.max(1, ...points.map((p) => p.finding?.violations ?? 0))
+            const latest = points[points.length - 1].finding
+            const threshold = data.thresholds[rule.id] ?? null
+
+            return (
+              <div key={rule.id}>
+                <div className="flex justify-between items-baseline text-sm mb-1">
+                  <div>
+                    <span className="font-medium">{rule.description}</span>
+                    <span className="ml-2 text-gray-400 text-xs font-mono">{rule.id}</span>
+                  </div>
+                  <div className="tabular-nums text-right">
+                    <span className={`font-medium ${latest?.exceeded ? 'text-red-600' : ''}`}>
+                      {latest ? latest.violations.toLocaleString() : '-'}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {threshold === null ? 'no threshold' : `threshold ${threshold.toLocaleString()}`}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-end gap-1 h-10 bg-gray-50 rounded px-1">
+                  {points.map(({ job, finding }) => (
+                    <div
+                      key={job.job_id}
+                      className={`flex-1 rounded-t ${finding?.exceeded ? 'bg-red-500' : 'bg-blue-500'}`}
+                      style={{ height: `${((finding?.violations ?? 0) / maxViolations) * 100}%` }}
+                      title={`Extract #${job.extract_number} (${job.snapshot_date}): ${(finding?.violations ?? 0).toLocaleString()} violations${
+                        finding?.sample.length ? `\ne.g. ${finding.sample.join(', ')}` : ''
+                      }`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
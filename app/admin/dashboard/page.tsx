@@ -1,10 +1,12 @@
 import { DatabaseStats } from './stats'
+import { DataQualityTrend } from './data-quality-trend'
 
 export default function DashboardPage() {
   return (
     <div>
       <h1 className="text-3xl font-bold mb-6">Dashboard</h1>
       <DatabaseStats />
+      <DataQualityTrend />
     </div>
   )
 }
@@ -0,0 +1,414 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { BELGIAN_PROVINCES } from '@/lib/config/provinces'
+import {
+  EXPORT_COLUMNS,
+  EXPORT_LANGUAGES,
+  type ExportColumnId,
+  type ExportColumnSource,
+  type ExportSpec,
+} from '@/lib/export/spec'
+import type { SearchFilters } from '@/lib/motherduck/search-filters'
+import type { Language } from '@/lib/types/codes'
+
+/**
+ * Form fields, as typed by the user
+ */
+interface FormState {
+  label: string
+  juridicalForms: string
+  status: string
+  entityType: string
+  naceCode: string
+  naceVersion: string
+  activityGroup: string
+  province: string
+  zipcodeFrom: string
+  zipcodeTo: string
+  startDateFrom: string
+  startDateTo: string
+  extractNumber: string
+  snapshotDate: string
+  language: Language
+  columns: ExportColumnId[]
+}
+
+const DEFAULT_COLUMNS: ExportColumnId[] = ['enterprise_number', 'name', 'juridical_form', 'zipcode', 'municipality', 'main_nace_code']
+
+const EMPTY_FORM: FormState = {
+  label: '',
+  juridicalForms: '',
+  status: 'AC',
+  entityType: '',
+  naceCode: '',
+  naceVersion: '',
+  activityGroup: '',
+  province: '',
+  zipcodeFrom: '',
+  zipcodeTo: '',
+  startDateFrom: '',
+  startDateTo: '',
+  extractNumber: '',
+  snapshotDate: '',
+  language: 'NL',
+  columns: DEFAULT_COLUMNS,
+}
+
+const SOURCE_LABELS: Record<ExportColumnSource, string> = {
+  enterprises: 'Enterprise',
+  addresses: 'Registered office address',
+  activities: 'Activities',
+  contacts: 'Contact details',
+}
+
+const inputClassName = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function specToForm(spec: ExportSpec): FormState {
+  const filters = spec.filters ?? {}
+  return {
+    label: spec.label ?? '',
+    juridicalForms: filters.juridicalForms?.join(', ') ?? '',
+    status: filters.status ?? '',
+    entityType: filters.entityType ?? '',
+    naceCode: filters.naceCode ?? '',
+    naceVersion: filters.naceVersion ?? '',
+    activityGroup: filters.activityGroup ?? '',
+    province: filters.province ?? '',
+    zipcodeFrom: filters.zipcodeFrom?.toString() ?? '',
+    zipcodeTo: filters.zipcodeTo?.toString() ?? '',
+    startDateFrom: filters.startDateFrom ?? '',
+    startDateTo: filters.startDateTo ?? '',
+    extractNumber: spec.asOf?.extractNumber?.toString() ?? '',
+    snapshotDate: spec.asOf?.extractNumber ? '' : spec.asOf?.snapshotDate ?? '',
+    language: spec.language ?? 'NL',
+    columns: spec.columns?.length ? spec.columns : DEFAULT_COLUMNS,
+  }
+}
+
+/**
+ * Build the spec sent to the server; validation happens there
+ */
+function formToSpec(form: FormState): ExportSpec {
+  const filters: SearchFilters = {}
+  const juridicalForms = form.juridicalForms.split(',').map((code) => code.trim()).filter(Boolean)
+  if (juridicalForms.length > 0) filters.juridicalForms = juridicalForms
+  if (form.status) filters.status = form.status as SearchFilters['status']
+  if (form.entityType) filters.entityType = form.entityType as SearchFilters['entityType']
+  if (form.naceCode.trim()) filters.naceCode = form.naceCode.trim()
+  if (form.naceVersion) filters.naceVersion = form.naceVersion as SearchFilters['naceVersion']
+  if (form.activityGroup.trim()) filters.activityGroup = form.activityGroup.trim()
+  if (form.province) filters.province = form.province
+  if (form.zipcodeFrom.trim()) filters.zipcodeFrom = Number(form.zipcodeFrom.trim())
+  if (form.zipcodeTo.trim()) filters.zipcodeTo = Number(form.zipcodeTo.trim())
+  if (form.startDateFrom) filters.startDateFrom = form.startDateFrom
+  if (form.startDateTo) filters.startDateTo = form.startDateTo
+
+  const spec: ExportSpec = {
+    filters,
+    columns: form.columns,
+    language: form.language,
+  }
+  if (form.label.trim()) spec.label = form.label.trim()
+  if (form.extractNumber.trim()) {
+    spec.asOf = { extractNumber: Number(form.extractNumber.trim()) }
+  } else if (form.snapshotDate) {
+    spec.asOf = { snapshotDate: form.snapshotDate }
+  }
+  return spec
+}
+
+interface ExportBuilderProps {
+  /** Spec of an earlier export to start from */
+  template: ExportSpec | null
+  /** Called after an export completed */
+  onExported: () => void
+}
+
+export function ExportBuilder({ template, onExported }: ExportBuilderProps) {
+  const [form, setForm] = useState<FormState>(EMPTY_FORM)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (template) {
+      setForm(specToForm(template))
+      setError(null)
+    }
+  }, [template])
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const toggleColumn = (id: ExportColumnId) => {
+    setForm((prev) => ({
+      ...prev,
+      // Keep the catalog order so the export columns are predictable
+      columns: prev.columns.includes(id)
+        ? prev.columns.filter((column) => column !== id)
+        : EXPORT_COLUMNS.map((column) => column.id).filter((column) => column === id || prev.columns.includes(column)),
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setRunning(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/exports/custom', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ spec: formToSpec(form), workerType: 'web_manual' }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || data.details || 'Export failed')
+      }
+
+      onExported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const sources = Object.keys(SOURCE_LABELS) as ExportColumnSource[]
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800 font-medium">Export failed</p>
+          <p className="text-red-700 text-sm mt-1">{error}</p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="export-label" className="block text-xs font-medium text-gray-600 mb-1">
+          Label
+        </label>
+        <input
+          id="export-label"
+          type="text"
+          maxLength={200}
+          value={form.label}
+          onChange={(e) => update('label', e.target.value)}
+          placeholder="e.g. Active IT companies in Antwerp"
+          className={inputClassName}
+        />
+      </div>
+
+      <fieldset>
+        <legend className="text-sm font-semibold text-gray-800 mb-2">Enterprises</legend>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label htmlFor="export-status" className="block text-xs font-medium text-gray-600 mb-1">Status</label>
+            <select id="export-status" value={form.status} onChange={(e) => update('status', e.target.value)} className={inputClassName}>
+              <option value="">Any</option>
+              <option value="AC">Active</option>
+              <option value="ST">Ceased</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="export-entity-type" className="block text-xs font-medium text-gray-600 mb-1">Entity Type</label>
+            <select id="export-entity-type" value={form.entityType} onChange={(e) => update('entityType', e.target.value)} className={inputClassName}>
+              <option value="">Any</option>
+              <option value="1">Natural person</option>
+              <option value="2">Legal person</option>
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="export-juridical-forms" className="block text-xs font-medium text-gray-600 mb-1">Juridical Forms</label>
+            <input
+              id="export-juridical-forms"
+              type="text"
+              value={form.juridicalForms}
+              onChange={(e) => update('juridicalForms', e.target.value)}
+              placeholder="e.g. 014, 610"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="export-nace" className="block text-xs font-medium text-gray-600 mb-1">NACE Code (prefix)</label>
+            <input
+              id="export-nace"
+              type="text"
+              value={form.naceCode}
+              onChange={(e) => update('naceCode', e.target.value)}
+              placeholder="e.g. 62 or 62.01"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="export-nace-version" className="block text-xs font-medium text-gray-600 mb-1">NACE Version</label>
+            <select id="export-nace-version" value={form.naceVersion} onChange={(e) => update('naceVersion', e.target.value)} className={inputClassName}>
+              <option value="">Any</option>
+              {['2003', '2008', '2025'].map((version) => (
+                <option key={version} value={version}>{version}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="export-activity-group" className="block text-xs font-medium text-gray-600 mb-1">Activity Group</label>
+            <input
+              id="export-activity-group"
+              type="text"
+              inputMode="numeric"
+              maxLength={3}
+              value={form.activityGroup}
+              onChange={(e) => update('activityGroup', e.target.value)}
+              placeholder="e.g. 001"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="export-province" className="block text-xs font-medium text-gray-600 mb-1">Province</label>
+            <select id="export-province" value={form.province} onChange={(e) => update('province', e.target.value)} className={inputClassName}>
+              <option value="">Any</option>
+              {BELGIAN_PROVINCES.map((province) => (
+                <option key={province.name} value={province.name}>{province.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Postal Code Range</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={4}
+                value={form.zipcodeFrom}
+                onChange={(e) => update('zipcodeFrom', e.target.value)}
+                placeholder="From"
+                aria-label="Postal code from"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={4}
+                value={form.zipcodeTo}
+                onChange={(e) => update('zipcodeTo', e.target.value)}
+                placeholder="To"
+                aria-label="Postal code to"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Start Date</label>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={form.startDateFrom}
+                onChange={(e) => update('startDateFrom', e.target.value)}
+                aria-label="Start date from"
+                className={inputClassName}
+              />
+              <input
+                type="date"
+                value={form.startDateTo}
+                onChange={(e) => update('startDateTo', e.target.value)}
+                aria-label="Start date to"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-sm font-semibold text-gray-800 mb-2">Point in Time and Language</legend>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label htmlFor="export-extract" className="block text-xs font-medium text-gray-600 mb-1">As of Extract</label>
+            <input
+              id="export-extract"
+              type="text"
+              inputMode="numeric"
+              value={form.extractNumber}
+              onChange={(e) => update('extractNumber', e.target.value)}
+              placeholder="Current data"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="export-snapshot-date" className="block text-xs font-medium text-gray-600 mb-1">Or as of Date</label>
+            <input
+              id="export-snapshot-date"
+              type="date"
+              value={form.snapshotDate}
+              onChange={(e) => update('snapshotDate', e.target.value)}
+              disabled={form.extractNumber.trim() !== ''}
+              className={`${inputClassName} disabled:bg-gray-100`}
+            />
+          </div>
+          <div>
+            <label htmlFor="export-language" className="block text-xs font-medium text-gray-600 mb-1">Language</label>
+            <select
+              id="export-language"
+              value={form.language}
+              onChange={(e) => update('language', e.target.value as Language)}
+              className={inputClassName}
+            >
+              {EXPORT_LANGUAGES.map((language) => (
+                <option key={language} value={language}>{language}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-sm font-semibold text-gray-800 mb-2">Columns</legend>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {sources.map((source) => (
+            <div key={source}>
+              <p className="text-xs font-medium text-gray-600 mb-2">{SOURCE_LABELS[source]}</p>
+              <div className="space-y-1">
+                {EXPORT_COLUMNS.filter((column) => column.source === source).map((column) => (
+                  <label key={column.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={column.id === 'enterprise_number' || form.columns.includes(column.id)}
+                      disabled={column.id === 'enterprise_number'}
+                      onChange={() => toggleColumn(column.id)}
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="submit"
+          disabled={running}
+          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed font-medium"
+        >
+          {running ? 'Running Export...' : 'Run Custom Export'}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setForm(EMPTY_FORM)
+            setError(null)
+          }}
+          className="text-sm text-gray-600 hover:text-gray-800"
+        >
+          Reset
+        </button>
+      </div>
+    </form>
+  )
+}
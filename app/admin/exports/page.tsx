@@ -1,10 +1,14 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
+import { EXPORT_FILE_NAMES, type ExportFormat, type ExportType } from '@/lib/export/types'
+import type { ExportSpec } from '@/lib/export/spec'
+import { ExportBuilder } from './export-builder'
 
 interface ExportJob {
   id: string
-  export_type: 'vat_entities' | 'all_entities'
+  export_type: ExportType
+  filter_config: string | Record<string, unknown> | null
   status: 'pending' | 'running' | 'completed' | 'failed'
   started_at: string | null
   completed_at: string | null
@@ -15,12 +19,68 @@ interface ExportJob {
   created_at: string
 }
 
+const DOWNLOAD_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'parquet', label: 'Parquet' },
+  { value: 'ndjson', label: 'JSON Lines (NDJSON)' },
+]
+
+/**
+ * Export spec stored with a custom export job (filter_config arrives as JSON text)
+ */
+function jobSpec(job: ExportJob): ExportSpec | null {
+  if (job.export_type !== 'custom' || !job.filter_config) return null
+  try {
+    return (typeof job.filter_config === 'string' ? JSON.parse(job.filter_config) : job.filter_config) as ExportSpec
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Extract range of a change-feed export job
+ */
+function jobRange(job: ExportJob): { from_extract: number; to_extract: number } | null {
+  if (job.export_type !== 'change_feed' || !job.filter_config) return null
+  try {
+    return (typeof job.filter_config === 'string' ? JSON.parse(job.filter_config) : job.filter_config) as {
+      from_extract: number
+      to_extract: number
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Watchlist of a watchlist digest export job
+ */
+function jobWatchlist(job: ExportJob): { watchlist_name: string; since: string | null } | null {
+  if (job.export_type !== 'watchlist_digest' || !job.filter_config) return null
+  try {
+    return (typeof job.filter_config === 'string' ? JSON.parse(job.filter_config) : job.filter_config) as {
+      watchlist_name: string
+      since: string | null
+    }
+  } catch {
+    return null
+  }
+}
+
+function cliCommand(job: ExportJob): string {
+  const database = process.env.NEXT_PUBLIC_MOTHERDUCK_DATABASE || 'newagekbo'
+  return `duckdb -c "COPY (SELECT * FROM md:${database}.${job.table_name}) TO '${EXPORT_FILE_NAMES[job.export_type] ?? 'export'}.csv' (FORMAT CSV, HEADER)"`
+}
+
 export default function ExportsPage() {
   const [jobs, setJobs] = useState<ExportJob[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [generating, setGenerating] = useState(false)
   const [generateError, setGenerateError] = useState<string | null>(null)
+  const [template, setTemplate] = useState<ExportSpec | null>(null)
+  const [downloadFormat, setDownloadFormat] = useState<ExportFormat>('csv')
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1)
@@ -105,7 +165,13 @@ export default function ExportsPage() {
   }
 
   const handleDownload = (jobId: string) => {
-    window.location.href = `/api/admin/exports/${jobId}/download`
+    window.location.href = `/api/admin/exports/${jobId}/download?format=${downloadFormat}`
+  }
+
+  const handleUseTemplate = (spec: ExportSpec) => {
+    // New object, so the same template can be loaded twice
+    setTemplate({ ...spec })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
   const handleShowCLI = (job: ExportJob) => {
@@ -189,7 +255,7 @@ export default function ExportsPage() {
       {/* Create New Export Section */}
       <div className="bg-white rounded-lg border p-6 mb-6">
         <div className="mb-4">
-          <h2 className="text-xl font-semibold">Create New Export</h2>
+          <h2 className="text-xl font-semibold">Entities Export</h2>
           <p className="text-gray-600 text-sm mt-1">
             Export all active entities with activity group flags (ag_001 through ag_007)
           </p>
@@ -230,13 +296,42 @@ export default function ExportsPage() {
         </p>
       </div>
 
+      {/* Custom Export Builder */}
+      <div className="bg-white rounded-lg border p-6 mb-6">
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold">Custom Export</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            Choose the enterprises, point in time, columns and language. The enterprise number is always the first column.
+          </p>
+        </div>
+
+        <ExportBuilder template={template} onExported={() => fetchJobs(1)} />
+      </div>
+
       {/* Export History */}
       <div className="bg-white rounded-lg border">
-        <div className="border-b p-4">
-          <h2 className="text-lg font-semibold">Export History</h2>
-          <p className="text-sm text-gray-600 mt-1">
-            Track all export jobs and download results ({total.toLocaleString()} total)
-          </p>
+        <div className="border-b p-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Export History</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Track all export jobs and download results ({total.toLocaleString()} total)
+            </p>
+          </div>
+          <div>
+            <label htmlFor="download-format" className="block text-xs font-medium text-gray-600 mb-1">
+              Download Format
+            </label>
+            <select
+              id="download-format"
+              value={downloadFormat}
+              onChange={(e) => setDownloadFormat(e.target.value as ExportFormat)}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {DOWNLOAD_FORMATS.map((format) => (
+                <option key={format.value} value={format.value}>{format.label}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {error && (
@@ -258,6 +353,7 @@ export default function ExportsPage() {
                 <thead className="bg-gray-50 border-b">
                   <tr>
                     <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Status</th>
+                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Export</th>
                     <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Created At</th>
                     <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Duration</th>
                     <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Records</th>
@@ -267,95 +363,136 @@ export default function ExportsPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {jobs.map((job) => (
-                    <tr key={job.id} className="border-b hover:bg-gray-50">
-                      <td className="px-4 py-3 text-sm">{getStatusBadge(job.status)}</td>
-                      <td className="px-4 py-3 text-sm">
-                        {job.created_at ? new Date(job.created_at).toLocaleString() : '-'}
-                      </td>
-                      <td className="px-4 py-3 text-sm">
-                        {formatDuration(job.started_at, job.completed_at)}
-                      </td>
-                      <td className="px-4 py-3 text-sm">
-                        {job.records_exported.toLocaleString()}
-                      </td>
-                      <td className="px-4 py-3 text-sm font-mono text-xs">
-                        {job.table_name || '-'}
-                      </td>
-                      <td className="px-4 py-3 text-sm">
-                        {job.status === 'completed' ? formatExpiry(job.expires_at) : '-'}
-                      </td>
-                      <td className="px-4 py-3 text-sm">
-                        <div className="flex gap-2">
-                          {job.status === 'completed' && (
+                  {jobs.map((job) => {
+                    const spec = jobSpec(job)
+                    const range = jobRange(job)
+                    const digest = jobWatchlist(job)
+                    return (
+                      <tr key={job.id} className="border-b hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm">{getStatusBadge(job.status)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {spec ? (
                             <>
-                              <button
-                                onClick={() => handleDownload(job.id)}
-                                className="text-blue-600 hover:text-blue-800 text-xs font-medium flex items-center gap-1"
-                                title="Download CSV"
-                              >
-                                <svg className="w-4 h-4" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                                </svg>
-                                Download
-                              </button>
-                              <button
-                                onClick={() => handleShowCLI(job)}
-                                className="text-green-600 hover:text-green-800 text-xs font-medium flex items-center gap-1"
-                                title="Show CLI command"
-                              >
-                                <svg className="w-4 h-4" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                                </svg>
-                                CLI
-                              </button>
+                              <div>{spec.label || 'Custom export'}</div>
+                              <div className="text-xs text-gray-500">
+                                {spec.columns.length} columns, {spec.language}
+                                {spec.asOf?.extractNumber ? `, extract ${spec.asOf.extractNumber}` : ''}
+                              </div>
                             </>
+                          ) : range ? (
+                            <>
+                              <div>Change feed</div>
+                              <div className="text-xs text-gray-500">
+                                Extracts {range.from_extract} to {range.to_extract}
+                              </div>
+                            </>
+                          ) : digest ? (
+                            <>
+                              <div>Watchlist digest</div>
+                              <div className="text-xs text-gray-500">
+                                {digest.watchlist_name}{digest.since ? `, since ${digest.since}` : ''}
+                              </div>
+                            </>
+                          ) : (
+                            'All entities'
                           )}
-                          {job.status === 'failed' && job.error_message && (
-                            <span className="text-red-600 text-xs" title={job.error_message}>
-                              Error
-                            </span>
-                          )}
-                          {confirmDeleteId === job.id ? (
-                            <div className="flex items-center gap-1">
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {job.created_at ? new Date(job.created_at).toLocaleString() : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {formatDuration(job.started_at, job.completed_at)}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {job.records_exported.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono text-xs">
+                          {job.table_name || '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {job.status === 'completed' ? formatExpiry(job.expires_at) : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex gap-2">
+                            {job.status === 'completed' && (
+                              <>
+                                <button
+                                  onClick={() => handleDownload(job.id)}
+                                  className="text-blue-600 hover:text-blue-800 text-xs font-medium flex items-center gap-1"
+                                  title="Download"
+                                >
+                                  <svg className="w-4 h-4" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                  </svg>
+                                  Download
+                                </button>
+                                <button
+                                  onClick={() => handleShowCLI(job)}
+                                  className="text-green-600 hover:text-green-800 text-xs font-medium flex items-center gap-1"
+                                  title="Show CLI command"
+                                >
+                                  <svg className="w-4 h-4" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                  </svg>
+                                  CLI
+                                </button>
+                              </>
+                            )}
+                            {spec && (
                               <button
-                                onClick={() => handleDeleteConfirm(job.id)}
-                                className="text-white bg-red-600 hover:bg-red-700 text-xs font-medium px-2 py-0.5 rounded"
+                                onClick={() => handleUseTemplate(spec)}
+                                className="text-gray-600 hover:text-gray-800 text-xs font-medium"
+                                title="Load this export's settings into the custom export form"
                               >
-                                Confirm
+                                Use as template
                               </button>
+                            )}
+                            {job.status === 'failed' && job.error_message && (
+                              <span className="text-red-600 text-xs" title={job.error_message}>
+                                Error
+                              </span>
+                            )}
+                            {confirmDeleteId === job.id ? (
+                              <div className="flex items-center gap-1">
+                                <button
+                                  onClick={() => handleDeleteConfirm(job.id)}
+                                  className="text-white bg-red-600 hover:bg-red-700 text-xs font-medium px-2 py-0.5 rounded"
+                                >
+                                  Confirm
+                                </button>
+                                <button
+                                  onClick={handleDeleteCancel}
+                                  className="text-gray-600 hover:text-gray-800 text-xs font-medium px-2 py-0.5 border rounded hover:bg-gray-100"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            ) : deletingJobId === job.id ? (
+                              <span className="text-red-600 text-xs font-medium flex items-center gap-1">
+                                <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24">
+                                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                                </svg>
+                                Deleting...
+                              </span>
+                            ) : (
                               <button
-                                onClick={handleDeleteCancel}
-                                className="text-gray-600 hover:text-gray-800 text-xs font-medium px-2 py-0.5 border rounded hover:bg-gray-100"
+                                onClick={() => handleDeleteClick(job.id)}
+                                disabled={job.status === 'running'}
+                                className="text-red-600 hover:text-red-800 text-xs font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Delete export"
                               >
-                                Cancel
+                                <svg className="w-4 h-4" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                </svg>
+                                Delete
                               </button>
-                            </div>
-                          ) : deletingJobId === job.id ? (
-                            <span className="text-red-600 text-xs font-medium flex items-center gap-1">
-                              <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                              </svg>
-                              Deleting...
-                            </span>
-                          ) : (
-                            <button
-                              onClick={() => handleDeleteClick(job.id)}
-                              disabled={job.status === 'running'}
-                              className="text-red-600 hover:text-red-800 text-xs font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
-                              title="Delete export"
-                            >
-                              <svg className="w-4 h-4" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
-                                <path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                              </svg>
-                              Delete
-                            </button>
-                          )}
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
                 </tbody>
               </table>
             </div>
@@ -442,16 +579,14 @@ export default function ExportsPage() {
 
             <div className="bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm overflow-x-auto mb-4">
               <code>
-                {`duckdb -c "COPY (SELECT * FROM md:${process.env.NEXT_PUBLIC_MOTHERDUCK_DATABASE || 'newagekbo'}.${selectedJob.table_name}) TO 'vat-entities.csv' (FORMAT CSV, HEADER)"`}
+                {cliCommand(selectedJob)}
               </code>
             </div>
 
             <div className="flex justify-end gap-3">
               <button
                 onClick={() => {
-                  navigator.clipboard.writeText(
-                    `duckdb -c "COPY (SELECT * FROM md:${process.env.NEXT_PUBLIC_MOTHERDUCK_DATABASE || 'newagekbo'}.${selectedJob.table_name}) TO 'vat-entities.csv' (FORMAT CSV, HEADER)"`
-                  )
+                  navigator.clipboard.writeText(cliCommand(selectedJob))
                 }}
                 className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
               >
@@ -30,6 +30,84 @@ interface ImportProgress {
   } | null
 }
 
+interface PreviewList<T> {
+  total: number
+  items: T[]
+}
+
+interface ImportPreview {
+  report: {
+    extract_number: number
+    snapshot_date: string
+    generated_at: string
+    tables: { table: string; deletes: number; inserts: number; rows_closed: number }[]
+    status_changes: PreviewList<{
+      enterprise_number: string
+      name: string | null
+      old_status: string
+      new_status: string
+      old_juridical_situation: string | null
+      new_juridical_situation: string | null
+    }>
+    new_enterprises: PreviewList<{
+      enterprise_number: string
+      name: string | null
+      status: string | null
+      juridical_form: string | null
+      start_date: string | null
+    }>
+    struck_off_enterprises: PreviewList<{
+      enterprise_number: string
+      name: string | null
+      reason: 'removed' | 'stopped'
+    }>
+    denomination_changes: PreviewList<{
+      entity_number: string
+      language: string
+      denomination_type: string
+      old_denomination: string | null
+      new_denomination: string | null
+    }>
+  }
+  created_at: string
+  applied_at: string | null
+  applied_by: string | null
+}
+
+/**
+ * Collapsible list of one change category in the preview
+ */
+function PreviewSection<T>({
+  title,
+  list,
+  renderItem,
+}: {
+  title: string
+  list: PreviewList<T>
+  renderItem: (item: T) => React.ReactNode
+}) {
+  return (
+    <details className="border-t py-3">
+      <summary className="cursor-pointer text-sm font-medium flex items-center justify-between">
+        <span>{title}</span>
+        <span className="text-gray-600">{list.total.toLocaleString()}</span>
+      </summary>
+      {list.items.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm text-gray-700 max-h-64 overflow-y-auto">
+          {list.items.map((item, index) => (
+            <li key={index}>{renderItem(item)}</li>
+          ))}
+        </ul>
+      )}
+      {list.total > list.items.length && (
+        <p className="mt-2 text-xs text-gray-500">
+          Showing the first {list.items.length} of {list.total.toLocaleString()}
+        </p>
+      )}
+    </details>
+  )
+}
+
 export default function ImportProgressPage({
   params,
 }: {
@@ -49,7 +127,27 @@ export default function ImportProgressPage({
   const [finalizeResult, setFinalizeResult] = useState<{
     success: boolean
     names_resolved: number
+    names_indexed: number
   } | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [applying, setApplying] = useState(false)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  // Load the change preview once (only dry-run imports have one)
+  useEffect(() => {
+    const fetchPreview = async () => {
+      try {
+        const response = await fetch(`/api/admin/imports/${resolvedParams.jobId}/preview`)
+        if (response.ok) {
+          setPreview(await response.json())
+        }
+      } catch (err) {
+        console.error('Failed to fetch preview:', err)
+      }
+    }
+
+    fetchPreview()
+  }, [resolvedParams.jobId])
 
   // Auto-refresh progress every 2 seconds (stop when completed)
   useEffect(() => {
@@ -129,6 +227,47 @@ export default function ImportProgressPage({
     }
   }
 
+  const handleApply = async () => {
+    setApplying(true)
+    setPreviewError(null)
+    try {
+      const response = await fetch(
+        `/api/admin/imports/${resolvedParams.jobId}/apply`,
+        { method: 'POST' }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply import')
+      }
+      setPreview(data)
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Failed to apply import')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!window.confirm('Discard this dry run? Its staging data and import job will be removed.')) {
+      return
+    }
+
+    setPreviewError(null)
+    try {
+      const response = await fetch(
+        `/api/admin/imports/${resolvedParams.jobId}/preview`,
+        { method: 'DELETE' }
+      )
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to discard dry run')
+      }
+      router.push('/admin/imports')
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Failed to discard dry run')
+    }
+  }
+
   const handleFinalizeClick = () => {
     setShowFinalizeConfirm(true)
   }
@@ -193,6 +332,7 @@ export default function ImportProgressPage({
   const isComplete = progress.overall_progress.percentage >= 100
   const canFinalize = isComplete && progress.status !== 'completed'
   const isCompleted = progress.status === 'completed'
+  const awaitingApply = preview !== null && !preview.applied_at
 
   return (
     <div className="max-w-5xl mx-auto p-6">
@@ -224,6 +364,121 @@ export default function ImportProgressPage({
         </div>
       </div>
 
+      {/* Change Preview (dry run) */}
+      {preview && (
+        <div className={`rounded-lg border p-6 mb-6 ${awaitingApply ? 'bg-yellow-50 border-yellow-200' : 'bg-white'}`}>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-xl font-semibold">Change Preview</h2>
+            {preview.applied_at ? (
+              <span className="text-xs px-2 py-0.5 rounded font-medium bg-green-100 text-green-800">
+                Applied {new Date(preview.applied_at).toLocaleString()}
+              </span>
+            ) : (
+              <span className="text-xs px-2 py-0.5 rounded font-medium bg-yellow-100 text-yellow-800">
+                Dry run
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Extract #{preview.report.extract_number} ({preview.report.snapshot_date}) compared with the current data
+            on {new Date(preview.report.generated_at).toLocaleString()}.
+            {awaitingApply && ' Nothing has been changed yet.'}
+          </p>
+
+          <table className="w-full text-sm mb-4">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-1 font-medium">Table</th>
+                <th className="py-1 font-medium text-right">Deletes</th>
+                <th className="py-1 font-medium text-right">Current rows closed</th>
+                <th className="py-1 font-medium text-right">Inserts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.report.tables.map(table => (
+                <tr key={table.table} className="border-t">
+                  <td className="py-1 capitalize">{table.table}</td>
+                  <td className="py-1 text-right">{table.deletes.toLocaleString()}</td>
+                  <td className="py-1 text-right">{table.rows_closed.toLocaleString()}</td>
+                  <td className="py-1 text-right">{table.inserts.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <PreviewSection
+            title="Status changes"
+            list={preview.report.status_changes}
+            renderItem={item => (
+              <>
+                <span className="font-mono">{item.enterprise_number}</span> {item.name}:{' '}
+                {item.old_status} → {item.new_status}
+                {item.old_juridical_situation !== item.new_juridical_situation && (
+                  <> (situation {item.old_juridical_situation ?? '-'} → {item.new_juridical_situation ?? '-'})</>
+                )}
+              </>
+            )}
+          />
+          <PreviewSection
+            title="New enterprises"
+            list={preview.report.new_enterprises}
+            renderItem={item => (
+              <>
+                <span className="font-mono">{item.enterprise_number}</span> {item.name ?? '(no name)'}
+                {item.start_date && <span className="text-gray-500"> - started {item.start_date}</span>}
+              </>
+            )}
+          />
+          <PreviewSection
+            title="Struck-off enterprises"
+            list={preview.report.struck_off_enterprises}
+            renderItem={item => (
+              <>
+                <span className="font-mono">{item.enterprise_number}</span> {item.name}
+                <span className="text-gray-500"> - {item.reason === 'removed' ? 'removed' : 'status ST'}</span>
+              </>
+            )}
+          />
+          <PreviewSection
+            title="Denomination changes"
+            list={preview.report.denomination_changes}
+            renderItem={item => (
+              <>
+                <span className="font-mono">{item.entity_number}</span>{' '}
+                <span className="text-gray-500">(type {item.denomination_type}, lang {item.language})</span>:{' '}
+                {item.old_denomination ?? '-'} → {item.new_denomination ?? '-'}
+              </>
+            )}
+          />
+
+          {awaitingApply && (
+            <div className="flex gap-3 mt-4">
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={applying}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {applying ? 'Applying...' : 'Apply Import'}
+              </button>
+              <button
+                type="button"
+                onClick={handleDiscard}
+                disabled={applying}
+                className="bg-gray-200 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+          {previewError && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded p-3 text-sm text-red-700">
+              <span className="font-medium">Error:</span> {previewError}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Overall Progress */}
       <div className="bg-white rounded-lg border p-6 mb-6">
         <div className="flex items-center justify-between mb-4">
@@ -254,7 +509,7 @@ export default function ImportProgressPage({
       </div>
 
       {/* Processing Controls */}
-      {!isComplete && !isCompleted && (
+      {!isComplete && !isCompleted && !awaitingApply && (
         <div className="bg-white rounded-lg border p-6 mb-6">
           <h2 className="text-lg font-semibold mb-4">Batch Processing</h2>
           <div className="flex gap-4">
@@ -406,6 +661,8 @@ export default function ImportProgressPage({
           <p className="text-green-700 text-sm">
             • Primary names resolved: {finalizeResult.names_resolved}
             <br />
+            • Names indexed for search: {finalizeResult.names_indexed.toLocaleString()}
+            <br />
             • Staging data cleaned up
           </p>
         </div>
@@ -7,7 +7,7 @@ import { ExpandableJobDetails } from './components/ExpandableJobDetails'
 interface ImportJob {
   id: string
   type: 'daily' | 'monthly'
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'rolled_back' | 'cancelled'
   startedAt: string | null
   completedAt: string | null
   extractNumber: number
@@ -17,6 +17,19 @@ interface ImportJob {
   workerType: string
 }
 
+interface ExtractContinuity {
+  baselineExtract: number | null
+  lastImportedExtract: number | null
+  importedCount: number
+  missingExtracts: number[]
+  failedExtracts: number[]
+  rolledBackExtracts: number[]
+  outOfOrderExtracts: number[]
+}
+
+/** Most recent extracts shown in the continuity strip */
+const CONTINUITY_STRIP_LIMIT = 200
+
 interface AvailableFile {
   filename: string
   url: string
@@ -51,10 +64,13 @@ export default function ImportsPage() {
   const [availableFiles, setAvailableFiles] = useState<AvailableFile[]>([])
   const [filesLoading, setFilesLoading] = useState(false)
   const [filesError, setFilesError] = useState<string | null>(null)
-  const [importingFiles, setImportingFiles] = useState<Set<number>>(new Set())
-  const [fileErrors, setFileErrors] = useState<Map<number, string>>(new Map())
+  const [importingFiles, setImportingFiles] = useState<Set<string>>(new Set())
+  const [fileErrors, setFileErrors] = useState<Map<string, string>>(new Map())
   const [showImportedFiles, setShowImportedFiles] = useState(false)
 
+  // Extract continuity report
+  const [continuity, setContinuity] = useState<ExtractContinuity | null>(null)
+
   // Batched import state removed - only using URL-based imports from KBO portal
 
   const toggleJobExpansion = (jobId: string) => {
@@ -100,12 +116,18 @@ export default function ImportsPage() {
     setFilesError(null)
 
     try {
-      const response = await fetch('/api/datasets/daily-updates')
-      if (!response.ok) {
+      const responses = await Promise.all([
+        fetch('/api/datasets/daily-updates'),
+        fetch('/api/datasets/full-dumps'),
+      ])
+      if (responses.some(response => !response.ok)) {
         throw new Error('Failed to fetch available files')
       }
-      const data = await response.json()
-      setAvailableFiles(data.files || [])
+      const [updates, fullDumps] = await Promise.all(responses.map(response => response.json()))
+      setAvailableFiles(
+        [...(updates.files || []), ...(fullDumps.files || [])]
+          .sort((a: AvailableFile, b: AvailableFile) => b.extract_number - a.extract_number)
+      )
     } catch (err) {
       setFilesError(err instanceof Error ? err.message : 'Failed to fetch files')
     } finally {
@@ -113,24 +135,43 @@ export default function ImportsPage() {
     }
   }
 
+  // Fetch extract continuity report
+  const fetchContinuity = () => {
+    fetch('/api/import-jobs/continuity')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          throw new Error(data.error)
+        }
+        setContinuity(data)
+      })
+      .catch((err) => {
+        console.error('Failed to load extract continuity:', err)
+      })
+  }
+
   useEffect(() => {
     // Prevent double-fetch in React Strict Mode
     if (hasFetchedRef.current) return
     hasFetchedRef.current = true
 
     fetchJobs(1)
+    fetchContinuity()
   }, [])
 
   const handlePageChange = (newPage: number) => {
     fetchJobs(newPage)
   }
 
-  const handleBatchedImportFromUrl = async (file: AvailableFile) => {
+  const handleBatchedImportFromUrl = async (
+    file: AvailableFile,
+    options: { dryRun?: boolean; force?: boolean } = {}
+  ) => {
     // Add to importing set and clear any previous errors
-    setImportingFiles(prev => new Set(prev).add(file.extract_number))
+    setImportingFiles(prev => new Set(prev).add(file.filename))
     setFileErrors(prev => {
       const newMap = new Map(prev)
-      newMap.delete(file.extract_number)
+      newMap.delete(file.filename)
       return newMap
     })
 
@@ -142,40 +183,51 @@ export default function ImportsPage() {
         },
         body: JSON.stringify({
           url: file.url,
+          dryRun: options.dryRun === true,
+          force: options.force === true,
         }),
       })
 
       const data = await response.json()
 
+      // Out of order or gapped extract: importing it anyway needs confirmation
+      if (response.status === 409 && !options.force) {
+        if (window.confirm(`${data.error}\n\nImport extract ${file.extract_number} anyway?`)) {
+          await handleBatchedImportFromUrl(file, { ...options, force: true })
+          return
+        }
+        throw new Error(data.error)
+      }
+
       if (!response.ok) {
         throw new Error(data.error || data.details || 'Failed to prepare batched import')
       }
 
-      // Navigate directly to progress page
+      // Navigate directly to progress page (which shows the preview of a dry run)
       router.push(`/admin/imports/${data.job_id}/progress`)
     } catch (err) {
       // Set error state for this file
       setFileErrors(prev => {
         const newMap = new Map(prev)
-        newMap.set(file.extract_number, err instanceof Error ? err.message : 'Unknown error')
+        newMap.set(file.filename, err instanceof Error ? err.message : 'Unknown error')
         return newMap
       })
     } finally {
       // Remove from importing set
       setImportingFiles(prev => {
         const newSet = new Set(prev)
-        newSet.delete(file.extract_number)
+        newSet.delete(file.filename)
         return newSet
       })
     }
   }
 
-  const handleDurableImport = async (file: AvailableFile) => {
+  const handleDurableImport = async (file: AvailableFile, force = false) => {
     // Add to importing set and clear any previous errors
-    setImportingFiles(prev => new Set(prev).add(file.extract_number))
+    setImportingFiles(prev => new Set(prev).add(file.filename))
     setFileErrors(prev => {
       const newMap = new Map(prev)
-      newMap.delete(file.extract_number)
+      newMap.delete(file.filename)
       return newMap
     })
 
@@ -188,11 +240,21 @@ export default function ImportsPage() {
         body: JSON.stringify({
           fileUrl: file.url,
           filename: file.filename,
+          force,
         }),
       })
 
       const data = await response.json()
 
+      // Out of order or gapped extract: importing it anyway needs confirmation
+      if (response.status === 409 && !force) {
+        if (window.confirm(`${data.error}\n\nImport extract ${file.extract_number} anyway?`)) {
+          await handleDurableImport(file, true)
+          return
+        }
+        throw new Error(data.error)
+      }
+
       if (!response.ok) {
         throw new Error(data.error || data.details || 'Failed to start durable import')
       }
@@ -203,14 +265,14 @@ export default function ImportsPage() {
       // Set error state for this file
       setFileErrors(prev => {
         const newMap = new Map(prev)
-        newMap.set(file.extract_number, err instanceof Error ? err.message : 'Unknown error')
+        newMap.set(file.filename, err instanceof Error ? err.message : 'Unknown error')
         return newMap
       })
     } finally {
       // Remove from importing set
       setImportingFiles(prev => {
         const newSet = new Set(prev)
-        newSet.delete(file.extract_number)
+        newSet.delete(file.filename)
         return newSet
       })
     }
@@ -218,10 +280,10 @@ export default function ImportsPage() {
 
   const handleImportFile = async (file: AvailableFile) => {
     // Add to importing set and clear any previous errors
-    setImportingFiles(prev => new Set(prev).add(file.extract_number))
+    setImportingFiles(prev => new Set(prev).add(file.filename))
     setFileErrors(prev => {
       const newMap = new Map(prev)
-      newMap.delete(file.extract_number)
+      newMap.delete(file.filename)
       return newMap
     })
 
@@ -251,14 +313,14 @@ export default function ImportsPage() {
       // Set error state for this file
       setFileErrors(prev => {
         const newMap = new Map(prev)
-        newMap.set(file.extract_number, err instanceof Error ? err.message : 'Unknown error')
+        newMap.set(file.filename, err instanceof Error ? err.message : 'Unknown error')
         return newMap
       })
     } finally {
       // Remove from importing set
       setImportingFiles(prev => {
         const newSet = new Set(prev)
-        newSet.delete(file.extract_number)
+        newSet.delete(file.filename)
         return newSet
       })
     }
@@ -270,11 +332,13 @@ export default function ImportsPage() {
       running: 'bg-blue-100 text-blue-800',
       completed: 'bg-green-100 text-green-800',
       failed: 'bg-red-100 text-red-800',
+      rolled_back: 'bg-yellow-100 text-yellow-800',
+      cancelled: 'bg-gray-200 text-gray-700',
     }
 
     return (
       <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${styles[status]}`}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
       </span>
     )
   }
@@ -310,9 +374,9 @@ export default function ImportsPage() {
       <div className="bg-white rounded-lg border p-6 mb-6">
         <div className="flex justify-between items-center mb-4">
           <div>
-            <h2 className="text-xl font-semibold">Available Daily Updates</h2>
+            <h2 className="text-xl font-semibold">Available Extracts</h2>
             <p className="text-gray-600 text-sm mt-1">
-              Files available from the KBO Open Data portal
+              Daily updates and monthly full dumps available from the KBO Open Data portal
             </p>
           </div>
           <button
@@ -355,9 +419,9 @@ export default function ImportsPage() {
           const importedFiles = availableFiles.filter(f => f.imported)
 
           const FileRow = ({ file }: { file: AvailableFile }) => {
-            const fileError = fileErrors.get(file.extract_number)
+            const fileError = fileErrors.get(file.filename)
             return (
-              <div key={file.extract_number} className="border rounded-lg hover:bg-gray-50">
+              <div key={file.filename} className="border rounded-lg hover:bg-gray-50">
                 <div className="flex items-center justify-between p-4">
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-1">
@@ -384,14 +448,30 @@ export default function ImportsPage() {
                       {file.filename}
                     </p>
                   </div>
-              <div className="ml-4">
+              <div className="ml-4 flex items-center gap-2">
+                {file.file_type === 'update' && !file.imported && (
+                  <button
+                    onClick={() => handleBatchedImportFromUrl(file, { dryRun: true })}
+                    disabled={importingFiles.has(file.filename)}
+                    className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-100 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-sm flex items-center gap-2"
+                    title="Dry run - stage the update and preview its changes before applying it"
+                  >
+                    <svg className="w-4 h-4" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+                      <path d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    </svg>
+                    Preview
+                  </button>
+                )}
                 <button
                   onClick={() => handleDurableImport(file)}
-                  disabled={file.imported || importingFiles.has(file.extract_number)}
+                  disabled={file.imported || importingFiles.has(file.filename)}
                   className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm flex items-center gap-2"
-                  title="Durable import - uses Restate for automatic retries and resume"
+                  title={file.file_type === 'full'
+                    ? 'Durable full import - reconciles the snapshot with the current data, in resumable batches'
+                    : 'Durable import - uses Restate for automatic retries and resume'}
                 >
-                  {importingFiles.has(file.extract_number) ? (
+                  {importingFiles.has(file.filename) ? (
                     <>
                       <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
@@ -435,7 +515,7 @@ export default function ImportsPage() {
                     Pending Import
                   </h3>
                   <div className="space-y-2">
-                    {notImportedFiles.map(file => <FileRow key={file.extract_number} file={file} />)}
+                    {notImportedFiles.map(file => <FileRow key={file.filename} file={file} />)}
                   </div>
                 </div>
               )}
@@ -473,7 +553,7 @@ export default function ImportsPage() {
                   </button>
                   {showImportedFiles && (
                     <div className="space-y-2">
-                      {importedFiles.map(file => <FileRow key={file.extract_number} file={file} />)}
+                      {importedFiles.map(file => <FileRow key={file.filename} file={file} />)}
                     </div>
                   )}
                 </div>
@@ -483,6 +563,78 @@ export default function ImportsPage() {
         })()}
       </div>
 
+      {/* Extract Continuity */}
+      {continuity && continuity.baselineExtract !== null && continuity.lastImportedExtract !== null && (() => {
+        const missing = new Set(continuity.missingExtracts)
+        const failed = new Set(continuity.failedExtracts)
+        const rolledBack = new Set(continuity.rolledBackExtracts)
+        const outOfOrder = new Set(continuity.outOfOrderExtracts)
+        const first = Math.max(continuity.baselineExtract, continuity.lastImportedExtract - CONTINUITY_STRIP_LIMIT + 1)
+        const extracts = Array.from(
+          { length: continuity.lastImportedExtract - first + 1 },
+          (_, i) => first + i
+        )
+        const isContinuous = missing.size === 0 && outOfOrder.size === 0
+
+        return (
+          <div className="bg-white rounded-lg border p-6 mb-6">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-xl font-semibold">Extract Continuity</h2>
+                <p className="text-gray-600 text-sm mt-1">
+                  Extracts #{continuity.baselineExtract} to #{continuity.lastImportedExtract} since the last full import
+                  ({continuity.importedCount.toLocaleString()} imported)
+                </p>
+              </div>
+              {isContinuous ? (
+                <span className="inline-block px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800">
+                  ✓ No gaps
+                </span>
+              ) : (
+                <span className="inline-block px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-800">
+                  {missing.size} missing, {outOfOrder.size} out of order
+                </span>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {extracts.map((n) => (
+                <div
+                  key={n}
+                  title={`#${n}: ${
+                    failed.has(n) ? 'import failed'
+                      : rolledBack.has(n) ? 'rolled back'
+                      : missing.has(n) ? 'missing'
+                      : outOfOrder.has(n) ? 'imported out of order'
+                      : 'imported'
+                  }`}
+                  className={`w-3 h-3 rounded-sm ${
+                    missing.has(n) ? 'bg-red-500'
+                      : outOfOrder.has(n) ? 'bg-yellow-400'
+                      : 'bg-green-500'
+                  }`}
+                />
+              ))}
+            </div>
+
+            {continuity.missingExtracts.length > 0 && (
+              <p className="text-sm text-red-700 mt-4">
+                <span className="font-medium">Missing:</span>{' '}
+                {continuity.missingExtracts
+                  .map((n) => `#${n}${failed.has(n) ? ' (failed)' : rolledBack.has(n) ? ' (rolled back)' : ''}`)
+                  .join(', ')}
+              </p>
+            )}
+            {continuity.outOfOrderExtracts.length > 0 && (
+              <p className="text-sm text-yellow-800 mt-2">
+                <span className="font-medium">Imported out of order:</span>{' '}
+                {continuity.outOfOrderExtracts.map((n) => `#${n}`).join(', ')}
+              </p>
+            )}
+          </div>
+        )
+      })()}
+
       {/* Import Jobs History */}
       <div className="bg-white rounded-lg border">
         <div className="border-b p-4">
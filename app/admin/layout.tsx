@@ -35,6 +35,12 @@ export default function AdminLayout({
           >
             Browse Data
           </Link>
+          <Link
+            href="/admin/watchlists"
+            className="block rounded-lg px-4 py-2 text-gray-700 hover:bg-gray-100"
+          >
+            Watchlists
+          </Link>
           <Link
             href="/admin/imports"
             className="block rounded-lg px-4 py-2 text-gray-700 hover:bg-gray-100"
@@ -47,6 +53,12 @@ export default function AdminLayout({
           >
             Export Jobs
           </Link>
+          <Link
+            href="/admin/webhooks"
+            className="block rounded-lg px-4 py-2 text-gray-700 hover:bg-gray-100"
+          >
+            Webhooks
+          </Link>
           <Link
             href="/admin/settings"
             className="block rounded-lg px-4 py-2 text-gray-700 hover:bg-gray-100"
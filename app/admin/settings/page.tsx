@@ -8,10 +8,13 @@ export default function SettingsPage() {
     dataRetentionMonths: 24,
     autoUpdateEnabled: false,
     notificationsEnabled: true,
+    dataQualityThresholds: {} as Record<string, number | null>,
+    dataQualityRules: [] as { id: string; description: string }[],
   })
 
   const [saving, setSaving] = useState(false)
   const [saved, setSaved] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -22,6 +25,11 @@ export default function SettingsPage() {
         setConfig((prev) => ({
           ...prev,
           motherduckDatabase: data.motherduckDatabase,
+          dataRetentionMonths: data.dataRetentionMonths ?? prev.dataRetentionMonths,
+          autoUpdateEnabled: data.autoUpdateEnabled ?? prev.autoUpdateEnabled,
+          notificationsEnabled: data.notificationsEnabled ?? prev.notificationsEnabled,
+          dataQualityThresholds: data.dataQualityThresholds ?? prev.dataQualityThresholds,
+          dataQualityRules: data.dataQualityRules ?? prev.dataQualityRules,
         }))
       })
       .catch((err) => {
@@ -35,14 +43,34 @@ export default function SettingsPage() {
   const handleSave = async () => {
     setSaving(true)
     setSaved(false)
+    setSaveError(null)
 
-    // Simulate save - in production this would save to database or config
-    await new Promise((resolve) => setTimeout(resolve, 1000))
+    try {
+      const res = await fetch('/api/config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dataRetentionMonths: config.dataRetentionMonths,
+          autoUpdateEnabled: config.autoUpdateEnabled,
+          notificationsEnabled: config.notificationsEnabled,
+          dataQualityThresholds: config.dataQualityThresholds,
+        }),
+      })
+      const data = await res.json()
 
-    setSaving(false)
-    setSaved(true)
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save settings')
+      }
 
-    setTimeout(() => setSaved(false), 3000)
+      setConfig((prev) => ({ ...prev, ...data }))
+      setSaved(true)
+      setTimeout(() => setSaved(false), 3000)
+    } catch (err) {
+      console.error('Failed to save config:', err)
+      setSaveError(err instanceof Error ? err.message : 'Failed to save settings')
+    } finally {
+      setSaving(false)
+    }
   }
 
   return (
@@ -113,7 +141,8 @@ export default function SettingsPage() {
               <div>
                 <h3 className="font-medium">Automatic Daily Updates</h3>
                 <p className="text-sm text-gray-600">
-                  Automatically download and apply daily updates from KBO
+                  Automatically download and apply new daily updates from KBO, in
+                  extract order (checked daily; stops at missing or failed extracts)
                 </p>
               </div>
               <button
@@ -163,6 +192,43 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Data Quality Thresholds */}
+        <div className="bg-white rounded-lg border p-6">
+          <h2 className="text-xl font-semibold mb-1">Data Quality Thresholds</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            The rules are checked after every import. An import fails when it adds more
+            violations of a rule than its threshold, compared with the previous completed
+            import; leave a threshold empty to only report the rule.
+          </p>
+          <div className="space-y-3">
+            {config.dataQualityRules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-4">
+                <label htmlFor={`threshold-${rule.id}`} className="text-sm">
+                  <span className="font-medium">{rule.description}</span>
+                  <span className="ml-2 text-xs text-gray-400 font-mono">{rule.id}</span>
+                </label>
+                <input
+                  id={`threshold-${rule.id}`}
+                  type="number"
+                  min={0}
+                  placeholder="No threshold"
+                  value={config.dataQualityThresholds[rule.id] ?? ''}
+                  onChange={(e) =>
+                    setConfig({
+                      ...config,
+                      dataQualityThresholds: {
+                        ...config.dataQualityThresholds,
+                        [rule.id]: e.target.value === '' ? null : parseInt(e.target.value),
+                      },
+                    })
+                  }
+                  className="w-40 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* System Information */}
         <div className="bg-white rounded-lg border p-6">
           <h2 className="text-xl font-semibold mb-4">System Information</h2>
@@ -190,7 +256,7 @@ export default function SettingsPage() {
         <div className="flex items-center gap-4">
           <button
             onClick={handleSave}
-            disabled={saving}
+            disabled={saving || loading}
             className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
           >
             {saving ? 'Saving...' : 'Save Settings'}
@@ -200,6 +266,9 @@ export default function SettingsPage() {
               Settings saved successfully!
             </span>
           )}
+          {saveError && (
+            <span className="text-red-600 text-sm font-medium">{saveError}</span>
+          )}
         </div>
 
         {/* Note */}
@@ -219,9 +288,9 @@ export default function SettingsPage() {
             <div className="text-sm text-yellow-800">
               <p className="font-medium">Note: Settings Persistence</p>
               <p className="mt-1">
-                Settings persistence is not yet fully implemented. Changes made here are
-                stored in local state only. In a future update, settings will be persisted
-                to the database and respected by import jobs and scheduled tasks.
+                Settings are saved to the database. Automatic daily updates are respected
+                by the scheduled ingestion; email notifications and the retention period
+                are stored but not yet acted upon.
               </p>
             </div>
           </div>
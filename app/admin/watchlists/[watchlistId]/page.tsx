@@ -0,0 +1,313 @@
+'use client'
+
+import { useState, useEffect, useCallback, use } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { Watchlist, WatchlistEnterprise, WatchlistUploadResult } from '@/lib/watchlists/types'
+import type { ExportJobResult } from '@/lib/export/types'
+
+export default function WatchlistPage({
+  params,
+}: {
+  params: Promise<{ watchlistId: string }>
+}) {
+  const { watchlistId } = use(params)
+  const router = useRouter()
+  const [watchlist, setWatchlist] = useState<Watchlist | null>(null)
+  const [enterprises, setEnterprises] = useState<WatchlistEnterprise[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [removingNumber, setRemovingNumber] = useState<string | null>(null)
+
+  // Bulk upload
+  const [upload, setUpload] = useState('')
+  const [uploading, setUploading] = useState(false)
+  const [uploadResult, setUploadResult] = useState<WatchlistUploadResult | null>(null)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+
+  // Digest export
+  const [digestSince, setDigestSince] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const [digest, setDigest] = useState<ExportJobResult | null>(null)
+  const [digestError, setDigestError] = useState<string | null>(null)
+
+  const fetchWatchlist = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/admin/watchlists/${watchlistId}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load watchlist')
+      setWatchlist(data.watchlist)
+      setEnterprises(data.enterprises)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watchlist')
+    } finally {
+      setLoading(false)
+    }
+  }, [watchlistId])
+
+  useEffect(() => {
+    fetchWatchlist()
+  }, [fetchWatchlist])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      setUpload(await file.text())
+    }
+    e.target.value = ''
+  }
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setUploading(true)
+    setUploadResult(null)
+    setUploadError(null)
+
+    try {
+      const res = await fetch(`/api/admin/watchlists/${watchlistId}/enterprises`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: upload,
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Upload failed')
+      setUploadResult(data)
+      setUpload('')
+      await fetchWatchlist()
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Upload failed')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleRemove = async (enterpriseNumber: string) => {
+    setRemovingNumber(enterpriseNumber)
+    try {
+      const res = await fetch(`/api/admin/watchlists/${watchlistId}/enterprises`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enterpriseNumbers: [enterpriseNumber] }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Remove failed')
+      await fetchWatchlist()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Remove failed')
+    } finally {
+      setRemovingNumber(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!watchlist || !confirm(`Delete watchlist "${watchlist.name}"?`)) return
+
+    try {
+      const res = await fetch(`/api/admin/watchlists/${watchlistId}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Delete failed')
+      router.push('/admin/watchlists')
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Delete failed')
+    }
+  }
+
+  const handleDigest = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setExporting(true)
+    setDigest(null)
+    setDigestError(null)
+
+    try {
+      const res = await fetch(`/api/admin/watchlists/${watchlistId}/digest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ since: digestSince || null }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.details || data.error || 'Export failed')
+      setDigest(data)
+    } catch (err) {
+      setDigestError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/watchlists" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Back to Watchlists
+        </Link>
+        <div className="flex justify-between items-center mt-2">
+          <h1 className="text-3xl font-bold">{watchlist?.name ?? 'Watchlist'}</h1>
+          {watchlist && (
+            <button
+              onClick={handleDelete}
+              className="text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Delete Watchlist
+            </button>
+          )}
+        </div>
+        {watchlist?.description && <p className="text-gray-600 mt-1">{watchlist.description}</p>}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-6 mb-6">
+        {/* Bulk upload */}
+        <div className="bg-white rounded-lg border p-6">
+          <h2 className="text-lg font-semibold">Add Enterprises</h2>
+          <p className="text-sm text-gray-600 mt-1 mb-4">
+            One enterprise or VAT number per line, or a CSV file with one column.
+          </p>
+          <form onSubmit={handleUpload} className="space-y-3">
+            <textarea
+              value={upload}
+              onChange={(e) => setUpload(e.target.value)}
+              rows={6}
+              placeholder={'0200.065.765\nBE0403170701'}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="text-sm" />
+              <button
+                type="submit"
+                disabled={uploading || !upload.trim()}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm font-medium"
+              >
+                {uploading ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+          </form>
+          {uploadError && <p className="text-sm text-red-600 mt-3">{uploadError}</p>}
+          {uploadResult && (
+            <div className="text-sm text-gray-700 mt-3">
+              <p>
+                {uploadResult.added.toLocaleString()} added, {uploadResult.duplicates.toLocaleString()} already on the
+                watchlist, {uploadResult.invalid_count.toLocaleString()} invalid
+              </p>
+              {uploadResult.invalid.length > 0 && (
+                <p className="text-xs text-red-600 mt-1 font-mono break-all">
+                  {uploadResult.invalid.join(', ')}
+                  {uploadResult.invalid_count > uploadResult.invalid.length && ', ...'}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Digest export */}
+        <div className="bg-white rounded-lg border p-6">
+          <h2 className="text-lg font-semibold">Digest Export</h2>
+          <p className="text-sm text-gray-600 mt-1 mb-4">
+            Every detected change of the watched enterprises, one row per difference.
+          </p>
+          <form onSubmit={handleDigest} className="flex gap-2 items-end">
+            <div>
+              <label htmlFor="digest-since" className="block text-xs font-medium text-gray-600 mb-1">
+                Snapshots since (optional)
+              </label>
+              <input
+                id="digest-since"
+                type="date"
+                value={digestSince}
+                onChange={(e) => setDigestSince(e.target.value)}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={exporting}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm font-medium"
+            >
+              {exporting ? 'Exporting...' : 'Export'}
+            </button>
+          </form>
+          {digestError && <p className="text-sm text-red-600 mt-3">{digestError}</p>}
+          {digest && (
+            <div className="text-sm text-gray-700 mt-3">
+              <p>{digest.records_exported.toLocaleString()} rows exported.</p>
+              <div className="flex gap-3 mt-1">
+                <a href={`/api/admin/exports/${digest.job_id}/download?format=csv`} className="text-blue-600 hover:text-blue-800 font-medium">
+                  Download CSV
+                </a>
+                <a href={`/api/admin/exports/${digest.job_id}/download?format=xlsx`} className="text-blue-600 hover:text-blue-800 font-medium">
+                  Download XLSX
+                </a>
+                <Link href="/admin/exports" className="text-gray-600 hover:text-gray-800">
+                  Export Jobs
+                </Link>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Enterprises */}
+      <div className="bg-white rounded-lg border">
+        <div className="border-b p-4">
+          <h2 className="text-lg font-semibold">Enterprises</h2>
+          <p className="text-sm text-gray-600 mt-1">{enterprises.length.toLocaleString()} watched</p>
+        </div>
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">
+            <div className="animate-pulse">Loading enterprises...</div>
+          </div>
+        ) : enterprises.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No enterprises on this watchlist</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Enterprise Number</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Name</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Added At</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {enterprises.map((enterprise) => (
+                  <tr key={enterprise.enterprise_number} className="border-b hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <Link
+                        href={`/admin/browse/${enterprise.enterprise_number}`}
+                        className="font-mono text-blue-600 hover:text-blue-800"
+                      >
+                        {enterprise.enterprise_number}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {enterprise.name ?? <span className="text-gray-400">Not in the database</span>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">{new Date(enterprise.added_at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <button
+                        onClick={() => handleRemove(enterprise.enterprise_number)}
+                        disabled={removingNumber === enterprise.enterprise_number}
+                        className="text-red-600 hover:text-red-800 text-xs font-medium disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import type { WatchlistChangeType, WatchlistField, WatchlistFieldChange } from '@/lib/watchlists/types'
+
+export const CHANGE_TYPE_STYLES: Record<WatchlistChangeType, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  removed: 'bg-red-100 text-red-800',
+}
+
+const FIELD_LABELS: Record<WatchlistField, string> = {
+  status: 'Status',
+  juridicalForm: 'Juridical form',
+  juridicalSituation: 'Juridical situation',
+  typeOfEnterprise: 'Type of enterprise',
+  startDate: 'Start date',
+  denominations: 'Name',
+  addresses: 'Address',
+  activities: 'Activity',
+  contacts: 'Contact',
+  establishments: 'Establishment',
+}
+
+/**
+ * One-line description of a field change
+ */
+export function describeFieldChange(change: WatchlistFieldChange): string {
+  const label = FIELD_LABELS[change.field]
+  switch (change.type) {
+    case 'changed':
+      return `${label}: ${change.old_value} → ${change.new_value}`
+    case 'added':
+      return `${label} added: ${change.new_value}`
+    case 'removed':
+      return `${label} removed: ${change.old_value}`
+  }
+}
@@ -0,0 +1,288 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { Watchlist, WatchlistInboxEntry } from '@/lib/watchlists/types'
+import { CHANGE_TYPE_STYLES, describeFieldChange } from './change-summary'
+
+export default function WatchlistsPage() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Inbox
+  const [entries, setEntries] = useState<WatchlistInboxEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [since, setSince] = useState<string | null>(null)
+  const [inboxLoading, setInboxLoading] = useState(true)
+  const [inboxError, setInboxError] = useState<string | null>(null)
+
+  // Create
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  // Prevent double-fetch in React Strict Mode
+  const hasFetchedRef = React.useRef(false)
+
+  const fetchWatchlists = () => {
+    setLoading(true)
+    setError(null)
+
+    fetch('/api/admin/watchlists')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          throw new Error(data.error)
+        }
+        setWatchlists(data.watchlists)
+      })
+      .catch((err) => {
+        console.error('Failed to load watchlists:', err)
+        setError(err.message || 'Failed to load watchlists')
+      })
+      .finally(() => {
+        setLoading(false)
+      })
+  }
+
+  const fetchInbox = () => {
+    setInboxLoading(true)
+    setInboxError(null)
+
+    fetch('/api/admin/watchlists/inbox')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          throw new Error(data.error)
+        }
+        setEntries(data.entries)
+        setTotal(data.total)
+        setSince(data.since)
+
+        // What is shown now is no longer new on the next visit
+        return fetch('/api/admin/watchlists/inbox', { method: 'POST' })
+      })
+      .catch((err) => {
+        console.error('Failed to load watchlist inbox:', err)
+        setInboxError(err.message || 'Failed to load watchlist inbox')
+      })
+      .finally(() => {
+        setInboxLoading(false)
+      })
+  }
+
+  useEffect(() => {
+    // Prevent double-fetch in React Strict Mode
+    if (hasFetchedRef.current) return
+    hasFetchedRef.current = true
+
+    fetchWatchlists()
+    fetchInbox()
+  }, [])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+
+    try {
+      const response = await fetch('/api/admin/watchlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), description: description.trim() || null }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create watchlist')
+      }
+      setName('')
+      setDescription('')
+      fetchWatchlists()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create watchlist')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Watchlists</h1>
+      </div>
+
+      {/* Inbox */}
+      <div className="bg-white rounded-lg border mb-6">
+        <div className="border-b p-4">
+          <h2 className="text-lg font-semibold">Changes Since Last Visit</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {since
+              ? `Detected after ${new Date(since).toLocaleString()}`
+              : 'Everything detected since the enterprises were added to your watchlists'}
+            {total > entries.length && ` (newest ${entries.length} of ${total.toLocaleString()})`}
+          </p>
+        </div>
+
+        {inboxError && (
+          <div className="p-6">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-800">{inboxError}</p>
+            </div>
+          </div>
+        )}
+
+        {inboxLoading ? (
+          <div className="p-8 text-center text-gray-500">
+            <div className="animate-pulse">Loading changes...</div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No new changes</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Enterprise</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Change</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Details</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Snapshot</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Watchlists</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={`${entry.enterprise_number}-${entry.extract_number}`} className="border-b hover:bg-gray-50 align-top">
+                    <td className="px-4 py-3 text-sm">
+                      <Link
+                        href={`/admin/browse/${entry.enterprise_number}?from_extract=${entry.extract_number}`}
+                        className="font-mono text-blue-600 hover:text-blue-800"
+                      >
+                        {entry.enterprise_number}
+                      </Link>
+                      {entry.name && <div className="text-gray-700">{entry.name}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${CHANGE_TYPE_STYLES[entry.change_type]}`}>
+                        {entry.change_type.charAt(0).toUpperCase() + entry.change_type.slice(1)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {entry.changes.length === 0 ? (
+                        '-'
+                      ) : (
+                        <ul className="space-y-1">
+                          {entry.changes.map((change, i) => (
+                            <li key={i} className="text-xs text-gray-700">
+                              {describeFieldChange(change)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <div>{entry.snapshot_date}</div>
+                      <div className="text-xs text-gray-500">Extract {entry.extract_number}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {entry.watchlists.map((watchlist) => (
+                        <div key={watchlist.id}>
+                          <Link href={`/admin/watchlists/${watchlist.id}`} className="text-blue-600 hover:text-blue-800">
+                            {watchlist.name}
+                          </Link>
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Watchlists */}
+      <div className="bg-white rounded-lg border mb-6">
+        <div className="border-b p-4">
+          <h2 className="text-lg font-semibold">My Watchlists</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Watched enterprises are compared with their previous snapshot after every import.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-6">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-800">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">
+            <div className="animate-pulse">Loading watchlists...</div>
+          </div>
+        ) : watchlists.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No watchlists yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Name</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Enterprises</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Created At</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Updated At</th>
+                </tr>
+              </thead>
+              <tbody>
+                {watchlists.map((watchlist) => (
+                  <tr key={watchlist.id} className="border-b hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <Link href={`/admin/watchlists/${watchlist.id}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                        {watchlist.name}
+                      </Link>
+                      {watchlist.description && (
+                        <div className="text-xs text-gray-500">{watchlist.description}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">{watchlist.enterprise_count.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm">{new Date(watchlist.created_at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {watchlist.updated_at ? new Date(watchlist.updated_at).toLocaleString() : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="border-t p-4 flex gap-2 items-center">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New watchlist name"
+            maxLength={100}
+            className="w-64 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            maxLength={500}
+            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={creating || !name.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm font-medium"
+          >
+            {creating ? 'Creating...' : 'Create'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
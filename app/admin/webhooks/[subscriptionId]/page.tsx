@@ -0,0 +1,83 @@
+'use client'
+
+import { useState, useEffect, use } from 'react'
+import Link from 'next/link'
+import type { WebhookSubscription } from '@/lib/webhooks/types'
+import { DeliveryLog } from '../delivery-log'
+import { describeFilter } from '../filter-summary'
+
+export default function WebhookSubscriptionPage({
+  params,
+}: {
+  params: Promise<{ subscriptionId: string }>
+}) {
+  const { subscriptionId } = use(params)
+  const [subscription, setSubscription] = useState<WebhookSubscription | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/admin/webhooks/${subscriptionId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          throw new Error(data.error)
+        }
+        setSubscription(data.subscription)
+      })
+      .catch((err) => {
+        setError(err.message || 'Failed to load webhook')
+      })
+  }, [subscriptionId])
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/webhooks" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Back to Webhooks
+        </Link>
+        <h1 className="text-3xl font-bold mt-2">Webhook Deliveries</h1>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {subscription && (
+        <div className="bg-white rounded-lg border p-6 mb-6">
+          <dl className="grid grid-cols-2 gap-x-8 gap-y-3 text-sm">
+            <div>
+              <dt className="text-gray-500">URL</dt>
+              <dd className="font-mono text-xs break-all">{subscription.url}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Client</dt>
+              <dd>{subscription.client_id}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Filter</dt>
+              <dd>{describeFilter(subscription.filter)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Status</dt>
+              <dd>{subscription.active ? 'Active' : 'Disabled'}</dd>
+            </div>
+            {subscription.description && (
+              <div>
+                <dt className="text-gray-500">Description</dt>
+                <dd>{subscription.description}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-gray-500">Created At</dt>
+              <dd>{new Date(subscription.created_at).toLocaleString()}</dd>
+            </div>
+          </dl>
+        </div>
+      )}
+
+      <DeliveryLog subscriptionId={subscriptionId} />
+    </div>
+  )
+}
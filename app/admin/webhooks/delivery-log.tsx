@@ -0,0 +1,208 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@/lib/webhooks/types'
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+const PAGE_SIZE = 25
+
+interface DeliveryLogProps {
+  /** Only the deliveries of this subscription (all when omitted) */
+  subscriptionId?: string
+  /** Status filter selected initially (all when omitted) */
+  initialStatus?: WebhookDeliveryStatus
+}
+
+export function DeliveryLog({ subscriptionId, initialStatus }: DeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>(initialStatus ?? '')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(0)
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+
+  const fetchDeliveries = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+    if (subscriptionId) params.set('subscription', subscriptionId)
+    if (status) params.set('status', status)
+
+    try {
+      const res = await fetch(`/api/admin/webhooks/deliveries?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load deliveries')
+      setDeliveries(data.deliveries)
+      setTotal(data.total)
+      setTotalPages(data.totalPages)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries')
+    } finally {
+      setLoading(false)
+    }
+  }, [page, status, subscriptionId])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries])
+
+  const handleRetry = async (deliveryId: string) => {
+    setRetryingId(deliveryId)
+    try {
+      const res = await fetch(`/api/admin/webhooks/deliveries/${deliveryId}/retry`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.details || data.error || 'Retry failed')
+      await fetchDeliveries()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Retry failed')
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg border">
+      <div className="border-b p-4 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Delivery Log</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Callbacks sent after each import ({total.toLocaleString()} total)
+          </p>
+        </div>
+        <div>
+          <label htmlFor="delivery-status" className="block text-xs font-medium text-gray-600 mb-1">
+            Status
+          </label>
+          <select
+            id="delivery-status"
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as WebhookDeliveryStatus | '')
+              setPage(1)
+            }}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All</option>
+            <option value="failed">Failed</option>
+            <option value="retrying">Retrying</option>
+            <option value="pending">Pending</option>
+            <option value="delivered">Delivered</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-6">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">
+          <div className="animate-pulse">Loading deliveries...</div>
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No deliveries</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b">
+              <tr>
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Status</th>
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Created At</th>
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Extract</th>
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Changes</th>
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Attempts</th>
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Last Attempt</th>
+                <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id} className="border-b hover:bg-gray-50 align-top">
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[delivery.status]}`}>
+                      {delivery.status.charAt(0).toUpperCase() + delivery.status.slice(1)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm">{new Date(delivery.created_at).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm">{delivery.extract_number}</td>
+                  <td className="px-4 py-3 text-sm">{delivery.change_count.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm">{delivery.attempts}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {delivery.last_attempt_at ? (
+                      <>
+                        <div>
+                          {new Date(delivery.last_attempt_at).toLocaleString()}
+                          {delivery.last_status_code !== null && (
+                            <span className="text-gray-500"> (HTTP {delivery.last_status_code})</span>
+                          )}
+                        </div>
+                        {delivery.last_error && delivery.status !== 'delivered' && (
+                          <div className="text-xs text-red-600 mt-1 max-w-md break-words">{delivery.last_error}</div>
+                        )}
+                        {delivery.next_attempt_at && delivery.status === 'retrying' && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Next attempt {new Date(delivery.next_attempt_at).toLocaleString()}
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {(delivery.status === 'failed' || delivery.status === 'pending') && (
+                      <button
+                        onClick={() => handleRetry(delivery.id)}
+                        disabled={retryingId === delivery.id}
+                        className="text-blue-600 hover:text-blue-800 text-xs font-medium disabled:opacity-50"
+                      >
+                        {retryingId === delivery.id ? 'Queueing...' : 'Retry'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="border-t p-4 flex items-center justify-between">
+          <div className="text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 1 || loading}
+              className="px-4 py-2 text-sm border rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page === totalPages || loading}
+              className="px-4 py-2 text-sm border rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import type { WebhookFilter } from '@/lib/webhooks/types'
+
+/**
+ * One-line summary of a subscription filter
+ */
+export function describeFilter(filter: WebhookFilter): string {
+  const parts: string[] = []
+  if (filter.enterpriseNumbers) {
+    parts.push(`${filter.enterpriseNumbers.length} enterprise${filter.enterpriseNumbers.length === 1 ? '' : 's'}`)
+  }
+  if (filter.nacePrefixes) {
+    parts.push(`NACE ${filter.nacePrefixes.join(', ')}`)
+  }
+  if (filter.postalRanges) {
+    parts.push(`postal ${filter.postalRanges.map((r) => (r.from === r.to ? r.from : `${r.from}-${r.to}`)).join(', ')}`)
+  }
+  if (filter.changeKinds) {
+    parts.push(`only ${filter.changeKinds.join(', ')}`)
+  }
+  return parts.join('; ')
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { WebhookDeliveryCounts, WebhookSubscription } from '@/lib/webhooks/types'
+import { DeliveryLog } from './delivery-log'
+import { describeFilter } from './filter-summary'
+
+interface SubscriptionRow extends WebhookSubscription {
+  deliveries: WebhookDeliveryCounts
+}
+
+export default function WebhooksPage() {
+  const [subscriptions, setSubscriptions] = useState<SubscriptionRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [togglingId, setTogglingId] = useState<string | null>(null)
+
+  // Dispatch again
+  const [jobId, setJobId] = useState('')
+  const [dispatching, setDispatching] = useState(false)
+  const [dispatchMessage, setDispatchMessage] = useState<string | null>(null)
+
+  // Prevent double-fetch in React Strict Mode
+  const hasFetchedRef = React.useRef(false)
+
+  const fetchSubscriptions = () => {
+    setLoading(true)
+    setError(null)
+
+    fetch('/api/admin/webhooks')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          throw new Error(data.error)
+        }
+        setSubscriptions(data.subscriptions)
+      })
+      .catch((err) => {
+        console.error('Failed to load webhooks:', err)
+        setError(err.message || 'Failed to load webhooks')
+      })
+      .finally(() => {
+        setLoading(false)
+      })
+  }
+
+  useEffect(() => {
+    // Prevent double-fetch in React Strict Mode
+    if (hasFetchedRef.current) return
+    hasFetchedRef.current = true
+
+    fetchSubscriptions()
+  }, [])
+
+  const handleToggleActive = async (subscription: SubscriptionRow) => {
+    setTogglingId(subscription.id)
+    try {
+      const response = await fetch(`/api/admin/webhooks/${subscription.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !subscription.active }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Update failed')
+      }
+      fetchSubscriptions()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Update failed')
+    } finally {
+      setTogglingId(null)
+    }
+  }
+
+  const handleDispatch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setDispatching(true)
+    setDispatchMessage(null)
+
+    try {
+      const response = await fetch('/api/admin/webhooks/dispatch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: jobId.trim() }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Dispatch failed')
+      }
+      setDispatchMessage(
+        `${data.deliveries_created} new deliveries for ${data.subscriptions_matched} subscriptions, ${data.deliveries_queued} queued`
+      )
+      fetchSubscriptions()
+    } catch (err) {
+      setDispatchMessage(err instanceof Error ? err.message : 'Dispatch failed')
+    } finally {
+      setDispatching(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Webhooks</h1>
+      </div>
+
+      {/* Subscriptions */}
+      <div className="bg-white rounded-lg border mb-6">
+        <div className="border-b p-4">
+          <h2 className="text-lg font-semibold">Subscriptions</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Registered by machine API clients. Matching changes are sent after every import.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-6">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-800">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">
+            <div className="animate-pulse">Loading webhooks...</div>
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No webhook subscriptions</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Client</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">URL</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Filter</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Delivered</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Retrying</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Failed</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Last Delivery</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {subscriptions.map((subscription) => (
+                  <tr key={subscription.id} className="border-b hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">{subscription.client_id}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-mono text-xs break-all">{subscription.url}</div>
+                      {subscription.description && (
+                        <div className="text-xs text-gray-500">{subscription.description}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">{describeFilter(subscription.filter)}</td>
+                    <td className="px-4 py-3 text-sm">{subscription.deliveries.delivered.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm">{subscription.deliveries.retrying.toLocaleString()}</td>
+                    <td className={`px-4 py-3 text-sm ${subscription.deliveries.failed > 0 ? 'text-red-600 font-medium' : ''}`}>
+                      {subscription.deliveries.failed.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {subscription.deliveries.last_delivered_at
+                        ? new Date(subscription.deliveries.last_delivered_at).toLocaleString()
+                        : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="flex gap-3">
+                        <Link
+                          href={`/admin/webhooks/${subscription.id}`}
+                          className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+                        >
+                          Deliveries
+                        </Link>
+                        <button
+                          onClick={() => handleToggleActive(subscription)}
+                          disabled={togglingId === subscription.id}
+                          className={`text-xs font-medium disabled:opacity-50 ${
+                            subscription.active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'
+                          }`}
+                        >
+                          {subscription.active ? 'Disable' : 'Enable'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Dispatch again */}
+      <div className="bg-white rounded-lg border p-6 mb-6">
+        <h2 className="text-lg font-semibold">Dispatch an Import Again</h2>
+        <p className="text-sm text-gray-600 mt-1 mb-4">
+          Creates the missing deliveries of a completed import and queues the unsent ones, e.g. after Restate was unavailable.
+        </p>
+        <form onSubmit={handleDispatch} className="flex gap-2 items-center">
+          <input
+            type="text"
+            value={jobId}
+            onChange={(e) => setJobId(e.target.value)}
+            placeholder="Import job ID"
+            className="w-96 rounded-lg border border-gray-300 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={dispatching || !jobId.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm font-medium"
+          >
+            {dispatching ? 'Dispatching...' : 'Dispatch'}
+          </button>
+        </form>
+        {dispatchMessage && <p className="text-sm text-gray-700 mt-3">{dispatchMessage}</p>}
+      </div>
+
+      {/* Failures across all subscriptions */}
+      <DeliveryLog initialStatus="failed" />
+    </div>
+  )
+}
@@ -12,7 +12,7 @@ interface PreparationProgress {
 
 interface WorkflowProgress {
   workflow_id: string
-  status: 'pending' | 'downloading' | 'preparing' | 'processing' | 'finalizing' | 'completed' | 'failed'
+  status: 'pending' | 'downloading' | 'preparing' | 'staging' | 'processing' | 'paused' | 'finalizing' | 'completed' | 'failed' | 'cancelled'
   job_id?: string
   completed_batches: number
   total_batches: number
@@ -22,6 +22,11 @@ interface WorkflowProgress {
   preparation?: PreparationProgress
 }
 
+type ControlAction = 'pause' | 'resume' | 'cancel'
+
+/** Statuses in which the workflow has ended */
+const FINISHED_STATUSES: WorkflowProgress['status'][] = ['completed', 'failed', 'cancelled']
+
 export default function WorkflowStatusPage({
   params,
 }: {
@@ -32,6 +37,8 @@ export default function WorkflowStatusPage({
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isStale, setIsStale] = useState(false)
+  const [controlPending, setControlPending] = useState<ControlAction | null>(null)
+  const [controlError, setControlError] = useState<string | null>(null)
   const lastProgressRef = React.useRef<string | null>(null)
   const staleCountRef = React.useRef(0)
 
@@ -51,7 +58,8 @@ export default function WorkflowStatusPage({
         staging_counts: data.preparation?.staging_counts
       })
 
-      if (progressKey === lastProgressRef.current) {
+      // A paused workflow is expected to stand still
+      if (progressKey === lastProgressRef.current && data.status !== 'paused') {
         staleCountRef.current++
         if (staleCountRef.current >= 10) {
           setIsStale(true)
@@ -73,9 +81,9 @@ export default function WorkflowStatusPage({
   useEffect(() => {
     fetchProgress()
 
-    // Poll every 3 seconds while workflow is active (not completed, failed, or stale)
+    // Poll every 3 seconds while workflow is active (not completed, failed, cancelled, or stale)
     const interval = setInterval(() => {
-      if (progress?.status !== 'completed' && progress?.status !== 'failed' && !isStale) {
+      if (!(progress?.status && FINISHED_STATUSES.includes(progress?.status)) && !isStale) {
         fetchProgress()
       }
     }, 3000)
@@ -83,6 +91,33 @@ export default function WorkflowStatusPage({
     return () => clearInterval(interval)
   }, [workflowId, progress?.status, isStale])
 
+  const handleControl = async (action: ControlAction) => {
+    if (action === 'cancel' && !window.confirm('Cancel this import? Batches already applied will be reverted.')) {
+      return
+    }
+
+    setControlPending(action)
+    setControlError(null)
+
+    try {
+      const response = await fetch(`/api/admin/workflows/${workflowId}/${action}`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `Failed to ${action} workflow`)
+      }
+
+      // Polling stops on stale workflows; a control request restarts it
+      staleCountRef.current = 0
+      setIsStale(false)
+      await fetchProgress()
+    } catch (err) {
+      setControlError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setControlPending(null)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -91,6 +126,8 @@ export default function WorkflowStatusPage({
         return 'bg-red-100 text-red-800'
       case 'processing':
         return 'bg-blue-100 text-blue-800'
+      case 'cancelled':
+        return 'bg-gray-200 text-gray-700'
       default:
         return 'bg-yellow-100 text-yellow-800'
     }
@@ -102,8 +139,14 @@ export default function WorkflowStatusPage({
         return 'Downloading ZIP...'
       case 'preparing':
         return 'Preparing import...'
+      case 'staging':
+        return 'Staging snapshot...'
       case 'processing':
         return 'Processing batches...'
+      case 'paused':
+        return 'Paused'
+      case 'cancelled':
+        return 'Cancelled'
       case 'finalizing':
         return 'Finalizing...'
       case 'completed':
@@ -164,15 +207,54 @@ export default function WorkflowStatusPage({
               </span>
             </div>
 
+            {/* Pause / Resume / Cancel (not once finalizing) */}
+            {!FINISHED_STATUSES.includes(progress.status) && progress.status !== 'finalizing' && (
+              <div>
+                <div className="flex items-center gap-2">
+                  {progress.status === 'paused' ? (
+                    <button
+                      onClick={() => handleControl('resume')}
+                      disabled={controlPending !== null}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm"
+                    >
+                      {controlPending === 'resume' ? 'Resuming...' : 'Resume'}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleControl('pause')}
+                      disabled={controlPending !== null}
+                      className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-100 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-sm"
+                      title="Pause after the current step"
+                    >
+                      {controlPending === 'pause' ? 'Pausing...' : 'Pause'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleControl('cancel')}
+                    disabled={controlPending !== null}
+                    className="border border-red-300 text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-sm"
+                    title="Stop the import and revert the batches it already applied"
+                  >
+                    {controlPending === 'cancel' ? 'Cancelling...' : 'Cancel Import'}
+                  </button>
+                </div>
+                {controlError && (
+                  <p className="text-sm text-red-700 mt-2">{controlError}</p>
+                )}
+              </div>
+            )}
+
             {/* Preparation Progress */}
-            {progress.status === 'preparing' && progress.preparation && (
+            {(progress.status === 'preparing' || progress.status === 'staging') && progress.preparation && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <div className="flex items-center gap-2 mb-3">
                   <svg className="animate-spin h-4 w-4 text-blue-600" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                   </svg>
-                  <span className="text-blue-800 font-medium">Preparing Import</span>
+                  <span className="text-blue-800 font-medium">
+                    {progress.status === 'staging' ? 'Staging Full Dump' : 'Preparing Import'}
+                  </span>
                 </div>
 
                 {progress.preparation.extract_number && (
@@ -244,7 +326,7 @@ export default function WorkflowStatusPage({
             )}
 
             {/* Stale Workflow Warning */}
-            {isStale && progress.status !== 'completed' && progress.status !== 'failed' && (
+            {isStale && !FINISHED_STATUSES.includes(progress.status) && (
               <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
                 <p className="text-amber-800 font-medium">Workflow appears stuck</p>
                 <p className="text-amber-700 text-sm mt-1">
@@ -254,6 +336,17 @@ export default function WorkflowStatusPage({
               </div>
             )}
 
+            {/* Cancelled Message */}
+            {progress.status === 'cancelled' && (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <p className="text-gray-800 font-medium">Import Cancelled</p>
+                <p className="text-gray-700 text-sm mt-1">
+                  Batches already applied were reverted and the staging data was removed.
+                  The extract can be imported again from the imports page.
+                </p>
+              </div>
+            )}
+
             {/* Success Message */}
             {progress.status === 'completed' && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
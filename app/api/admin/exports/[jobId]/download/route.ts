@@ -1,11 +1,19 @@
 import { NextResponse } from 'next/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
-import { connectMotherduck, closeMotherduck, executeQuery, executeQueryStreaming } from '@/lib/motherduck'
-import type { ExportJob } from '@/lib/export/types'
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  quoteIdentifier,
+} from '@/lib/motherduck'
+import { EXPORT_FILE_NAMES, type ExportJob } from '@/lib/export/types'
+import { exportDownloadResponse, negotiateExportFormat } from '@/lib/export/formats'
+import { ValidationError } from '@/lib/errors'
 
 /**
  * GET /api/admin/exports/[jobId]/download
- * Download exported CSV file from MotherDuck table (streaming)
+ * Download an export from its MotherDuck table as CSV (default), Parquet, NDJSON or XLSX
+ * Format from the `format` query parameter (csv, parquet, ndjson, xlsx) or the Accept header
  */
 export async function GET(
   request: Request,
@@ -18,6 +26,8 @@ export async function GET(
 
     const { jobId } = await params
 
+    const format = negotiateExportFormat(request)
+
     // Connect to Motherduck
     const connection = await connectMotherduck()
 
@@ -28,8 +38,9 @@ export async function GET(
         `
           SELECT id, status, table_name, export_type, expires_at, records_exported
           FROM export_jobs
-          WHERE id = '${jobId}'
-        `
+          WHERE id = $job_id
+        `,
+        { job_id: jobId }
       )
 
       if (jobs.length === 0) {
@@ -65,12 +76,12 @@ export async function GET(
         )
       }
 
-      console.log(`📥 Downloading export from table: ${job.table_name}`)
+      console.log(`📥 Downloading export from table: ${job.table_name} (${format})`)
 
-      // Get column names from first row
+      // Check the table has rows
       const sampleData = await executeQuery<Record<string, unknown>>(
         connection,
-        `SELECT * FROM ${job.table_name} LIMIT 1`
+        `SELECT * FROM ${quoteIdentifier(job.table_name)} LIMIT 1`
       )
 
       if (sampleData.length === 0) {
@@ -80,70 +91,27 @@ export async function GET(
         )
       }
 
-      const columns = Object.keys(sampleData[0])
-      const header = columns.map(col => `"${col}"`).join(',') + '\n'
-
-      // Helper to convert a row to CSV line
-      const rowToCsv = (row: Record<string, unknown>): string => {
-        return columns
-          .map(col => {
-            const value = row[col]
-            if (value === null || value === undefined) return '""'
-            const str = String(value)
-            // Escape quotes by doubling them
-            const escaped = str.replace(/"/g, '""')
-            return `"${escaped}"`
-          })
-          .join(',')
-      }
-
-      // Create a streaming response
-      const encoder = new TextEncoder()
-      const stream = new ReadableStream({
-        async start(controller) {
-          try {
-            // Send header first
-            controller.enqueue(encoder.encode(header))
-
-            // Stream data chunks
-            const dataStream = executeQueryStreaming<Record<string, unknown>>(
-              connection,
-              `SELECT * FROM ${job.table_name} ORDER BY "EntityNumber"`
-            )
-
-            for await (const chunk of dataStream) {
-              const csvChunk = chunk.map(rowToCsv).join('\n') + '\n'
-              controller.enqueue(encoder.encode(csvChunk))
-            }
-
-            controller.close()
-          } catch (error) {
-            console.error('❌ Stream error:', error)
-            controller.error(error)
-          } finally {
-            await closeMotherduck(connection)
-          }
-        },
-      })
-
       // Generate filename with date
       const date = new Date().toISOString().split('T')[0]
-      const filename = `kbo-vat-entities-${date}.csv`
-
-      // Return as streaming downloadable file
-      return new NextResponse(stream, {
-        status: 200,
-        headers: {
-          'Content-Type': 'text/csv; charset=utf-8',
-          'Content-Disposition': `attachment; filename="${filename}"`,
-          'Transfer-Encoding': 'chunked',
-        },
-      })
+
+      // The connection is closed once the download has been written
+      return await exportDownloadResponse(connection, {
+        tableName: job.table_name,
+        fileName: `kbo-${EXPORT_FILE_NAMES[job.export_type] ?? 'export'}-${date}`,
+        recordCount: Number(job.records_exported),
+      }, format)
     } catch (error) {
       await closeMotherduck(connection)
       throw error
     }
   } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
     console.error('❌ Download failed:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     return NextResponse.json(
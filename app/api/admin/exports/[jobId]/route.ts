@@ -1,6 +1,12 @@
 import { NextResponse } from 'next/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
-import { connectMotherduck, closeMotherduck, executeQuery } from '@/lib/motherduck'
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  executeStatement,
+  quoteIdentifier,
+} from '@/lib/motherduck'
 import type { ExportJob } from '@/lib/export/types'
 
 /**
@@ -27,8 +33,9 @@ export async function DELETE(
         `
           SELECT id, status, table_name, export_type
           FROM export_jobs
-          WHERE id = '${jobId}'
-        `
+          WHERE id = $job_id
+        `,
+        { job_id: jobId }
       )
 
       if (jobs.length === 0) {
@@ -50,12 +57,13 @@ export async function DELETE(
             `
               SELECT COUNT(*) as count
               FROM information_schema.tables
-              WHERE table_name = '${job.table_name}'
-            `
+              WHERE table_name = $table_name
+            `,
+            { table_name: job.table_name }
           )
 
           if (tableExists[0] && tableExists[0].count > 0) {
-            await connection.run(`DROP TABLE IF EXISTS ${job.table_name}`)
+            await executeStatement(connection, `DROP TABLE IF EXISTS ${quoteIdentifier(job.table_name)}`)
             tableDropped = true
             console.log(`🗑️ Dropped table ${job.table_name}`)
           }
@@ -66,7 +74,7 @@ export async function DELETE(
       }
 
       // Delete the job record
-      await connection.run(`DELETE FROM export_jobs WHERE id = '${jobId}'`)
+      await executeStatement(connection, `DELETE FROM export_jobs WHERE id = $job_id`, { job_id: jobId })
       console.log(`🗑️ Deleted export job ${jobId}`)
 
       return NextResponse.json({
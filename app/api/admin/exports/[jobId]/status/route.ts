@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
 import { connectMotherduck, closeMotherduck, executeQuery } from '@/lib/motherduck'
-import type { ExportJob } from '@/lib/export/types'
+import { EXPORT_FILE_NAMES, type ExportJob } from '@/lib/export/types'
 
 interface StatusResponse extends ExportJob {
   cli_command?: string
@@ -46,8 +46,9 @@ export async function GET(
             created_by,
             created_at
           FROM export_jobs
-          WHERE id = '${jobId}'
-        `
+          WHERE id = $job_id
+        `,
+        { job_id: jobId }
       )
 
       if (jobs.length === 0) {
@@ -63,7 +64,7 @@ export async function GET(
       // Add CLI command if completed
       if (job.status === 'completed' && job.table_name) {
         const database = process.env.MOTHERDUCK_DATABASE || 'newagekbo'
-        response.cli_command = `duckdb -c "COPY (SELECT * FROM md:${database}.${job.table_name}) TO 'vat-entities.csv' (FORMAT CSV, HEADER)"`
+        response.cli_command = `duckdb -c "COPY (SELECT * FROM md:${database}.${job.table_name}) TO '${EXPORT_FILE_NAMES[job.export_type] ?? 'export'}.csv' (FORMAT CSV, HEADER)"`
 
         // Add download URL
         const baseUrl = request.url.split('/api/')[0]
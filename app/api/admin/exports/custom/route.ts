@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { currentUser } from '@clerk/nextjs/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { exportCustom, validateExportSpec } from '@/lib/export/builder'
+import { ValidationError } from '@/lib/errors'
+import type { WorkerType } from '@/lib/export/types'
+
+/**
+ * POST /api/admin/exports/custom
+ * Run an export built from an export spec (see lib/export/spec.ts)
+ *
+ * Body: { spec: ExportSpec, workerType?: WorkerType }
+ */
+export async function POST(request: Request) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Get user ID for tracking
+    const user = await currentUser()
+    const userId = user?.id
+
+    const body = await request.json().catch(() => ({}))
+    const workerType: WorkerType = body.workerType || 'web_manual'
+    const spec = validateExportSpec(body.spec)
+
+    console.log(`📤 Starting custom export (worker: ${workerType}, user: ${userId}, columns: ${spec.columns.length})`)
+
+    const result = await exportCustom(spec, workerType, userId)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('❌ Export failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Export failed',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
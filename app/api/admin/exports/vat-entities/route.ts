@@ -3,6 +3,7 @@ import { currentUser } from '@clerk/nextjs/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
 import { exportVatEntities } from '@/lib/export/vat-entities'
 import type { WorkerType } from '@/lib/export/types'
+import type { TemporalFilter } from '@/lib/motherduck/temporal-query'
 
 /**
  * POST /api/admin/exports/vat-entities
@@ -18,14 +19,18 @@ export async function POST(request: Request) {
     const user = await currentUser()
     const userId = user?.id
 
-    // Parse request body (optional worker type)
+    // Parse request body (optional worker type and extract number for "as of" exports)
     const body = await request.json().catch(() => ({}))
     const workerType: WorkerType = body.workerType || 'web_manual'
+    const extractNumber = parseInt(body.extractNumber) || 0
+    const filter: TemporalFilter = extractNumber > 0
+      ? { type: 'point-in-time', extractNumber }
+      : { type: 'current' }
 
-    console.log(`📤 Starting VAT entities export (worker: ${workerType}, user: ${userId})`)
+    console.log(`📤 Starting VAT entities export (worker: ${workerType}, user: ${userId}${extractNumber > 0 ? `, extract: ${extractNumber}` : ''})`)
 
     // Execute export
-    const result = await exportVatEntities(workerType, userId)
+    const result = await exportVatEntities(workerType, userId, filter)
 
     console.log(`✅ Export completed: ${result.records_exported.toLocaleString()} records`)
 
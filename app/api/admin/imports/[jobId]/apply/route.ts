@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { currentUser } from '@clerk/nextjs/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { applyImportPreview } from '@/lib/import/preview'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * POST /api/admin/imports/[jobId]/apply
+ *
+ * Applies a dry-run import after its preview was reviewed. Batches of the job
+ * can be processed from then on (process-batch, then finalize).
+ *
+ * Response: ImportPreview with applied_at and applied_by set
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { jobId } = await params
+    const user = await currentUser()
+
+    console.log(`[API] Applying dry-run import job ${jobId}`)
+    const db = await connectMotherduck()
+
+    try {
+      const preview = await applyImportPreview(db, jobId, user?.id)
+      return NextResponse.json(preview)
+    } finally {
+      await closeMotherduck(db)
+    }
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Failed to apply import:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply import' },
+      { status: 500 }
+    )
+  }
+}
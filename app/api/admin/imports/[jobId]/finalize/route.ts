@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
 import { finalizeImport } from '@/lib/import/batched-update'
+import { dispatchWebhooks } from '@/lib/webhooks/dispatch'
+import { detectWatchlistChanges } from '@/lib/watchlists/changes'
+import { DataQualityError } from '@/lib/errors'
 
 /**
  * POST /api/admin/imports/[jobId]/finalize
  *
  * Finalizes an import job after all batches are completed.
- * Resolves primary names for enterprises and cleans up staging data.
+ * Resolves primary names for enterprises, runs the data quality checks,
+ * cleans up staging data, dispatches the webhooks of the changes and detects
+ * the changes of watched enterprises.
  *
- * Response: FinalizeResult with success status and counts
+ * Response: FinalizeResult with success status and counts, plus `webhooks`
+ * and `watchlists` (null when that step failed; the import is completed
+ * either way)
+ * 422: data quality thresholds exceeded (the job is marked failed)
  */
 export async function POST(
   request: NextRequest,
@@ -25,9 +33,26 @@ export async function POST(
     console.log(`[API] Finalizing import job ${jobId}`)
     const result = await finalizeImport(jobId)
 
-    return NextResponse.json(result)
+    const webhooks = await dispatchWebhooks(jobId).catch((error) => {
+      console.error(`[API] Webhook dispatch failed for import ${jobId}:`, error)
+      return null
+    })
+
+    const watchlists = await detectWatchlistChanges(jobId).catch((error) => {
+      console.error(`[API] Watchlist change detection failed for import ${jobId}:`, error)
+      return null
+    })
+
+    return NextResponse.json({ ...result, webhooks, watchlists })
 
   } catch (error) {
+    if (error instanceof DataQualityError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 422 }
+      )
+    }
+
     console.error('[API] Failed to finalize import:', error)
 
     if (error instanceof Error) {
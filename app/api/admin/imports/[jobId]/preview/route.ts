@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { getImportPreview, discardImportPreview } from '@/lib/import/preview'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/admin/imports/[jobId]/preview
+ *
+ * Gets the change preview of a dry-run import: per-table delete/insert counts,
+ * enterprise status changes, new and struck-off enterprises and denomination
+ * changes, plus whether the import has been applied.
+ *
+ * Response: ImportPreview, or 404 if the job was not prepared as a dry run
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { jobId } = await params
+    const db = await connectMotherduck()
+
+    try {
+      const preview = await getImportPreview(db, jobId)
+      if (!preview) {
+        return NextResponse.json(
+          { error: 'Import job has no preview' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(preview)
+    } finally {
+      await closeMotherduck(db)
+    }
+
+  } catch (error) {
+    console.error('[API] Failed to get import preview:', error)
+    return NextResponse.json(
+      { error: 'Failed to get import preview' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/imports/[jobId]/preview
+ *
+ * Discards a dry-run import that was not applied: removes its staging data,
+ * batches, job record and preview so the extract can be imported again.
+ *
+ * Response: { success: true }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { jobId } = await params
+
+    console.log(`[API] Discarding dry-run import job ${jobId}`)
+    const db = await connectMotherduck()
+
+    try {
+      await discardImportPreview(db, jobId)
+      return NextResponse.json({ success: true })
+    } finally {
+      await closeMotherduck(db)
+    }
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Failed to discard import preview:', error)
+    return NextResponse.json(
+      { error: 'Failed to discard import preview' },
+      { status: 500 }
+    )
+  }
+}
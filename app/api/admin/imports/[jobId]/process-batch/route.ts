@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
 import { processBatch } from '@/lib/import/batched-update'
+import { ValidationError } from '@/lib/errors'
 
 /**
  * POST /api/admin/imports/[jobId]/process-batch
  *
  * Processes a single batch for an import job.
  * If no specific batch is provided, processes the next pending batch.
+ * Dry-run imports are rejected (400) until their preview is applied.
  *
  * Query params (optional):
  * - table: specific table name to process
@@ -52,6 +54,13 @@ export async function POST(
     return NextResponse.json(result)
 
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
     console.error('[API] Failed to process batch:', error)
 
     if (error instanceof Error) {
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { rollbackImportJob } from '@/lib/import/rollback'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * POST /api/admin/imports/[jobId]/rollback
+ *
+ * Reverts a completed import job: deletes the rows it inserted, makes the rows
+ * it superseded current again and marks the job as rolled_back.
+ * Only the most recent completed daily update can be rolled back.
+ *
+ * Response: RollbackResult with per-table row counts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { jobId } = await params
+
+    console.log(`[API] Rolling back import job ${jobId}`)
+    const db = await connectMotherduck()
+
+    try {
+      const result = await rollbackImportJob(db, jobId)
+      return NextResponse.json(result)
+    } finally {
+      await closeMotherduck(db)
+    }
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('[API] Failed to roll back import:', error)
+    return NextResponse.json(
+      { error: 'Failed to roll back import' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,12 +4,16 @@ import { prepareImport } from '@/lib/import/batched-update'
 import { downloadFile, extractFileMetadata } from '@/lib/kbo-client'
 import { uploadToBlob, deleteFromBlob } from '@/lib/blob'
 import { WorkerType } from '@/lib/types/import-job'
+import { ExtractSequenceError, ValidationError } from '@/lib/errors'
 
 /**
  * POST /api/admin/imports/prepare
  *
  * Prepares a KBO update ZIP file for batched import by downloading from URL.
- * Expects JSON body with 'url' or 'filename' field.
+ * Expects JSON body with 'url' or 'filename' field, and optionally 'force' to
+ * import an extract that is out of order or skips extracts, and 'dryRun' to
+ * stop after staging with a change preview (see /api/admin/imports/[jobId]/preview)
+ * that must be applied before any batch is processed.
  *
  * Downloads from KBO portal, uploads to Vercel Blob, then calls prepareImport
  * which downloads from blob to process.
@@ -35,7 +39,7 @@ export async function POST(request: NextRequest) {
 
     // Parse JSON body with URL or filename
     const body = await request.json()
-    const { url, filename: filenameParam } = body
+    const { url, filename: filenameParam, force, dryRun } = body
 
     if (!url && !filenameParam) {
       return NextResponse.json(
@@ -93,7 +97,10 @@ export async function POST(request: NextRequest) {
 
     // Prepare the import (downloads from blob internally)
     console.log(`[API] Preparing batched import: ${filename} (${Math.round(buffer.length / 1024)}KB)`)
-    const result = await prepareImport(blobUrl, workerType as WorkerType)
+    const result = await prepareImport(blobUrl, workerType as WorkerType, undefined, {
+      force: force === true,
+      dryRun: dryRun === true,
+    })
 
     // Clean up blob after successful preparation
     console.log(`[API] Cleaning up blob...`)
@@ -114,6 +121,20 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (error instanceof ExtractSequenceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
     if (error instanceof Error) {
       return NextResponse.json(
         { error: error.message },
@@ -2,16 +2,29 @@
  * Start KBO Import Workflow
  *
  * POST /api/admin/imports/start
- * Body: { fileUrl: string, filename: string }
+ * Body: { fileUrl: string, filename: string, force?: boolean }
  *
  * Downloads the KBO file, uploads to Vercel Blob, then triggers a durable
  * Restate workflow to process it. This keeps large payloads out of Restate's
  * state journal.
+ *
+ * Works for daily updates and monthly full dumps (files ending in _Full.zip),
+ * which run as a full import in the same workflow.
+ *
+ * Extracts that are out of order or skip extracts are rejected with 409
+ * before anything is downloaded, unless force is set. A full dump may skip
+ * extracts, but not be older than the last imported extract. An extract whose
+ * import job is still pending or running is always rejected with 409.
  */
 
 import { NextResponse } from "next/server";
-import { downloadFile } from "@/lib/kbo-client";
+import { downloadFile, extractFileMetadata } from "@/lib/kbo-client";
 import { uploadToBlob, deleteFromBlob } from "@/lib/blob";
+import { getImportWorkflowId } from "@/lib/import/ingestion";
+import { generateJobId } from "@/lib/import/batched-update";
+import { assertExtractSequence } from "@/lib/import/continuity";
+import { connectMotherduck, closeMotherduck, executeQuery } from "@/lib/motherduck";
+import { ExtractSequenceError } from "@/lib/errors";
 
 const RESTATE_INGRESS_URL = process.env.RESTATE_INGRESS_URL || "http://localhost:8080";
 const RESTATE_ADMIN_URL = process.env.RESTATE_ADMIN_URL || "http://localhost:9070";
@@ -21,7 +34,7 @@ export async function POST(request: Request) {
   let blobUrl: string | null = null;
 
   try {
-    const { fileUrl, filename } = await request.json();
+    const { fileUrl, filename, force } = await request.json();
 
     if (!fileUrl || !filename) {
       return NextResponse.json(
@@ -31,10 +44,34 @@ export async function POST(request: Request) {
     }
 
     // Generate workflow ID from filename (e.g., "import-0141" from "KboOpenData_0141_...")
-    const extractMatch = filename.match(/KboOpenData_(\d+)_/);
-    const workflowId = extractMatch
-      ? `import-${extractMatch[1]}`
-      : `import-${Date.now()}`;
+    const workflowId = getImportWorkflowId(filename);
+
+    const metadata = extractFileMetadata(filename);
+    const db = await connectMotherduck();
+    try {
+      // Never restart an import that is still in progress (manual or scheduled)
+      const activeJobs = await executeQuery<{ id: string; status: string }>(
+        db,
+        `SELECT id, status FROM import_jobs WHERE id = $job_id AND status IN ('pending', 'running')`,
+        { job_id: generateJobId(workflowId) }
+      );
+      if (activeJobs.length > 0) {
+        return NextResponse.json(
+          {
+            error: `The import of ${filename} is already ${activeJobs[0].status}`,
+            details: { workflow_id: workflowId, job_id: activeJobs[0].id },
+          },
+          { status: 409 }
+        );
+      }
+
+      // Reject out-of-order and gapped extracts up front (the workflow checks again)
+      if (metadata && force !== true) {
+        await assertExtractSequence(db, metadata.extract_number, false, metadata.file_type);
+      }
+    } finally {
+      await closeMotherduck(db);
+    }
 
     // Step 1: Download from KBO portal (happens in API route, not in Restate)
     console.log(`Downloading ${filename} from KBO portal...`);
@@ -47,7 +84,8 @@ export async function POST(request: Request) {
     blobUrl = blob.url;
     console.log(`Uploaded to blob: ${blob.pathname} (${blob.size} bytes)`);
 
-    // Step 3: Terminate any existing workflow with the same ID (allows re-imports)
+    // Step 3: Terminate any existing workflow with the same ID (allows re-imports
+    // of finished, failed or cancelled extracts; active imports were refused above)
     // Restate workflows can have stuck invocations that need aggressive cleanup
     const headers: Record<string, string> = { "Content-Type": "application/json" };
     if (RESTATE_AUTH_TOKEN) {
@@ -94,7 +132,12 @@ export async function POST(request: Request) {
       {
         method: "POST",
         headers,
-        body: JSON.stringify({ blobUrl: blob.url, filename }),
+        body: JSON.stringify({
+          blobUrl: blob.url,
+          filename,
+          force: force === true,
+          extractType: metadata?.file_type ?? "update",
+        }),
       }
     );
 
@@ -121,6 +164,13 @@ export async function POST(request: Request) {
       blob_url: blob.url,
     });
   } catch (error) {
+    if (error instanceof ExtractSequenceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
     console.error("Error starting import:", error);
 
     // Clean up blob if it was created but something failed
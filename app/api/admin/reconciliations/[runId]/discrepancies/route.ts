@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import {
+  listDiscrepancies,
+  type DiscrepancyType,
+  type ReconciliationTable,
+} from '@/lib/import/reconciliation'
+import { VERSIONED_TABLES } from '@/lib/import/versioning'
+
+const TABLES: readonly string[] = [...VERSIONED_TABLES, 'codes']
+const ISSUE_TYPES: readonly string[] = ['missing_in_db', 'orphaned_in_db', 'data_mismatch']
+
+/**
+ * GET /api/admin/reconciliations/[runId]/discrepancies
+ *
+ * Lists the discrepancies of a reconciliation run, with both versions of each
+ * record and the fields that differ.
+ *
+ * Query parameters (all optional):
+ * - table: enterprises, establishments, denominations, addresses, activities,
+ *   contacts, branches or codes
+ * - entity: enterprise or establishment number
+ * - issue: missing_in_db, orphaned_in_db or data_mismatch
+ * - limit (default 50, max 500), offset
+ *
+ * Response: { total: number, items: Discrepancy[] }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { runId } = await params
+    const searchParams = request.nextUrl.searchParams
+    const table = searchParams.get('table')
+    const issue = searchParams.get('issue')
+
+    if (table && !TABLES.includes(table)) {
+      return NextResponse.json(
+        { error: `Invalid table: ${table}`, details: { allowed: TABLES } },
+        { status: 400 }
+      )
+    }
+    if (issue && !ISSUE_TYPES.includes(issue)) {
+      return NextResponse.json(
+        { error: `Invalid issue type: ${issue}`, details: { allowed: ISSUE_TYPES } },
+        { status: 400 }
+      )
+    }
+
+    const db = await connectMotherduck()
+
+    try {
+      const discrepancies = await listDiscrepancies(db, runId, {
+        table: (table || undefined) as ReconciliationTable | undefined,
+        entityNumber: searchParams.get('entity') || undefined,
+        issueType: (issue || undefined) as DiscrepancyType | undefined,
+        limit: parseInt(searchParams.get('limit') || '50', 10) || 50,
+        offset: parseInt(searchParams.get('offset') || '0', 10) || 0,
+      })
+
+      return NextResponse.json(discrepancies)
+    } finally {
+      await closeMotherduck(db)
+    }
+
+  } catch (error) {
+    console.error('[API] Failed to list reconciliation discrepancies:', error)
+    return NextResponse.json(
+      { error: 'Failed to list reconciliation discrepancies' },
+      { status: 500 }
+    )
+  }
+}
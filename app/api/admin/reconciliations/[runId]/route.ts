@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { getReconciliationRun } from '@/lib/import/reconciliation'
+
+/**
+ * GET /api/admin/reconciliations/[runId]
+ *
+ * Gets a reconciliation run: status, counts per table, overall discrepancy
+ * percentage, recommendation and, after an auto-repair, the records repaired.
+ *
+ * Response: ReconciliationRun, or 404 if the run does not exist
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { runId } = await params
+    const db = await connectMotherduck()
+
+    try {
+      const run = await getReconciliationRun(db, runId)
+      if (!run) {
+        return NextResponse.json(
+          { error: 'Reconciliation run not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(run)
+    } finally {
+      await closeMotherduck(db)
+    }
+
+  } catch (error) {
+    console.error('[API] Failed to get reconciliation run:', error)
+    return NextResponse.json(
+      { error: 'Failed to get reconciliation run' },
+      { status: 500 }
+    )
+  }
+}
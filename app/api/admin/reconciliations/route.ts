@@ -0,0 +1,141 @@
+/**
+ * Full Dump Reconciliations
+ *
+ * GET /api/admin/reconciliations
+ * Lists the most recent reconciliation runs (ReconciliationRun[]), newest first.
+ *
+ * POST /api/admin/reconciliations
+ * Body: { fileUrl: string, filename: string, autoRepair?: boolean }
+ *
+ * Downloads a full dump from the KBO portal, uploads it to Vercel Blob and
+ * starts a KboReconciliation workflow that compares it with the current data
+ * (see lib/import/reconciliation.ts). With autoRepair the discrepancies are
+ * repaired afterwards; the workflow fails if the database is not at the
+ * dump's extract.
+ */
+
+import { NextResponse } from "next/server";
+import { checkAdminAccess } from "@/lib/auth/check-admin";
+import { downloadFile, extractFileMetadata } from "@/lib/kbo-client";
+import { uploadToBlob, deleteFromBlob } from "@/lib/blob";
+import { generateJobId } from "@/lib/import/batched-update";
+import { listReconciliationRuns } from "@/lib/import/reconciliation";
+import { connectMotherduck, closeMotherduck } from "@/lib/motherduck";
+
+const RESTATE_INGRESS_URL = process.env.RESTATE_INGRESS_URL || "http://localhost:8080";
+const RESTATE_AUTH_TOKEN = process.env.RESTATE_AUTH_TOKEN;
+
+export async function GET() {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess();
+    if (authError) return authError;
+
+    const db = await connectMotherduck();
+
+    try {
+      return NextResponse.json(await listReconciliationRuns(db));
+    } finally {
+      await closeMotherduck(db);
+    }
+  } catch (error) {
+    console.error("Failed to list reconciliation runs:", error);
+    return NextResponse.json(
+      { error: "Failed to list reconciliation runs" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  let blobUrl: string | null = null;
+
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess();
+    if (authError) return authError;
+
+    const { fileUrl, filename, autoRepair } = await request.json();
+
+    if (!fileUrl || !filename) {
+      return NextResponse.json(
+        { error: "Missing fileUrl or filename" },
+        { status: 400 }
+      );
+    }
+
+    const metadata = extractFileMetadata(filename);
+    if (metadata?.file_type !== "full") {
+      return NextResponse.json(
+        { error: "Reconciliation needs a full dump (a file ending in _Full.zip)" },
+        { status: 400 }
+      );
+    }
+
+    // Every reconciliation is a new run, also for the same dump
+    const workflowId = `reconciliation-${metadata.extract_number}-${Date.now()}`;
+
+    console.log(`Downloading ${filename} from KBO portal...`);
+    const zipBuffer = await downloadFile(fileUrl);
+    console.log(`Downloaded ${zipBuffer.length} bytes`);
+
+    const blob = await uploadToBlob(zipBuffer, filename, workflowId);
+    blobUrl = blob.url;
+    console.log(`Uploaded to blob: ${blob.pathname} (${blob.size} bytes)`);
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (RESTATE_AUTH_TOKEN) {
+      headers["Authorization"] = `Bearer ${RESTATE_AUTH_TOKEN}`;
+    }
+
+    // Start workflow via Restate ingress (fire-and-forget with /send)
+    const response = await fetch(
+      `${RESTATE_INGRESS_URL}/KboReconciliation/${workflowId}/run/send`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          blobUrl: blob.url,
+          filename,
+          autoRepair: autoRepair === true,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Restate error:", errorText);
+
+      // Clean up blob since workflow won't run
+      await deleteFromBlob(blobUrl);
+
+      return NextResponse.json(
+        { error: "Failed to start workflow", details: errorText },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      workflow_id: workflowId,
+      run_id: generateJobId(workflowId),
+      status: "started",
+      message: `Reconciliation with ${filename} started`,
+    });
+  } catch (error) {
+    console.error("Error starting reconciliation:", error);
+
+    // Clean up blob if it was created but something failed
+    if (blobUrl) {
+      try {
+        await deleteFromBlob(blobUrl);
+      } catch (cleanupError) {
+        console.error("Failed to cleanup blob:", cleanupError);
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Failed to start reconciliation", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { getWatchlist } from '@/lib/watchlists/watchlists'
+import { exportWatchlistDigest } from '@/lib/export/watchlist-digest'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * POST /api/admin/watchlists/[watchlistId]/digest
+ * Export the detected changes of a watchlist (see lib/export/watchlist-digest.ts)
+ * Download the result like any export: /api/admin/exports/[jobId]/download
+ *
+ * Body: { since?: string } - only snapshots on or after this date (YYYY-MM-DD)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ watchlistId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { watchlistId } = await params
+    const body = await request.json().catch(() => ({}))
+    if (body.since !== undefined && body.since !== null && typeof body.since !== 'string') {
+      throw new ValidationError('since must be a date (YYYY-MM-DD)')
+    }
+
+    const connection = await connectMotherduck()
+    let watchlist
+    try {
+      watchlist = await getWatchlist(connection, watchlistId, userId)
+    } finally {
+      await closeMotherduck(connection)
+    }
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    console.log(`📤 Starting watchlist digest export (watchlist: ${watchlistId}, since: ${body.since || 'start'})`)
+
+    const result = await exportWatchlistDigest(watchlist, body.since || null, 'web_manual', userId)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('❌ Watchlist digest export failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Export failed',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import {
+  addWatchlistEnterprises,
+  getWatchlist,
+  removeWatchlistEnterprises,
+} from '@/lib/watchlists/watchlists'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * Enterprise numbers of a request: a JSON body { enterpriseNumbers: string[] | string },
+ * or a text/plain or text/csv body with one number per line
+ */
+async function readUpload(request: Request): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || ''
+  if (contentType.startsWith('text/')) {
+    return request.text()
+  }
+
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Request body must be an object with enterpriseNumbers, or text')
+  }
+  return (body as { enterpriseNumbers?: unknown }).enterpriseNumbers
+}
+
+/**
+ * POST /api/admin/watchlists/[watchlistId]/enterprises
+ * Bulk upload of enterprise numbers (also VAT numbers, e.g. BE0200065765)
+ *
+ * Body: { enterpriseNumbers: string[] | string } or text with one number per line
+ * Response: { added, duplicates, invalid, invalid_count }; invalid values are
+ * reported, not rejected
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ watchlistId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { watchlistId } = await params
+    const upload = await readUpload(request)
+
+    const connection = await connectMotherduck()
+
+    try {
+      const watchlist = await getWatchlist(connection, watchlistId, userId)
+      if (!watchlist) {
+        return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+      }
+
+      const result = await addWatchlistEnterprises(connection, watchlistId, upload)
+      console.log(`👀 Watchlist ${watchlistId}: ${result.added} added, ${result.invalid_count} invalid`)
+
+      return NextResponse.json(result)
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to add watchlist enterprises:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to add watchlist enterprises',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/watchlists/[watchlistId]/enterprises
+ * Remove enterprise numbers from a watchlist
+ *
+ * Body: { enterpriseNumbers: string[] | string } or text with one number per line
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ watchlistId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { watchlistId } = await params
+    const upload = await readUpload(request)
+
+    const connection = await connectMotherduck()
+
+    try {
+      const watchlist = await getWatchlist(connection, watchlistId, userId)
+      if (!watchlist) {
+        return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+      }
+
+      const removed = await removeWatchlistEnterprises(connection, watchlistId, upload)
+
+      return NextResponse.json({ removed })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to remove watchlist enterprises:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to remove watchlist enterprises',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import {
+  deleteWatchlist,
+  getWatchlist,
+  listWatchlistEnterprises,
+  updateWatchlist,
+  validateWatchlistInput,
+} from '@/lib/watchlists/watchlists'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/admin/watchlists/[watchlistId]
+ * Get a watchlist of the signed-in user with its enterprises
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ watchlistId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { watchlistId } = await params
+    const connection = await connectMotherduck()
+
+    try {
+      const watchlist = await getWatchlist(connection, watchlistId, userId)
+      if (!watchlist) {
+        return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+      }
+
+      const enterprises = await listWatchlistEnterprises(connection, watchlistId)
+      return NextResponse.json({ watchlist, enterprises })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Failed to get watchlist:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to get watchlist',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/admin/watchlists/[watchlistId]
+ * Rename a watchlist or change its description
+ *
+ * Body: { name?: string, description?: string | null }
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ watchlistId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { watchlistId } = await params
+    const body = await request.json().catch(() => null)
+    const changes = validateWatchlistInput(body, { partial: true })
+
+    const connection = await connectMotherduck()
+
+    try {
+      const watchlist = await updateWatchlist(connection, watchlistId, userId, changes)
+      if (!watchlist) {
+        return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ watchlist })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update watchlist:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to update watchlist',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/watchlists/[watchlistId]
+ * Delete a watchlist and its enterprises
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ watchlistId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { watchlistId } = await params
+    const connection = await connectMotherduck()
+
+    try {
+      const deleted = await deleteWatchlist(connection, watchlistId, userId)
+      if (!deleted) {
+        return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+      }
+
+      console.log(`👀 Watchlist ${watchlistId} deleted`)
+
+      return NextResponse.json({ success: true })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Failed to delete watchlist:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to delete watchlist',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { detectWatchlistChanges } from '@/lib/watchlists/changes'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * POST /api/admin/watchlists/detect
+ * Detect the watchlist changes of a completed import again, e.g. after
+ * detection failed. Changes already stored are kept; only watched
+ * enterprises without a change for the extract are compared.
+ *
+ * Body: { jobId: string }
+ */
+export async function POST(request: Request) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.jobId !== 'string' || !body.jobId) {
+      throw new ValidationError('jobId is required')
+    }
+
+    console.log(`👀 Detecting watchlist changes for import ${body.jobId}`)
+    const result = await detectWatchlistChanges(body.jobId)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Watchlist change detection failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Watchlist change detection failed',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
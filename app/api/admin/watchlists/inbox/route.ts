@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { listWatchlistInbox, recordWatchlistVisit } from '@/lib/watchlists/changes'
+
+/**
+ * GET /api/admin/watchlists/inbox
+ * Changes of the signed-in user's watched enterprises since their last visit
+ *
+ * Response: { since: string | null, entries: WatchlistInboxEntry[], total: number }
+ */
+export async function GET() {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const connection = await connectMotherduck()
+
+    try {
+      const inbox = await listWatchlistInbox(connection, userId)
+      return NextResponse.json(inbox)
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Failed to load watchlist inbox:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to load watchlist inbox',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/watchlists/inbox
+ * Mark the inbox as seen: later visits only show changes detected after now
+ */
+export async function POST() {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const connection = await connectMotherduck()
+
+    try {
+      await recordWatchlistVisit(connection, userId)
+      return NextResponse.json({ success: true })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Failed to record watchlist visit:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to record watchlist visit',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
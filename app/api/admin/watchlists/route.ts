@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import {
+  createWatchlist,
+  listWatchlists,
+  validateWatchlistInput,
+} from '@/lib/watchlists/watchlists'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/admin/watchlists
+ * List the watchlists of the signed-in user
+ */
+export async function GET() {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const connection = await connectMotherduck()
+
+    try {
+      const watchlists = await listWatchlists(connection, userId)
+      return NextResponse.json({ watchlists })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Failed to list watchlists:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to list watchlists',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/watchlists
+ * Create a watchlist for the signed-in user
+ *
+ * Body: { name: string, description?: string }
+ */
+export async function POST(request: Request) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    // Watchlists belong to the signed-in user
+    const { userId } = await auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const body = await request.json().catch(() => null)
+    const input = validateWatchlistInput(body)
+
+    const connection = await connectMotherduck()
+
+    try {
+      const watchlist = await createWatchlist(connection, userId, { ...input, name: input.name as string })
+      console.log(`👀 Watchlist ${watchlist.id} created for ${userId}`)
+
+      return NextResponse.json({ watchlist }, { status: 201 })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to create watchlist:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to create watchlist',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
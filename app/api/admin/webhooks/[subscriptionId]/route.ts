@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import {
+  getWebhookSubscription,
+  updateWebhookSubscription,
+} from '@/lib/webhooks/subscriptions'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/admin/webhooks/[subscriptionId]
+ * Get a webhook subscription
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { subscriptionId } = await params
+    const connection = await connectMotherduck()
+
+    try {
+      const subscription = await getWebhookSubscription(connection, subscriptionId)
+      if (!subscription) {
+        return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ subscription })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Failed to get webhook:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to get webhook',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/admin/webhooks/[subscriptionId]
+ * Enable or disable a subscription (e.g. one whose receiver keeps failing)
+ *
+ * Body: { active: boolean }
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { subscriptionId } = await params
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.active !== 'boolean') {
+      throw new ValidationError('active must be true or false')
+    }
+
+    const connection = await connectMotherduck()
+
+    try {
+      const subscription = await updateWebhookSubscription(connection, subscriptionId, { active: body.active })
+      if (!subscription) {
+        return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+      }
+
+      console.log(`🔔 Webhook ${subscriptionId} ${body.active ? 'enabled' : 'disabled'}`)
+
+      return NextResponse.json({ subscription })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update webhook:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to update webhook',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { retryWebhookDelivery } from '@/lib/webhooks/delivery'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * POST /api/admin/webhooks/deliveries/[deliveryId]/retry
+ * Send a failed (or never queued) delivery again, with a new round of attempts
+ *
+ * 409: the delivery was delivered or is being retried
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ deliveryId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { deliveryId } = await params
+    const connection = await connectMotherduck()
+
+    try {
+      const found = await retryWebhookDelivery(connection, deliveryId)
+      if (!found) {
+        return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+      }
+
+      console.log(`🔔 Webhook delivery ${deliveryId} queued again`)
+
+      return NextResponse.json({ success: true, delivery_id: deliveryId })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 409 }
+      )
+    }
+
+    console.error('Failed to retry webhook delivery:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to retry delivery',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { listWebhookDeliveries, parseWebhookDeliveryQuery } from '@/lib/webhooks/delivery'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/admin/webhooks/deliveries
+ * Webhook delivery log, newest first
+ * Query params: subscription (ID), status (pending, retrying, delivered, failed), page, limit (max 100)
+ */
+export async function GET(request: Request) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const query = parseWebhookDeliveryQuery(searchParams)
+    const subscriptionId = searchParams.get('subscription') || undefined
+
+    const connection = await connectMotherduck()
+
+    try {
+      const { deliveries, total } = await listWebhookDeliveries(connection, { ...query, subscriptionId })
+
+      return NextResponse.json({
+        deliveries,
+        total,
+        page: query.page,
+        limit: query.limit,
+        totalPages: Math.ceil(total / query.limit),
+      })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to list webhook deliveries:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to list webhook deliveries',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { dispatchWebhooks } from '@/lib/webhooks/dispatch'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * POST /api/admin/webhooks/dispatch
+ * Dispatch the webhooks of a completed import again, e.g. after dispatching
+ * failed or Restate was unavailable. Existing deliveries are kept; only the
+ * missing ones are created, and unsent ones are queued.
+ *
+ * Body: { jobId: string }
+ */
+export async function POST(request: Request) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.jobId !== 'string' || !body.jobId) {
+      throw new ValidationError('jobId is required')
+    }
+
+    console.log(`🔔 Dispatching webhooks for import ${body.jobId}`)
+    const result = await dispatchWebhooks(body.jobId)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Webhook dispatch failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Webhook dispatch failed',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
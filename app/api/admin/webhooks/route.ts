@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { listWebhookSubscriptions } from '@/lib/webhooks/subscriptions'
+import { countWebhookDeliveries } from '@/lib/webhooks/delivery'
+
+/**
+ * GET /api/admin/webhooks
+ * List all webhook subscriptions with their delivery counts
+ */
+export async function GET() {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const connection = await connectMotherduck()
+
+    try {
+      const subscriptions = await listWebhookSubscriptions(connection)
+      const counts = await countWebhookDeliveries(connection)
+
+      return NextResponse.json({
+        subscriptions: subscriptions.map((subscription) => ({
+          ...subscription,
+          deliveries: counts[subscription.id] ?? {
+            pending: 0,
+            retrying: 0,
+            delivered: 0,
+            failed: 0,
+            last_delivered_at: null,
+          },
+        })),
+      })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Failed to list webhooks:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to list webhooks',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Cancel KBO Import Workflow
+ *
+ * POST /api/admin/workflows/[workflowId]/cancel
+ *
+ * Cancels an import workflow after its current step (right away when paused).
+ * The workflow reverts the batches it already applied, removes its staging
+ * data and blob, and marks the import job as cancelled.
+ *
+ * Responds 409 when the workflow cannot be cancelled in its current state.
+ */
+
+import { NextResponse } from "next/server";
+import { checkAdminAccess } from "@/lib/auth/check-admin";
+import { controlImportWorkflow } from "@/lib/restate/import-control";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess();
+    if (authError) return authError;
+
+    const { workflowId } = await params;
+    return await controlImportWorkflow(workflowId, "cancel");
+  } catch (error) {
+    console.error("Error requesting workflow cancel:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel workflow", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
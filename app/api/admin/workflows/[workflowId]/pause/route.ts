@@ -0,0 +1,34 @@
+/**
+ * Pause KBO Import Workflow
+ *
+ * POST /api/admin/workflows/[workflowId]/pause
+ *
+ * Pauses a running import workflow after its current step. The workflow
+ * waits (without using any compute) until it is resumed or cancelled.
+ *
+ * Responds 409 when the workflow cannot be paused in its current state.
+ */
+
+import { NextResponse } from "next/server";
+import { checkAdminAccess } from "@/lib/auth/check-admin";
+import { controlImportWorkflow } from "@/lib/restate/import-control";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess();
+    if (authError) return authError;
+
+    const { workflowId } = await params;
+    return await controlImportWorkflow(workflowId, "pause");
+  } catch (error) {
+    console.error("Error requesting workflow pause:", error);
+    return NextResponse.json(
+      { error: "Failed to pause workflow", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
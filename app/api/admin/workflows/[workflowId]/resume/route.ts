@@ -0,0 +1,33 @@
+/**
+ * Resume KBO Import Workflow
+ *
+ * POST /api/admin/workflows/[workflowId]/resume
+ *
+ * Resumes a paused import workflow.
+ *
+ * Responds 409 when the workflow cannot be resumed in its current state.
+ */
+
+import { NextResponse } from "next/server";
+import { checkAdminAccess } from "@/lib/auth/check-admin";
+import { controlImportWorkflow } from "@/lib/restate/import-control";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess();
+    if (authError) return authError;
+
+    const { workflowId } = await params;
+    return await controlImportWorkflow(workflowId, "resume");
+  } catch (error) {
+    console.error("Error requesting workflow resume:", error);
+    return NextResponse.json(
+      { error: "Failed to resume workflow", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,7 @@
  * GET /api/admin/imports/[workflowId]/status
  *
  * Fetches progress from Restate for a running or completed import workflow.
- * During "preparing" phase, also queries database for staging progress.
+ * During "preparing" phase (and "staging" of a full dump), also queries database for staging progress.
  */
 
 import { NextResponse } from "next/server";
@@ -48,8 +48,8 @@ async function getPreparationProgress(jobIdOrWorkflowId: string): Promise<{
     }>(db, `
       SELECT status, extract_number, snapshot_date
       FROM import_jobs
-      WHERE id = '${jobId}'
-    `);
+      WHERE id = $job_id
+    `, { job_id: jobId });
 
     if (jobResult.length === 0) {
       return null;
@@ -72,8 +72,8 @@ async function getPreparationProgress(jobIdOrWorkflowId: string): Promise<{
 
     for (const table of stagingTables) {
       const countResult = await executeQuery<{ count: number }>(db, `
-        SELECT COUNT(*) as count FROM ${table} WHERE job_id = '${jobId}'
-      `);
+        SELECT COUNT(*) as count FROM ${table} WHERE job_id = $job_id
+      `, { job_id: jobId });
       const count = Number(countResult[0]?.count || 0);
       if (count > 0) {
         // Extract table name (e.g., "activities" from "import_staging_activities")
@@ -151,9 +151,9 @@ export async function GET(
 
     const progress = await response.json();
 
-    // If in preparing state, enrich with database progress
+    // If in preparing or staging state, enrich with database progress
     // Use job_id from Restate if available (more reliable), fall back to generating from workflowId
-    if (progress.status === "preparing") {
+    if (progress.status === "preparing" || progress.status === "staging") {
       const prepProgress = await getPreparationProgress(progress.job_id || workflowId);
       if (prepProgress) {
         return NextResponse.json({
@@ -1,5 +1,18 @@
 import { NextResponse } from 'next/server'
+import { currentUser } from '@clerk/nextjs/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { getAppSettings, parseSettingsUpdate, updateAppSettings, type AppSettings } from '@/lib/config/app-settings'
+import { ValidationError } from '@/lib/errors'
+import { DATA_QUALITY_RULES } from '@/lib/import/data-quality'
+
+export interface ConfigResponse extends AppSettings {
+  motherduckDatabase: string
+  /** Rules that dataQualityThresholds can be set for */
+  dataQualityRules: { id: string; description: string }[]
+}
+
+const dataQualityRules = DATA_QUALITY_RULES.map(({ id, description }) => ({ id, description }))
 
 export async function GET() {
   try {
@@ -7,13 +20,57 @@ export async function GET() {
     const authError = await checkAdminAccess()
     if (authError) return authError
 
-    const config = {
-      motherduckDatabase: process.env.MOTHERDUCK_DATABASE || 'kbo',
-    }
+    const db = await connectMotherduck()
+
+    try {
+      const config: ConfigResponse = {
+        motherduckDatabase: process.env.MOTHERDUCK_DATABASE || 'kbo',
+        dataQualityRules,
+        ...(await getAppSettings(db)),
+      }
 
-    return NextResponse.json(config)
+      return NextResponse.json(config)
+    } finally {
+      await closeMotherduck(db)
+    }
   } catch (error) {
     console.error('Failed to get config:', error)
     return NextResponse.json({ error: 'Failed to get config' }, { status: 500 })
   }
 }
+
+/**
+ * PUT /api/config
+ * Body: any subset of the persisted settings (autoUpdateEnabled,
+ * notificationsEnabled, dataRetentionMonths, dataQualityThresholds)
+ */
+export async function PUT(request: Request) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const update = parseSettingsUpdate(await request.json().catch(() => null))
+    const user = await currentUser()
+
+    const db = await connectMotherduck()
+
+    try {
+      const config: ConfigResponse = {
+        motherduckDatabase: process.env.MOTHERDUCK_DATABASE || 'kbo',
+        dataQualityRules,
+        ...(await updateAppSettings(db, update, user?.id)),
+      }
+
+      return NextResponse.json(config)
+    } finally {
+      await closeMotherduck(db)
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
+    }
+    console.error('Failed to save config:', error)
+    return NextResponse.json({ error: 'Failed to save config' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Daily Update Cron
+ *
+ * GET /api/cron/daily-update
+ * Called by Vercel Cron (see vercel.json) with `Authorization: Bearer {CRON_SECRET}`.
+ *
+ * Starts a run of the KboIngestion Restate object, which imports new daily
+ * updates in extract-number order. Does nothing while the autoUpdateEnabled
+ * setting is off (the object checks it again before every import).
+ */
+
+import { NextResponse } from "next/server";
+import { checkCronAccess } from "@/lib/auth/cron-auth";
+import { connectMotherduck, closeMotherduck } from "@/lib/motherduck";
+import { getAppSettings } from "@/lib/config/app-settings";
+
+const RESTATE_INGRESS_URL = process.env.RESTATE_INGRESS_URL || "http://localhost:8080";
+const RESTATE_AUTH_TOKEN = process.env.RESTATE_AUTH_TOKEN;
+
+export async function GET(request: Request) {
+  const authError = checkCronAccess(request);
+  if (authError) return authError;
+
+  let db = null;
+
+  try {
+    db = await connectMotherduck();
+    const settings = await getAppSettings(db);
+
+    if (!settings.autoUpdateEnabled) {
+      return NextResponse.json({
+        status: "disabled",
+        message: "Automatic daily updates are disabled in Settings",
+      });
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (RESTATE_AUTH_TOKEN) {
+      headers["Authorization"] = `Bearer ${RESTATE_AUTH_TOKEN}`;
+    }
+
+    // Fire-and-forget: the run waits for every import, far beyond a cron request
+    const response = await fetch(
+      `${RESTATE_INGRESS_URL}/KboIngestion/daily/run/send`,
+      {
+        method: "POST",
+        headers,
+        body: "null",
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Restate error:", errorText);
+      return NextResponse.json(
+        { error: "Failed to start ingestion", details: errorText },
+        { status: 500 }
+      );
+    }
+
+    const { invocationId } = await response.json();
+
+    return NextResponse.json({
+      status: "started",
+      invocation_id: invocationId,
+      message: "Scheduled ingestion started",
+    });
+  } catch (error) {
+    console.error("Error starting scheduled ingestion:", error);
+    return NextResponse.json(
+      { error: "Failed to start ingestion", details: String(error) },
+      { status: 500 }
+    );
+  } finally {
+    if (db) {
+      await closeMotherduck(db);
+    }
+  }
+}
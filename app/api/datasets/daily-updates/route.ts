@@ -25,7 +25,7 @@ export async function GET() {
       // Get all imported extract numbers
       const importedExtracts = await executeQuery<{ extract_number: number }>(
         connection,
-        `SELECT DISTINCT extract_number FROM import_jobs WHERE extract_type = 'update' ORDER BY extract_number DESC`
+        `SELECT DISTINCT extract_number FROM import_jobs WHERE extract_type = 'update' AND status NOT IN ('rolled_back', 'cancelled') ORDER BY extract_number DESC`
       )
 
       const importedSet = new Set(importedExtracts.map(r => r.extract_number))
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { ValidationError } from '@/lib/errors'
+
+export type HistoryTable =
+  | 'enterprises'
+  | 'denominations'
+  | 'addresses'
+  | 'activities'
+  | 'contacts'
+  | 'establishments'
+
+/**
+ * inserted: version appeared in this extract
+ * superseded: version replaced by a newer version of the same record in this extract
+ * deleted: version removed in this extract without replacement
+ */
+export type HistoryChangeType = 'inserted' | 'superseded' | 'deleted'
+
+export interface HistoryChange {
+  table: HistoryTable
+  recordKey: string
+  changeType: HistoryChangeType
+  values: Record<string, unknown>
+}
+
+export interface HistoryExtract {
+  extractNumber: number
+  snapshotDate: string | null
+  changes: HistoryChange[]
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ number: string }> }
+) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const { number } = await params
+
+    // Optional date range (inclusive)
+    const { searchParams } = new URL(request.url)
+    const fromDate = searchParams.get('from') || undefined
+    const toDate = searchParams.get('to') || undefined
+
+    // Connect to Motherduck
+    const connection = await connectMotherduck()
+
+    try {
+      const { fetchEnterpriseHistory } = await import('@/lib/motherduck/enterprise-history')
+      const extracts = await fetchEnterpriseHistory(connection, number, { fromDate, toDate })
+
+      if (extracts.length === 0 && !fromDate && !toDate) {
+        return NextResponse.json({ error: 'Enterprise not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({
+        enterpriseNumber: number,
+        from: fromDate ?? null,
+        to: toDate ?? null,
+        extracts,
+      })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
+    }
+    console.error('Failed to fetch enterprise history:', error)
+    return NextResponse.json({ error: 'Failed to fetch enterprise history' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
 import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { ValidationError } from '@/lib/errors'
 
 export interface EnterpriseDetail {
   enterpriseNumber: string
@@ -91,6 +92,7 @@ export async function GET(
     const { searchParams } = new URL(request.url)
     const snapshotDate = searchParams.get('snapshot_date')
     const extractNumber = searchParams.get('extract_number')
+    const knownAt = searchParams.get('known_at')
     const languageParam = searchParams.get('language')
 
     // Validate language parameter (default to NL)
@@ -99,11 +101,15 @@ export async function GET(
       : 'NL'
 
     // Build temporal filter object
-    const filter = extractNumber
+    // extract_number takes precedence; snapshot_date alone resolves to the
+    // latest completed extract on or before that date. known_at restricts
+    // to what the database contained at that moment (bitemporal)
+    const filter = extractNumber || snapshotDate || knownAt
       ? {
           type: 'point-in-time' as const,
-          extractNumber: Math.max(parseInt(extractNumber) || 0, 0),
+          extractNumber: extractNumber ? Math.max(parseInt(extractNumber) || 0, 0) : undefined,
           snapshotDate: snapshotDate || undefined,
+          knownAt: knownAt || undefined,
         }
       : { type: 'current' as const }
 
@@ -124,6 +130,9 @@ export async function GET(
       await closeMotherduck(connection)
     }
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
+    }
     console.error('Failed to fetch enterprise details:', error)
     return NextResponse.json({ error: 'Failed to fetch enterprise details' }, { status: 500 })
   }
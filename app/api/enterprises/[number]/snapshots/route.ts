@@ -34,22 +34,22 @@ export async function GET(
         connection,
         `WITH all_extracts AS (
           SELECT DISTINCT _extract_number, _snapshot_date
-          FROM enterprises WHERE enterprise_number = '${number}'
+          FROM enterprises WHERE enterprise_number = $number
           UNION
           SELECT DISTINCT _extract_number, _snapshot_date
-          FROM denominations WHERE entity_number = '${number}'
+          FROM denominations WHERE entity_number = $number
           UNION
           SELECT DISTINCT _extract_number, _snapshot_date
-          FROM addresses WHERE entity_number = '${number}'
+          FROM addresses WHERE entity_number = $number
           UNION
           SELECT DISTINCT _extract_number, _snapshot_date
-          FROM activities WHERE entity_number = '${number}'
+          FROM activities WHERE entity_number = $number
           UNION
           SELECT DISTINCT _extract_number, _snapshot_date
-          FROM contacts WHERE entity_number = '${number}'
+          FROM contacts WHERE entity_number = $number
           UNION
           SELECT DISTINCT _extract_number, _snapshot_date
-          FROM establishments WHERE enterprise_number = '${number}'
+          FROM establishments WHERE enterprise_number = $number
         ),
         max_extract AS (
           SELECT MAX(_extract_number) as max_extract_num
@@ -60,7 +60,8 @@ export async function GET(
           _extract_number,
           (_extract_number = (SELECT max_extract_num FROM max_extract)) as _is_current
         FROM all_extracts
-        ORDER BY _snapshot_date DESC, _extract_number DESC`
+        ORDER BY _snapshot_date DESC, _extract_number DESC`,
+        { number }
       )
 
       if (snapshots.length === 0) {
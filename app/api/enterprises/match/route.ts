@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { ValidationError } from '@/lib/errors'
+import {
+  matchEnterprises,
+  type CandidateMatchResult,
+  type MatchCandidate,
+} from '@/lib/motherduck/entity-matching'
+
+/** Candidates accepted per request (all are resolved in one query) */
+const MAX_CANDIDATES = 500
+
+export interface EnterpriseMatchResponse {
+  results: CandidateMatchResult[]
+  matched: number
+  unmatched: number
+}
+
+/**
+ * Validate the request body into match candidates
+ */
+function parseCandidates(body: unknown): MatchCandidate[] {
+  const records = (body as { candidates?: unknown } | null)?.candidates
+  if (!Array.isArray(records) || records.length === 0) {
+    throw new ValidationError('Body must contain a non-empty candidates array')
+  }
+  if (records.length > MAX_CANDIDATES) {
+    throw new ValidationError(`At most ${MAX_CANDIDATES} candidates per request`, {
+      received: records.length,
+    })
+  }
+
+  return records.map((record, index) => {
+    const fields = (record ?? {}) as Record<string, unknown>
+    const text = (value: unknown) =>
+      typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined
+
+    const candidate: MatchCandidate = {
+      reference: text(fields.reference),
+      name: text(fields.name),
+      zipcode: text(fields.zipcode),
+      municipality: text(fields.municipality),
+      vatNumber: text(fields.vatNumber),
+    }
+    if (!candidate.name && !candidate.vatNumber) {
+      throw new ValidationError('Each candidate needs a name or a VAT number', { index })
+    }
+    return candidate
+  })
+}
+
+/**
+ * Read an optional numeric option (a number or numeric string)
+ * Returns undefined when it is missing or not a finite number, so that 0 is kept
+ */
+function parseOptionalNumber(value: unknown): number | undefined {
+  if (typeof value !== 'number' && (typeof value !== 'string' || value.trim() === '')) {
+    return undefined
+  }
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * POST /api/enterprises/match
+ * Resolve a batch of company records (name, zipcode, municipality, VAT number)
+ * to ranked enterprise matches with confidence scores
+ *
+ * Body: { candidates: MatchCandidate[], maxMatches?: number, minConfidence?: number }
+ */
+export async function POST(request: Request) {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const body = await request.json().catch(() => null)
+    const candidates = parseCandidates(body)
+    const maxMatches = Math.min(Math.max(Math.floor(parseOptionalNumber(body.maxMatches) ?? 3), 1), 10)
+    const minConfidence = Math.min(Math.max(parseOptionalNumber(body.minConfidence) ?? 0.5, 0), 1)
+
+    const connection = await connectMotherduck()
+
+    try {
+      const results = await matchEnterprises(connection, candidates, { maxMatches, minConfidence })
+      const matched = results.filter((result) => result.matches.length > 0).length
+
+      const response: EnterpriseMatchResponse = {
+        results,
+        matched,
+        unmatched: results.length - matched,
+      }
+
+      return NextResponse.json(response)
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
+    }
+    console.error('Failed to match enterprises:', error)
+    return NextResponse.json(
+      { error: 'Failed to match enterprises' },
+      { status: 500 }
+    )
+  }
+}
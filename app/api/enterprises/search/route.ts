@@ -1,7 +1,31 @@
 import { NextResponse } from 'next/server'
+import { listValue } from '@duckdb/node-api'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
-import { connectMotherduck, closeMotherduck, executeQuery } from '@/lib/motherduck'
-import { getJuridicalFormDescription } from '@/lib/cache/codes'
+import { connectMotherduck, closeMotherduck, executeQuery, executeStatement, type QueryParamValue } from '@/lib/motherduck'
+import { getCodeDescription, getJuridicalFormDescription } from '@/lib/cache/codes'
+import { ValidationError } from '@/lib/errors'
+import {
+  buildTemporalJoinQuery,
+  resolveTemporalFilter,
+  type TemporalJoin,
+  type TemporalTableRef,
+} from '@/lib/motherduck/temporal-query'
+import {
+  buildNameMatchCondition,
+  foldSearchText,
+  foldSearchTextSql,
+  searchEnterpriseNames,
+  type NameSearchMatch,
+} from '@/lib/motherduck/name-search'
+import {
+  buildSearchFilterConditions,
+  fetchSearchFacets,
+  parseSearchFilters,
+  type FacetCount,
+  type SearchFacet,
+  type SearchFacets,
+} from '@/lib/motherduck/search-filters'
+import { searchEstablishments, type EstablishmentSearchMatch } from '@/lib/motherduck/establishment-search'
 
 export interface EnterpriseSearchResult {
   enterpriseNumber: string
@@ -13,6 +37,51 @@ export interface EnterpriseSearchResult {
   address: string | null
   municipality: string | null
   isCurrent: boolean
+  /** Name search only: best-matching name and its relevance score */
+  matchedName?: string
+  relevance?: number
+}
+
+/**
+ * Establishment hit, linked to its parent enterprise
+ */
+export type EstablishmentSearchResult = EstablishmentSearchMatch
+
+/** Establishment hits returned alongside enterprise results (type=all/number) */
+const ESTABLISHMENT_PREVIEW_LIMIT = 10
+
+/**
+ * Facet value with its count and a display label (code description) when known
+ */
+export interface EnterpriseSearchFacetCount extends FacetCount {
+  label: string | null
+}
+
+export type EnterpriseSearchFacets = Record<SearchFacet, EnterpriseSearchFacetCount[]>
+
+/** Code categories used to label facet values */
+const FACET_CODE_CATEGORIES: Partial<Record<SearchFacet, string>> = {
+  juridicalForm: 'JuridicalForm',
+  status: 'Status',
+  entityType: 'TypeOfEnterprise',
+  activityGroup: 'ActivityGroup',
+}
+
+/**
+ * Add code descriptions to facet values
+ */
+async function labelFacets(facets: SearchFacets, language: string): Promise<EnterpriseSearchFacets> {
+  const entries = await Promise.all(
+    (Object.entries(facets) as [SearchFacet, FacetCount[]][]).map(async ([facet, counts]) => {
+      const category = FACET_CODE_CATEGORIES[facet]
+      const labelled = await Promise.all(counts.map(async (count) => ({
+        ...count,
+        label: category ? await getCodeDescription(category, count.value, language) : null,
+      })))
+      return [facet, labelled] as const
+    })
+  )
+  return Object.fromEntries(entries) as EnterpriseSearchFacets
 }
 
 export async function GET(request: Request) {
@@ -24,10 +93,16 @@ export async function GET(request: Request) {
     // Parse search parameters
     const { searchParams } = new URL(request.url)
     const query = searchParams.get('q') || ''
-    const searchType = searchParams.get('type') || 'all' // all, number, name, nace
+    const searchType = searchParams.get('type') || 'all' // all, number, name, nace, establishment
     const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200)
     const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
     const languageParam = searchParams.get('language')
+    const snapshotDate = searchParams.get('snapshot_date')
+    const extractNumber = searchParams.get('extract_number')
+    const knownAt = searchParams.get('known_at')
+    const includeFacets = searchParams.get('facets') === 'true'
+    // Structured filters (juridical form, status, NACE, location, start date, ...)
+    const searchFilters = parseSearchFilters(searchParams)
 
     // Validate language parameter (default to NL)
     const language = ['NL', 'FR', 'DE'].includes(languageParam?.toUpperCase() || '')
@@ -42,150 +117,202 @@ export async function GET(request: Request) {
     const connection = await connectMotherduck()
 
     try {
+      // Optional point-in-time search (by extract number or snapshot date,
+      // optionally as known at a moment)
+      const filter = await resolveTemporalFilter(
+        connection,
+        extractNumber || snapshotDate || knownAt
+          ? {
+              type: 'point-in-time',
+              extractNumber: extractNumber ? Math.max(parseInt(extractNumber) || 0, 0) : undefined,
+              snapshotDate: snapshotDate || undefined,
+              knownAt: knownAt || undefined,
+            }
+          : { type: 'current' }
+      )
+
+      if (!filter) {
+        // No completed import existed yet at the requested date
+        return NextResponse.json({ results: [], total: 0, limit, offset })
+      }
+
+      // Tables are resolved to their temporal source by the join builder,
+      // so the same queries serve current and point-in-time searches
+      const enterprises: TemporalTableRef = { table: 'enterprises', alias: 'e' }
+      const regoAddressJoin: TemporalJoin = {
+        table: 'addresses',
+        alias: 'a',
+        on: 'e.enterprise_number = a.entity_number',
+        where: `type_of_address = 'REGO'`,
+      }
+      const denominationJoin: TemporalJoin = {
+        table: 'denominations',
+        alias: 'd',
+        on: 'e.enterprise_number = d.entity_number',
+      }
+      const activityJoin: TemporalJoin = {
+        table: 'activities',
+        alias: 'act',
+        type: 'INNER',
+        on: 'e.enterprise_number = act.entity_number',
+      }
 
-      let searchSql = ''
-      let countSql = ''
+      const resultColumns = `
+        e.enterprise_number,
+        e.primary_name,
+        e.juridical_form,
+        e.status,
+        e.start_date,
+        a.street_nl as address,
+        a.municipality_nl as municipality,
+        e._is_current`
 
       // Build query based on search type
+      let filterJoins: TemporalJoin[] = []
+      let where: string | undefined
+      let orderBy = 'e.primary_name'
+      let distinct = true
+      const filterConditions = buildSearchFilterConditions(searchFilters, filter)
+      const params: Record<string, QueryParamValue> = { ...filterConditions.params }
+      const temporalInfo = filter.type === 'point-in-time'
+        ? {
+            extractNumber: filter.extractNumber ?? null,
+            snapshotDate: filter.snapshotDate ?? null,
+            knownAt: filter.knownAt ?? null,
+          }
+        : {}
+
+      if (searchType === 'establishment') {
+        // Establishments only (number, name or address), filtered on their
+        // parent enterprise
+        const establishments = await searchEstablishments(connection, query, filter, {
+          limit,
+          offset,
+          conditions: filterConditions.conditions,
+          params: filterConditions.params,
+        })
+        return NextResponse.json({
+          results: [],
+          total: 0,
+          establishments: establishments.matches,
+          establishmentTotal: establishments.total,
+          limit,
+          offset,
+          ...temporalInfo,
+        })
+      }
+
+      // Text query condition facets are counted over (the ranked name search
+      // only yields a page of enterprises, so it is replaced by its match set)
+      let facetWhere: string | undefined
+      // Set when the full-text index ranked the results (current name searches)
+      let nameMatches: NameSearchMatch[] | null = null
+      let nameMatchTotal = 0
+
       if (searchType === 'number') {
         // Search by enterprise number (remove dots and spaces for flexible matching)
-        const cleanNumber = query.replace(/[.\s]/g, '')
-        searchSql = `
-          SELECT
-            e.enterprise_number,
-            e.primary_name,
-            e.juridical_form,
-            e.status,
-            e.start_date,
-            a.street_nl as address,
-            a.municipality_nl as municipality,
-            e._is_current
-          FROM enterprises_current e
-          LEFT JOIN addresses_current a ON e.enterprise_number = a.entity_number
-            AND a.type_of_address = 'REGO'
-          WHERE REPLACE(REPLACE(e.enterprise_number, '.', ''), ' ', '') LIKE '%${cleanNumber}%'
-          ORDER BY e.enterprise_number
-          LIMIT ${limit} OFFSET ${offset}
-        `
-        countSql = `
-          SELECT COUNT(*) as count
-          FROM enterprises_current
-          WHERE REPLACE(REPLACE(enterprise_number, '.', ''), ' ', '') LIKE '%${cleanNumber}%'
-        `
+        params.clean_number = query.replace(/[.\s]/g, '')
+        where = `contains(REPLACE(REPLACE(e.enterprise_number, '.', ''), ' ', ''), $clean_number)`
+        orderBy = 'e.enterprise_number'
+        distinct = false
+      } else if (searchType === 'name' && filter.type === 'current') {
+        // Ranked full-text search over current names, then fetch the page of
+        // enterprises it returned
+        const ranked = await searchEnterpriseNames(connection, query, {
+          limit,
+          offset,
+          restrictTo: filterConditions.conditions.length > 0
+            ? buildTemporalJoinQuery({
+                select: 'e.enterprise_number',
+                from: enterprises,
+                where: filterConditions.conditions.join(' AND '),
+              }, filter)
+            : undefined,
+        })
+        const nameMatchCondition = buildNameMatchCondition('e.enterprise_number', query)
+        facetWhere = nameMatchCondition.sql
+        Object.assign(params, nameMatchCondition.params)
+        if (ranked.matches.length === 0) {
+          return NextResponse.json({
+            results: [],
+            total: ranked.total,
+            limit,
+            offset,
+            ...(includeFacets && {
+              facets: await labelFacets(
+                await fetchSearchFacets(connection, searchFilters, filter, { joins: [], where: facetWhere, params }),
+                language
+              ),
+            }),
+          })
+        }
+        nameMatches = ranked.matches
+        nameMatchTotal = ranked.total
+        params.enterprise_numbers = listValue(ranked.matches.map((m) => m.enterpriseNumber))
+        where = 'e.enterprise_number IN (SELECT UNNEST($enterprise_numbers))'
+        distinct = false
       } else if (searchType === 'name') {
-        // Search by denomination (case-insensitive)
-        const searchTerm = query.toLowerCase()
-        searchSql = `
-          SELECT DISTINCT
-            e.enterprise_number,
-            e.primary_name,
-            e.juridical_form,
-            e.status,
-            e.start_date,
-            a.street_nl as address,
-            a.municipality_nl as municipality,
-            e._is_current
-          FROM enterprises_current e
-          LEFT JOIN denominations_current d ON e.enterprise_number = d.entity_number
-          LEFT JOIN addresses_current a ON e.enterprise_number = a.entity_number
-            AND a.type_of_address = 'REGO'
-          WHERE LOWER(d.denomination) LIKE '%${searchTerm}%'
-          ORDER BY e.primary_name
-          LIMIT ${limit} OFFSET ${offset}
-        `
-        countSql = `
-          SELECT COUNT(DISTINCT e.enterprise_number) as count
-          FROM enterprises_current e
-          LEFT JOIN denominations_current d ON e.enterprise_number = d.entity_number
-          WHERE LOWER(d.denomination) LIKE '%${searchTerm}%'
-        `
+        // Point-in-time: the index only covers current names, so scan
+        // denominations (case- and accent-insensitive)
+        params.search_term = foldSearchText(query)
+        filterJoins = [denominationJoin]
+        where = `contains(strip_accents(LOWER(d.denomination)), $search_term)`
       } else if (searchType === 'nace') {
         // Search by NACE code
-        const naceCode = query.replace(/\./g, '')
-        searchSql = `
-          SELECT DISTINCT
-            e.enterprise_number,
-            e.primary_name,
-            e.juridical_form,
-            e.status,
-            e.start_date,
-            a.street_nl as address,
-            a.municipality_nl as municipality,
-            e._is_current
-          FROM enterprises_current e
-          INNER JOIN activities_current act ON e.enterprise_number = act.entity_number
-          LEFT JOIN addresses_current a ON e.enterprise_number = a.entity_number
-            AND a.type_of_address = 'REGO'
-          WHERE REPLACE(act.nace_code, '.', '') LIKE '${naceCode}%'
-          ORDER BY e.primary_name
-          LIMIT ${limit} OFFSET ${offset}
-        `
-        countSql = `
-          SELECT COUNT(DISTINCT e.enterprise_number) as count
-          FROM enterprises_current e
-          INNER JOIN activities_current act ON e.enterprise_number = act.entity_number
-          WHERE REPLACE(act.nace_code, '.', '') LIKE '${naceCode}%'
-        `
-      } else {
-        // Search all: if query provided, search across number and name; otherwise list all
-        if (query) {
-          const searchTerm = query.toLowerCase()
-          const cleanNumber = query.replace(/[.\s]/g, '')
-          searchSql = `
-            SELECT DISTINCT
-              e.enterprise_number,
-              e.primary_name,
-              e.juridical_form,
-              e.status,
-              e.start_date,
-              a.street_nl as address,
-              a.municipality_nl as municipality,
-              e._is_current
-            FROM enterprises_current e
-            LEFT JOIN denominations_current d ON e.enterprise_number = d.entity_number
-            LEFT JOIN addresses_current a ON e.enterprise_number = a.entity_number
-              AND a.type_of_address = 'REGO'
-            WHERE (
-              REPLACE(REPLACE(e.enterprise_number, '.', ''), ' ', '') LIKE '%${cleanNumber}%'
-              OR LOWER(d.denomination) LIKE '%${searchTerm}%'
-            )
-            ORDER BY e.primary_name
-            LIMIT ${limit} OFFSET ${offset}
-          `
-          countSql = `
-            SELECT COUNT(DISTINCT e.enterprise_number) as count
-            FROM enterprises_current e
-            LEFT JOIN denominations_current d ON e.enterprise_number = d.entity_number
-            WHERE (
-              REPLACE(REPLACE(e.enterprise_number, '.', ''), ' ', '') LIKE '%${cleanNumber}%'
-              OR LOWER(d.denomination) LIKE '%${searchTerm}%'
-            )
-          `
+        params.nace_code = query.replace(/\./g, '')
+        filterJoins = [activityJoin]
+        where = `starts_with(REPLACE(act.nace_code, '.', ''), $nace_code)`
+      } else if (query) {
+        // Search all: number, or name matched like type=name (the full-text
+        // index for current data, folded denominations at a point in time)
+        params.clean_number = query.replace(/[.\s]/g, '')
+        const numberCondition = `contains(REPLACE(REPLACE(e.enterprise_number, '.', ''), ' ', ''), $clean_number)`
+        const foldedQuery = foldSearchText(query)
+        if (!foldedQuery) {
+          where = numberCondition
+          distinct = false
+        } else if (filter.type === 'current') {
+          await executeStatement(connection, 'LOAD fts')
+          const nameMatchCondition = buildNameMatchCondition('e.enterprise_number', query)
+          Object.assign(params, nameMatchCondition.params)
+          where = `(${numberCondition} OR ${nameMatchCondition.sql})`
+          distinct = false
         } else {
-          // No query: list all enterprises with pagination
-          searchSql = `
-            SELECT
-              e.enterprise_number,
-              e.primary_name,
-              e.juridical_form,
-              e.status,
-              e.start_date,
-              a.street_nl as address,
-              a.municipality_nl as municipality,
-              e._is_current
-            FROM enterprises_current e
-            LEFT JOIN addresses_current a ON e.enterprise_number = a.entity_number
-              AND a.type_of_address = 'REGO'
-            ORDER BY e.enterprise_number
-            LIMIT ${limit} OFFSET ${offset}
-          `
-          countSql = `
-            SELECT COUNT(*) as count
-            FROM enterprises_current
-          `
+          params.search_term = foldedQuery
+          filterJoins = [denominationJoin]
+          where = `(${numberCondition} OR contains(${foldSearchTextSql('d.denomination')}, $search_term))`
         }
+      } else {
+        // No query: list all enterprises with pagination
+        orderBy = 'e.enterprise_number'
+        distinct = false
+      }
+
+      if (!nameMatches) {
+        // Ranked name searches apply the filters in the index query
+        facetWhere = where
+        where = [where, ...filterConditions.conditions].filter(Boolean).join(' AND ') || undefined
       }
 
+      const searchQuery = buildTemporalJoinQuery({
+        select: resultColumns,
+        distinct,
+        from: enterprises,
+        joins: [...filterJoins, regoAddressJoin],
+        where,
+        orderBy,
+        // Ranked name searches are already paginated by the index
+        limit: nameMatches ? undefined : limit,
+        offset: nameMatches ? undefined : offset,
+      }, filter)
+
+      const countQuery = buildTemporalJoinQuery({
+        select: distinct ? 'COUNT(DISTINCT e.enterprise_number) as count' : 'COUNT(*) as count',
+        from: enterprises,
+        joins: filterJoins,
+        where,
+      }, filter)
+
       // Execute search and count queries in parallel
       const [results, countResult] = await Promise.all([
         executeQuery<{
@@ -197,25 +324,56 @@ export async function GET(request: Request) {
           address: string | null
           municipality: string | null
           _is_current: boolean
-        }>(connection, searchSql),
-        executeQuery<{ count: number }>(connection, countSql),
+        }>(connection, searchQuery.sql, { ...searchQuery.params, ...params }),
+        nameMatches
+          ? [{ count: nameMatchTotal }]
+          : executeQuery<{ count: number }>(connection, countQuery.sql, { ...countQuery.params, ...params }),
       ])
 
+      const facets = includeFacets
+        ? await fetchSearchFacets(connection, searchFilters, filter, { joins: filterJoins, where: facetWhere, params })
+        : null
+
+      // Establishment numbers, names and addresses are not part of the
+      // enterprise search; show the first hits next to it
+      const includeEstablishments = offset === 0 && (
+        (searchType === 'all' && query) || (searchType === 'number' && /^[\d.\s]+$/.test(query))
+      )
+      const establishments = includeEstablishments
+        ? await searchEstablishments(connection, query, filter, {
+            limit: ESTABLISHMENT_PREVIEW_LIMIT,
+            offset: 0,
+            conditions: filterConditions.conditions,
+            params: filterConditions.params,
+          })
+        : null
+
       const total = Number(countResult[0].count)
 
+      // Restore relevance order for ranked name searches
+      if (nameMatches) {
+        const rank = new Map(nameMatches.map((m, i) => [m.enterpriseNumber, i]))
+        results.sort((a, b) => (rank.get(a.enterprise_number) ?? 0) - (rank.get(b.enterprise_number) ?? 0))
+      }
+      const matchByNumber = new Map(nameMatches?.map((m) => [m.enterpriseNumber, m]))
+
       // Enrich results with juridical form descriptions from cache
       const formattedResults: EnterpriseSearchResult[] = await Promise.all(
-        results.map(async (row) => ({
-          enterpriseNumber: row.enterprise_number,
-          primaryName: row.primary_name || 'Unknown',
-          juridicalForm: row.juridical_form,
-          juridicalFormDescription: await getJuridicalFormDescription(row.juridical_form, language),
-          status: row.status,
-          startDate: row.start_date,
-          address: row.address,
-          municipality: row.municipality,
-          isCurrent: row._is_current,
-        }))
+        results.map(async (row) => {
+          const match = matchByNumber.get(row.enterprise_number)
+          return {
+            enterpriseNumber: row.enterprise_number,
+            primaryName: row.primary_name || 'Unknown',
+            juridicalForm: row.juridical_form,
+            juridicalFormDescription: await getJuridicalFormDescription(row.juridical_form, language),
+            status: row.status,
+            startDate: row.start_date,
+            address: row.address,
+            municipality: row.municipality,
+            isCurrent: row._is_current,
+            ...(match && { matchedName: match.matchedName, relevance: match.score }),
+          }
+        })
       )
 
       return NextResponse.json({
@@ -223,11 +381,20 @@ export async function GET(request: Request) {
         total,
         limit,
         offset,
+        ...(facets && { facets: await labelFacets(facets, language) }),
+        ...(establishments && {
+          establishments: establishments.matches,
+          establishmentTotal: establishments.total,
+        }),
+        ...temporalInfo,
       })
     } finally {
       await closeMotherduck(connection)
     }
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
+    }
     console.error('Failed to search enterprises:', error)
     return NextResponse.json(
       { error: 'Failed to search enterprises' },
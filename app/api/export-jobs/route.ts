@@ -50,8 +50,9 @@ export async function GET(request: Request) {
             strftime(created_at, '%Y-%m-%dT%H:%M:%S.000Z') as created_at
           FROM export_jobs
           ORDER BY created_at DESC
-          LIMIT ${limit} OFFSET ${offset}
-        `
+          LIMIT $limit OFFSET $offset
+        `,
+        { limit, offset }
       )
 
       const totalPages = Math.ceil(total / limit)
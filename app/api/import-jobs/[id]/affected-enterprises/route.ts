@@ -41,10 +41,10 @@ export async function GET(
 
     try {
       // First, get the import job to extract the extract_number
-      // Safe to use in SQL after UUID validation above
       const jobResults = await executeQuery<{ extract_number: number }>(
         connection,
-        `SELECT extract_number FROM import_jobs WHERE id = '${id}'`
+        `SELECT extract_number FROM import_jobs WHERE id = $id`,
+        { id }
       )
 
       if (jobResults.length === 0) {
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { getExtractContinuity } from '@/lib/import/continuity'
+
+/**
+ * GET /api/import-jobs/continuity
+ * Extract continuity report: imported, missing, failed and out-of-order
+ * extracts since the last full import
+ */
+export async function GET() {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const connection = await connectMotherduck()
+
+    try {
+      return NextResponse.json(await getExtractContinuity(connection))
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error) {
+    console.error('Failed to fetch extract continuity:', error)
+    return NextResponse.json({ error: 'Failed to fetch extract continuity' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { checkAdminAccess } from '@/lib/auth/check-admin'
+import { connectMotherduck, closeMotherduck } from '@/lib/motherduck'
+import { getAppSettings } from '@/lib/config/app-settings'
+import {
+  DATA_QUALITY_RULES,
+  getDataQualityTrend,
+  type DataQualityJobFindings,
+  type DataQualityThresholds,
+} from '@/lib/import/data-quality'
+
+export interface DataQualityResponse {
+  rules: { id: string; description: string }[]
+  thresholds: DataQualityThresholds
+  /** Findings of the most recent import jobs, oldest first */
+  jobs: DataQualityJobFindings[]
+}
+
+/**
+ * GET /api/import-jobs/data-quality
+ * Data quality findings per rule for the most recent import jobs
+ */
+export async function GET() {
+  try {
+    // Check authentication and admin role
+    const authError = await checkAdminAccess()
+    if (authError) return authError
+
+    const connection = await connectMotherduck()
+
+    try {
+      const response: DataQualityResponse = {
+        rules: DATA_QUALITY_RULES.map(({ id, description }) => ({ id, description })),
+        thresholds: (await getAppSettings(connection)).dataQualityThresholds,
+        jobs: await getDataQualityTrend(connection),
+      }
+
+      return NextResponse.json(response)
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error) {
+    console.error('Failed to fetch data quality findings:', error)
+    return NextResponse.json({ error: 'Failed to fetch data quality findings' }, { status: 500 })
+  }
+}
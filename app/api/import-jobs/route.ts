@@ -5,9 +5,10 @@ import { connectMotherduck, closeMotherduck, executeQuery } from '@/lib/motherdu
 export interface ImportJobRecord {
   id: string
   type: 'daily' | 'monthly'
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'rolled_back' | 'cancelled'
   startedAt: string | null
   completedAt: string | null
+  rolledBackAt: string | null
   extractNumber: number
   snapshotDate: string
   recordsProcessed: number
@@ -59,6 +60,7 @@ export async function GET(request: NextRequest) {
         status: string
         started_at: string | null
         completed_at: string | null
+        rolled_back_at: string | null
         records_processed: number
         records_inserted: number
         records_updated: number
@@ -75,6 +77,7 @@ export async function GET(request: NextRequest) {
           status,
           started_at::VARCHAR as started_at,
           completed_at::VARCHAR as completed_at,
+          rolled_back_at::VARCHAR as rolled_back_at,
           records_processed,
           records_inserted,
           records_updated,
@@ -83,15 +86,17 @@ export async function GET(request: NextRequest) {
           worker_type
         FROM import_jobs
         ORDER BY extract_number DESC
-        OFFSET ${offset} LIMIT ${limit}`
+        OFFSET $offset LIMIT $limit`,
+        { offset, limit }
       )
 
       const jobs: ImportJobRecord[] = results.map((row) => ({
         id: row.id,
         type: row.extract_type === 'full' ? 'monthly' : 'daily',
-        status: row.status as 'pending' | 'running' | 'completed' | 'failed',
+        status: row.status as ImportJobRecord['status'],
         startedAt: row.started_at,
         completedAt: row.completed_at,
+        rolledBackAt: row.rolled_back_at,
         extractNumber: row.extract_number,
         snapshotDate: row.snapshot_date,
         recordsProcessed: Number(row.records_processed),
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { checkAdminAccess } from '@/lib/auth/check-admin'
 import { downloadFile, extractFileMetadata } from '@/lib/kbo-client'
 import { processDailyUpdate } from '@/lib/import/daily-update'
+import { DataQualityError, ExtractSequenceError } from '@/lib/errors'
 
 // Vercel serverless function configuration
 export const maxDuration = 300 // 5 minutes for large imports (requires Pro plan)
@@ -22,6 +23,9 @@ export const dynamic = 'force-dynamic' // Disable caching for import operations
  *   "filename": "KboOpenData_0141_2025_10_06_Update.zip"
  * }
  *
+ * Optional "force": true imports the extract even if it is out of order or
+ * skips extracts (otherwise rejected with 409 and the missing extracts)
+ *
  * Response:
  * {
  *   "success": true,
@@ -40,7 +44,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json()
-    const { url, filename } = body
+    const { url, filename, force } = body
 
     if (!url && !filename) {
       return NextResponse.json(
@@ -93,7 +97,7 @@ export async function POST(request: NextRequest) {
     // Process the import
     console.log(`🔄 Processing import...`)
     try {
-      const stats = await processDailyUpdate(zipBuffer, 'web_manual')
+      const stats = await processDailyUpdate(zipBuffer, 'web_manual', { force: force === true })
 
       console.log(`   ✓ Import completed successfully`)
       console.log(`   Tables: ${stats.tablesProcessed.join(', ')}`)
@@ -111,6 +115,20 @@ export async function POST(request: NextRequest) {
         errors: stats.errors.length > 0 ? stats.errors : undefined
       })
     } catch (error: unknown) {
+      if (error instanceof ExtractSequenceError) {
+        return NextResponse.json(
+          { error: error.message, details: error.details },
+          { status: 409 } // Conflict
+        )
+      }
+
+      if (error instanceof DataQualityError) {
+        return NextResponse.json(
+          { error: error.message, details: error.details },
+          { status: 422 } // Unprocessable: imported, but failed the data quality checks
+        )
+      }
+
       console.error('Import processing failed:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
 
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import {
+  checkMachineAccess,
+  isMachineAuthError,
+} from '@/lib/auth/machine-auth'
+import { exportChangeFeed, validateChangeFeedRange } from '@/lib/export/change-feed'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * POST /api/machine/exports/change-feed
+ * Export the enterprises that changed in a range of extracts (see lib/export/change-feed.ts)
+ * Download the result with GET /api/machine/exports/[jobId]/download
+ * Protected by X-API-Key header authentication
+ *
+ * Body: { fromExtract: number, toExtract: number } (inclusive)
+ */
+export async function POST(request: Request) {
+  try {
+    // Check machine API authentication
+    const authResult = await checkMachineAccess(request)
+    if (isMachineAuthError(authResult)) return authResult
+
+    const client = authResult
+
+    const body = await request.json().catch(() => ({}))
+    const range = validateChangeFeedRange(body)
+
+    console.log(`🤖 Machine API: ${client.name} exporting change feed ${range.fromExtract}-${range.toExtract}`)
+
+    const result = await exportChangeFeed(range, 'vercel', `machine:${client.clientId}`)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('❌ Change feed export failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Export failed',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
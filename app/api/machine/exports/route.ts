@@ -23,6 +23,7 @@ interface ExportListItem {
 /**
  * GET /api/machine/exports
  * List available exports for machine/API access
+ * Query params: limit (max 100), status (default completed), type (export type)
  * Protected by X-API-Key header authentication
  */
 export async function GET(request: Request) {
@@ -38,6 +39,7 @@ export async function GET(request: Request) {
     const url = new URL(request.url)
     const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100)
     const status = url.searchParams.get('status') || 'completed'
+    const exportType = url.searchParams.get('type')
 
     // Connect to Motherduck
     const connection = await connectMotherduck()
@@ -56,11 +58,13 @@ export async function GET(request: Request) {
             expires_at,
             table_name
           FROM export_jobs
-          WHERE status = '${status}'
+          WHERE status = $status
+            AND ($export_type IS NULL OR export_type = $export_type)
             AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
           ORDER BY created_at DESC
-          LIMIT ${limit}
-        `
+          LIMIT $limit
+        `,
+        { status, export_type: exportType, limit }
       )
 
       const exports: ExportListItem[] = jobs.map((job) => ({
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import {
+  checkMachineAccess,
+  isMachineAuthError,
+} from '@/lib/auth/machine-auth'
+import {
+  connectMotherduck,
+  closeMotherduck,
+} from '@/lib/motherduck'
+import { getWebhookSubscription } from '@/lib/webhooks/subscriptions'
+import { listWebhookDeliveries, parseWebhookDeliveryQuery } from '@/lib/webhooks/delivery'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/machine/webhooks/[subscriptionId]/deliveries
+ * Delivery log of one of the calling client's subscriptions, newest first
+ * Query params: status (pending, retrying, delivered, failed), page, limit (max 100)
+ * Protected by X-API-Key header authentication
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    // Check machine API authentication
+    const authResult = await checkMachineAccess(request)
+    if (isMachineAuthError(authResult)) return authResult
+
+    const client = authResult
+    const { subscriptionId } = await params
+    const query = parseWebhookDeliveryQuery(new URL(request.url).searchParams)
+
+    const connection = await connectMotherduck()
+
+    try {
+      const subscription = await getWebhookSubscription(connection, subscriptionId, client.clientId)
+      if (!subscription) {
+        return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+      }
+
+      const { deliveries, total } = await listWebhookDeliveries(connection, {
+        ...query,
+        subscriptionId,
+        clientId: client.clientId,
+      })
+
+      return NextResponse.json({
+        deliveries,
+        total,
+        page: query.page,
+        limit: query.limit,
+        totalPages: Math.ceil(total / query.limit),
+      })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Machine API webhook deliveries failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to list deliveries',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
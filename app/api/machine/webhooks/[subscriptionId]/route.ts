@@ -0,0 +1,154 @@
+import { NextResponse } from 'next/server'
+import {
+  checkMachineAccess,
+  isMachineAuthError,
+} from '@/lib/auth/machine-auth'
+import {
+  connectMotherduck,
+  closeMotherduck,
+} from '@/lib/motherduck'
+import {
+  deleteWebhookSubscription,
+  getWebhookSubscription,
+  updateWebhookSubscription,
+  validateWebhookSubscriptionInput,
+} from '@/lib/webhooks/subscriptions'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/machine/webhooks/[subscriptionId]
+ * Get one of the calling client's webhook subscriptions
+ * Protected by X-API-Key header authentication
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    // Check machine API authentication
+    const authResult = await checkMachineAccess(request)
+    if (isMachineAuthError(authResult)) return authResult
+
+    const client = authResult
+    const { subscriptionId } = await params
+    const connection = await connectMotherduck()
+
+    try {
+      const subscription = await getWebhookSubscription(connection, subscriptionId, client.clientId)
+      if (!subscription) {
+        return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ subscription })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Machine API webhook lookup failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to get webhook',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/machine/webhooks/[subscriptionId]
+ * Change the url, filter, description or active flag of a subscription
+ * Protected by X-API-Key header authentication
+ *
+ * Body: any of { url, filter, description, active }
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    // Check machine API authentication
+    const authResult = await checkMachineAccess(request)
+    if (isMachineAuthError(authResult)) return authResult
+
+    const client = authResult
+    const { subscriptionId } = await params
+
+    const body = await request.json().catch(() => null)
+    const changes = await validateWebhookSubscriptionInput(body, { partial: true })
+
+    const connection = await connectMotherduck()
+
+    try {
+      const subscription = await updateWebhookSubscription(connection, subscriptionId, changes, client.clientId)
+      if (!subscription) {
+        return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ subscription })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Machine API webhook update failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to update webhook',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/machine/webhooks/[subscriptionId]
+ * Delete a subscription and its delivery log
+ * Protected by X-API-Key header authentication
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    // Check machine API authentication
+    const authResult = await checkMachineAccess(request)
+    if (isMachineAuthError(authResult)) return authResult
+
+    const client = authResult
+    const { subscriptionId } = await params
+    const connection = await connectMotherduck()
+
+    try {
+      const deleted = await deleteWebhookSubscription(connection, subscriptionId, client.clientId)
+      if (!deleted) {
+        return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+      }
+
+      console.log(`🤖 Machine API: ${client.name} deleted webhook ${subscriptionId}`)
+
+      return NextResponse.json({ success: true })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Machine API webhook delete failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to delete webhook',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server'
+import {
+  checkMachineAccess,
+  isMachineAuthError,
+} from '@/lib/auth/machine-auth'
+import {
+  connectMotherduck,
+  closeMotherduck,
+} from '@/lib/motherduck'
+import {
+  createWebhookSubscription,
+  listWebhookSubscriptions,
+  validateWebhookSubscriptionInput,
+} from '@/lib/webhooks/subscriptions'
+import type { WebhookFilter } from '@/lib/webhooks/types'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * GET /api/machine/webhooks
+ * List the webhook subscriptions of the calling client
+ * Protected by X-API-Key header authentication
+ */
+export async function GET(request: Request) {
+  try {
+    // Check machine API authentication
+    const authResult = await checkMachineAccess(request)
+    if (isMachineAuthError(authResult)) return authResult
+
+    const client = authResult
+    const connection = await connectMotherduck()
+
+    try {
+      const subscriptions = await listWebhookSubscriptions(connection, client.clientId)
+
+      return NextResponse.json({
+        subscriptions,
+        count: subscriptions.length,
+        client: client.clientId,
+      })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    console.error('Machine API webhooks list failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to list webhooks',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/machine/webhooks
+ * Subscribe a callback URL to the enterprise changes matching a filter
+ * Protected by X-API-Key header authentication
+ *
+ * Body: { url: string, filter: WebhookFilter, description?: string, active?: boolean }
+ * Response: { subscription, secret } - the signing secret is only returned here
+ */
+export async function POST(request: Request) {
+  try {
+    // Check machine API authentication
+    const authResult = await checkMachineAccess(request)
+    if (isMachineAuthError(authResult)) return authResult
+
+    const client = authResult
+
+    const body = await request.json().catch(() => null)
+    const input = await validateWebhookSubscriptionInput(body)
+
+    const connection = await connectMotherduck()
+
+    try {
+      const { subscription, secret } = await createWebhookSubscription(connection, client.clientId, {
+        ...input,
+        url: input.url as string,
+        filter: input.filter as WebhookFilter,
+      })
+
+      console.log(`🤖 Machine API: ${client.name} subscribed ${subscription.url} (${subscription.id})`)
+
+      return NextResponse.json({ subscription, secret }, { status: 201 })
+    } finally {
+      await closeMotherduck(connection)
+    }
+  } catch (error: unknown) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    console.error('Machine API webhook subscription failed:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      {
+        error: 'Failed to create webhook',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+}
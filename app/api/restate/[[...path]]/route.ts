@@ -8,9 +8,17 @@
 
 import * as restate from "@restatedev/restate-sdk/fetch";
 import kboImportWorkflow from "@/lib/restate/kbo-import-service";
+import kboIngestionObject from "@/lib/restate/kbo-ingestion-service";
+import kboReconciliationWorkflow from "@/lib/restate/kbo-reconciliation-service";
+import kboWebhookDeliveryService from "@/lib/restate/kbo-webhook-service";
 
 // Create Restate endpoint that Restate Server will call
-const endpoint = restate.endpoint().bind(kboImportWorkflow);
+const endpoint = restate
+  .endpoint()
+  .bind(kboImportWorkflow)
+  .bind(kboIngestionObject)
+  .bind(kboReconciliationWorkflow)
+  .bind(kboWebhookDeliveryService);
 
 // Enable request signature validation if public key is configured
 if (process.env.RESTATE_SIGNING_PUBLIC_KEY) {
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * Validates Vercel Cron requests
+ * Returns NextResponse with error if not authorized, or null if authorized
+ *
+ * Vercel sends the CRON_SECRET environment variable as
+ * `Authorization: Bearer {CRON_SECRET}` with every cron invocation.
+ */
+export function checkCronAccess(request: Request): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error('CRON_SECRET environment variable not configured')
+    return NextResponse.json(
+      { error: 'Cron not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null // Authorized
+}
@@ -2,10 +2,15 @@
  * Vercel Blob Storage Utilities
  *
  * Provides helpers for uploading, downloading, and deleting files from Vercel Blob storage.
- * Used to store KBO import ZIP files temporarily, avoiding Restate payload limits.
+ * Used to store KBO import ZIP files (and the parts a full dump is split into)
+ * temporarily, avoiding Restate payload limits.
  */
 
-import { put, del } from '@vercel/blob'
+import { put, del, list } from '@vercel/blob'
+import { createWriteStream } from 'fs'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
 
 /**
  * Result from uploading a file to blob storage
@@ -60,6 +65,27 @@ export async function downloadFromBlob(url: string): Promise<Buffer> {
   return Buffer.from(arrayBuffer)
 }
 
+/**
+ * Download a file from Vercel Blob storage to a local file
+ *
+ * Streams the response to disk, so large ZIP files are never held in memory.
+ *
+ * @param url - Blob URL to download from
+ * @param filePath - Local file to write
+ * @returns Number of bytes written
+ */
+export async function downloadBlobToFile(url: string, filePath: string): Promise<number> {
+  const response = await fetch(url)
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download from blob: ${response.status} ${response.statusText}`)
+  }
+
+  const output = createWriteStream(filePath)
+  await pipeline(Readable.fromWeb(response.body as WebReadableStream<Uint8Array>), output)
+  return output.bytesWritten
+}
+
 /**
  * Delete a file from Vercel Blob storage
  *
@@ -70,3 +96,26 @@ export async function deleteFromBlob(url: string): Promise<void> {
     token: process.env.NEWAGEKBOBLOB_READ_WRITE_TOKEN,
   })
 }
+
+/**
+ * Delete every file under a pathname prefix from Vercel Blob storage
+ *
+ * @param prefix - Pathname prefix (e.g. "kbo-imports/<job id>-")
+ * @returns Number of files deleted
+ */
+export async function deleteBlobsWithPrefix(prefix: string): Promise<number> {
+  const token = process.env.NEWAGEKBOBLOB_READ_WRITE_TOKEN
+  let deleted = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await list({ prefix, cursor, token })
+    if (page.blobs.length > 0) {
+      await del(page.blobs.map(blob => blob.url), { token })
+      deleted += page.blobs.length
+    }
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  return deleted
+}
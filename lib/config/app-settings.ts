@@ -0,0 +1,149 @@
+/**
+ * Application Settings
+ * Settings changed from the admin Settings page, persisted in the
+ * app_settings table (one JSON value per key). Keys without a row use the
+ * defaults below.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeTransaction, type QueryParams } from '@/lib/motherduck'
+import { ValidationError } from '@/lib/errors'
+import { DATA_QUALITY_RULES, type DataQualityThresholds } from '@/lib/import/data-quality'
+
+export interface AppSettings {
+  /** Import new daily updates automatically (scheduled ingestion) */
+  autoUpdateEnabled: boolean
+  /** Email notifications about import job status */
+  notificationsEnabled: boolean
+  /** Months of historical data to keep */
+  dataRetentionMonths: number
+  /** Maximum data quality violations per rule before an import fails (null = report only) */
+  dataQualityThresholds: DataQualityThresholds
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autoUpdateEnabled: false,
+  notificationsEnabled: true,
+  dataRetentionMonths: 24,
+  dataQualityThresholds: {},
+}
+
+const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]
+
+/**
+ * Validate a partial settings update
+ * Throws ValidationError for unknown keys and values of the wrong type
+ */
+export function parseSettingsUpdate(input: unknown): Partial<AppSettings> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Settings must be an object')
+  }
+
+  const update: Partial<AppSettings> = {}
+
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case 'autoUpdateEnabled':
+      case 'notificationsEnabled':
+        if (typeof value !== 'boolean') {
+          throw new ValidationError(`${key} must be a boolean`, { key, value })
+        }
+        update[key] = value
+        break
+      case 'dataRetentionMonths':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 120) {
+          throw new ValidationError('dataRetentionMonths must be a whole number between 1 and 120', { key, value })
+        }
+        update[key] = value
+        break
+      case 'dataQualityThresholds':
+        update[key] = parseThresholds(value)
+        break
+      default:
+        throw new ValidationError(`Unknown setting: ${key}`, { key })
+    }
+  }
+
+  return update
+}
+
+/**
+ * Validate data quality thresholds: known rule IDs mapped to a whole number
+ * of allowed violations, or null to only report the rule
+ */
+function parseThresholds(value: unknown): DataQualityThresholds {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('dataQualityThresholds must be an object', { key: 'dataQualityThresholds', value })
+  }
+
+  const ruleIds = DATA_QUALITY_RULES.map(rule => rule.id)
+  const thresholds: DataQualityThresholds = {}
+
+  for (const [ruleId, threshold] of Object.entries(value)) {
+    if (!ruleIds.includes(ruleId)) {
+      throw new ValidationError(`Unknown data quality rule: ${ruleId}`, { ruleId })
+    }
+    if (threshold !== null && (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 0)) {
+      throw new ValidationError(`Threshold for ${ruleId} must be a whole number of at least 0, or null`, { ruleId, threshold })
+    }
+    thresholds[ruleId] = threshold
+  }
+
+  return thresholds
+}
+
+/**
+ * Get all settings, with defaults for settings that were never saved
+ */
+export async function getAppSettings(db: DuckDBConnection): Promise<AppSettings> {
+  const rows = await executeQuery<{ key: string; value: string }>(db, `
+    SELECT key, value::VARCHAR as value FROM app_settings
+  `)
+
+  const stored: Partial<Record<keyof AppSettings, unknown>> = {}
+  for (const row of rows) {
+    stored[row.key as keyof AppSettings] = JSON.parse(row.value)
+  }
+
+  // Stored values from an older version may no longer validate; fall back to defaults
+  const settings = { ...DEFAULT_SETTINGS }
+  for (const key of SETTING_KEYS) {
+    if (stored[key] === undefined) continue
+    try {
+      Object.assign(settings, parseSettingsUpdate({ [key]: stored[key] }))
+    } catch {
+      console.warn(`Ignoring invalid stored setting ${key}`)
+    }
+  }
+
+  return settings
+}
+
+/**
+ * Save changed settings and return the full updated settings
+ *
+ * @param userId - Clerk user ID recorded as updated_by
+ */
+export async function updateAppSettings(
+  db: DuckDBConnection,
+  update: Partial<AppSettings>,
+  userId?: string
+): Promise<AppSettings> {
+  // Delete then insert (Motherduck may not honor ON CONFLICT at commit time)
+  const statements: { sql: string; params: QueryParams }[] = []
+  for (const [key, value] of Object.entries(update)) {
+    statements.push(
+      { sql: 'DELETE FROM app_settings WHERE key = $key', params: { key } },
+      {
+        sql: `
+          INSERT INTO app_settings (key, value, updated_at, updated_by)
+          VALUES ($key, $value, CURRENT_TIMESTAMP, $updated_by)
+        `,
+        params: { key, value: JSON.stringify(value), updated_by: userId ?? null },
+      }
+    )
+  }
+  await executeTransaction(db, statements)
+
+  return getAppSettings(db)
+}
@@ -23,6 +23,43 @@ export class ValidationError extends Error {
   }
 }
 
+/**
+ * Thrown when an incremental extract would be applied out of order or after a
+ * gap (see lib/import/continuity.ts). Can be overridden with `force`.
+ */
+export class ExtractSequenceError extends Error {
+  constructor(
+    message: string,
+    public readonly details: {
+      extractNumber: number
+      lastImportedExtract: number | null
+      missingExtracts: number[]
+    }
+  ) {
+    super(message)
+    this.name = 'ExtractSequenceError'
+  }
+}
+
+/**
+ * Thrown when an import adds more data quality rule violations than their
+ * configured thresholds (see lib/import/data-quality.ts). The applied
+ * batches are reverted and the import job is marked failed; the extract can be
+ * imported again.
+ */
+export class DataQualityError extends Error {
+  constructor(
+    message: string,
+    public readonly details: {
+      jobId: string
+      exceededRules: { ruleId: string; violations: number; newViolations: number; threshold: number }[]
+    }
+  ) {
+    super(message)
+    this.name = 'DataQualityError'
+  }
+}
+
 export class TransformationError extends Error {
   constructor(message: string, public readonly cause?: Error) {
     super(message)
@@ -0,0 +1,346 @@
+/**
+ * Custom exports built from an export spec
+ *
+ * validateExportSpec() checks a spec received from a client,
+ * compileExportSpec() turns it into a SELECT over the versioned tables, and
+ * exportCustom() runs it as an export job with the spec stored in
+ * export_jobs.filter_config.
+ */
+
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeStatement,
+  quoteIdentifier,
+  type QueryParamValue,
+} from '../motherduck'
+import {
+  buildSearchFilterConditions,
+  validateSearchFilters,
+} from '../motherduck/search-filters'
+import {
+  assertValidSnapshotDate,
+  buildTemporalSource,
+  resolveTemporalFilter,
+  temporalParams,
+  type TemporalFilter,
+} from '../motherduck/temporal-query'
+import { ValidationError } from '@/lib/errors'
+import type { Language } from '../types/codes'
+import { runExportJob } from './jobs'
+import {
+  EXPORT_COLUMNS,
+  EXPORT_LANGUAGES,
+  type ExportColumnId,
+  type ExportColumnSource,
+  type ExportSpec,
+} from './spec'
+import type { ExportJobResult, WorkerType } from './types'
+
+const MAX_LABEL_LENGTH = 200
+
+const SPEC_KEYS = ['label', 'filters', 'asOf', 'columns', 'language']
+
+/**
+ * Validate an export spec received from a client or read from filter_config
+ *
+ * Unknown columns are rejected, duplicates dropped and the enterprise
+ * number moved to the front. The language defaults to NL.
+ *
+ * @throws ValidationError when the spec is malformed
+ */
+export function validateExportSpec(input: unknown): ExportSpec {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Export spec must be an object')
+  }
+  const raw = input as Record<string, unknown>
+
+  const unknownKeys = Object.keys(raw).filter((key) => !SPEC_KEYS.includes(key))
+  if (unknownKeys.length > 0) {
+    throw new ValidationError(`Unknown export spec field: ${unknownKeys[0]}`, { allowed: SPEC_KEYS })
+  }
+
+  const spec: ExportSpec = {
+    filters: validateSearchFilters(raw.filters),
+    columns: validateColumns(raw.columns),
+    language: validateLanguage(raw.language),
+  }
+
+  if (raw.label !== undefined && raw.label !== null && raw.label !== '') {
+    if (typeof raw.label !== 'string' || raw.label.length > MAX_LABEL_LENGTH) {
+      throw new ValidationError(`Label must be a string of at most ${MAX_LABEL_LENGTH} characters`)
+    }
+    spec.label = raw.label.trim()
+  }
+
+  const asOf = validateAsOf(raw.asOf)
+  if (asOf) {
+    spec.asOf = asOf
+  }
+
+  return spec
+}
+
+function validateColumns(input: unknown): ExportColumnId[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new ValidationError('Select at least one column')
+  }
+
+  const known = new Set<string>(EXPORT_COLUMNS.map((column) => column.id))
+  const unknown = input.filter((id) => typeof id !== 'string' || !known.has(id))
+  if (unknown.length > 0) {
+    throw new ValidationError('Unknown export column', { columns: unknown })
+  }
+
+  const columns = [...new Set(input as ExportColumnId[])].filter((id) => id !== 'enterprise_number')
+  return ['enterprise_number', ...columns]
+}
+
+function validateLanguage(input: unknown): Language {
+  if (input === undefined || input === null || input === '') {
+    return 'NL'
+  }
+  if (!EXPORT_LANGUAGES.includes(input as Language)) {
+    throw new ValidationError('Invalid language', { language: input, allowed: EXPORT_LANGUAGES })
+  }
+  return input as Language
+}
+
+function validateAsOf(input: unknown): ExportSpec['asOf'] {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('asOf must be an object with extractNumber or snapshotDate')
+  }
+
+  const { extractNumber, snapshotDate } = input as Record<string, unknown>
+  const asOf: NonNullable<ExportSpec['asOf']> = {}
+
+  if (extractNumber !== undefined && extractNumber !== null && extractNumber !== '') {
+    const parsed = Number(extractNumber)
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new ValidationError('Extract number must be a positive integer', { extractNumber })
+    }
+    asOf.extractNumber = parsed
+  }
+
+  if (snapshotDate !== undefined && snapshotDate !== null && snapshotDate !== '') {
+    if (typeof snapshotDate !== 'string') {
+      throw new ValidationError('Invalid date, expected YYYY-MM-DD', { date: snapshotDate })
+    }
+    assertValidSnapshotDate(snapshotDate)
+    asOf.snapshotDate = snapshotDate
+  }
+
+  return asOf.extractNumber || asOf.snapshotDate ? asOf : undefined
+}
+
+/**
+ * Temporal filter for the point in time of a spec (unresolved)
+ */
+export function exportSpecTemporalFilter(spec: ExportSpec): TemporalFilter {
+  if (!spec.asOf) {
+    return { type: 'current' }
+  }
+  return {
+    type: 'point-in-time',
+    extractNumber: spec.asOf.extractNumber,
+    snapshotDate: spec.asOf.snapshotDate,
+  }
+}
+
+/**
+ * Prefer the French address and description columns for FR, Dutch otherwise
+ * (KBO only publishes those two); fall back to the other one when missing
+ */
+function localized(alias: string, column: string, language: Language): string {
+  const [first, second] = language === 'FR' ? ['fr', 'nl'] : ['nl', 'fr']
+  return `COALESCE(${alias}.${column}_${first}, ${alias}.${column}_${second})`
+}
+
+/**
+ * SELECT expression per column; code descriptions join codes aliased c_<column>
+ */
+function columnExpression(id: ExportColumnId, language: Language): string {
+  switch (id) {
+    case 'enterprise_number': return 'e.enterprise_number'
+    case 'name':
+      return language === 'EN'
+        ? 'e.primary_name'
+        : `COALESCE(e.primary_name_${language.toLowerCase()}, e.primary_name)`
+    case 'status': return 'e.status'
+    case 'juridical_situation': return 'e.juridical_situation'
+    case 'type_of_enterprise': return 'e.type_of_enterprise'
+    case 'juridical_form': return 'e.juridical_form'
+    case 'juridical_form_description': return 'c_jf.description'
+    case 'start_date': return 'e.start_date'
+    case 'street': return localized('addr', 'street', language)
+    case 'house_number': return 'addr.house_number'
+    case 'box': return 'addr.box'
+    case 'zipcode': return 'addr.zipcode'
+    case 'municipality': return localized('addr', 'municipality', language)
+    case 'country': return localized('addr', 'country', language)
+    case 'main_nace_code': return 'act_main.nace_code'
+    case 'main_nace_description': return localized('nace', 'description', language)
+    case 'nace_codes': return 'act_all.nace_codes'
+    case 'activity_groups': return 'act_all.activity_groups'
+    case 'email': return 'cnt.email'
+    case 'phone': return 'cnt.phone'
+    case 'website': return 'cnt.website'
+  }
+}
+
+/**
+ * Compile a validated spec to a SELECT over the given (resolved) temporal filter
+ *
+ * One row per enterprise matching the filters, ordered by enterprise number,
+ * with the column headers of EXPORT_COLUMNS. Bind the returned params.
+ */
+export function compileExportSpec(
+  spec: ExportSpec,
+  temporal: TemporalFilter
+): { sql: string; params: Record<string, QueryParamValue> } {
+  const columns = EXPORT_COLUMNS.filter((column) => spec.columns.includes(column.id))
+  const sources = new Set<ExportColumnSource>(columns.map((column) => column.source))
+  const selected = new Set<ExportColumnId>(spec.columns)
+  const { conditions, params } = buildSearchFilterConditions(spec.filters, temporal)
+
+  const select = spec.columns.map((id) => {
+    const column = columns.find((c) => c.id === id)!
+    return `${columnExpression(id, spec.language)} AS ${quoteIdentifier(column.header)}`
+  })
+
+  const joins: string[] = []
+
+  if (selected.has('juridical_form_description')) {
+    // codes has no English descriptions; EN falls back to NL
+    joins.push(`LEFT JOIN codes c_jf ON c_jf.category = 'JuridicalForm'
+        AND c_jf.code = e.juridical_form
+        AND c_jf.language = $export_code_language`)
+  }
+
+  if (sources.has('addresses')) {
+    const addresses = buildTemporalSource(
+      'addresses', temporal, undefined, `type_of_address = 'REGO' AND entity_type = 'enterprise'`
+    )
+    joins.push(`LEFT JOIN ${addresses} addr ON addr.entity_number = e.enterprise_number`)
+  }
+
+  if (sources.has('activities')) {
+    // Restricted to the NACE version filtered on, if any
+    const activityWhere = `entity_type = 'enterprise'${spec.filters.naceVersion ? ' AND nace_version = $filter_nace_version' : ''}`
+    const activities = buildTemporalSource('activities', temporal, undefined, activityWhere)
+
+    if (selected.has('main_nace_code') || selected.has('main_nace_description')) {
+      // Main activity in the most recent NACE version
+      joins.push(`LEFT JOIN (
+        SELECT entity_number, nace_version, nace_code
+        FROM ${activities} a
+        WHERE a.classification = 'MAIN'
+        QUALIFY ROW_NUMBER() OVER (
+          PARTITION BY entity_number
+          ORDER BY nace_version DESC, activity_group, nace_code
+        ) = 1
+      ) act_main ON act_main.entity_number = e.enterprise_number`)
+    }
+    if (selected.has('main_nace_description')) {
+      joins.push(`LEFT JOIN nace_codes nace ON nace.nace_version = act_main.nace_version
+        AND nace.nace_code = act_main.nace_code`)
+    }
+    if (selected.has('nace_codes') || selected.has('activity_groups')) {
+      joins.push(`LEFT JOIN (
+        SELECT
+          entity_number,
+          string_agg(DISTINCT nace_code, ';' ORDER BY nace_code) AS nace_codes,
+          string_agg(DISTINCT activity_group, ';' ORDER BY activity_group) AS activity_groups
+        FROM ${activities} a
+        GROUP BY entity_number
+      ) act_all ON act_all.entity_number = e.enterprise_number`)
+    }
+  }
+
+  if (sources.has('contacts')) {
+    const contacts = buildTemporalSource('contacts', temporal, undefined, `entity_type = 'enterprise'`)
+    joins.push(`LEFT JOIN (
+        SELECT
+          entity_number,
+          string_agg(DISTINCT contact_value, ';' ORDER BY contact_value) FILTER (WHERE contact_type = 'EMAIL') AS email,
+          string_agg(DISTINCT contact_value, ';' ORDER BY contact_value) FILTER (WHERE contact_type = 'TEL') AS phone,
+          string_agg(DISTINCT contact_value, ';' ORDER BY contact_value) FILTER (WHERE contact_type = 'WEB') AS website
+        FROM ${contacts} c
+        GROUP BY entity_number
+      ) cnt ON cnt.entity_number = e.enterprise_number`)
+  }
+
+  const sql = `
+      SELECT
+        ${select.join(',\n        ')}
+      FROM ${buildTemporalSource('enterprises', temporal)} e
+      ${joins.join('\n      ')}
+      ${conditions.length > 0 ? `WHERE ${conditions.join('\n        AND ')}` : ''}
+      ORDER BY e.enterprise_number
+    `
+
+  return {
+    sql,
+    params: {
+      ...temporalParams(temporal),
+      ...params,
+      ...(selected.has('juridical_form_description') && {
+        export_code_language: spec.language === 'EN' ? 'NL' : spec.language,
+      }),
+    },
+  }
+}
+
+/**
+ * Run a custom export to a MotherDuck table
+ *
+ * A snapshot date is resolved to its extract first, so the stored spec
+ * records exactly which data was exported and can be run again.
+ *
+ * @param spec - Validated export spec
+ * @param workerType - Worker type for tracking
+ * @param userId - User ID from Clerk (optional)
+ * @returns Export job result with table name and record count
+ * @throws ValidationError when the snapshot date precedes every import
+ */
+export async function exportCustom(
+  spec: ExportSpec,
+  workerType: WorkerType = 'web_manual',
+  userId?: string
+): Promise<ExportJobResult> {
+  let temporal = exportSpecTemporalFilter(spec)
+
+  if (temporal.type === 'point-in-time' && !temporal.extractNumber) {
+    const conn = await connectMotherduck()
+    try {
+      const resolved = await resolveTemporalFilter(conn, temporal)
+      if (!resolved) {
+        throw new ValidationError('No data was imported on or before this date', {
+          snapshotDate: spec.asOf?.snapshotDate,
+        })
+      }
+      temporal = resolved
+    } finally {
+      await closeMotherduck(conn)
+    }
+  }
+
+  const storedSpec: ExportSpec = temporal.type === 'point-in-time'
+    ? { ...spec, asOf: { extractNumber: temporal.extractNumber, snapshotDate: temporal.snapshotDate } }
+    : spec
+  const { sql, params } = compileExportSpec(storedSpec, temporal)
+
+  return runExportJob({
+    exportType: 'custom',
+    filterConfig: { ...storedSpec },
+    tablePrefix: 'export_custom',
+    workerType,
+    userId,
+    createTable: async (conn, tableName) => {
+      await executeStatement(conn, `CREATE TABLE ${quoteIdentifier(tableName)} AS ${sql}`, params)
+    },
+  })
+}
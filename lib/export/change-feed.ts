@@ -0,0 +1,257 @@
+/**
+ * Change-feed export: what changed between two extracts
+ *
+ * For an inclusive range of extracts, compares each affected enterprise as it
+ * was before the first extract with how it is after the last one, and writes
+ * one row per enterprise with the kinds of change and the old and new values.
+ * Enterprises whose changes cancel out within the range are left out.
+ *
+ * Affected enterprises come from buildAffectedRecordsQuery (the records the
+ * range wrote or deleted). Both sides are summarized with the regular
+ * point-in-time sources into temporary tables, since each binds its own
+ * extract number, and compared like compareEnterprises
+ * (lib/utils/compare-snapshots.ts) does for one enterprise: basic fields by
+ * value, addresses, activities and contacts as sets.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeStatement, quoteIdentifier } from '../motherduck'
+import { buildAffectedRecordsQuery } from '../motherduck/import-job-analysis'
+import {
+  buildTemporalSource,
+  temporalParams,
+  type TemporalFilter,
+} from '../motherduck/temporal-query'
+import { ValidationError } from '@/lib/errors'
+import { runExportJob } from './jobs'
+import type { ExportJobResult, WorkerType } from './types'
+
+export const CHANGE_KINDS = [
+  'created',
+  'struck_off',
+  'renamed',
+  'address_moved',
+  'nace_changed',
+  'contact_changed',
+] as const
+
+export type ChangeKind = (typeof CHANGE_KINDS)[number]
+
+export interface ChangeFeedRange {
+  /** First extract whose changes are included */
+  fromExtract: number
+  /** Last extract whose changes are included */
+  toExtract: number
+}
+
+const AFFECTED_TABLE = 'change_feed_affected'
+const BEFORE_TABLE = 'change_feed_before'
+const AFTER_TABLE = 'change_feed_after'
+
+/**
+ * Validate an extract range received from a client
+ *
+ * @throws ValidationError when the numbers are not positive integers in order
+ */
+export function validateChangeFeedRange(input: { fromExtract?: unknown; toExtract?: unknown }): ChangeFeedRange {
+  const fromExtract = Number(input.fromExtract)
+  const toExtract = Number(input.toExtract)
+
+  if (!Number.isInteger(fromExtract) || fromExtract <= 0 || !Number.isInteger(toExtract) || toExtract <= 0) {
+    throw new ValidationError('fromExtract and toExtract must be positive integers', {
+      fromExtract: input.fromExtract,
+      toExtract: input.toExtract,
+    })
+  }
+  if (fromExtract > toExtract) {
+    throw new ValidationError('fromExtract must not be after toExtract', { fromExtract, toExtract })
+  }
+
+  return { fromExtract, toExtract }
+}
+
+/**
+ * Summary of the affected enterprises under a temporal filter: status, legal
+ * name, registered office and sorted activity and contact sets
+ */
+function buildSnapshotSummary(filter: TemporalFilter): string {
+  const affected = (column: string) => `${column} IN (SELECT entity_number FROM ${AFFECTED_TABLE})`
+
+  const enterprises = buildTemporalSource('enterprises', filter, undefined, affected('enterprise_number'))
+  const denominations = buildTemporalSource(
+    'denominations', filter, undefined, `entity_type = 'enterprise' AND ${affected('entity_number')}`
+  )
+  const addresses = buildTemporalSource(
+    'addresses', filter, undefined, `entity_type = 'enterprise' AND type_of_address = 'REGO' AND ${affected('entity_number')}`
+  )
+  const activities = buildTemporalSource(
+    'activities', filter, undefined, `entity_type = 'enterprise' AND ${affected('entity_number')}`
+  )
+  const contacts = buildTemporalSource(
+    'contacts', filter, undefined, `entity_type = 'enterprise' AND ${affected('entity_number')}`
+  )
+
+  return `
+    SELECT
+      e.enterprise_number,
+      e.status,
+      COALESCE(n.denomination, e.primary_name) AS name,
+      addr.address,
+      act.nace_codes,
+      cnt.contacts
+    FROM ${enterprises} e
+    LEFT JOIN (
+      -- Legal name first, then NL (2) > FR (1) > DE (3) > EN (4)
+      SELECT entity_number, denomination
+      FROM ${denominations} d
+      QUALIFY ROW_NUMBER() OVER (
+        PARTITION BY entity_number
+        ORDER BY
+          CASE denomination_type WHEN '001' THEN 1 WHEN '002' THEN 2 ELSE 3 END,
+          CASE language WHEN '2' THEN 1 WHEN '1' THEN 2 WHEN '3' THEN 3 WHEN '4' THEN 4 ELSE 5 END,
+          denomination
+      ) = 1
+    ) n ON n.entity_number = e.enterprise_number
+    LEFT JOIN (
+      SELECT
+        entity_number,
+        MIN(concat_ws(', ',
+          NULLIF(concat_ws(' ', COALESCE(street_nl, street_fr), house_number, box), ''),
+          NULLIF(concat_ws(' ', zipcode, COALESCE(municipality_nl, municipality_fr)), '')
+        )) AS address
+      FROM ${addresses} a
+      GROUP BY entity_number
+    ) addr ON addr.entity_number = e.enterprise_number
+    LEFT JOIN (
+      SELECT
+        entity_number,
+        string_agg(DISTINCT nace_version || ':' || nace_code, ';' ORDER BY nace_version || ':' || nace_code) AS nace_codes
+      FROM ${activities} a
+      GROUP BY entity_number
+    ) act ON act.entity_number = e.enterprise_number
+    LEFT JOIN (
+      SELECT
+        entity_number,
+        string_agg(DISTINCT contact_type || ':' || contact_value, ';' ORDER BY contact_type || ':' || contact_value) AS contacts
+      FROM ${contacts} c
+      GROUP BY entity_number
+    ) cnt ON cnt.entity_number = e.enterprise_number
+  `
+}
+
+/**
+ * Compare the before and after summaries, one row per changed enterprise
+ *
+ * Columns: EnterpriseNumber, ChangeKinds (;-separated ChangeKind values) and
+ * Old/New pairs for Status, Name, Address (registered office), NaceCodes
+ * (version:code) and Contacts (TYPE:value); lists are ;-separated
+ */
+const CHANGE_FEED_QUERY = `
+  SELECT *
+  FROM (
+    SELECT
+      COALESCE(a.enterprise_number, b.enterprise_number) AS "EnterpriseNumber",
+      concat_ws(';',
+        CASE WHEN b.enterprise_number IS NULL THEN 'created' END,
+        CASE WHEN b.enterprise_number IS NOT NULL
+          AND (a.enterprise_number IS NULL OR (a.status = 'ST' AND b.status IS DISTINCT FROM 'ST')) THEN 'struck_off' END,
+        CASE WHEN a.enterprise_number IS NOT NULL AND b.enterprise_number IS NOT NULL THEN NULLIF(concat_ws(';',
+          CASE WHEN a.name IS DISTINCT FROM b.name THEN 'renamed' END,
+          CASE WHEN a.address IS DISTINCT FROM b.address THEN 'address_moved' END,
+          CASE WHEN a.nace_codes IS DISTINCT FROM b.nace_codes THEN 'nace_changed' END,
+          CASE WHEN a.contacts IS DISTINCT FROM b.contacts THEN 'contact_changed' END
+        ), '') END
+      ) AS "ChangeKinds",
+      b.status AS "OldStatus",
+      a.status AS "NewStatus",
+      b.name AS "OldName",
+      a.name AS "NewName",
+      b.address AS "OldAddress",
+      a.address AS "NewAddress",
+      b.nace_codes AS "OldNaceCodes",
+      a.nace_codes AS "NewNaceCodes",
+      b.contacts AS "OldContacts",
+      a.contacts AS "NewContacts"
+    FROM ${BEFORE_TABLE} b
+    FULL OUTER JOIN ${AFTER_TABLE} a ON a.enterprise_number = b.enterprise_number
+  )
+  WHERE "ChangeKinds" <> ''
+  ORDER BY "EnterpriseNumber"
+`
+
+/**
+ * Create the change-feed table for a range of extracts
+ *
+ * @param conn - Connection (temporary tables are created on it)
+ * @param tableName - Table to create
+ * @param range - Validated extract range
+ */
+export async function createChangeFeedTable(
+  conn: DuckDBConnection,
+  tableName: string,
+  range: ChangeFeedRange
+): Promise<void> {
+  // State before the first extract and after the last one
+  const before: TemporalFilter = { type: 'point-in-time', extractNumber: range.fromExtract - 1 }
+  const after: TemporalFilter = { type: 'point-in-time', extractNumber: range.toExtract }
+
+  try {
+    await executeStatement(conn, `
+      CREATE OR REPLACE TEMP TABLE ${AFFECTED_TABLE} AS
+      SELECT DISTINCT entity_number
+      FROM (
+        ${buildAffectedRecordsQuery((column) => `${column} BETWEEN $from_extract AND $to_extract`)}
+      )
+    `, { from_extract: range.fromExtract, to_extract: range.toExtract })
+
+    // Nothing existed before extract 1
+    if (range.fromExtract > 1) {
+      await executeStatement(
+        conn,
+        `CREATE OR REPLACE TEMP TABLE ${BEFORE_TABLE} AS ${buildSnapshotSummary(before)}`,
+        temporalParams(before)
+      )
+    } else {
+      await executeStatement(
+        conn,
+        `CREATE OR REPLACE TEMP TABLE ${BEFORE_TABLE} AS SELECT * FROM (${buildSnapshotSummary(after)}) LIMIT 0`,
+        temporalParams(after)
+      )
+    }
+
+    await executeStatement(
+      conn,
+      `CREATE OR REPLACE TEMP TABLE ${AFTER_TABLE} AS ${buildSnapshotSummary(after)}`,
+      temporalParams(after)
+    )
+
+    await executeStatement(conn, `CREATE TABLE ${quoteIdentifier(tableName)} AS ${CHANGE_FEED_QUERY}`)
+  } finally {
+    for (const table of [AFFECTED_TABLE, BEFORE_TABLE, AFTER_TABLE]) {
+      await executeStatement(conn, `DROP TABLE IF EXISTS ${table}`).catch(() => {})
+    }
+  }
+}
+
+/**
+ * Export the changes of a range of extracts to a MotherDuck table
+ *
+ * @param range - Validated extract range
+ * @param workerType - Worker type for tracking
+ * @param userId - User or machine client ID (optional)
+ * @returns Export job result with table name and record count
+ */
+export async function exportChangeFeed(
+  range: ChangeFeedRange,
+  workerType: WorkerType = 'web_manual',
+  userId?: string
+): Promise<ExportJobResult> {
+  return runExportJob({
+    exportType: 'change_feed',
+    filterConfig: { from_extract: range.fromExtract, to_extract: range.toExtract },
+    tablePrefix: 'export_change_feed',
+    workerType,
+    userId,
+    createTable: (conn, tableName) => createChangeFeedTable(conn, tableName, range),
+  })
+}
@@ -0,0 +1,263 @@
+/**
+ * Export download formats
+ *
+ * Shared by the admin and machine download routes. CSV and NDJSON are
+ * streamed row by row from the export table. Parquet and XLSX are written by
+ * DuckDB (COPY ... TO) to a temporary file, which is streamed and deleted.
+ */
+
+import { createReadStream } from 'fs'
+import { stat, unlink } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { Readable } from 'stream'
+import type { DuckDBConnection } from '@duckdb/node-api'
+import {
+  closeMotherduck,
+  executeQueryStreaming,
+  executeStatement,
+  quoteIdentifier,
+} from '../motherduck'
+import { ValidationError } from '@/lib/errors'
+import type { ExportFormat } from './types'
+
+interface ExportFormatConfig {
+  contentType: string
+  extension: string
+  /** Media types accepted for this format in the Accept header */
+  mediaTypes: string[]
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatConfig> = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    mediaTypes: ['text/csv'],
+  },
+  parquet: {
+    contentType: 'application/vnd.apache.parquet',
+    extension: 'parquet',
+    mediaTypes: ['application/vnd.apache.parquet', 'application/x-parquet'],
+  },
+  ndjson: {
+    contentType: 'application/x-ndjson',
+    extension: 'ndjson',
+    mediaTypes: ['application/x-ndjson', 'application/jsonl', 'application/json-lines'],
+  },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+    mediaTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  },
+}
+
+/** Alternative names accepted in the format query parameter */
+const FORMAT_ALIASES: Record<string, ExportFormat> = {
+  jsonl: 'ndjson',
+}
+
+/** Rows per worksheet in XLSX, including the header row */
+const XLSX_MAX_ROWS = 1_048_576
+
+/**
+ * Pick the download format for a request
+ *
+ * The `format` query parameter wins; otherwise the Accept header is matched
+ * in order of preference. Falls back to CSV (e.g. for browsers).
+ *
+ * @throws ValidationError when the format parameter is unknown
+ */
+export function negotiateExportFormat(request: Request): ExportFormat {
+  const param = new URL(request.url).searchParams.get('format')?.trim().toLowerCase()
+  if (param) {
+    const format = FORMAT_ALIASES[param] ?? param
+    if (!(format in EXPORT_FORMATS)) {
+      throw new ValidationError('Unknown export format', {
+        format: param,
+        allowed: Object.keys(EXPORT_FORMATS),
+      })
+    }
+    return format as ExportFormat
+  }
+
+  const accepted = (request.headers.get('accept') ?? '')
+    .split(',')
+    .map((entry, index) => {
+      const [mediaType, ...parameters] = entry.split(';').map((part) => part.trim().toLowerCase())
+      const q = parameters.find((p) => p.startsWith('q='))
+      return { mediaType, quality: q ? parseFloat(q.slice(2)) || 0 : 1, index }
+    })
+    .filter((entry) => entry.mediaType && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+
+  for (const { mediaType } of accepted) {
+    const match = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+      .find((format) => EXPORT_FORMATS[format].mediaTypes.includes(mediaType))
+    if (match) return match
+  }
+
+  return 'csv'
+}
+
+/**
+ * CSV field: every value quoted, quotes doubled, NULL as empty string
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '""'
+  return `"${String(value).replace(/"/g, '""')}"`
+}
+
+/**
+ * JSON value for a DuckDB value: numbers and booleans as is, BIGINTs as
+ * numbers when they fit, dates and other types as their text form
+ */
+function jsonValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString()
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value
+  }
+  return String(value)
+}
+
+/**
+ * Stream the rows of an export table as CSV or NDJSON
+ *
+ * Closes the connection when the stream ends.
+ */
+function streamRows(
+  connection: DuckDBConnection,
+  tableName: string,
+  format: 'csv' | 'ndjson'
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        const dataStream = executeQueryStreaming<Record<string, unknown>>(
+          connection,
+          `SELECT * FROM ${quoteIdentifier(tableName)} ORDER BY 1`
+        )
+
+        let columns: string[] | null = null
+        for await (const chunk of dataStream) {
+          if (chunk.length === 0) continue
+
+          let text: string
+          if (format === 'csv') {
+            if (!columns) {
+              // Header from the first row
+              columns = Object.keys(chunk[0])
+              controller.enqueue(encoder.encode(columns.map(csvField).join(',') + '\n'))
+            }
+            const fields = columns
+            text = chunk.map((row) => fields.map((col) => csvField(row[col])).join(',')).join('\n') + '\n'
+          } else {
+            text = chunk.map((row) => JSON.stringify(
+              Object.fromEntries(Object.entries(row).map(([key, value]) => [key, jsonValue(value)]))
+            )).join('\n') + '\n'
+          }
+
+          controller.enqueue(encoder.encode(text))
+        }
+
+        controller.close()
+      } catch (error) {
+        console.error('❌ Stream error:', error)
+        controller.error(error)
+      } finally {
+        await closeMotherduck(connection)
+      }
+    },
+  })
+}
+
+/**
+ * Write an export table to a temporary Parquet or XLSX file with DuckDB
+ *
+ * @returns Path and size of the file
+ */
+async function writeExportFile(
+  connection: DuckDBConnection,
+  tableName: string,
+  format: 'parquet' | 'xlsx'
+): Promise<{ filePath: string; size: number }> {
+  const filePath = path.join(tmpdir(), `kbo-export-${randomUUID()}.${EXPORT_FORMATS[format].extension}`)
+
+  try {
+    if (format === 'xlsx') {
+      await executeStatement(connection, 'INSTALL excel')
+      await executeStatement(connection, 'LOAD excel')
+    }
+
+    const options = format === 'parquet' ? 'FORMAT PARQUET' : 'FORMAT XLSX, HEADER true'
+    await executeStatement(
+      connection,
+      `COPY (SELECT * FROM ${quoteIdentifier(tableName)} ORDER BY 1) TO '${filePath}' (${options})`
+    )
+
+    return { filePath, size: (await stat(filePath)).size }
+  } catch (error) {
+    await unlink(filePath).catch(() => {})
+    throw error
+  }
+}
+
+export interface ExportDownload {
+  tableName: string
+  /** File name without extension */
+  fileName: string
+  recordCount: number
+}
+
+/**
+ * Build the download response for an export table
+ *
+ * Takes over the connection once the response is returned: it is closed
+ * when the rows have been streamed, or right after DuckDB wrote the file.
+ * If this throws, the connection is still open and the caller closes it.
+ *
+ * @throws ValidationError when the export does not fit the format (XLSX row limit)
+ */
+export async function exportDownloadResponse(
+  connection: DuckDBConnection,
+  download: ExportDownload,
+  format: ExportFormat
+): Promise<Response> {
+  const { contentType, extension } = EXPORT_FORMATS[format]
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${download.fileName}.${extension}"`,
+  }
+
+  if (format === 'csv' || format === 'ndjson') {
+    return new Response(streamRows(connection, download.tableName, format), {
+      status: 200,
+      headers: { ...headers, 'Transfer-Encoding': 'chunked' },
+    })
+  }
+
+  if (format === 'xlsx' && download.recordCount >= XLSX_MAX_ROWS) {
+    throw new ValidationError('Export is too large for XLSX, use CSV or Parquet', {
+      records: download.recordCount,
+      maxRecords: XLSX_MAX_ROWS - 1,
+    })
+  }
+
+  const { filePath, size } = await writeExportFile(connection, download.tableName, format)
+  await closeMotherduck(connection)
+
+  const file = createReadStream(filePath)
+  file.on('close', () => {
+    unlink(filePath).catch((error) => console.error('Failed to delete export file:', error))
+  })
+
+  return new Response(Readable.toWeb(file) as ReadableStream<Uint8Array>, {
+    status: 200,
+    headers: { ...headers, 'Content-Length': String(size) },
+  })
+}
@@ -0,0 +1,122 @@
+/**
+ * Export job lifecycle
+ *
+ * Every export writes its result to a MotherDuck table that expires after
+ * 24 hours, tracked by a row in export_jobs: created as running, then
+ * completed with the record count or failed with the error.
+ */
+
+import { randomUUID } from 'crypto'
+import type { DuckDBConnection } from '@duckdb/node-api'
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  executeStatement,
+  quoteIdentifier,
+} from '../motherduck'
+import type { ExportJobResult, ExportType, WorkerType } from './types'
+
+export interface ExportJobOptions {
+  exportType: ExportType
+  /** Stored in export_jobs.filter_config */
+  filterConfig: Record<string, unknown>
+  /** Result table name prefix, followed by a timestamp */
+  tablePrefix: string
+  workerType: WorkerType
+  userId?: string
+  /** Create the result table (CREATE TABLE <tableName> AS ...) */
+  createTable: (conn: DuckDBConnection, tableName: string) => Promise<void>
+}
+
+/**
+ * Run an export as a tracked job
+ *
+ * @returns Job ID, result table and record count
+ */
+export async function runExportJob(options: ExportJobOptions): Promise<ExportJobResult> {
+  const jobId = randomUUID()
+  const timestamp = new Date().toISOString().replace(/[:\-\.]/g, '_').split('T').join('_').substring(0, 19)
+  const tableName = `${options.tablePrefix}_${timestamp}`
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours from now
+
+  const conn = await connectMotherduck()
+
+  try {
+    // 1. Create job record
+    console.log(`📤 Creating export job ${jobId}...`)
+    await executeStatement(conn, `
+      INSERT INTO export_jobs (
+        id, export_type, filter_config, status, started_at,
+        table_name, expires_at, worker_type, created_by
+      ) VALUES (
+        $job_id,
+        $export_type,
+        $filter_config::JSON,
+        'running',
+        CURRENT_TIMESTAMP,
+        $table_name,
+        $expires_at::TIMESTAMP,
+        $worker_type,
+        $created_by
+      )
+    `, {
+      job_id: jobId,
+      export_type: options.exportType,
+      filter_config: JSON.stringify(options.filterConfig),
+      table_name: tableName,
+      expires_at: expiresAt.toISOString(),
+      worker_type: options.workerType,
+      created_by: options.userId ?? null,
+    })
+
+    // 2. Create the result table
+    console.log(`📊 Creating table ${tableName}...`)
+    await options.createTable(conn, tableName)
+
+    // 3. Count records
+    console.log(`🔢 Counting records...`)
+    const countResult = await executeQuery<{ count: bigint | number }>(
+      conn,
+      `SELECT COUNT(*) as count FROM ${quoteIdentifier(tableName)}`
+    )
+    const recordCount = Number(countResult[0]?.count || 0)
+
+    // 4. Update job record with completion
+    console.log(`✅ Export completed: ${recordCount.toLocaleString()} records`)
+    await executeStatement(conn, `
+      UPDATE export_jobs
+      SET status = 'completed',
+          completed_at = CURRENT_TIMESTAMP,
+          records_exported = $records_exported
+      WHERE id = $job_id
+    `, { records_exported: recordCount, job_id: jobId })
+
+    return {
+      job_id: jobId,
+      table_name: tableName,
+      records_exported: recordCount,
+      expires_at: expiresAt.toISOString(),
+    }
+  } catch (error) {
+    // Update job record with failure
+    console.error('❌ Export failed:', error)
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    try {
+      await executeStatement(conn, `
+        UPDATE export_jobs
+        SET status = 'failed',
+            completed_at = CURRENT_TIMESTAMP,
+            error_message = $error_message
+        WHERE id = $job_id
+      `, { error_message: errorMessage, job_id: jobId })
+    } catch (updateError) {
+      console.error('Failed to update job status:', updateError)
+    }
+
+    throw error
+  } finally {
+    await closeMotherduck(conn)
+  }
+}
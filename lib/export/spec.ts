@@ -0,0 +1,77 @@
+/**
+ * Export specifications
+ *
+ * A declarative description of a custom export: which enterprises (search
+ * filters), at which point in time, which columns and in which language.
+ * Specs are validated and compiled to SQL by builder.ts and stored in
+ * export_jobs.filter_config, so an export can be inspected and run again.
+ *
+ * Kept free of server imports: the exports page builds specs with it.
+ */
+
+import type { SearchFilters } from '../motherduck/search-filters'
+import type { Language } from '../types/codes'
+
+/**
+ * Source table of an export column
+ */
+export type ExportColumnSource = 'enterprises' | 'addresses' | 'activities' | 'contacts'
+
+export interface ExportColumn {
+  id: string
+  /** Column header in the export */
+  header: string
+  label: string
+  source: ExportColumnSource
+}
+
+/**
+ * Columns that can be exported, per source
+ *
+ * Addresses are the registered office (REGO). Activities and contacts are
+ * those of the enterprise itself, aggregated into one value per enterprise.
+ */
+export const EXPORT_COLUMNS = [
+  { id: 'enterprise_number', header: 'EnterpriseNumber', label: 'Enterprise number', source: 'enterprises' },
+  { id: 'name', header: 'Name', label: 'Name (in the chosen language if available)', source: 'enterprises' },
+  { id: 'status', header: 'Status', label: 'Status', source: 'enterprises' },
+  { id: 'juridical_situation', header: 'JuridicalSituation', label: 'Juridical situation', source: 'enterprises' },
+  { id: 'type_of_enterprise', header: 'TypeOfEnterprise', label: 'Type of enterprise', source: 'enterprises' },
+  { id: 'juridical_form', header: 'JuridicalForm', label: 'Juridical form code', source: 'enterprises' },
+  { id: 'juridical_form_description', header: 'JuridicalFormDescription', label: 'Juridical form description', source: 'enterprises' },
+  { id: 'start_date', header: 'StartDate', label: 'Start date', source: 'enterprises' },
+  { id: 'street', header: 'Street', label: 'Street', source: 'addresses' },
+  { id: 'house_number', header: 'HouseNumber', label: 'House number', source: 'addresses' },
+  { id: 'box', header: 'Box', label: 'Box', source: 'addresses' },
+  { id: 'zipcode', header: 'Zipcode', label: 'Postal code', source: 'addresses' },
+  { id: 'municipality', header: 'Municipality', label: 'Municipality', source: 'addresses' },
+  { id: 'country', header: 'Country', label: 'Country', source: 'addresses' },
+  { id: 'main_nace_code', header: 'MainNaceCode', label: 'Main NACE code', source: 'activities' },
+  { id: 'main_nace_description', header: 'MainNaceDescription', label: 'Main NACE description', source: 'activities' },
+  { id: 'nace_codes', header: 'NaceCodes', label: 'All NACE codes (;-separated)', source: 'activities' },
+  { id: 'activity_groups', header: 'ActivityGroups', label: 'Activity groups (;-separated)', source: 'activities' },
+  { id: 'email', header: 'Email', label: 'Email', source: 'contacts' },
+  { id: 'phone', header: 'Phone', label: 'Phone', source: 'contacts' },
+  { id: 'website', header: 'Website', label: 'Website', source: 'contacts' },
+] as const satisfies readonly ExportColumn[]
+
+export type ExportColumnId = typeof EXPORT_COLUMNS[number]['id']
+
+export const EXPORT_LANGUAGES: Language[] = ['NL', 'FR', 'DE', 'EN']
+
+export interface ExportSpec {
+  /** Shown in the export history */
+  label?: string
+  /** Enterprises to export (same filters as the enterprise search) */
+  filters: SearchFilters
+  /** Point in time; omitted for current data */
+  asOf?: {
+    extractNumber?: number
+    /** YYYY-MM-DD, resolved to the latest extract on or before it */
+    snapshotDate?: string
+  }
+  /** Columns in export order; the enterprise number is always the first column */
+  columns: ExportColumnId[]
+  /** Preferred language for names, addresses and descriptions */
+  language: Language
+}
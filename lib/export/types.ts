@@ -2,7 +2,19 @@
  * TypeScript types for export jobs
  */
 
-export type ExportType = 'vat_entities'
+export type ExportType = 'vat_entities' | 'all_entities' | 'custom' | 'change_feed' | 'watchlist_digest'
+
+/** Download file name per export type (without date and extension) */
+export const EXPORT_FILE_NAMES: Record<ExportType, string> = {
+  vat_entities: 'vat-entities',
+  all_entities: 'vat-entities',
+  custom: 'custom-export',
+  change_feed: 'change-feed',
+  watchlist_digest: 'watchlist-digest',
+}
+
+/** Download formats (see lib/export/formats.ts) */
+export type ExportFormat = 'csv' | 'parquet' | 'ndjson' | 'xlsx'
 
 export type ExportStatus = 'pending' | 'running' | 'completed' | 'failed'
 
@@ -24,13 +36,15 @@ export interface ExportJob {
   created_at: string
 }
 
-export interface ExportVatEntitiesResult {
+export interface ExportJobResult {
   job_id: string
   table_name: string
   records_exported: number
   expires_at: string
 }
 
+export type ExportVatEntitiesResult = ExportJobResult
+
 export interface ExportJobsListResponse {
   jobs: ExportJob[]
   total: number
@@ -0,0 +1,86 @@
+/**
+ * Watchlist digest export: the detected changes of a watchlist
+ *
+ * One row per difference (lib/watchlists/changes.ts): EnterpriseNumber, Name,
+ * ExtractNumber, SnapshotDate, ChangeType (created, updated, removed), then
+ * Field, FieldChange (added, removed, changed), OldValue and NewValue. Created
+ * and removed enterprises have a single row without field details. Only
+ * changes of completed import jobs, detected while the enterprise was on the
+ * watchlist, are included.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeStatement, quoteIdentifier } from '../motherduck'
+import { assertValidSnapshotDate } from '../motherduck/temporal-query'
+import { runExportJob } from './jobs'
+import type { Watchlist } from '../watchlists/types'
+import type { ExportJobResult, WorkerType } from './types'
+
+const CHANGE_STRUCT = `'[{"field": "VARCHAR", "type": "VARCHAR", "old_value": "VARCHAR", "new_value": "VARCHAR"}]'`
+
+/**
+ * Create the digest table of a watchlist
+ *
+ * @param since - Only changes of snapshots on or after this date (validated YYYY-MM-DD)
+ */
+export async function createWatchlistDigestTable(
+  conn: DuckDBConnection,
+  tableName: string,
+  watchlistId: string,
+  since: string | null
+): Promise<void> {
+  await executeStatement(conn, `
+    CREATE TABLE ${quoteIdentifier(tableName)} AS
+    SELECT
+      c.enterprise_number AS "EnterpriseNumber",
+      c.name AS "Name",
+      c.extract_number AS "ExtractNumber",
+      c.snapshot_date AS "SnapshotDate",
+      c.change_type AS "ChangeType",
+      f.change.field AS "Field",
+      f.change.type AS "FieldChange",
+      f.change.old_value AS "OldValue",
+      f.change.new_value AS "NewValue"
+    FROM watchlist_changes c
+    JOIN import_jobs j ON j.id = c.job_id AND j.status = 'completed'
+    JOIN watchlist_enterprises we
+      ON we.enterprise_number = c.enterprise_number
+      AND we.watchlist_id = $watchlist_id
+    LEFT JOIN LATERAL (
+      SELECT UNNEST(from_json(c.changes, ${CHANGE_STRUCT})) AS change
+    ) f ON true
+    WHERE c.detected_at >= we.added_at
+      AND ($since IS NULL OR c.snapshot_date >= $since::DATE)
+    ORDER BY c.extract_number, c.enterprise_number, f.change.field, f.change.type DESC
+  `, { watchlist_id: watchlistId, since })
+}
+
+/**
+ * Export the digest of a watchlist to a MotherDuck table
+ *
+ * @param watchlist - Watchlist of the requesting user
+ * @param since - Only changes of snapshots on or after this date (all when null)
+ * @param workerType - Worker type for tracking
+ * @param userId - User ID (optional)
+ * @returns Export job result with table name and record count
+ * @throws ValidationError when since is not a date
+ */
+export async function exportWatchlistDigest(
+  watchlist: Watchlist,
+  since: string | null,
+  workerType: WorkerType = 'web_manual',
+  userId?: string
+): Promise<ExportJobResult> {
+  if (since) {
+    assertValidSnapshotDate(since)
+  }
+
+  return runExportJob({
+    exportType: 'watchlist_digest',
+    filterConfig: { watchlist_id: watchlist.id, watchlist_name: watchlist.name, since },
+    tablePrefix: 'export_watchlist_digest',
+    workerType,
+    userId,
+    createTable: (conn, tableName) => createWatchlistDigestTable(conn, tableName, watchlist.id, since),
+  })
+}
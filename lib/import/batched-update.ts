@@ -6,28 +6,52 @@
  *
  * Key functions:
  * - prepareImport(): Parse ZIP, populate staging tables, create batches (RESUMABLE)
+ *   prepareImportFromZip() does the same for a local ZIP file or buffer
+ *   With dryRun, also builds a change preview and holds the job until applied
  * - processBatch(): Execute single batch (delete or insert)
  * - getImportProgress(): Query batch status
- * - finalizeImport(): Resolve names, cleanup staging data
+ * - finalizeImport(): Resolve names, refresh name search index, run data quality
+ *   checks, cleanup staging data
  */
 
-import StreamZip from 'node-stream-zip'
-import { parse } from 'csv-parse/sync'
-import { createHash } from 'crypto'
+import { createHash, randomUUID } from 'crypto'
+import { tmpdir } from 'os'
+import { unlink } from 'fs/promises'
+import { join } from 'path'
 import type { DuckDBConnection } from '@duckdb/node-api'
-import { connectMotherduck, closeMotherduck, executeQuery, executeStatement } from '../motherduck'
 import {
-  csvColumnToDbColumn,
-  csvTableToDbTable,
-  convertKboDateFormat,
-  isKboDateFormat
-} from '../utils/column-mapping'
-import { WorkerType, ImportJobType } from '../types/import-job'
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  executeStatement,
+  executeTransaction,
+  type QueryParamValue,
+} from '../motherduck'
+import { csvColumnToDbColumn, csvTableToDbTable } from '../utils/column-mapping'
+import { WorkerType } from '../types/import-job'
 import { Metadata } from './metadata'
-import { tmpdir } from 'os'
-import { writeFileSync, unlinkSync } from 'fs'
-import { join } from 'path'
-import { downloadFromBlob } from '../blob'
+import { downloadBlobToFile } from '../blob'
+import { DataQualityError, ValidationError } from '../errors'
+import { getAppSettings } from '../config/app-settings'
+import { openExtract } from './extract'
+import { recordIdSql, entityTypeSql, normalizeCsvValue } from './records'
+import {
+  buildSupersedeSql,
+  buildCloseMissingSql,
+  buildSkipUnchangedSql,
+  getEntityKeyColumn,
+  type VersionedTable
+} from './versioning'
+import { refreshNameSearchIndex } from '../motherduck/name-search'
+import { assertExtractSequence } from './continuity'
+import { runDataQualityChecks, type DataQualityCheck } from './data-quality'
+import {
+  buildRevertStatements,
+  countExtractChanges,
+  discardReplacedJob,
+  replaceableJobSql,
+} from './rollback'
+import { createImportPreview, assertPreviewApplied } from './preview'
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -60,8 +84,12 @@ export interface PrepareImportResult {
   job_id: string
   extract_number: number
   snapshot_date: string
+  /** Parsed meta.csv of the extract */
+  metadata: Metadata
   total_batches: number
   batches_by_table: Record<string, { delete: number; insert: number }>
+  /** True if the job waits for its preview to be applied (see lib/import/preview.ts) */
+  dry_run: boolean
 }
 
 /**
@@ -124,25 +152,12 @@ export interface ImportProgress {
 export interface FinalizeResult {
   success: boolean
   names_resolved: number
+  names_indexed: number
+  /** Data quality findings, one per rule (see data-quality.ts) */
+  data_quality: DataQualityCheck[]
   staging_cleaned: boolean
 }
 
-/**
- * Raw metadata from meta.csv (PascalCase, string types)
- */
-interface RawMetadata {
-  SnapshotDate: string
-  ExtractTimestamp: string
-  ExtractType: string
-  ExtractNumber: string
-  Version: string
-}
-
-interface MetaRecord {
-  Variable?: string
-  Value?: string
-}
-
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -151,59 +166,13 @@ interface MetaRecord {
  * Generate deterministic job ID from workflow ID
  * This ensures the same workflow always uses the same job ID for resumability
  */
-function generateJobId(workflowId: string): string {
+export function generateJobId(workflowId: string): string {
   // Create a deterministic UUID-like string from workflow ID
   const hash = createHash('sha256').update(workflowId).digest('hex')
   // Format as UUID: 8-4-4-4-12
   return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`
 }
 
-/**
- * Parse metadata from meta.csv in ZIP
- */
-async function parseMetadata(zip: StreamZip.StreamZipAsync): Promise<RawMetadata> {
-  const metaContent = await zip.entryData('meta.csv')
-  const metaRecords = parse(metaContent.toString(), {
-    columns: true,
-    skip_empty_lines: true
-  }) as MetaRecord[]
-
-  return {
-    SnapshotDate: metaRecords.find((r) => r.Variable === 'SnapshotDate')?.Value || metaRecords[0]?.Value || '',
-    ExtractTimestamp: metaRecords.find((r) => r.Variable === 'ExtractTimestamp')?.Value || metaRecords[1]?.Value || '',
-    ExtractType: metaRecords.find((r) => r.Variable === 'ExtractType')?.Value || metaRecords[2]?.Value || '',
-    ExtractNumber: metaRecords.find((r) => r.Variable === 'ExtractNumber')?.Value || metaRecords[3]?.Value || '',
-    Version: metaRecords.find((r) => r.Variable === 'Version')?.Value || metaRecords[4]?.Value || ''
-  }
-}
-
-/**
- * Convert raw CSV metadata to standardized Metadata format
- */
-function convertMetadata(raw: RawMetadata): Metadata {
-  const snapshotDate = convertKboDateFormat(raw.SnapshotDate)
-
-  const timestampParts = raw.ExtractTimestamp.split(' ')
-  if (timestampParts.length !== 2) {
-    throw new Error(`Invalid ExtractTimestamp format: ${raw.ExtractTimestamp}`)
-  }
-  const [datePart, timePart] = timestampParts
-  const extractTimestamp = `${convertKboDateFormat(datePart)} ${timePart}`
-
-  const extractNumber = parseInt(raw.ExtractNumber, 10)
-  if (isNaN(extractNumber)) {
-    throw new Error(`Invalid ExtractNumber: ${raw.ExtractNumber}`)
-  }
-
-  return {
-    snapshotDate,
-    extractNumber,
-    extractType: raw.ExtractType as ImportJobType,
-    version: raw.Version,
-    extractTimestamp
-  }
-}
-
 /**
  * Get batch size for a table (with fallback for small files)
  */
@@ -239,15 +208,16 @@ async function getMaxRowSequence(
   const result = await executeQuery<{ max_seq: number | null }>(db, `
     SELECT MAX(row_sequence) as max_seq
     FROM ${stagingTableName}
-    WHERE job_id = '${jobId}'
-      AND operation = '${operation}'
-  `)
+    WHERE job_id = $job_id
+      AND operation = $operation
+  `, { job_id: jobId, operation })
   return Number(result[0]?.max_seq || 0)
 }
 
 /**
  * Populate a staging table with CSV records in chunks (RESUMABLE)
  *
+ * - Reads the records as a stream, holding at most STAGING_CHUNK_SIZE in memory
  * - Inserts in chunks of STAGING_CHUNK_SIZE records
  * - Checks existing progress and skips already-inserted records
  * - Each chunk is committed separately for resumability
@@ -256,12 +226,13 @@ async function populateStagingTableChunked(
   db: DuckDBConnection,
   stagingTableName: string,
   dbTableName: string,
-  records: Record<string, string>[],
+  records: AsyncIterable<Record<string, string>>,
+  totalRecords: number,
   operation: 'delete' | 'insert',
   jobId: string,
   batchSize: number
 ): Promise<{ inserted: number; skipped: number }> {
-  if (records.length === 0) return { inserted: 0, skipped: 0 }
+  if (totalRecords === 0) return { inserted: 0, skipped: 0 }
 
   // Check existing progress
   const maxRowSeq = await getMaxRowSequence(db, stagingTableName, jobId, operation)
@@ -271,73 +242,104 @@ async function populateStagingTableChunked(
     console.log(`   ↪ Resuming ${dbTableName} ${operation}: ${maxRowSeq} records already staged`)
   }
 
-  const csvColumns = Object.keys(records[0])
-  const dbColumns = csvColumns.map(col => csvColumnToDbColumn(col))
-  const stagingColumns = ['job_id', 'batch_number', 'operation', 'row_sequence', ...dbColumns]
-
+  let csvColumns: string[] | null = null
+  let chunk: { rowSequence: number; record: Record<string, string> }[] = []
+  let rowSequence = 0 // 1-based row sequence from CSV
   let insertedCount = 0
   let skippedCount = 0
 
-  // Process in chunks
-  for (let chunkStart = 0; chunkStart < records.length; chunkStart += STAGING_CHUNK_SIZE) {
-    const chunkEnd = Math.min(chunkStart + STAGING_CHUNK_SIZE, records.length)
-    const chunkRecords = records.slice(chunkStart, chunkEnd)
+  const insertChunk = async () => {
+    if (!csvColumns || chunk.length === 0) return
 
-    // Build VALUES for this chunk, skipping already-inserted records
+    const columns = csvColumns
+    const dbColumns = columns.map(col => csvColumnToDbColumn(col))
+    const stagingColumns = ['job_id', 'batch_number', 'operation', 'row_sequence', ...dbColumns]
     const values: string[] = []
+    const params: QueryParamValue[] = []
 
-    for (let i = 0; i < chunkRecords.length; i++) {
-      const globalIndex = chunkStart + i
-      const rowSequence = globalIndex + 1 // 1-based row sequence from CSV
+    for (const { rowSequence: sequence, record } of chunk) {
+      const batchNumber = Math.floor((sequence - 1) / batchSize) + 1
+      const recordValues = columns.map(col => normalizeCsvValue(col, record[col]))
 
-      // Skip if already inserted
-      if (rowSequence <= maxRowSeq) {
-        skippedCount++
-        continue
-      }
+      const rowValues = [jobId, batchNumber, operation, sequence, ...recordValues]
+      values.push(`(${rowValues.map(() => '?').join(', ')})`)
+      params.push(...rowValues)
+    }
 
-      const record = chunkRecords[i]
-      const batchNumber = Math.floor(globalIndex / batchSize) + 1
+    const sql = `
+      INSERT INTO ${stagingTableName} (${stagingColumns.join(', ')})
+      VALUES
+        ${values.join(',\n        ')}
+    `
 
-      const recordValues = csvColumns.map(col => {
-        const val = record[col]
-        if (val === '' || val === null || val === undefined) {
-          return 'NULL'
-        }
+    await executeStatement(db, sql, params)
+    insertedCount += chunk.length
+    chunk = []
 
-        // Check if this looks like a date (DD-MM-YYYY format)
-        if (col.toLowerCase().includes('date') && isKboDateFormat(val)) {
-          const converted = convertKboDateFormat(val)
-          return `'${converted}'`
-        }
+    // Log progress every chunk
+    console.log(`   ↪ ${dbTableName} ${operation}: ${rowSequence}/${totalRecords} records staged`)
+  }
 
-        // SECURITY: Escape single quotes for SQL string literals
-        return `'${val.replace(/'/g, "''")}'`
-      })
+  for await (const record of records) {
+    rowSequence++
+    csvColumns ??= Object.keys(record)
 
-      values.push(`('${jobId}', ${batchNumber}, '${operation}', ${rowSequence}, ${recordValues.join(', ')})`)
+    // Skip if already inserted
+    if (rowSequence <= maxRowSeq) {
+      skippedCount++
+      continue
     }
 
-    // Insert this chunk if there are values
-    if (values.length > 0) {
-      const sql = `
-        INSERT INTO ${stagingTableName} (${stagingColumns.join(', ')})
-        VALUES
-          ${values.join(',\n          ')}
-      `
-
-      await executeStatement(db, sql)
-      insertedCount += values.length
-
-      // Log progress every chunk
-      const totalProgress = Math.min(chunkEnd, records.length)
-      console.log(`   ↪ ${dbTableName} ${operation}: ${totalProgress}/${records.length} records staged`)
+    chunk.push({ rowSequence, record })
+    if (chunk.length === STAGING_CHUNK_SIZE) {
+      await insertChunk()
     }
   }
+  await insertChunk()
 
   return { inserted: insertedCount, skipped: skippedCount }
 }
 
+/**
+ * Insert one batch of CSV records into a staging table
+ *
+ * Used by full imports, which stage their snapshot batch by batch
+ * (see full-import.ts). Row sequences continue from firstRowSequence.
+ */
+export async function insertStagingBatch(
+  db: DuckDBConnection,
+  stagingTableName: string,
+  jobId: string,
+  batchNumber: number,
+  firstRowSequence: number,
+  records: Record<string, string>[]
+): Promise<void> {
+  if (records.length === 0) return
+
+  const csvColumns = Object.keys(records[0])
+  const dbColumns = csvColumns.map(col => csvColumnToDbColumn(col))
+  const stagingColumns = ['job_id', 'batch_number', 'operation', 'row_sequence', ...dbColumns]
+
+  for (let chunkStart = 0; chunkStart < records.length; chunkStart += STAGING_CHUNK_SIZE) {
+    const chunkRecords = records.slice(chunkStart, chunkStart + STAGING_CHUNK_SIZE)
+    const values: string[] = []
+    const params: QueryParamValue[] = []
+
+    chunkRecords.forEach((record, i) => {
+      const recordValues = csvColumns.map(col => normalizeCsvValue(col, record[col]))
+      const rowValues = [jobId, batchNumber, 'insert', firstRowSequence + chunkStart + i, ...recordValues]
+      values.push(`(${rowValues.map(() => '?').join(', ')})`)
+      params.push(...rowValues)
+    })
+
+    await executeStatement(db, `
+      INSERT INTO ${stagingTableName} (${stagingColumns.join(', ')})
+      VALUES
+        ${values.join(',\n        ')}
+    `, params)
+  }
+}
+
 /**
  * Create batch tracking records in import_job_batches (idempotent)
  */
@@ -355,10 +357,10 @@ async function createBatchRecords(
   const existing = await executeQuery<{ count: number }>(db, `
     SELECT COUNT(*) as count
     FROM import_job_batches
-    WHERE job_id = '${jobId}'
-      AND table_name = '${tableName}'
-      AND operation = '${operation}'
-  `)
+    WHERE job_id = $job_id
+      AND table_name = $table_name
+      AND operation = $operation
+  `, { job_id: jobId, table_name: tableName, operation })
 
   if (Number(existing[0]?.count || 0) > 0) {
     console.log(`   ↪ Batch records for ${tableName} ${operation} already exist, skipping`)
@@ -367,6 +369,7 @@ async function createBatchRecords(
 
   const recordsPerBatch = Math.ceil(totalRecords / batchCount)
   const values: string[] = []
+  const params: QueryParamValue[] = []
 
   for (let i = 1; i <= batchCount; i++) {
     // Calculate records for this batch (last batch might be smaller)
@@ -374,9 +377,8 @@ async function createBatchRecords(
       ? totalRecords - (recordsPerBatch * (batchCount - 1))
       : recordsPerBatch
 
-    values.push(
-      `('${jobId}', '${tableName}', ${i}, '${operation}', 'pending', ${recordsInBatch}, NULL, NULL, NULL)`
-    )
+    values.push(`(?, ?, ?, ?, 'pending', ?, NULL, NULL, NULL)`)
+    params.push(jobId, tableName, i, operation, recordsInBatch)
   }
 
   const sql = `
@@ -387,7 +389,7 @@ async function createBatchRecords(
     VALUES ${values.join(',\n      ')}
   `
 
-  await executeStatement(db, sql)
+  await executeStatement(db, sql, params)
 }
 
 // ============================================================================
@@ -397,43 +399,76 @@ async function createBatchRecords(
 /**
  * Step 1: Prepare Import (RESUMABLE)
  *
- * Downloads from blob URL, extracts and parses the ZIP file, populates staging
- * tables with data, creates batch records for processing, and returns job metadata.
- *
- * This function is IDEMPOTENT - it can be called multiple times and will resume
- * from where it left off. Uses deterministic job ID based on workflow ID.
+ * Downloads the ZIP from a blob URL to a temporary file and prepares it with
+ * prepareImportFromZip().
  *
  * @param zipSource - Vercel Blob URL to download the ZIP file from
  * @param workerType - Type of worker (local, vercel, etc.)
  * @param workflowId - Restate workflow ID for deterministic job ID generation
+ * @param options - See prepareImportFromZip()
  * @returns Job ID and batch information
  */
 export async function prepareImport(
   zipSource: string,
   workerType: WorkerType = 'local',
-  workflowId?: string
+  workflowId?: string,
+  options: { force?: boolean; dryRun?: boolean } = {}
 ): Promise<PrepareImportResult> {
-  // Download from blob URL
-  console.log(`Downloading ZIP from blob: ${zipSource}`)
-  const zipBuffer = await downloadFromBlob(zipSource)
-  console.log(`Downloaded ${zipBuffer.length} bytes from blob`)
+  // Download from blob URL (streamed to disk, never held in memory)
+  const zipPath = join(tmpdir(), `kbo-update-${randomUUID()}.zip`)
 
-  // Write buffer to temporary file (node-stream-zip requires a file path)
-  const tempFilePath = join(tmpdir(), `kbo-update-${Date.now()}.zip`)
-  writeFileSync(tempFilePath, zipBuffer)
+  try {
+    console.log(`Downloading ZIP from blob: ${zipSource}`)
+    const size = await downloadBlobToFile(zipSource, zipPath)
+    console.log(`Downloaded ${size} bytes from blob`)
 
-  let zip: StreamZip.StreamZipAsync | null = null
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let db: any = null
+    return await prepareImportFromZip(zipPath, workerType, workflowId, options)
+  } finally {
+    await unlink(zipPath).catch(() => {
+      // Ignore cleanup errors
+    })
+  }
+}
+
+/**
+ * Step 1: Prepare Import from a ZIP file or buffer (RESUMABLE)
+ *
+ * Extracts and parses the ZIP file, populates staging tables with data,
+ * creates batch records for processing, and returns job metadata.
+ *
+ * CSV files are streamed into the staging tables in chunks of
+ * STAGING_CHUNK_SIZE records, so memory use is bounded regardless of the
+ * extract size (each file is read twice: once to count, once to stage).
+ *
+ * This function is IDEMPOTENT - it can be called multiple times and will resume
+ * from where it left off. Uses deterministic job ID based on workflow ID.
+ *
+ * New jobs are only created for the extract directly after the last imported
+ * one (see assertExtractSequence); `force` overrides this.
+ *
+ * @param zipSource - Local path of the ZIP file, or a buffer with its contents
+ * @param workerType - Type of worker (local, vercel, etc.)
+ * @param workflowId - Workflow ID for deterministic job ID generation
+ * @param options.force - Import even if the extract is out of order or skips extracts
+ * @param options.dryRun - Stop after staging and build a change preview; batches
+ *   are only processed once the preview is applied
+ * @returns Job ID and batch information
+ */
+export async function prepareImportFromZip(
+  zipSource: Buffer | string,
+  workerType: WorkerType = 'local',
+  workflowId?: string,
+  options: { force?: boolean; dryRun?: boolean } = {}
+): Promise<PrepareImportResult> {
+  const extract = await openExtract(zipSource)
+  let db: DuckDBConnection | null = null
 
   try {
-    zip = new StreamZip.async({ file: tempFilePath })
     db = await connectMotherduck()
 
     // Step 1: Parse metadata
     console.log('📋 Parsing metadata...')
-    const rawMetadata = await parseMetadata(zip)
-    const metadata = convertMetadata(rawMetadata)
+    const metadata = extract.metadata
     console.log(`   ✓ Snapshot Date: ${metadata.snapshotDate}`)
     console.log(`   ✓ Extract Number: ${metadata.extractNumber}`)
     console.log(`   ✓ Extract Type: ${metadata.extractType}`)
@@ -449,13 +484,21 @@ export async function prepareImport(
     console.log(`   ✓ Job ID: ${jobId}`)
 
     // Step 2: Create or resume import job record
-    const existingJob = await executeQuery<{ id: string; status: string }>(db, `
-      SELECT id, status FROM import_jobs WHERE id = '${jobId}'
-    `)
+    const existingJob = await executeQuery<{ id: string; status: string; replaceable: boolean }>(db, `
+      SELECT j.id, j.status, ${replaceableJobSql('j')} as replaceable
+      FROM import_jobs j
+      WHERE j.id = $job_id
+    `, { job_id: jobId })
 
-    if (existingJob.length > 0) {
+    if (existingJob.length > 0 && !existingJob[0].replaceable) {
       console.log(`\n📝 Resuming existing import job (status: ${existingJob[0].status})...`)
+      if (!options.dryRun) {
+        await assertPreviewApplied(db, jobId)
+      }
     } else {
+      await assertExtractSequence(db, metadata.extractNumber, options.force)
+      await discardReplacedJob(db, metadata.extractNumber)
+
       console.log('\n📝 Creating new import job record...')
       const jobStartTime = new Date().toISOString()
 
@@ -464,37 +507,33 @@ export async function prepareImport(
           id, extract_number, extract_type, snapshot_date, extract_timestamp,
           status, started_at, worker_type
         ) VALUES (
-          '${jobId}',
-          ${metadata.extractNumber},
+          $job_id,
+          $extract_number,
           'update',
-          '${metadata.snapshotDate}',
-          '${metadata.extractTimestamp}',
+          $snapshot_date,
+          $extract_timestamp,
           'pending',
-          '${jobStartTime}',
-          '${workerType}'
+          $started_at,
+          $worker_type
         )
-      `)
+      `, {
+        job_id: jobId,
+        extract_number: metadata.extractNumber,
+        snapshot_date: metadata.snapshotDate,
+        extract_timestamp: metadata.extractTimestamp ?? null,
+        started_at: jobStartTime,
+        worker_type: workerType,
+      })
     }
 
     // Step 3: Get list of tables to process
-    const entries = await zip.entries()
-    const tables = new Set<string>()
-
-    for (const name of Object.keys(entries)) {
-      if (name.endsWith('_delete.csv') || name.endsWith('_insert.csv')) {
-        const tableName = name.replace('_delete.csv', '').replace('_insert.csv', '')
-        tables.add(tableName)
-      }
-    }
-
-    const tableList = Array.from(tables).sort()
-    console.log(`\n📊 Tables to process: ${tableList.join(', ')}\n`)
+    console.log(`\n📊 Tables to process: ${extract.tables.join(', ')}\n`)
 
     // Step 4: Process each table and populate staging (RESUMABLE)
     const batchesByTable: Record<string, { delete: number; insert: number }> = {}
     let totalBatches = 0
 
-    for (const csvTableName of tableList) {
+    for (const csvTableName of extract.tables) {
       const dbTableName = csvTableToDbTable(csvTableName)
       const stagingTableName = `import_staging_${dbTableName}`
 
@@ -502,69 +541,33 @@ export async function prepareImport(
 
       batchesByTable[dbTableName] = { delete: 0, insert: 0 }
 
-      // Process DELETE file
-      const deleteFileName = `${csvTableName}_delete.csv`
-      try {
-        const deleteContent = await zip.entryData(deleteFileName)
-        const deleteRecords = parse(deleteContent.toString(), {
-          columns: true,
-          skip_empty_lines: true
-        }) as Record<string, string>[]
-
-        if (deleteRecords.length > 0) {
-          const batchSize = getBatchSize(dbTableName, deleteRecords.length)
-          const batchCount = calculateBatchCount(deleteRecords.length, batchSize)
-          batchesByTable[dbTableName].delete = batchCount
-          totalBatches += batchCount
-
-          const { inserted, skipped } = await populateStagingTableChunked(
-            db, stagingTableName, dbTableName, deleteRecords,
-            'delete', jobId, batchSize
-          )
-
-          await createBatchRecords(db, jobId, dbTableName, 'delete', batchCount, deleteRecords.length)
-
-          console.log(`   ✓ Delete: ${deleteRecords.length} records → ${batchCount} batches (inserted: ${inserted}, skipped: ${skipped})`)
-        }
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : ''
-        if (!errorMessage.includes('Entry not found')) {
-          throw error
-        }
-      }
+      // Process DELETE file, then INSERT file
+      for (const operation of ['delete', 'insert'] as const) {
+        const recordCount = await extract.countRecords(csvTableName, operation)
+        if (recordCount === 0) continue
 
-      // Process INSERT file
-      const insertFileName = `${csvTableName}_insert.csv`
-      try {
-        const insertContent = await zip.entryData(insertFileName)
-        const insertRecords = parse(insertContent.toString(), {
-          columns: true,
-          skip_empty_lines: true
-        }) as Record<string, string>[]
-
-        if (insertRecords.length > 0) {
-          const batchSize = getBatchSize(dbTableName, insertRecords.length)
-          const batchCount = calculateBatchCount(insertRecords.length, batchSize)
-          batchesByTable[dbTableName].insert = batchCount
-          totalBatches += batchCount
-
-          const { inserted, skipped } = await populateStagingTableChunked(
-            db, stagingTableName, dbTableName, insertRecords,
-            'insert', jobId, batchSize
-          )
-
-          await createBatchRecords(db, jobId, dbTableName, 'insert', batchCount, insertRecords.length)
-
-          console.log(`   ✓ Insert: ${insertRecords.length} records → ${batchCount} batches (inserted: ${inserted}, skipped: ${skipped})`)
-        }
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : ''
-        if (!errorMessage.includes('Entry not found')) {
-          throw error
-        }
+        const batchSize = getBatchSize(dbTableName, recordCount)
+        const batchCount = calculateBatchCount(recordCount, batchSize)
+        batchesByTable[dbTableName][operation] = batchCount
+        totalBatches += batchCount
+
+        const { inserted, skipped } = await populateStagingTableChunked(
+          db, stagingTableName, dbTableName, extract.streamRecords(csvTableName, operation),
+          recordCount, operation, jobId, batchSize
+        )
+
+        await createBatchRecords(db, jobId, dbTableName, operation, batchCount, recordCount)
+
+        const label = operation === 'delete' ? 'Delete' : 'Insert'
+        console.log(`   ✓ ${label}: ${recordCount} records → ${batchCount} batches (inserted: ${inserted}, skipped: ${skipped})`)
       }
     }
 
+    // Step 5: Dry run - preview the changes and wait for an explicit apply
+    if (options.dryRun) {
+      await createImportPreview(db, jobId)
+    }
+
     console.log(`\n✨ Preparation complete!`)
     console.log(`   • Total batches: ${totalBatches}`)
 
@@ -572,23 +575,17 @@ export async function prepareImport(
       job_id: jobId,
       extract_number: metadata.extractNumber,
       snapshot_date: metadata.snapshotDate,
+      metadata,
       total_batches: totalBatches,
-      batches_by_table: batchesByTable
+      batches_by_table: batchesByTable,
+      dry_run: options.dryRun === true
     }
 
   } finally {
-    if (zip) {
-      await zip.close()
-    }
+    await extract.close()
     if (db) {
       await closeMotherduck(db)
     }
-    // Clean up temporary file
-    try {
-      unlinkSync(tempFilePath)
-    } catch {
-      // Ignore cleanup errors
-    }
   }
 }
 
@@ -604,46 +601,48 @@ async function executeBatchDelete(
   extractNumber: number
 ): Promise<number> {
   // Get primary key column name for this table
-  const pkColumn = tableName === 'enterprises' ? 'enterprise_number' :
-                   tableName === 'establishments' ? 'establishment_number' :
-                   tableName === 'branches' ? 'id' :
-                   'entity_number'
+  const pkColumn = getEntityKeyColumn(tableName)
+  const params = { job_id: jobId, batch_number: batchNumber, extract_number: extractNumber }
 
+  // Only close versions from earlier extracts: batches run per table in
+  // batch_number order, so a delete batch may run after an insert batch of
+  // the same extract and must not mark those fresh rows as historical
   const sql = `
     UPDATE ${tableName}
     SET _is_current = false,
-        _deleted_at_extract = ${extractNumber}
+        _deleted_at_extract = $extract_number
     WHERE ${pkColumn} IN (
       SELECT ${pkColumn}
       FROM ${stagingTableName}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'delete'
-        AND batch_number = ${batchNumber}
+        AND batch_number = $batch_number
         AND processed = false
     )
     AND _is_current = true
+    AND _extract_number < $extract_number
   `
 
-  await executeStatement(db, sql)
+  await executeStatement(db, sql, params)
 
   // Mark staging records as processed
   await executeStatement(db, `
     UPDATE ${stagingTableName}
     SET processed = true
-    WHERE job_id = '${jobId}'
+    WHERE job_id = $job_id
       AND operation = 'delete'
-      AND batch_number = ${batchNumber}
-  `)
+      AND batch_number = $batch_number
+  `, params)
 
   // Count how many were marked as historical
   const result = await executeQuery<{ count: bigint | number }>(db, `
     SELECT COUNT(*) as count
     FROM ${stagingTableName}
-    WHERE job_id = '${jobId}'
+    WHERE job_id = $job_id
       AND operation = 'delete'
-      AND batch_number = ${batchNumber}
+      AND batch_number = $batch_number
       AND processed = true
-  `)
+  `, params)
 
   return Number(result[0]?.count || 0)
 }
@@ -660,49 +659,162 @@ async function executeBatchInsert(
   snapshotDate: string,
   extractNumber: number
 ): Promise<number> {
+  const params = {
+    job_id: jobId,
+    batch_number: batchNumber,
+    snapshot_date: snapshotDate,
+    extract_number: extractNumber,
+  }
+
   // Build INSERT SQL based on table type
   let sql = ''
 
   if (tableName === 'enterprises') {
-    sql = buildEnterpriseInsert(stagingTableName, jobId, batchNumber, snapshotDate, extractNumber)
+    sql = buildEnterpriseInsert(stagingTableName)
   } else if (tableName === 'establishments') {
-    sql = buildEstablishmentInsert(stagingTableName, jobId, batchNumber, snapshotDate, extractNumber)
+    sql = buildEstablishmentInsert(stagingTableName)
   } else if (tableName === 'branches') {
-    sql = buildBranchInsert(stagingTableName, jobId, batchNumber, snapshotDate, extractNumber)
+    sql = buildBranchInsert(stagingTableName)
   } else if (tableName === 'activities') {
-    sql = buildActivityInsert(stagingTableName, jobId, batchNumber, snapshotDate, extractNumber)
+    sql = buildActivityInsert(stagingTableName)
   } else if (tableName === 'addresses') {
-    sql = buildAddressInsert(stagingTableName, jobId, batchNumber, snapshotDate, extractNumber)
+    sql = buildAddressInsert(stagingTableName)
   } else if (tableName === 'contacts') {
-    sql = buildContactInsert(stagingTableName, jobId, batchNumber, snapshotDate, extractNumber)
+    sql = buildContactInsert(stagingTableName)
   } else if (tableName === 'denominations') {
-    sql = buildDenominationInsert(stagingTableName, jobId, batchNumber, snapshotDate, extractNumber)
+    sql = buildDenominationInsert(stagingTableName)
   }
 
-  await executeStatement(db, sql)
+  await executeStatement(db, sql, params)
+
+  // Close any older version still current for the records just inserted
+  await executeStatement(db, buildSupersedeSql(tableName as VersionedTable, `
+    SELECT ${getEntityKeyColumn(tableName)}
+    FROM ${stagingTableName}
+    WHERE job_id = $job_id
+      AND operation = 'insert'
+      AND batch_number = $batch_number
+  `), params)
 
   // Mark staging records as processed
   await executeStatement(db, `
     UPDATE ${stagingTableName}
     SET processed = true
-    WHERE job_id = '${jobId}'
+    WHERE job_id = $job_id
       AND operation = 'insert'
-      AND batch_number = ${batchNumber}
-  `)
+      AND batch_number = $batch_number
+  `, params)
 
   // Count how many were inserted
   const result = await executeQuery<{ count: bigint | number }>(db, `
     SELECT COUNT(*) as count
     FROM ${stagingTableName}
-    WHERE job_id = '${jobId}'
+    WHERE job_id = $job_id
       AND operation = 'insert'
-      AND batch_number = ${batchNumber}
+      AND batch_number = $batch_number
       AND processed = true
-  `)
+  `, params)
+
+  return Number(result[0]?.count || 0)
+}
+
+/**
+ * Execute the delete batch of a full import (close records missing from the snapshot)
+ */
+async function executeCloseMissing(
+  db: DuckDBConnection,
+  tableName: VersionedTable,
+  stagingTableName: string,
+  jobId: string,
+  extractNumber: number
+): Promise<number> {
+  const params = { job_id: jobId, extract_number: extractNumber }
+
+  await executeStatement(db, buildCloseMissingSql(tableName, stagingTableName), params)
+
+  // Count how many were closed (the delete batch runs before any insert batch)
+  const result = await executeQuery<{ count: bigint | number }>(db, `
+    SELECT COUNT(*) as count
+    FROM ${tableName}
+    WHERE _deleted_at_extract = $extract_number
+  `, { extract_number: extractNumber })
 
   return Number(result[0]?.count || 0)
 }
 
+/**
+ * Mark staged records of a full import batch that equal their current version
+ * as processed, so only new and changed records are inserted
+ *
+ * @returns Number of unchanged records in the batch
+ */
+async function skipUnchangedRecords(
+  db: DuckDBConnection,
+  tableName: VersionedTable,
+  stagingTableName: string,
+  jobId: string,
+  batchNumber: number
+): Promise<number> {
+  const params = { job_id: jobId, batch_number: batchNumber }
+
+  await executeStatement(db, buildSkipUnchangedSql(tableName, stagingTableName), params)
+
+  const result = await executeQuery<{ count: bigint | number }>(db, `
+    SELECT COUNT(*) as count
+    FROM ${stagingTableName}
+    WHERE job_id = $job_id
+      AND operation = 'insert'
+      AND batch_number = $batch_number
+      AND processed = true
+  `, params)
+
+  return Number(result[0]?.count || 0)
+}
+
+/**
+ * Close current records missing from a complete staged snapshot, outside an
+ * import job (the delete batch of a full import does the same)
+ *
+ * Used to repair discrepancies found by a reconciliation run (reconciliation.ts).
+ *
+ * @param stagingId - job_id of the staged snapshot
+ */
+export async function closeMissingFromSnapshot(
+  db: DuckDBConnection,
+  tableName: VersionedTable,
+  stagingId: string,
+  extractNumber: number
+): Promise<void> {
+  await executeStatement(
+    db,
+    buildCloseMissingSql(tableName, `import_staging_${tableName}`),
+    { job_id: stagingId, extract_number: extractNumber }
+  )
+}
+
+/**
+ * Insert the new and changed records of one batch of a complete staged
+ * snapshot, outside an import job (the insert batches of a full import do the same)
+ *
+ * @param stagingId - job_id of the staged snapshot
+ * @returns Number of records inserted
+ */
+export async function applySnapshotBatch(
+  db: DuckDBConnection,
+  tableName: VersionedTable,
+  stagingId: string,
+  batchNumber: number,
+  snapshotDate: string,
+  extractNumber: number
+): Promise<number> {
+  const stagingTableName = `import_staging_${tableName}`
+  const unchanged = await skipUnchangedRecords(db, tableName, stagingTableName, stagingId, batchNumber)
+  const processed = await executeBatchInsert(
+    db, tableName, stagingTableName, stagingId, batchNumber, snapshotDate, extractNumber
+  )
+  return processed - unchanged
+}
+
 /**
  * Calculate overall progress for a job
  */
@@ -715,8 +827,8 @@ async function calculateProgress(
       SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
       COUNT(*) as total
     FROM import_job_batches
-    WHERE job_id = '${jobId}'
-  `)
+    WHERE job_id = $job_id
+  `, { job_id: jobId })
 
   const row = result[0]
   return {
@@ -725,9 +837,10 @@ async function calculateProgress(
   }
 }
 
-// Build INSERT SQL for specific table types (reused from daily-update.ts logic)
+// Build INSERT SQL for specific table types (record IDs and entity_type from records.ts)
+// Statements bind $job_id, $batch_number, $snapshot_date and $extract_number
 
-function buildEnterpriseInsert(stagingTable: string, jobId: string, batch: number, snapshotDate: string, extractNumber: number): string {
+function buildEnterpriseInsert(stagingTable: string): string {
   // Use ROW_NUMBER to deduplicate - last row in CSV wins (highest row_sequence)
   // Use NOT EXISTS to handle Restate retries (Motherduck may not honor ON CONFLICT at commit time)
   return `
@@ -742,27 +855,27 @@ function buildEnterpriseInsert(stagingTable: string, jobId: string, batch: numbe
       juridical_form, juridical_form_cac, start_date,
       enterprise_number as primary_name, NULL as primary_name_language,
       NULL as primary_name_nl, NULL as primary_name_fr, NULL as primary_name_de,
-      '${snapshotDate}'::DATE, ${extractNumber}, true
+      $snapshot_date::DATE, $extract_number, true
     FROM (
       SELECT *,
         ROW_NUMBER() OVER (PARTITION BY enterprise_number ORDER BY row_sequence DESC) as rn
       FROM ${stagingTable}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'insert'
-        AND batch_number = ${batch}
+        AND batch_number = $batch_number
         AND processed = false
     ) deduped
     WHERE rn = 1
       AND NOT EXISTS (
         SELECT 1 FROM enterprises e
         WHERE e.enterprise_number = deduped.enterprise_number
-          AND e._snapshot_date = '${snapshotDate}'::DATE
-          AND e._extract_number = ${extractNumber}
+          AND e._snapshot_date = $snapshot_date::DATE
+          AND e._extract_number = $extract_number
       )
   `
 }
 
-function buildEstablishmentInsert(stagingTable: string, jobId: string, batch: number, snapshotDate: string, extractNumber: number): string {
+function buildEstablishmentInsert(stagingTable: string): string {
   // Use ROW_NUMBER to deduplicate - last row in CSV wins (highest row_sequence)
   // Use NOT EXISTS to handle Restate retries (Motherduck may not honor ON CONFLICT at commit time)
   return `
@@ -772,27 +885,27 @@ function buildEstablishmentInsert(stagingTable: string, jobId: string, batch: nu
     )
     SELECT
       establishment_number, enterprise_number, start_date,
-      '${snapshotDate}'::DATE, ${extractNumber}, true
+      $snapshot_date::DATE, $extract_number, true
     FROM (
       SELECT *,
         ROW_NUMBER() OVER (PARTITION BY establishment_number ORDER BY row_sequence DESC) as rn
       FROM ${stagingTable}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'insert'
-        AND batch_number = ${batch}
+        AND batch_number = $batch_number
         AND processed = false
     ) deduped
     WHERE rn = 1
       AND NOT EXISTS (
         SELECT 1 FROM establishments est
         WHERE est.establishment_number = deduped.establishment_number
-          AND est._snapshot_date = '${snapshotDate}'::DATE
-          AND est._extract_number = ${extractNumber}
+          AND est._snapshot_date = $snapshot_date::DATE
+          AND est._extract_number = $extract_number
       )
   `
 }
 
-function buildBranchInsert(stagingTable: string, jobId: string, batch: number, snapshotDate: string, extractNumber: number): string {
+function buildBranchInsert(stagingTable: string): string {
   // Use ROW_NUMBER to deduplicate - last row in CSV wins (highest row_sequence)
   // Use NOT EXISTS to handle Restate retries (Motherduck may not honor ON CONFLICT at commit time)
   return `
@@ -802,27 +915,27 @@ function buildBranchInsert(stagingTable: string, jobId: string, batch: number, s
     )
     SELECT
       id, enterprise_number, start_date,
-      '${snapshotDate}'::DATE, ${extractNumber}, true
+      $snapshot_date::DATE, $extract_number, true
     FROM (
       SELECT *,
         ROW_NUMBER() OVER (PARTITION BY id ORDER BY row_sequence DESC) as rn
       FROM ${stagingTable}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'insert'
-        AND batch_number = ${batch}
+        AND batch_number = $batch_number
         AND processed = false
     ) deduped
     WHERE rn = 1
       AND NOT EXISTS (
         SELECT 1 FROM branches b
         WHERE b.id = deduped.id
-          AND b._snapshot_date = '${snapshotDate}'::DATE
-          AND b._extract_number = ${extractNumber}
+          AND b._snapshot_date = $snapshot_date::DATE
+          AND b._extract_number = $extract_number
       )
   `
 }
 
-function buildActivityInsert(stagingTable: string, jobId: string, batch: number, snapshotDate: string, extractNumber: number): string {
+function buildActivityInsert(stagingTable: string): string {
   // Use ROW_NUMBER to deduplicate - last row in CSV wins (highest row_sequence)
   // Partition by all columns that form the computed id
   // Use NOT EXISTS to handle Restate retries (Motherduck may not honor ON CONFLICT at commit time)
@@ -836,37 +949,34 @@ function buildActivityInsert(stagingTable: string, jobId: string, batch: number,
       entity_number,
       entity_type,
       activity_group, nace_version, nace_code, classification,
-      '${snapshotDate}'::DATE, ${extractNumber}, true
+      $snapshot_date::DATE, $extract_number, true
     FROM (
       SELECT
-        entity_number || '_' || activity_group || '_' || nace_version || '_' || nace_code || '_' || classification as computed_id,
+        ${recordIdSql('activities')} as computed_id,
         entity_number,
-        CASE
-          WHEN SUBSTRING(entity_number, 2, 1) = '.' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql()} as entity_type,
         activity_group, nace_version, nace_code, classification,
         ROW_NUMBER() OVER (
           PARTITION BY entity_number, activity_group, nace_version, nace_code, classification
           ORDER BY row_sequence DESC
         ) as rn
       FROM ${stagingTable}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'insert'
-        AND batch_number = ${batch}
+        AND batch_number = $batch_number
         AND processed = false
     ) deduped
     WHERE rn = 1
       AND NOT EXISTS (
         SELECT 1 FROM activities a
         WHERE a.id = deduped.computed_id
-          AND a._snapshot_date = '${snapshotDate}'::DATE
-          AND a._extract_number = ${extractNumber}
+          AND a._snapshot_date = $snapshot_date::DATE
+          AND a._extract_number = $extract_number
       )
   `
 }
 
-function buildAddressInsert(stagingTable: string, jobId: string, batch: number, snapshotDate: string, extractNumber: number): string {
+function buildAddressInsert(stagingTable: string): string {
   // Use ROW_NUMBER to deduplicate - last row in CSV wins (highest row_sequence)
   // Partition by entity_number + type_of_address which form the computed id
   // Use NOT EXISTS to handle Restate retries (Motherduck may not honor ON CONFLICT at commit time)
@@ -883,15 +993,12 @@ function buildAddressInsert(stagingTable: string, jobId: string, batch: number,
       entity_type,
       type_of_address, country_nl, country_fr, zipcode, municipality_nl, municipality_fr,
       street_nl, street_fr, house_number, box, extra_address_info, date_striking_off,
-      '${snapshotDate}'::DATE, ${extractNumber}, true
+      $snapshot_date::DATE, $extract_number, true
     FROM (
       SELECT
-        entity_number || '_' || type_of_address as computed_id,
+        ${recordIdSql('addresses')} as computed_id,
         entity_number,
-        CASE
-          WHEN SUBSTRING(entity_number, 2, 1) = '.' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql()} as entity_type,
         type_of_address, country_nl, country_fr, zipcode, municipality_nl, municipality_fr,
         street_nl, street_fr, house_number, box, extra_address_info, date_striking_off,
         ROW_NUMBER() OVER (
@@ -899,22 +1006,22 @@ function buildAddressInsert(stagingTable: string, jobId: string, batch: number,
           ORDER BY row_sequence DESC
         ) as rn
       FROM ${stagingTable}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'insert'
-        AND batch_number = ${batch}
+        AND batch_number = $batch_number
         AND processed = false
     ) deduped
     WHERE rn = 1
       AND NOT EXISTS (
         SELECT 1 FROM addresses addr
         WHERE addr.id = deduped.computed_id
-          AND addr._snapshot_date = '${snapshotDate}'::DATE
-          AND addr._extract_number = ${extractNumber}
+          AND addr._snapshot_date = $snapshot_date::DATE
+          AND addr._extract_number = $extract_number
       )
   `
 }
 
-function buildContactInsert(stagingTable: string, jobId: string, batch: number, snapshotDate: string, extractNumber: number): string {
+function buildContactInsert(stagingTable: string): string {
   // Use ROW_NUMBER to deduplicate - last row in CSV wins (highest row_sequence)
   // Partition by all columns that form the computed id (entity_number, entity_contact, contact_type, contact_value)
   // Use NOT EXISTS to handle Restate retries (Motherduck may not honor ON CONFLICT at commit time)
@@ -928,37 +1035,34 @@ function buildContactInsert(stagingTable: string, jobId: string, batch: number,
       entity_number,
       entity_type,
       entity_contact, contact_type, contact_value,
-      '${snapshotDate}'::DATE, ${extractNumber}, true
+      $snapshot_date::DATE, $extract_number, true
     FROM (
       SELECT
-        entity_number || '_' || entity_contact || '_' || contact_type || '_' || SUBSTRING(MD5(contact_value), 1, 8) as computed_id,
+        ${recordIdSql('contacts')} as computed_id,
         entity_number,
-        CASE
-          WHEN SUBSTRING(entity_number, 2, 1) = '.' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql()} as entity_type,
         entity_contact, contact_type, contact_value,
         ROW_NUMBER() OVER (
           PARTITION BY entity_number, entity_contact, contact_type, contact_value
           ORDER BY row_sequence DESC
         ) as rn
       FROM ${stagingTable}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'insert'
-        AND batch_number = ${batch}
+        AND batch_number = $batch_number
         AND processed = false
     ) deduped
     WHERE rn = 1
       AND NOT EXISTS (
         SELECT 1 FROM contacts c
         WHERE c.id = deduped.computed_id
-          AND c._snapshot_date = '${snapshotDate}'::DATE
-          AND c._extract_number = ${extractNumber}
+          AND c._snapshot_date = $snapshot_date::DATE
+          AND c._extract_number = $extract_number
       )
   `
 }
 
-function buildDenominationInsert(stagingTable: string, jobId: string, batch: number, snapshotDate: string, extractNumber: number): string {
+function buildDenominationInsert(stagingTable: string): string {
   // Use ROW_NUMBER to deduplicate - last row in CSV wins (highest row_sequence)
   // Partition by all columns that form the computed id (entity_number, denomination_type, language, denomination)
   // Use NOT EXISTS to handle Restate retries (Motherduck may not honor ON CONFLICT at commit time)
@@ -972,32 +1076,29 @@ function buildDenominationInsert(stagingTable: string, jobId: string, batch: num
       entity_number,
       entity_type,
       denomination_type, language, denomination,
-      '${snapshotDate}'::DATE, ${extractNumber}, true
+      $snapshot_date::DATE, $extract_number, true
     FROM (
       SELECT
-        entity_number || '_' || denomination_type || '_' || language || '_' || SUBSTRING(MD5(denomination), 1, 8) as computed_id,
+        ${recordIdSql('denominations')} as computed_id,
         entity_number,
-        CASE
-          WHEN SUBSTRING(entity_number, 2, 1) = '.' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql()} as entity_type,
         denomination_type, language, denomination,
         ROW_NUMBER() OVER (
           PARTITION BY entity_number, denomination_type, language, denomination
           ORDER BY row_sequence DESC
         ) as rn
       FROM ${stagingTable}
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND operation = 'insert'
-        AND batch_number = ${batch}
+        AND batch_number = $batch_number
         AND processed = false
     ) deduped
     WHERE rn = 1
       AND NOT EXISTS (
         SELECT 1 FROM denominations d
         WHERE d.id = deduped.computed_id
-          AND d._snapshot_date = '${snapshotDate}'::DATE
-          AND d._extract_number = ${extractNumber}
+          AND d._snapshot_date = $snapshot_date::DATE
+          AND d._extract_number = $extract_number
       )
   `
 }
@@ -1022,6 +1123,10 @@ export async function processBatch(
   const db = await connectMotherduck()
 
   try {
+    // Dry-run jobs wait for their preview to be applied
+    await assertPreviewApplied(db, jobId)
+    await assertNotReplaceable(db, jobId)
+
     // Step 1: Find the batch to process
     let batch: {
       table_name: string;
@@ -1038,12 +1143,12 @@ export async function processBatch(
         status: string;
       }>(db, `
         SELECT * FROM import_job_batches
-        WHERE job_id = '${jobId}'
-          AND table_name = '${tableName}'
-          AND batch_number = ${batchNumber}
-          AND operation = '${operation}'
+        WHERE job_id = $job_id
+          AND table_name = $table_name
+          AND batch_number = $batch_number
+          AND operation = $operation
         LIMIT 1
-      `)
+      `, { job_id: jobId, table_name: tableName, batch_number: batchNumber, operation })
       batch = batches[0]
     } else if (tableName && batchNumber !== undefined) {
       // Process specific batch (legacy - no operation)
@@ -1054,11 +1159,11 @@ export async function processBatch(
         status: string;
       }>(db, `
         SELECT * FROM import_job_batches
-        WHERE job_id = '${jobId}'
-          AND table_name = '${tableName}'
-          AND batch_number = ${batchNumber}
+        WHERE job_id = $job_id
+          AND table_name = $table_name
+          AND batch_number = $batch_number
         LIMIT 1
-      `)
+      `, { job_id: jobId, table_name: tableName, batch_number: batchNumber })
       batch = batches[0]
     } else {
       // Find next pending batch
@@ -1069,11 +1174,11 @@ export async function processBatch(
         status: string;
       }>(db, `
         SELECT * FROM import_job_batches
-        WHERE job_id = '${jobId}'
+        WHERE job_id = $job_id
           AND status = 'pending'
         ORDER BY table_name, batch_number, operation
         LIMIT 1
-      `)
+      `, { job_id: jobId })
       batch = batches[0]
     }
 
@@ -1092,8 +1197,8 @@ export async function processBatch(
           COUNT(*) FILTER (WHERE status = 'completed') as completed,
           COUNT(*) as total
         FROM import_job_batches
-        WHERE job_id = '${jobId}'
-      `)
+        WHERE job_id = $job_id
+      `, { job_id: jobId })
       const completed = Number(progressResult[0].completed)
       const total = Number(progressResult[0].total)
 
@@ -1116,50 +1221,75 @@ export async function processBatch(
     await executeStatement(db, `
       UPDATE import_job_batches
       SET status = 'processing',
-          started_at = '${new Date().toISOString()}'
-      WHERE job_id = '${jobId}'
-        AND table_name = '${batch.table_name}'
-        AND batch_number = ${batch.batch_number}
-        AND operation = '${batch.operation}'
-    `)
+          started_at = $started_at
+      WHERE job_id = $job_id
+        AND table_name = $table_name
+        AND batch_number = $batch_number
+        AND operation = $operation
+    `, {
+      job_id: jobId,
+      table_name: batch.table_name,
+      batch_number: batch.batch_number,
+      operation: batch.operation,
+      started_at: new Date().toISOString(),
+    })
 
     // Step 3: Get job metadata for snapshot_date and extract_number
     const jobs = await executeQuery<{
       snapshot_date: string;
       extract_number: number;
+      extract_type: 'full' | 'update';
     }>(db, `
-      SELECT snapshot_date, extract_number
+      SELECT snapshot_date::VARCHAR as snapshot_date, extract_number, extract_type
       FROM import_jobs
-      WHERE id = '${jobId}'
-    `)
+      WHERE id = $job_id
+    `, { job_id: jobId })
     const job = jobs[0]
 
     // Step 4: Execute the batch operation
+    // Full imports reconcile a complete snapshot instead of applying a delta
     const stagingTableName = `import_staging_${batch.table_name}`
     let recordsProcessed = 0
 
-    if (batch.operation === 'delete') {
+    if (batch.operation === 'delete' && job.extract_type === 'full') {
+      recordsProcessed = await executeCloseMissing(
+        db, batch.table_name as VersionedTable, stagingTableName, jobId, job.extract_number
+      )
+    } else if (batch.operation === 'delete') {
       recordsProcessed = await executeBatchDelete(
         db, batch.table_name, stagingTableName, jobId,
         batch.batch_number, job.extract_number
       )
     } else {
-      recordsProcessed = await executeBatchInsert(
+      const unchanged = job.extract_type === 'full'
+        ? await skipUnchangedRecords(db, batch.table_name as VersionedTable, stagingTableName, jobId, batch.batch_number)
+        : 0
+      const processed = await executeBatchInsert(
         db, batch.table_name, stagingTableName, jobId,
         batch.batch_number, job.snapshot_date, job.extract_number
       )
+      recordsProcessed = processed - unchanged
     }
 
     // Step 5: Mark batch as completed
+    // Full import batches record the rows actually changed, not the rows staged
     await executeStatement(db, `
       UPDATE import_job_batches
       SET status = 'completed',
-          completed_at = '${new Date().toISOString()}'
-      WHERE job_id = '${jobId}'
-        AND table_name = '${batch.table_name}'
-        AND batch_number = ${batch.batch_number}
-        AND operation = '${batch.operation}'
-    `)
+          completed_at = $completed_at
+          ${job.extract_type === 'full' ? ', records_count = $records_count' : ''}
+      WHERE job_id = $job_id
+        AND table_name = $table_name
+        AND batch_number = $batch_number
+        AND operation = $operation
+    `, {
+      job_id: jobId,
+      table_name: batch.table_name,
+      batch_number: batch.batch_number,
+      operation: batch.operation,
+      completed_at: new Date().toISOString(),
+      ...(job.extract_type === 'full' ? { records_count: recordsProcessed } : {}),
+    })
 
     // Step 6: Calculate progress
     const progress = await calculateProgress(db, jobId)
@@ -1172,11 +1302,11 @@ export async function processBatch(
     }>(db, `
       SELECT table_name, batch_number, operation
       FROM import_job_batches
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND status = 'pending'
       ORDER BY table_name, batch_number, operation
       LIMIT 1
-    `)
+    `, { job_id: jobId })
     const nextBatch = nextBatches[0] || null
 
     return {
@@ -1219,8 +1349,8 @@ export async function getImportProgress(
   try {
     // Get job status
     const jobs = await executeQuery<{ status: string }>(db, `
-      SELECT status FROM import_jobs WHERE id = '${jobId}'
-    `)
+      SELECT status FROM import_jobs WHERE id = $job_id
+    `, { job_id: jobId })
     const jobStatus = jobs[0]?.status || 'pending'
 
     // Get batch statistics by table
@@ -1238,10 +1368,10 @@ export async function getImportProgress(
         SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing,
         SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
       FROM import_job_batches
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
       GROUP BY table_name
       ORDER BY table_name
-    `)
+    `, { job_id: jobId })
 
     // Calculate overall progress (convert BigInt to Number)
     const totalBatches = batchStats.reduce((sum, s) => sum + Number(s.total), 0)
@@ -1275,11 +1405,11 @@ export async function getImportProgress(
     }>(db, `
       SELECT table_name, batch_number, operation
       FROM import_job_batches
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND status = 'processing'
       ORDER BY started_at DESC
       LIMIT 1
-    `)
+    `, { job_id: jobId })
     const currentBatch = currentBatches[0] || null
 
     // Find next pending batch
@@ -1290,11 +1420,11 @@ export async function getImportProgress(
     }>(db, `
       SELECT table_name, batch_number, operation
       FROM import_job_batches
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND status = 'pending'
       ORDER BY table_name, batch_number, operation
       LIMIT 1
-    `)
+    `, { job_id: jobId })
     const nextBatch = nextBatches[0] || null
 
     return {
@@ -1328,7 +1458,7 @@ export async function getImportProgress(
  * Updates enterprises where primary_name is the enterprise number (temporary placeholder)
  * to use actual names from the denominations table
  */
-async function resolvePrimaryNames(
+export async function resolvePrimaryNames(
   db: DuckDBConnection,
   snapshotDate: string,
   extractNumber: number
@@ -1370,31 +1500,55 @@ async function resolvePrimaryNames(
       GROUP BY entity_number
     ) d
     WHERE e.enterprise_number = d.entity_number
-      AND e._snapshot_date = '${snapshotDate}'
-      AND e._extract_number = ${extractNumber}
+      AND e._snapshot_date = $snapshot_date
+      AND e._extract_number = $extract_number
       AND e._is_current = true
       AND e.primary_name = e.enterprise_number
   `
 
-  await executeStatement(db, sql)
+  const params = { snapshot_date: snapshotDate, extract_number: extractNumber }
+
+  await executeStatement(db, sql, params)
 
   // Count how many were updated
   const result = await executeQuery<{ count: bigint | number }>(db, `
     SELECT COUNT(*) as count
     FROM enterprises
-    WHERE _snapshot_date = '${snapshotDate}'
-      AND _extract_number = ${extractNumber}
+    WHERE _snapshot_date = $snapshot_date
+      AND _extract_number = $extract_number
       AND _is_current = true
       AND primary_name != enterprise_number
-  `)
+  `, params)
 
   return Number(result[0]?.count || 0)
 }
 
 /**
- * Clean up all staging tables for a completed job
+ * Refuse to continue an import job whose changes were reverted: cancelled
+ * (see cancel.ts), rolled back or failed its data quality checks
  */
-async function cleanupStagingTables(
+async function assertNotReplaceable(
+  db: DuckDBConnection,
+  jobId: string
+): Promise<void> {
+  const jobs = await executeQuery<{ status: string; replaceable: boolean }>(db, `
+    SELECT j.status, ${replaceableJobSql('j')} as replaceable
+    FROM import_jobs j
+    WHERE j.id = $job_id
+  `, { job_id: jobId })
+
+  if (jobs[0]?.replaceable) {
+    throw new ValidationError(
+      `Import job ${jobId} was ${jobs[0].status.replace('_', ' ')}; import the extract again instead`,
+      { job_id: jobId, status: jobs[0].status }
+    )
+  }
+}
+
+/**
+ * Clean up all staging tables for a completed (or cancelled) job
+ */
+export async function cleanupStagingTables(
   db: DuckDBConnection,
   jobId: string
 ): Promise<void> {
@@ -1410,8 +1564,8 @@ async function cleanupStagingTables(
 
   for (const table of stagingTables) {
     await executeStatement(db, `
-      DELETE FROM ${table} WHERE job_id = '${jobId}'
-    `)
+      DELETE FROM ${table} WHERE job_id = $job_id
+    `, { job_id: jobId })
   }
 }
 
@@ -1419,8 +1573,14 @@ async function cleanupStagingTables(
  * Step 4: Finalize Import
  *
  * Completes the import by resolving primary names for enterprises,
+ * refreshing the name search index, checking the data quality rules,
  * updating the job status to completed, and cleaning up staging data.
  *
+ * Throws DataQualityError when the import adds more violations of a rule than
+ * its threshold (see runDataQualityChecks), after reverting the applied
+ * batches like a cancel (see cancel.ts) and marking the job failed. The
+ * extract can then be imported again.
+ *
  * @param jobId - Import job ID
  * @returns Finalization status
  */
@@ -1430,13 +1590,15 @@ export async function finalizeImport(
   const db = await connectMotherduck()
 
   try {
+    await assertNotReplaceable(db, jobId)
+
     // Step 1: Verify all batches completed
     const pendingBatches = await executeQuery<{ count: bigint | number }>(db, `
       SELECT COUNT(*) as count
       FROM import_job_batches
-      WHERE job_id = '${jobId}'
+      WHERE job_id = $job_id
         AND status != 'completed'
-    `)
+    `, { job_id: jobId })
 
     const pendingCount = Number(pendingBatches[0]?.count || 0)
     if (pendingCount > 0) {
@@ -1448,10 +1610,10 @@ export async function finalizeImport(
       snapshot_date: string;
       extract_number: number;
     }>(db, `
-      SELECT snapshot_date, extract_number
+      SELECT snapshot_date::VARCHAR as snapshot_date, extract_number
       FROM import_jobs
-      WHERE id = '${jobId}'
-    `)
+      WHERE id = $job_id
+    `, { job_id: jobId })
     const job = jobs[0]
 
     // Step 3: Resolve primary names for new enterprises
@@ -1463,24 +1625,100 @@ export async function finalizeImport(
       console.log(`   ℹ️  No new enterprises requiring name resolution`)
     }
 
-    // Step 4: Update job status to completed
-    const totalRecords = await executeQuery<{ total: bigint | number | null }>(db, `
-      SELECT SUM(records_count) as total
+    // Step 4: Rebuild the name search index from the updated current data
+    console.log('\n🔎 Refreshing name search index...')
+    const namesIndexed = await refreshNameSearchIndex(db)
+    console.log(`   ✓ Indexed ${namesIndexed.toLocaleString()} names`)
+
+    // Step 5: Check data quality rules against the updated current data
+    console.log('\n🩺 Checking data quality...')
+    const settings = await getAppSettings(db)
+    const findings = await runDataQualityChecks(db, jobId, settings.dataQualityThresholds)
+    for (const finding of findings) {
+      const added = finding.new_violations === null ? '' : `, ${finding.new_violations} new`
+      const limit = finding.threshold === null ? '' : ` (threshold ${finding.threshold})`
+      console.log(`   ${finding.exceeded ? '❌' : '✓'} ${finding.rule_id}: ${finding.violations}${added}${limit}`)
+    }
+
+    const exceeded = findings.filter(finding => finding.exceeded)
+    if (exceeded.length > 0) {
+      const message = `Data quality thresholds exceeded: ${exceeded
+        .map(finding => `${finding.rule_id} (${finding.new_violations} new violations > ${finding.threshold})`)
+        .join(', ')}`
+
+      // Revert the applied batches so the gate keeps the changes out of the current data
+      const tables = await countExtractChanges(db, job.extract_number)
+      const rowsDeleted = tables.reduce((sum, t) => sum + t.rows_deleted, 0)
+      const rowsRestored = tables.reduce((sum, t) => sum + t.rows_restored, 0)
+
+      await executeTransaction(db, [
+        ...buildRevertStatements(job.extract_number),
+        { sql: 'DELETE FROM import_job_batches WHERE job_id = $job_id', params: { job_id: jobId } },
+        {
+          sql: `
+            UPDATE import_jobs
+            SET status = 'failed',
+                completed_at = $completed_at,
+                error_message = $error_message
+            WHERE id = $job_id
+          `,
+          params: { job_id: jobId, completed_at: new Date().toISOString(), error_message: message },
+        },
+      ])
+      console.log(`   ✓ Reverted applied batches: ${rowsDeleted} rows deleted, ${rowsRestored} restored`)
+
+      await cleanupStagingTables(db, jobId)
+
+      try {
+        const namesReindexed = await refreshNameSearchIndex(db)
+        console.log(`   ✓ Indexed ${namesReindexed.toLocaleString()} names`)
+      } catch (error) {
+        console.error('   ❌ Name search refresh failed, run scripts/refresh-name-search.ts:', error)
+      }
+
+      throw new DataQualityError(message, {
+        jobId,
+        exceededRules: exceeded.map(finding => ({
+          ruleId: finding.rule_id,
+          violations: finding.violations,
+          newViolations: finding.new_violations as number,
+          threshold: finding.threshold as number,
+        })),
+      })
+    }
+
+    // Step 6: Update job status to completed
+    const totalRecords = await executeQuery<{
+      inserted: bigint | number | null;
+      deleted: bigint | number | null;
+    }>(db, `
+      SELECT
+        SUM(CASE WHEN operation = 'insert' THEN records_count ELSE 0 END) as inserted,
+        SUM(CASE WHEN operation = 'delete' THEN records_count ELSE 0 END) as deleted
       FROM import_job_batches
-      WHERE job_id = '${jobId}'
-    `)
+      WHERE job_id = $job_id
+    `, { job_id: jobId })
 
-    const recordsProcessed = Number(totalRecords[0]?.total || 0)
+    const recordsInserted = Number(totalRecords[0]?.inserted || 0)
+    const recordsDeleted = Number(totalRecords[0]?.deleted || 0)
 
     await executeStatement(db, `
       UPDATE import_jobs
       SET status = 'completed',
-          completed_at = '${new Date().toISOString()}',
-          records_processed = ${recordsProcessed}
-      WHERE id = '${jobId}'
-    `)
+          completed_at = $completed_at,
+          records_processed = $records_processed,
+          records_inserted = $records_inserted,
+          records_deleted = $records_deleted
+      WHERE id = $job_id
+    `, {
+      job_id: jobId,
+      completed_at: new Date().toISOString(),
+      records_processed: recordsInserted + recordsDeleted,
+      records_inserted: recordsInserted,
+      records_deleted: recordsDeleted,
+    })
 
-    // Step 5: Clean up staging data
+    // Step 7: Clean up staging data
     console.log('\n🧹 Cleaning up staging tables...')
     await cleanupStagingTables(db, jobId)
     console.log('   ✓ Staging data cleaned up')
@@ -1490,6 +1728,8 @@ export async function finalizeImport(
     return {
       success: true,
       names_resolved: namesResolved,
+      names_indexed: namesIndexed,
+      data_quality: findings,
       staging_cleaned: true
     }
 
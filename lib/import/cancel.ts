@@ -0,0 +1,111 @@
+/**
+ * Import Cancellation
+ *
+ * Stops an unfinished import for good: the batches it already applied are
+ * reverted (like a rollback, see rollback.ts), its staging data and batch
+ * records are removed and the job is marked 'cancelled'. Importing the same
+ * extract again replaces the cancelled job (see discardReplacedJob).
+ *
+ * Key functions:
+ * - cancelImportJob(): Cancel one import job (idempotent)
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeTransaction } from '../motherduck'
+import { ValidationError } from '../errors'
+import { refreshNameSearchIndex } from '../motherduck/name-search'
+import { cleanupStagingTables } from './batched-update'
+import { buildRevertStatements, countExtractChanges } from './rollback'
+
+/**
+ * Result of cancelling an import job
+ */
+export interface CancelResult {
+  job_id: string
+  extract_number: number
+  /** Rows of already applied batches that were deleted / made current again */
+  rows_deleted: number
+  rows_restored: number
+  /** False if the job was already cancelled */
+  cancelled: boolean
+}
+
+/**
+ * Cancel an unfinished import job
+ *
+ * Completed jobs cannot be cancelled (roll them back instead); cancelling a
+ * cancelled job does nothing. Returns null if the job does not exist, which
+ * happens when an import is cancelled before it was prepared.
+ *
+ * @param reason - Stored as the job's error message
+ */
+export async function cancelImportJob(
+  db: DuckDBConnection,
+  jobId: string,
+  reason = 'Cancelled by an administrator'
+): Promise<CancelResult | null> {
+  const jobs = await executeQuery<{ extract_number: number; status: string }>(db, `
+    SELECT extract_number, status FROM import_jobs WHERE id = $job_id
+  `, { job_id: jobId })
+
+  if (jobs.length === 0) return null
+
+  const extractNumber = Number(jobs[0].extract_number)
+  const status = jobs[0].status
+
+  if (status === 'cancelled') {
+    return { job_id: jobId, extract_number: extractNumber, rows_deleted: 0, rows_restored: 0, cancelled: false }
+  }
+
+  if (status === 'completed' || status === 'rolled_back') {
+    throw new ValidationError(
+      `Import of extract ${extractNumber} is ${status.replace('_', ' ')} and can no longer be cancelled`,
+      { job_id: jobId, status }
+    )
+  }
+
+  // Count before changing anything, so the result reports what was reverted
+  const tables = await countExtractChanges(db, extractNumber)
+  const rowsDeleted = tables.reduce((sum, t) => sum + t.rows_deleted, 0)
+  const rowsRestored = tables.reduce((sum, t) => sum + t.rows_restored, 0)
+
+  console.log(`🛑 Cancelling import of extract ${extractNumber} (job ${jobId})...`)
+
+  await executeTransaction(db, [
+    ...buildRevertStatements(extractNumber),
+    { sql: 'DELETE FROM import_job_batches WHERE job_id = $job_id', params: { job_id: jobId } },
+    { sql: 'DELETE FROM watchlist_changes WHERE job_id = $job_id', params: { job_id: jobId } },
+    {
+      sql: `
+        UPDATE import_jobs
+        SET status = 'cancelled',
+            completed_at = $completed_at,
+            error_message = $error_message
+        WHERE id = $job_id
+      `,
+      params: { job_id: jobId, completed_at: new Date().toISOString(), error_message: reason },
+    },
+  ])
+  console.log(`   ✓ Reverted applied batches: ${rowsDeleted} rows deleted, ${rowsRestored} restored`)
+
+  await cleanupStagingTables(db, jobId)
+  console.log('   ✓ Staging data cleaned up')
+
+  // Only applied batches change current data; staging-only imports leave the index alone
+  if (rowsDeleted > 0 || rowsRestored > 0) {
+    try {
+      const namesIndexed = await refreshNameSearchIndex(db)
+      console.log(`   ✓ Indexed ${namesIndexed.toLocaleString()} names`)
+    } catch (error) {
+      console.error('   ❌ Name search refresh failed, run scripts/refresh-name-search.ts:', error)
+    }
+  }
+
+  return {
+    job_id: jobId,
+    extract_number: extractNumber,
+    rows_deleted: rowsDeleted,
+    rows_restored: rowsRestored,
+    cancelled: true,
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Extract Continuity
+ *
+ * Daily updates are deltas: each one marks the previous versions of changed
+ * records historical and inserts the new ones (delete-then-insert). Applying
+ * update 157 before 150, or skipping 150 altogether, leaves the temporal
+ * tables silently wrong. These helpers guard the order of incremental imports
+ * and report on the extracts imported so far.
+ *
+ * Only completed import jobs count as imported. A completed full import is a
+ * fresh baseline: gaps before it no longer matter.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery } from '../motherduck'
+import { ExtractSequenceError } from '../errors'
+
+/**
+ * Import job as far as continuity is concerned
+ */
+interface ExtractJob {
+  extract_number: number
+  extract_type: 'full' | 'update'
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'rolled_back' | 'cancelled'
+  completed_at: string | null
+}
+
+/**
+ * Result of checking whether an extract may be imported next
+ */
+export interface ExtractSequenceCheck {
+  extractNumber: number
+  /** Highest extract with a completed import, null if none */
+  lastImportedExtract: number | null
+  /** Extracts between the last imported one and this one */
+  missingExtracts: number[]
+  problem: 'gap' | 'out_of_order' | null
+  message: string | null
+}
+
+/**
+ * Continuity of the imported extracts since the last full import
+ */
+export interface ExtractContinuityReport {
+  /** Latest completed full import, or the first completed import */
+  baselineExtract: number | null
+  lastImportedExtract: number | null
+  importedCount: number
+  /** Extracts after the baseline that were never imported */
+  missingExtracts: number[]
+  /** Missing extracts whose import job failed */
+  failedExtracts: number[]
+  /** Missing extracts whose import was rolled back */
+  rolledBackExtracts: number[]
+  /** Extracts completed after a higher extract had already been completed */
+  outOfOrderExtracts: number[]
+}
+
+async function getExtractJobs(db: DuckDBConnection): Promise<ExtractJob[]> {
+  const rows = await executeQuery<ExtractJob>(db, `
+    SELECT extract_number, extract_type, status, completed_at::VARCHAR as completed_at
+    FROM import_jobs
+    ORDER BY extract_number
+  `)
+
+  return rows.map(row => ({ ...row, extract_number: Number(row.extract_number) }))
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i)
+}
+
+/**
+ * Check whether an incremental extract directly follows the last imported one
+ *
+ * A full extract is a complete snapshot: it only has to be at least as recent
+ * as the last imported extract, gaps before it do not matter.
+ */
+export async function checkExtractSequence(
+  db: DuckDBConnection,
+  extractNumber: number,
+  extractType: 'full' | 'update' = 'update'
+): Promise<ExtractSequenceCheck> {
+  const completed = (await getExtractJobs(db)).filter(job => job.status === 'completed')
+
+  // Nothing imported yet: any extract can be the starting point
+  if (completed.length === 0) {
+    return { extractNumber, lastImportedExtract: null, missingExtracts: [], problem: null, message: null }
+  }
+
+  const lastImported = Math.max(...completed.map(job => job.extract_number))
+
+  if (extractType === 'full') {
+    if (extractNumber >= lastImported) {
+      return { extractNumber, lastImportedExtract: lastImported, missingExtracts: [], problem: null, message: null }
+    }
+    return {
+      extractNumber,
+      lastImportedExtract: lastImported,
+      missingExtracts: [],
+      problem: 'out_of_order',
+      message: `Full extract ${extractNumber} is older than the last imported extract ${lastImported}`,
+    }
+  }
+
+  if (extractNumber <= lastImported) {
+    return {
+      extractNumber,
+      lastImportedExtract: lastImported,
+      missingExtracts: [],
+      problem: 'out_of_order',
+      message: `Extract ${extractNumber} is not newer than the last imported extract ${lastImported}`,
+    }
+  }
+
+  const missing = range(lastImported + 1, extractNumber - 1)
+  if (missing.length > 0) {
+    return {
+      extractNumber,
+      lastImportedExtract: lastImported,
+      missingExtracts: missing,
+      problem: 'gap',
+      message: `Extract ${extractNumber} would skip ${missing.length === 1 ? 'extract' : 'extracts'} ${missing.join(', ')} (last imported: ${lastImported})`,
+    }
+  }
+
+  return { extractNumber, lastImportedExtract: lastImported, missingExtracts: [], problem: null, message: null }
+}
+
+/**
+ * Throw ExtractSequenceError unless the extract directly follows the last
+ * imported one. With `force`, only logs a warning.
+ */
+export async function assertExtractSequence(
+  db: DuckDBConnection,
+  extractNumber: number,
+  force = false,
+  extractType: 'full' | 'update' = 'update'
+): Promise<void> {
+  const check = await checkExtractSequence(db, extractNumber, extractType)
+  if (!check.problem) return
+
+  if (force) {
+    console.warn(`⚠️  ${check.message} - continuing because the import was forced`)
+    return
+  }
+
+  throw new ExtractSequenceError(`${check.message}. Import the missing extracts first, or force the import.`, {
+    extractNumber,
+    lastImportedExtract: check.lastImportedExtract,
+    missingExtracts: check.missingExtracts,
+  })
+}
+
+/**
+ * Report gaps and out-of-order imports since the last full import
+ */
+export async function getExtractContinuity(db: DuckDBConnection): Promise<ExtractContinuityReport> {
+  const jobs = await getExtractJobs(db)
+  const completed = jobs.filter(job => job.status === 'completed')
+
+  if (completed.length === 0) {
+    return {
+      baselineExtract: null,
+      lastImportedExtract: null,
+      importedCount: 0,
+      missingExtracts: [],
+      failedExtracts: [],
+      rolledBackExtracts: [],
+      outOfOrderExtracts: [],
+    }
+  }
+
+  const fullImports = completed.filter(job => job.extract_type === 'full')
+  const baseline = fullImports.length > 0
+    ? Math.max(...fullImports.map(job => job.extract_number))
+    : completed[0].extract_number
+  const lastImported = Math.max(...completed.map(job => job.extract_number))
+
+  const sinceBaseline = completed.filter(job => job.extract_number >= baseline)
+  const imported = new Set(sinceBaseline.map(job => job.extract_number))
+  const missing = range(baseline, lastImported).filter(n => !imported.has(n))
+  const failed = new Set(jobs.filter(job => job.status === 'failed').map(job => job.extract_number))
+  const rolledBack = new Set(jobs.filter(job => job.status === 'rolled_back').map(job => job.extract_number))
+
+  // Replay completions in time order; an extract lower than one already applied was out of order
+  const outOfOrder: number[] = []
+  let highestApplied = -1
+  const byCompletion = sinceBaseline
+    .filter(job => job.completed_at)
+    .sort((a, b) => (a.completed_at! < b.completed_at! ? -1 : a.completed_at! > b.completed_at! ? 1 : 0))
+  for (const job of byCompletion) {
+    if (job.extract_number < highestApplied) {
+      outOfOrder.push(job.extract_number)
+    }
+    highestApplied = Math.max(highestApplied, job.extract_number)
+  }
+
+  return {
+    baselineExtract: baseline,
+    lastImportedExtract: lastImported,
+    importedCount: sinceBaseline.length,
+    missingExtracts: missing,
+    failedExtracts: missing.filter(n => failed.has(n)),
+    rolledBackExtracts: missing.filter(n => rolledBack.has(n)),
+    outOfOrderExtracts: outOfOrder.sort((a, b) => a - b),
+  }
+}
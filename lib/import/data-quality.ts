@@ -0,0 +1,310 @@
+/**
+ * Data Quality Checks
+ *
+ * Rules checked against the current views when an import is finalized (see
+ * finalizeImport). Each rule is a query returning one row per violation with a
+ * `subject` column (an entity number or code) that identifies it. The number
+ * of violations and the first subjects of every rule are stored in
+ * data_quality_findings, also when a rule has no violations, so the dashboard
+ * can show the trend per rule across imports.
+ *
+ * Thresholds (the dataQualityThresholds setting) turn a rule into a gate: when
+ * an import adds more violations of a rule than its threshold, compared with
+ * the findings of the previous completed import, the job fails. Violations
+ * that were already there do not count, so an old backlog does not fail every
+ * import. A rule without an earlier finding (the first checked import, or a
+ * new rule) and rules without a threshold are only reported.
+ *
+ * Key functions:
+ * - runDataQualityChecks(): Check all rules and store the findings of a job
+ * - getDataQualityTrend(): Findings of the most recent import jobs
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeTransaction } from '../motherduck'
+import type { CodeCategory } from '../types/codes'
+
+/**
+ * Maximum number of subjects stored per rule (counts are always exact)
+ */
+const FINDING_SAMPLE_LIMIT = 10
+
+export interface DataQualityRule {
+  id: string
+  description: string
+  /** Query returning one row per violation, with a `subject` column */
+  sql: string
+}
+
+/**
+ * Columns of the current views holding a code from the codes table
+ */
+const CODE_COLUMNS: { view: string; column: string; category: CodeCategory }[] = [
+  { view: 'enterprises_current', column: 'status', category: 'Status' },
+  { view: 'enterprises_current', column: 'juridical_situation', category: 'JuridicalSituation' },
+  { view: 'enterprises_current', column: 'type_of_enterprise', category: 'TypeOfEnterprise' },
+  { view: 'enterprises_current', column: 'juridical_form', category: 'JuridicalForm' },
+  { view: 'enterprises_current', column: 'juridical_form_cac', category: 'JuridicalForm' },
+  { view: 'denominations_current', column: 'denomination_type', category: 'TypeOfDenomination' },
+  { view: 'denominations_current', column: 'language', category: 'Language' },
+  { view: 'addresses_current', column: 'type_of_address', category: 'TypeOfAddress' },
+  { view: 'activities_current', column: 'activity_group', category: 'ActivityGroup' },
+  { view: 'activities_current', column: 'classification', category: 'Classification' },
+  { view: 'contacts_current', column: 'entity_contact', category: 'EntityContact' },
+  { view: 'contacts_current', column: 'contact_type', category: 'ContactType' },
+]
+
+export const DATA_QUALITY_RULES: DataQualityRule[] = [
+  {
+    id: 'enterprise_missing_official_name',
+    description: 'Active enterprises without an official name (denomination type 001)',
+    sql: `
+      SELECT e.enterprise_number as subject
+      FROM enterprises_current e
+      WHERE e.status = 'AC'
+        AND NOT EXISTS (
+          SELECT 1 FROM denominations_current d
+          WHERE d.entity_number = e.enterprise_number
+            AND d.denomination_type = '001'
+        )
+    `,
+  },
+  {
+    id: 'establishment_unknown_enterprise',
+    description: 'Establishments whose enterprise number does not exist',
+    sql: `
+      SELECT s.establishment_number as subject
+      FROM establishments_current s
+      WHERE NOT EXISTS (
+        SELECT 1 FROM enterprises_current e
+        WHERE e.enterprise_number = s.enterprise_number
+      )
+    `,
+  },
+  {
+    id: 'duplicate_registered_address',
+    description: 'Entities with more than one registered address (REGO)',
+    sql: `
+      SELECT entity_number as subject
+      FROM addresses_current
+      WHERE type_of_address = 'REGO'
+      GROUP BY entity_number
+      HAVING COUNT(*) > 1
+    `,
+  },
+  {
+    id: 'unknown_nace_code',
+    description: 'Activities with a NACE code missing from nace_codes',
+    sql: `
+      SELECT a.nace_version || ' ' || a.nace_code as subject
+      FROM activities_current a
+      WHERE NOT EXISTS (
+        SELECT 1 FROM nace_codes n
+        WHERE n.nace_version = a.nace_version
+          AND n.nace_code = a.nace_code
+      )
+    `,
+  },
+  {
+    id: 'unknown_code_value',
+    description: 'Code values missing from codes (juridical form, status, address type, ...)',
+    sql: CODE_COLUMNS.map(({ view, column, category }) => `
+      SELECT '${category} ' || x.${column} as subject
+      FROM ${view} x
+      WHERE x.${column} IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM codes c
+          WHERE c.category = '${category}'
+            AND c.code = x.${column}
+        )
+    `).join('\n      UNION ALL\n'),
+  },
+]
+
+/**
+ * Maximum allowed violations per rule ID (null or missing = report only)
+ */
+export type DataQualityThresholds = Record<string, number | null>
+
+/**
+ * Result of one rule for one import job
+ */
+export interface DataQualityFinding {
+  rule_id: string
+  violations: number
+  threshold: number | null
+  exceeded: boolean
+  /** First violating subjects */
+  sample: string[]
+}
+
+/**
+ * Finding of a check, compared with the previous completed import
+ */
+export interface DataQualityCheck extends DataQualityFinding {
+  /** Violations found after the previous completed import (null if it has no finding for the rule) */
+  previous_violations: number | null
+  /** Violations added by this import (null without a previous finding) */
+  new_violations: number | null
+}
+
+/**
+ * Findings of one import job, as shown in the dashboard trend
+ */
+export interface DataQualityJobFindings {
+  job_id: string
+  extract_number: number
+  snapshot_date: string
+  status: string
+  checked_at: string
+  findings: DataQualityFinding[]
+}
+
+/**
+ * Check all rules against the current data and store the findings of a job
+ *
+ * Replaces earlier findings of the same job, so a retried finalize records
+ * the latest result.
+ *
+ * @returns One finding per rule, in DATA_QUALITY_RULES order
+ */
+export async function runDataQualityChecks(
+  db: DuckDBConnection,
+  jobId: string,
+  thresholds: DataQualityThresholds = {}
+): Promise<DataQualityCheck[]> {
+  // Latest finding per rule of a completed import (rolled back, cancelled and
+  // failed imports no longer count towards the current data)
+  const previousRows = await executeQuery<{ rule_id: string; violations: bigint | number }>(db, `
+    SELECT f.rule_id, f.violations
+    FROM data_quality_findings f
+    INNER JOIN import_jobs j ON j.id = f.job_id
+    WHERE j.status = 'completed'
+      AND f.job_id <> $job_id
+    QUALIFY ROW_NUMBER() OVER (PARTITION BY f.rule_id ORDER BY f.checked_at DESC) = 1
+  `, { job_id: jobId })
+  const previous = new Map(previousRows.map(row => [row.rule_id, Number(row.violations)]))
+
+  const findings: DataQualityCheck[] = []
+
+  for (const rule of DATA_QUALITY_RULES) {
+    const counts = await executeQuery<{ count: bigint | number }>(db, `
+      SELECT COUNT(*) as count FROM (${rule.sql})
+    `)
+    const violations = Number(counts[0]?.count || 0)
+
+    const sample = violations > 0
+      ? await executeQuery<{ subject: string }>(db, `
+          SELECT DISTINCT subject FROM (${rule.sql})
+          ORDER BY subject
+          LIMIT ${FINDING_SAMPLE_LIMIT}
+        `)
+      : []
+
+    const threshold = thresholds[rule.id] ?? null
+    const previousViolations = previous.get(rule.id) ?? null
+    const newViolations = previousViolations === null ? null : Math.max(violations - previousViolations, 0)
+    findings.push({
+      rule_id: rule.id,
+      violations,
+      threshold,
+      exceeded: threshold !== null && newViolations !== null && newViolations > threshold,
+      sample: sample.map(row => row.subject),
+      previous_violations: previousViolations,
+      new_violations: newViolations,
+    })
+  }
+
+  await executeTransaction(db, [
+    { sql: 'DELETE FROM data_quality_findings WHERE job_id = $job_id', params: { job_id: jobId } },
+    ...findings.map(finding => ({
+      sql: `
+        INSERT INTO data_quality_findings (job_id, rule_id, violations, threshold, exceeded, sample, checked_at)
+        VALUES ($job_id, $rule_id, $violations, $threshold, $exceeded, $sample, $checked_at)
+      `,
+      params: {
+        job_id: jobId,
+        rule_id: finding.rule_id,
+        violations: finding.violations,
+        threshold: finding.threshold,
+        exceeded: finding.exceeded,
+        sample: JSON.stringify(finding.sample),
+        checked_at: new Date().toISOString(),
+      },
+    })),
+  ])
+
+  return findings
+}
+
+/**
+ * Findings of the most recently checked import jobs, oldest first
+ *
+ * @param limit - Number of import jobs
+ */
+export async function getDataQualityTrend(
+  db: DuckDBConnection,
+  limit = 20
+): Promise<DataQualityJobFindings[]> {
+  const rows = await executeQuery<{
+    job_id: string
+    extract_number: number
+    snapshot_date: string
+    status: string
+    checked_at: string
+    rule_id: string
+    violations: bigint | number
+    threshold: bigint | number | null
+    exceeded: boolean
+    sample: string | null
+  }>(db, `
+    WITH recent_jobs AS (
+      SELECT job_id, MAX(checked_at) as checked_at
+      FROM data_quality_findings
+      GROUP BY job_id
+      ORDER BY checked_at DESC
+      LIMIT ${Math.max(1, Math.floor(limit))}
+    )
+    SELECT
+      f.job_id,
+      j.extract_number,
+      j.snapshot_date::VARCHAR as snapshot_date,
+      j.status,
+      r.checked_at::VARCHAR as checked_at,
+      f.rule_id,
+      f.violations,
+      f.threshold,
+      f.exceeded,
+      f.sample::VARCHAR as sample
+    FROM data_quality_findings f
+    JOIN recent_jobs r ON r.job_id = f.job_id
+    JOIN import_jobs j ON j.id = f.job_id
+    ORDER BY r.checked_at, f.rule_id
+  `)
+
+  const jobs = new Map<string, DataQualityJobFindings>()
+  for (const row of rows) {
+    let job = jobs.get(row.job_id)
+    if (!job) {
+      job = {
+        job_id: row.job_id,
+        extract_number: Number(row.extract_number),
+        snapshot_date: row.snapshot_date,
+        status: row.status,
+        checked_at: row.checked_at,
+        findings: [],
+      }
+      jobs.set(row.job_id, job)
+    }
+
+    job.findings.push({
+      rule_id: row.rule_id,
+      violations: Number(row.violations),
+      threshold: row.threshold === null ? null : Number(row.threshold),
+      exceeded: row.exceeded,
+      sample: row.sample ? JSON.parse(row.sample) : [],
+    })
+  }
+
+  return Array.from(jobs.values())
+}
@@ -271,103 +271,3 @@ export async function stageAllCsvFiles(
     await stageCsvFile(db, join(dataPath, file), name)
   }
 }
-
-/**
- * Mark all current records as historical in all tables
- *
- * @param motherduckDb Motherduck database connection
- * @param extractNumber The extract number that is superseding these records
- * @param onProgress Optional progress callback
- * @returns Total number of records marked historical
- */
-export async function markAllCurrentAsHistorical(
-  motherduckDb: duckdb.Database,
-  extractNumber: number,
-  onProgress?: (table: string, count: number) => void
-): Promise<number> {
-  const tables = [
-    'enterprises',
-    'establishments',
-    'denominations',
-    'addresses',
-    'activities',
-    'contacts',
-    'branches'
-  ]
-
-  let totalMarked = 0
-
-  for (const table of tables) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await new Promise<any[]>((resolve, reject) => {
-      motherduckDb.all(
-        `UPDATE ${table}
-         SET _is_current = false,
-             _deleted_at_extract = ${extractNumber}
-         WHERE _is_current = true`,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (err: Error | null, rows: any[]) => {
-          if (err) reject(err)
-          else resolve(rows)
-        }
-      )
-    })
-
-    // DuckDB returns changes_count in the result
-    const count = result.length > 0 ? Number(result[0]?.count || 0) : 0
-    totalMarked += count
-    onProgress?.(table, count)
-  }
-
-  return totalMarked
-}
-
-/**
- * Clean up snapshots older than retention period
- *
- * @param motherduckDb Motherduck database connection
- * @param retentionMonths Number of months to retain (default: 24)
- * @param onProgress Optional progress callback
- * @returns Total number of records deleted
- */
-export async function cleanupOldSnapshots(
-  motherduckDb: duckdb.Database,
-  retentionMonths: number = 24,
-  onProgress?: (table: string, count: number) => void
-): Promise<number> {
-  const tables = [
-    'enterprises',
-    'establishments',
-    'denominations',
-    'addresses',
-    'activities',
-    'contacts',
-    'branches'
-  ]
-
-  let totalCleaned = 0
-
-  for (const table of tables) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await new Promise<any[]>((resolve, reject) => {
-      motherduckDb.all(
-        `DELETE FROM ${table}
-         WHERE _snapshot_date < CURRENT_DATE - INTERVAL '${retentionMonths} months'`,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (err: Error | null, rows: any[]) => {
-          if (err) reject(err)
-          else resolve(rows)
-        }
-      )
-    })
-
-    const count = result.length > 0 ? Number(result[0]?.count || 0) : 0
-    totalCleaned += count
-
-    if (count > 0) {
-      onProgress?.(table, count)
-    }
-  }
-
-  return totalCleaned
-}
@@ -0,0 +1,112 @@
+/**
+ * KBO Extract Reader
+ *
+ * Reads an update extract ZIP: meta.csv and the per-table delete/insert CSV
+ * files. Every import executor reads extracts through it, so they all see the
+ * same metadata and records.
+ *
+ * CSV files are streamed from the ZIP entry and parsed record by record, so
+ * memory use does not grow with the size of a file.
+ */
+
+import StreamZip from 'node-stream-zip'
+import { parse } from 'csv-parse'
+import { randomUUID } from 'crypto'
+import { tmpdir } from 'os'
+import { unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { Readable } from 'stream'
+import { Metadata, parseMetadataFromContent } from './metadata'
+
+/**
+ * Opened extract ZIP - call close() when done
+ */
+export interface KboExtract {
+  metadata: Metadata
+  /** CSV table names (e.g. 'enterprise') with a delete and/or insert file, sorted */
+  tables: string[]
+  /** Number of records in <table>_<operation>.csv, 0 if the extract has no such file */
+  countRecords(csvTable: string, operation: 'delete' | 'insert'): Promise<number>
+  /** Records of <table>_<operation>.csv in file order, none if the extract has no such file */
+  streamRecords(csvTable: string, operation: 'delete' | 'insert'): AsyncIterable<Record<string, string>>
+  close(): Promise<void>
+}
+
+/**
+ * Open an extract ZIP and parse its metadata
+ *
+ * @param zipSource - Local path of the ZIP file (opened in place), or a
+ *   buffer with its contents (written to a temporary file)
+ */
+export async function openExtract(zipSource: Buffer | string): Promise<KboExtract> {
+  // node-stream-zip requires a file path
+  let tempFilePath: string | null = null
+  if (Buffer.isBuffer(zipSource)) {
+    tempFilePath = join(tmpdir(), `kbo-update-${randomUUID()}.zip`)
+    await writeFile(tempFilePath, zipSource)
+  }
+
+  const zip = new StreamZip.async({ file: tempFilePath ?? (zipSource as string) })
+
+  const close = async () => {
+    await zip.close()
+    // Clean up temporary file
+    if (tempFilePath) {
+      await unlink(tempFilePath).catch(() => {
+        // Ignore cleanup errors
+      })
+    }
+  }
+
+  try {
+    const metaContent = await zip.entryData('meta.csv')
+    const metadata = parseMetadataFromContent(metaContent.toString())
+
+    const entryNames = new Set(Object.keys(await zip.entries()))
+    const tables = new Set<string>()
+    for (const name of entryNames) {
+      if (name.endsWith('_delete.csv')) {
+        tables.add(name.replace('_delete.csv', ''))
+      } else if (name.endsWith('_insert.csv')) {
+        tables.add(name.replace('_insert.csv', ''))
+      }
+    }
+
+    async function* streamRecords(
+      csvTable: string,
+      operation: 'delete' | 'insert'
+    ): AsyncGenerator<Record<string, string>> {
+      const fileName = `${csvTable}_${operation}.csv`
+      if (!entryNames.has(fileName)) {
+        return
+      }
+
+      const source = await zip.stream(fileName) as Readable
+      try {
+        for await (const record of source.pipe(parse({ columns: true, skip_empty_lines: true }))) {
+          yield record as Record<string, string>
+        }
+      } finally {
+        source.destroy()
+      }
+    }
+
+    return {
+      metadata,
+      tables: Array.from(tables).sort(),
+      countRecords: async (csvTable, operation) => {
+        const records = streamRecords(csvTable, operation)
+        let count = 0
+        while (!(await records.next()).done) {
+          count++
+        }
+        return count
+      },
+      streamRecords,
+      close
+    }
+  } catch (error) {
+    await close()
+    throw error
+  }
+}
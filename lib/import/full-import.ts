@@ -0,0 +1,664 @@
+/**
+ * Full Import - monthly full dumps through the batch system
+ *
+ * A full dump is a complete snapshot (2+ GB of CSV), too large to stage in one
+ * step. While preparing, every table's CSV is read once and split into gzipped
+ * parts of FULL_IMPORT_BATCH_ROWS rows, stored next to the dump (Vercel Blob for
+ * blob dumps, the temp directory for local ones). Each part is then staged as
+ * one batch, so every step is short, can be retried and runs on any instance.
+ *
+ * The staged snapshot is then reconciled against the current data by the
+ * regular batch processing (processBatch() on a job with extract_type 'full'):
+ * - one delete batch per table closes current records missing from the snapshot
+ * - insert batches only insert new and changed records (unchanged ones are skipped)
+ *
+ * Key functions:
+ * - prepareFullImport(): Validate the dump, create/resume the job, refresh code tables, split the tables
+ * - stageFullImportBatch(): Stage one part of a table (RESUMABLE)
+ *   stageFullDumpBatch() only stages, without batch records (see reconciliation.ts)
+ * - splitFullDump() / removeDumpParts(): Split a dump into parts, and delete them
+ * - readDumpMetadata(): Validated meta.csv of a dump
+ * - readDumpCodes() / refreshCodes(): code.csv of a dump, and replacing the code tables with it
+ * - removeCachedExtract(): Delete the locally cached ZIP
+ */
+
+import StreamZip from 'node-stream-zip'
+import { parse as parseSync } from 'csv-parse/sync'
+import { createHash } from 'crypto'
+import { tmpdir } from 'os'
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, unlinkSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { Readable } from 'stream'
+import { constants, gunzipSync, gzipSync } from 'zlib'
+import type { DuckDBConnection } from '@duckdb/node-api'
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  executeStatement,
+  executeTransaction,
+  type QueryParamValue,
+} from '../motherduck'
+import { deleteBlobsWithPrefix, downloadBlobToFile, downloadFromBlob, uploadToBlob } from '../blob'
+import { ValidationError } from '../errors'
+import { WorkerType } from '../types/import-job'
+import { generateJobId, insertStagingBatch } from './batched-update'
+import { assertExtractSequence } from './continuity'
+import { discardReplacedJob, replaceableJobSql } from './rollback'
+import { Metadata, parseMetadataFromContent } from './metadata'
+import type { VersionedTable } from './versioning'
+
+/**
+ * Rows staged (and reconciled) per batch
+ */
+export const FULL_IMPORT_BATCH_ROWS = 100000
+
+/**
+ * Tables of a full dump in processing order, with their CSV file
+ */
+export const FULL_IMPORT_TABLES: { table: VersionedTable; csvFile: string }[] = [
+  { table: 'enterprises', csvFile: 'enterprise.csv' },
+  { table: 'establishments', csvFile: 'establishment.csv' },
+  { table: 'denominations', csvFile: 'denomination.csv' },
+  { table: 'addresses', csvFile: 'address.csv' },
+  { table: 'activities', csvFile: 'activity.csv' },
+  { table: 'contacts', csvFile: 'contact.csv' },
+  { table: 'branches', csvFile: 'branch.csv' },
+]
+
+/**
+ * Result from prepareFullImport()
+ */
+export interface PrepareFullImportResult {
+  job_id: string
+  extract_number: number
+  snapshot_date: string
+  metadata: Metadata
+  /** Tables to stage, in processing order */
+  tables: VersionedTable[]
+  /** Parts of each table's CSV, one per batch (see splitFullDump) */
+  parts_by_table: Record<string, string[]>
+  codes_refreshed: number
+}
+
+/**
+ * Result from stageFullImportBatch()
+ */
+export interface StageFullImportResult {
+  table: VersionedTable
+  batch_number: number
+  rows_staged: number
+}
+
+/**
+ * Row of code.csv
+ */
+export interface DumpCode {
+  category: string
+  code: string
+  language: string
+  description: string
+}
+
+/**
+ * Whether a dump (or part) is stored in Vercel Blob rather than on local disk
+ */
+function isBlobSource(source: string): boolean {
+  return /^https?:\/\//.test(source)
+}
+
+/**
+ * Open the ZIP of a full dump, downloading it once per instance
+ *
+ * Only the prepare and code steps read the ZIP; each one reuses the local copy
+ * when it runs on the same instance instead of downloading again. A local
+ * file path (CLI scripts) is opened in place.
+ */
+async function openCachedZip(zipSource: string): Promise<StreamZip.StreamZipAsync> {
+  if (!isBlobSource(zipSource)) {
+    return new StreamZip.async({ file: zipSource })
+  }
+
+  const cacheKey = createHash('sha256').update(zipSource).digest('hex').slice(0, 16)
+  const zipPath = join(tmpdir(), `kbo-full-${cacheKey}.zip`)
+
+  if (!existsSync(zipPath)) {
+    console.log(`Downloading ZIP from blob: ${zipSource}`)
+    // Write to a temporary name first so an interrupted download is never reused
+    const size = await downloadBlobToFile(zipSource, `${zipPath}.part`)
+    console.log(`Downloaded ${size} bytes from blob`)
+    renameSync(`${zipPath}.part`, zipPath)
+  }
+
+  return new StreamZip.async({ file: zipPath })
+}
+
+/**
+ * Delete the locally cached ZIP of a full dump (best effort)
+ */
+export function removeCachedExtract(zipSource: string): void {
+  const cacheKey = createHash('sha256').update(zipSource).digest('hex').slice(0, 16)
+  try {
+    unlinkSync(join(tmpdir(), `kbo-full-${cacheKey}.zip`))
+  } catch {
+    // Not cached on this instance
+  }
+}
+
+/**
+ * Parse code.csv of a dump
+ *
+ * Duplicates in code.csv keep the highest description, as the CLI import does.
+ */
+async function readCodes(zip: StreamZip.StreamZipAsync): Promise<DumpCode[]> {
+  const content = await zip.entryData('code.csv')
+  const records = parseSync(content.toString(), {
+    columns: true,
+    skip_empty_lines: true,
+    bom: true
+  }) as { Category: string; Code: string; Language: string; Description: string }[]
+
+  const codes = new Map<string, DumpCode>()
+  for (const record of records) {
+    const key = `${record.Category}|${record.Code}|${record.Language}`
+    const existing = codes.get(key)
+    if (!existing || existing.description < record.Description) {
+      codes.set(key, {
+        category: record.Category,
+        code: record.Code,
+        language: record.Language,
+        description: record.Description,
+      })
+    }
+  }
+
+  return Array.from(codes.values())
+}
+
+/**
+ * Read code.csv of a full dump
+ *
+ * @param zipSource - Vercel Blob URL or local path of the full dump ZIP
+ */
+export async function readDumpCodes(zipSource: string): Promise<DumpCode[]> {
+  const zip = await openCachedZip(zipSource)
+  try {
+    return await readCodes(zip)
+  } finally {
+    await zip.close()
+  }
+}
+
+/**
+ * Replace the code tables (codes, nace_codes) with code.csv of a dump
+ */
+export async function refreshCodes(
+  db: DuckDBConnection,
+  codes: DumpCode[]
+): Promise<number> {
+  const rows: QueryParamValue[][] = codes.map(c => [c.category, c.code, c.language, c.description])
+  const inserts: { sql: string; params: QueryParamValue[] }[] = []
+  for (let i = 0; i < rows.length; i += 5000) {
+    const chunk = rows.slice(i, i + 5000)
+    inserts.push({
+      sql: `INSERT INTO codes (category, code, language, description)
+            VALUES ${chunk.map(() => '(?, ?, ?, ?)').join(', ')}`,
+      params: chunk.flat(),
+    })
+  }
+
+  await executeTransaction(db, [
+    'DELETE FROM codes',
+    ...inserts,
+    'DELETE FROM nace_codes',
+    `INSERT INTO nace_codes (nace_version, nace_code, description_nl, description_fr)
+     SELECT
+       CASE
+         WHEN category = 'Nace2003' THEN '2003'
+         WHEN category = 'Nace2008' THEN '2008'
+         WHEN category = 'Nace2025' THEN '2025'
+       END as nace_version,
+       code as nace_code,
+       MAX(CASE WHEN language = 'NL' THEN description END) as description_nl,
+       MAX(CASE WHEN language = 'FR' THEN description END) as description_fr
+     FROM codes
+     WHERE category IN ('Nace2003', 'Nace2008', 'Nace2025')
+     GROUP BY nace_version, nace_code`,
+  ])
+
+  return rows.length
+}
+
+/**
+ * Parse meta.csv of a full dump and check that all CSV files are present
+ */
+async function readFullDumpMetadata(zip: StreamZip.StreamZipAsync): Promise<Metadata> {
+  console.log('📋 Parsing metadata...')
+  const metadata = parseMetadataFromContent((await zip.entryData('meta.csv')).toString())
+  console.log(`   ✓ Snapshot Date: ${metadata.snapshotDate}`)
+  console.log(`   ✓ Extract Number: ${metadata.extractNumber}`)
+  console.log(`   ✓ Extract Type: ${metadata.extractType}`)
+
+  if (metadata.extractType !== 'full') {
+    throw new ValidationError(`Expected 'full' extract type, got '${metadata.extractType}'`)
+  }
+
+  const entries = await zip.entries()
+  const missingFiles = ['code.csv', ...FULL_IMPORT_TABLES.map(t => t.csvFile)]
+    .filter(file => !entries[file])
+  if (missingFiles.length > 0) {
+    throw new ValidationError(`Full dump is missing ${missingFiles.join(', ')}`, { missingFiles })
+  }
+
+  return metadata
+}
+
+/**
+ * Read and validate the metadata of a full dump
+ *
+ * @param zipSource - Vercel Blob URL or local path of the full dump ZIP
+ */
+export async function readDumpMetadata(zipSource: string): Promise<Metadata> {
+  const zip = await openCachedZip(zipSource)
+  try {
+    return await readFullDumpMetadata(zip)
+  } finally {
+    await zip.close()
+  }
+}
+
+/**
+ * Step 1: Prepare Full Import (RESUMABLE)
+ *
+ * Downloads the dump, validates meta.csv and the CSV files, creates (or
+ * resumes) the import job, refreshes the code tables and splits every table
+ * into parts. Staging happens afterwards, part by part, with
+ * stageFullImportBatch().
+ *
+ * A full dump may be imported after any gap, but not when a newer extract has
+ * already been imported (see assertExtractSequence); `force` overrides this.
+ *
+ * @param zipSource - Vercel Blob URL of the full dump ZIP
+ * @param workerType - Type of worker (local, vercel, etc.)
+ * @param workflowId - Workflow ID for deterministic job ID generation
+ * @param options.force - Import even if a newer extract was already imported
+ */
+export async function prepareFullImport(
+  zipSource: string,
+  workerType: WorkerType = 'local',
+  workflowId?: string,
+  options: { force?: boolean } = {}
+): Promise<PrepareFullImportResult> {
+  const zip = await openCachedZip(zipSource)
+  let db: DuckDBConnection | null = null
+
+  try {
+    const metadata = await readFullDumpMetadata(zip)
+
+    // Generate deterministic job ID from workflow ID (or fall back to extract number)
+    const effectiveWorkflowId = workflowId || `full-import-${metadata.extractNumber}`
+    const jobId = generateJobId(effectiveWorkflowId)
+    console.log(`   ✓ Workflow ID: ${effectiveWorkflowId}`)
+    console.log(`   ✓ Job ID: ${jobId}`)
+
+    db = await connectMotherduck()
+
+    const existingJob = await executeQuery<{ status: string; replaceable: boolean }>(db, `
+      SELECT j.status, ${replaceableJobSql('j')} as replaceable
+      FROM import_jobs j
+      WHERE j.id = $job_id
+    `, { job_id: jobId })
+
+    if (existingJob.length > 0 && !existingJob[0].replaceable) {
+      console.log(`\n📝 Resuming existing full import job (status: ${existingJob[0].status})...`)
+    } else {
+      await assertExtractSequence(db, metadata.extractNumber, options.force, 'full')
+      await discardReplacedJob(db, metadata.extractNumber)
+
+      console.log('\n📝 Creating new full import job record...')
+      await executeStatement(db, `
+        INSERT INTO import_jobs (
+          id, extract_number, extract_type, snapshot_date, extract_timestamp,
+          status, started_at, worker_type
+        ) VALUES (
+          $job_id,
+          $extract_number,
+          'full',
+          $snapshot_date,
+          $extract_timestamp,
+          'pending',
+          $started_at,
+          $worker_type
+        )
+      `, {
+        job_id: jobId,
+        extract_number: metadata.extractNumber,
+        snapshot_date: metadata.snapshotDate,
+        extract_timestamp: metadata.extractTimestamp ?? null,
+        started_at: new Date().toISOString(),
+        worker_type: workerType,
+      })
+    }
+
+    console.log('\n📚 Refreshing code tables...')
+    const codesRefreshed = await refreshCodes(db, await readCodes(zip))
+    console.log(`   ✓ ${codesRefreshed} codes`)
+
+    const partsByTable = await splitDumpTables(zip, zipSource, jobId)
+
+    return {
+      job_id: jobId,
+      extract_number: metadata.extractNumber,
+      snapshot_date: metadata.snapshotDate,
+      metadata,
+      tables: FULL_IMPORT_TABLES.map(t => t.table),
+      parts_by_table: partsByTable,
+      codes_refreshed: codesRefreshed,
+    }
+
+  } finally {
+    await zip.close()
+    if (db) {
+      await closeMotherduck(db)
+    }
+  }
+}
+
+const QUOTE = 0x22
+const NEWLINE = 0x0a
+
+/**
+ * Local directory holding the parts of a dump staged under `stagingId`
+ */
+function partsDirectory(stagingId: string): string {
+  return join(tmpdir(), `kbo-full-parts-${stagingId}`)
+}
+
+/**
+ * Store one gzipped part of a table, next to the dump it comes from
+ *
+ * @returns Blob URL or local path of the part
+ */
+async function writeDumpPart(
+  zipSource: string,
+  stagingId: string,
+  table: VersionedTable,
+  partNumber: number,
+  data: Buffer
+): Promise<string> {
+  const filename = `${table}-${partNumber}.csv.gz`
+  const compressed = gzipSync(data, { level: constants.Z_BEST_SPEED })
+
+  if (isBlobSource(zipSource)) {
+    const blob = await uploadToBlob(compressed, filename, stagingId)
+    return blob.url
+  }
+
+  const directory = partsDirectory(stagingId)
+  mkdirSync(directory, { recursive: true })
+  const path = join(directory, filename)
+  writeFileSync(path, compressed)
+  return path
+}
+
+/**
+ * Read a part written by writeDumpPart()
+ */
+async function readDumpPart(part: string): Promise<Buffer> {
+  const compressed = isBlobSource(part) ? await downloadFromBlob(part) : readFileSync(part)
+  return gunzipSync(compressed)
+}
+
+/**
+ * Split a CSV file of the ZIP into parts of FULL_IMPORT_BATCH_ROWS rows
+ *
+ * Rows end at line breaks outside quoted fields. Every part starts with the
+ * header row; a file without rows still yields one (header only) part.
+ *
+ * @param writePart - Stores a part and returns where it was stored
+ * @returns Where the parts were stored, in order
+ */
+async function splitCsvEntry(
+  zip: StreamZip.StreamZipAsync,
+  csvFile: string,
+  writePart: (partNumber: number, data: Buffer) => Promise<string>
+): Promise<string[]> {
+  const parts: string[] = []
+  let header: Buffer | null = null
+  let pending: Buffer[] = []
+  let rows = 0
+  let inQuotes = false
+
+  const flush = async (rowHeader: Buffer) => {
+    parts.push(await writePart(parts.length + 1, Buffer.concat([rowHeader, ...pending])))
+    pending = []
+    rows = 0
+  }
+
+  const source = await zip.stream(csvFile) as Readable
+  try {
+    for await (const chunk of source as AsyncIterable<Buffer>) {
+      let start = 0
+      for (let i = 0; i < chunk.length; i++) {
+        if (chunk[i] === QUOTE) {
+          inQuotes = !inQuotes
+        } else if (chunk[i] === NEWLINE && !inQuotes) {
+          if (header === null) {
+            header = Buffer.concat([...pending, chunk.subarray(start, i + 1)])
+            pending = []
+            start = i + 1
+          } else if (++rows === FULL_IMPORT_BATCH_ROWS) {
+            pending.push(chunk.subarray(start, i + 1))
+            start = i + 1
+            await flush(header)
+          }
+        }
+      }
+      if (start < chunk.length) {
+        pending.push(chunk.subarray(start))
+      }
+    }
+  } finally {
+    source.destroy()
+  }
+
+  // A header without a line break, or a last row without one
+  if (header === null) {
+    header = Buffer.concat(pending)
+    pending = []
+  }
+  if (pending.length > 0 || parts.length === 0) {
+    await flush(header)
+  }
+
+  return parts
+}
+
+/**
+ * Split every table of an open dump into parts (see splitFullDump)
+ */
+async function splitDumpTables(
+  zip: StreamZip.StreamZipAsync,
+  zipSource: string,
+  stagingId: string
+): Promise<Record<string, string[]>> {
+  // Parts of an earlier attempt may have been stored under other names
+  await removeDumpParts(zipSource, stagingId)
+
+  console.log('\n✂️  Splitting tables into batches...')
+  const partsByTable: Record<string, string[]> = {}
+  for (const { table, csvFile } of FULL_IMPORT_TABLES) {
+    partsByTable[table] = await splitCsvEntry(zip, csvFile, (partNumber, data) =>
+      writeDumpPart(zipSource, stagingId, table, partNumber, data)
+    )
+    console.log(`   ✓ ${table}: ${partsByTable[table].length} batches`)
+  }
+
+  return partsByTable
+}
+
+/**
+ * Split every table of a full dump into gzipped parts of FULL_IMPORT_BATCH_ROWS rows
+ *
+ * Each CSV is decompressed once; the parts are stored in Vercel Blob for a
+ * blob dump and in the temp directory for a local one, until removeDumpParts().
+ *
+ * @param zipSource - Vercel Blob URL or local path of the full dump ZIP
+ * @param stagingId - job_id the parts will be staged under (import job or reconciliation run)
+ * @returns Where the parts of each table were stored, in order
+ */
+export async function splitFullDump(
+  zipSource: string,
+  stagingId: string
+): Promise<Record<string, string[]>> {
+  const zip = await openCachedZip(zipSource)
+  try {
+    return await splitDumpTables(zip, zipSource, stagingId)
+  } finally {
+    await zip.close()
+  }
+}
+
+/**
+ * Delete the parts of a dump staged under `stagingId` (see splitFullDump)
+ *
+ * @param zipSource - Vercel Blob URL or local path of the full dump ZIP
+ */
+export async function removeDumpParts(zipSource: string, stagingId: string): Promise<void> {
+  if (isBlobSource(zipSource)) {
+    // Pathnames of uploadToBlob(): kbo-imports/<staging id>-<filename>
+    await deleteBlobsWithPrefix(`kbo-imports/${stagingId}-`)
+  } else {
+    rmSync(partsDirectory(stagingId), { recursive: true, force: true })
+  }
+}
+
+/**
+ * Create (or reset) the batch record of a full import batch
+ */
+async function upsertBatchRecord(
+  db: DuckDBConnection,
+  jobId: string,
+  table: VersionedTable,
+  batchNumber: number,
+  operation: 'delete' | 'insert',
+  recordsCount: number
+): Promise<void> {
+  const params = { job_id: jobId, table_name: table, batch_number: batchNumber, operation }
+
+  await executeTransaction(db, [
+    {
+      sql: `
+        DELETE FROM import_job_batches
+        WHERE job_id = $job_id
+          AND table_name = $table_name
+          AND batch_number = $batch_number
+          AND operation = $operation
+      `,
+      params,
+    },
+    {
+      sql: `
+        INSERT INTO import_job_batches (
+          job_id, table_name, batch_number, operation, status, records_count,
+          started_at, completed_at, error_message
+        ) VALUES ($job_id, $table_name, $batch_number, $operation, 'pending', $records_count, NULL, NULL, NULL)
+      `,
+      params: { ...params, records_count: recordsCount },
+    },
+  ])
+}
+
+/**
+ * Stage one part of a full dump table, without batch records (RESUMABLE)
+ *
+ * Stages the rows of one part (see splitFullDump) into the staging table as
+ * batch `batchNumber`. Re-running a batch replaces what it staged before.
+ *
+ * @param part - Blob URL or local path of the part
+ * @param stagingId - job_id of the staged rows (import job or reconciliation run)
+ * @param table - Table to stage
+ * @param batchNumber - 1-based batch number within the table (the part's position)
+ */
+export async function stageFullDumpBatch(
+  part: string,
+  stagingId: string,
+  table: VersionedTable,
+  batchNumber: number
+): Promise<StageFullImportResult> {
+  const records = parseSync(await readDumpPart(part), {
+    columns: true,
+    bom: true,
+    skip_empty_lines: true
+  }) as Record<string, string>[]
+
+  const db = await connectMotherduck()
+
+  try {
+    const stagingTableName = `import_staging_${table}`
+
+    // Replace anything staged by an earlier attempt of this batch
+    await executeStatement(db, `
+      DELETE FROM ${stagingTableName}
+      WHERE job_id = $job_id
+        AND batch_number = $batch_number
+    `, { job_id: stagingId, batch_number: batchNumber })
+
+    if (records.length > 0) {
+      await insertStagingBatch(
+        db, stagingTableName, stagingId, batchNumber,
+        (batchNumber - 1) * FULL_IMPORT_BATCH_ROWS + 1, records
+      )
+    }
+
+    console.log(`   ✓ ${table} batch ${batchNumber}: ${records.length} records staged`)
+
+    return {
+      table,
+      batch_number: batchNumber,
+      rows_staged: records.length,
+    }
+
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Step 2: Stage one part of a full dump table (RESUMABLE)
+ *
+ * Stages the part (see stageFullDumpBatch) and creates its insert batch
+ * record. With the last part of a table, the delete batch (close records
+ * missing from the snapshot) is created as well.
+ *
+ * @param part - Blob URL or local path of the part (from prepareFullImport())
+ * @param jobId - Import job ID from prepareFullImport()
+ * @param table - Table to stage
+ * @param batchNumber - 1-based batch number within the table (the part's position)
+ * @param lastBatch - Whether this is the table's last part
+ */
+export async function stageFullImportBatch(
+  part: string,
+  jobId: string,
+  table: VersionedTable,
+  batchNumber: number,
+  lastBatch: boolean
+): Promise<StageFullImportResult> {
+  const staged = await stageFullDumpBatch(part, jobId, table, batchNumber)
+  const db = await connectMotherduck()
+
+  try {
+    if (staged.rows_staged > 0) {
+      await upsertBatchRecord(db, jobId, table, batchNumber, 'insert', staged.rows_staged)
+    }
+
+    if (lastBatch) {
+      await upsertBatchRecord(db, jobId, table, 1, 'delete', 0)
+    }
+
+    return staged
+
+  } finally {
+    await closeMotherduck(db)
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Scheduled Ingestion - Planning
+ *
+ * Decides which daily updates the scheduled ingestion (KboIngestion Restate
+ * object) may import. Daily updates are deltas on top of each other, so they
+ * must be applied strictly in extract-number order and none may be skipped:
+ * - Only the contiguous run of extracts directly after the last completed
+ *   import is planned
+ * - A missing extract stops the run before the gap
+ * - An extract whose import job is pending, running, failed or rolled back
+ *   stops the run (the manual import flow decides what happens to it)
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery } from '../motherduck'
+import { downloadFile } from '../kbo-client'
+import { uploadToBlob } from '../blob'
+import type { KboDatasetFile } from '../types/kbo-portal'
+
+/**
+ * Import job state of an extract, as recorded in import_jobs
+ */
+export interface ExtractJobState {
+  extract_number: number
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'rolled_back' | 'cancelled'
+}
+
+/**
+ * Reason the ingestion cannot go past an extract
+ */
+export interface IngestionBlocker {
+  /** First extract that cannot be imported */
+  extract_number: number
+  reason: 'no_baseline' | 'gap' | 'unfinished_job' | 'failed_job' | 'rolled_back' | 'cancelled'
+  message: string
+}
+
+/**
+ * Daily updates to import, in order
+ */
+export interface IngestionPlan {
+  /** Highest extract number with a completed import, null if none */
+  last_imported_extract: number | null
+  /** Files to import, ascending and without gaps */
+  pending: KboDatasetFile[]
+  /** Why the plan stops where it does (null if every available update is planned) */
+  blocked: IngestionBlocker | null
+}
+
+/**
+ * Workflow ID for importing a KBO file (e.g. "import-0141" for
+ * "KboOpenData_0141_..._Update.zip", "full-import-0141" for a full dump of the
+ * same extract). The import job ID is derived from it, so manual and
+ * scheduled imports of the same extract share one job.
+ */
+export function getImportWorkflowId(filename: string): string {
+  const prefix = /_Full\.zip$/i.test(filename) ? 'full-import' : 'import'
+  const extractMatch = filename.match(/KboOpenData_(\d+)_/)
+  return extractMatch ? `${prefix}-${extractMatch[1]}` : `${prefix}-${Date.now()}`
+}
+
+/**
+ * Plan which daily updates to import next
+ *
+ * @param files - Files available on the KBO portal (any order, any type)
+ * @param jobs - Import job state of every extract in import_jobs
+ */
+export function planDailyIngestion(
+  files: KboDatasetFile[],
+  jobs: ExtractJobState[]
+): IngestionPlan {
+  const completed = jobs.filter(job => job.status === 'completed')
+  if (completed.length === 0) {
+    return {
+      last_imported_extract: null,
+      pending: [],
+      blocked: {
+        extract_number: 0,
+        reason: 'no_baseline',
+        message: 'No completed import found; run the initial full import first',
+      },
+    }
+  }
+
+  const lastImported = Math.max(...completed.map(job => job.extract_number))
+  const jobByExtract = new Map(jobs.map(job => [job.extract_number, job]))
+  const available = files
+    .filter(file => file.file_type === 'update' && file.extract_number > lastImported)
+    .sort((a, b) => a.extract_number - b.extract_number)
+
+  const pending: KboDatasetFile[] = []
+  let blocked: IngestionBlocker | null = null
+  let expected = lastImported + 1
+
+  for (const file of available) {
+    if (file.extract_number !== expected) {
+      blocked = {
+        extract_number: expected,
+        reason: 'gap',
+        message: `Extract ${expected} is not available on the KBO portal; refusing to skip to extract ${file.extract_number}`,
+      }
+      break
+    }
+
+    const job = jobByExtract.get(file.extract_number)
+    if (job) {
+      blocked = job.status === 'failed'
+        ? {
+            extract_number: file.extract_number,
+            reason: 'failed_job',
+            message: `Import of extract ${file.extract_number} failed; re-run it from the imports page`,
+          }
+        : job.status === 'rolled_back' || job.status === 'cancelled'
+          ? {
+              extract_number: file.extract_number,
+              reason: job.status,
+              message: `Import of extract ${file.extract_number} was ${job.status.replace('_', ' ')}; re-import it manually`,
+            }
+          : {
+              extract_number: file.extract_number,
+              reason: 'unfinished_job',
+              message: `Import of extract ${file.extract_number} is still ${job.status}`,
+            }
+      break
+    }
+
+    pending.push(file)
+    expected++
+  }
+
+  return { last_imported_extract: lastImported, pending, blocked }
+}
+
+/**
+ * Load the import job state of every extract
+ */
+export async function getExtractJobStates(db: DuckDBConnection): Promise<ExtractJobState[]> {
+  const rows = await executeQuery<ExtractJobState>(db, `
+    SELECT extract_number, status FROM import_jobs
+  `)
+
+  return rows.map(row => ({
+    extract_number: Number(row.extract_number),
+    status: row.status,
+  }))
+}
+
+/**
+ * Download a daily update from the KBO portal and stage it in Vercel Blob
+ * Returns the blob URL to pass to the KboImport workflow
+ */
+export async function stageDailyUpdate(file: KboDatasetFile, workflowId: string): Promise<string> {
+  const zipBuffer = await downloadFile(file.url)
+  const blob = await uploadToBlob(zipBuffer, file.filename, workflowId)
+  return blob.url
+}
@@ -7,8 +7,11 @@
 // Note: Old duckdb import commented out - not used in production web flow
 // Only needed for CLI scripts which should be updated to use @duckdb/node-api
 // import * as duckdb from 'duckdb'
-// import { join } from 'path'
+import { parse } from 'csv-parse/sync'
+import { readFileSync } from 'fs'
+import { join } from 'path'
 import { ImportJobType } from '../types/import-job'
+import { convertKboDateFormat, isKboDateFormat } from '../utils/column-mapping'
 
 /**
  * Metadata from meta.csv
@@ -34,7 +37,7 @@ export interface Metadata {
  * Parse meta.csv using DuckDB to extract snapshot date and extract number
  *
  * NOTE: This function uses the old 'duckdb' package and is ONLY for CLI scripts.
- * The production web import uses parseMetadataFromContent() instead.
+ * Use readMetadataFile() (CLI scripts) or parseMetadataFromContent() instead.
  * This function is commented out to avoid build errors - CLI scripts need updating.
  *
  * @param db DuckDB database instance
@@ -97,34 +100,25 @@ export async function parseMetadataWithDuckDB(
 */
 
 /**
- * Parse meta.csv from filesystem (for non-DuckDB contexts like ZIP processing)
+ * Parse meta.csv content (Variable,Value rows)
+ *
+ * The only meta.csv parser: every import executor reads metadata through it.
+ * Converts SnapshotDate and ExtractTimestamp from DD-MM-YYYY to YYYY-MM-DD.
  *
  * @param metaContent Raw CSV content from meta.csv
  * @returns Parsed metadata
  */
 export function parseMetadataFromContent(metaContent: string): Metadata {
-  // Simple CSV parsing for meta.csv (always has 2 columns: Variable, Value)
-  const lines = metaContent.trim().split('\n')
-  const metadata: Record<string, string> = {}
-
-  // Skip header row
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim()
-    if (!line) continue
+  const records = parse(metaContent, {
+    columns: true,
+    skip_empty_lines: true
+  }) as { Variable?: string; Value?: string }[]
 
-    // Split on first comma (Value might contain commas in quotes)
-    const firstComma = line.indexOf(',')
-    if (firstComma === -1) continue
-
-    const variable = line.substring(0, firstComma).trim()
-    let value = line.substring(firstComma + 1).trim()
-
-    // Remove quotes if present
-    if (value.startsWith('"') && value.endsWith('"')) {
-      value = value.substring(1, value.length - 1)
+  const metadata: Record<string, string> = {}
+  for (const record of records) {
+    if (record.Variable && record.Value) {
+      metadata[record.Variable] = record.Value
     }
-
-    metadata[variable] = value
   }
 
   // Validate required fields
@@ -139,21 +133,45 @@ export function parseMetadataFromContent(metaContent: string): Metadata {
   }
 
   // Convert DD-MM-YYYY to YYYY-MM-DD
-  const snapshotDateParts = metadata.SnapshotDate.split('-')
-  if (snapshotDateParts.length !== 3) {
+  if (!isKboDateFormat(metadata.SnapshotDate)) {
     throw new Error(`Invalid SnapshotDate format: ${metadata.SnapshotDate}`)
   }
-  const snapshotDate = `${snapshotDateParts[2]}-${snapshotDateParts[1]}-${snapshotDateParts[0]}`
+  const snapshotDate = convertKboDateFormat(metadata.SnapshotDate)
+
+  // Convert DD-MM-YYYY HH:MM:SS to YYYY-MM-DD HH:MM:SS
+  let extractTimestamp: string | undefined
+  if (metadata.ExtractTimestamp) {
+    const [datePart, timePart, ...rest] = metadata.ExtractTimestamp.split(' ')
+    if (!timePart || rest.length > 0 || !isKboDateFormat(datePart)) {
+      throw new Error(`Invalid ExtractTimestamp format: ${metadata.ExtractTimestamp}, expected 'DD-MM-YYYY HH:MM:SS'`)
+    }
+    extractTimestamp = `${convertKboDateFormat(datePart)} ${timePart}`
+  }
+
+  const extractNumber = parseInt(metadata.ExtractNumber, 10)
+  if (isNaN(extractNumber)) {
+    throw new Error(`Invalid ExtractNumber: ${metadata.ExtractNumber}`)
+  }
 
   return {
     snapshotDate,
-    extractNumber: parseInt(metadata.ExtractNumber, 10),
+    extractNumber,
     extractType: metadata.ExtractType as ImportJobType,
     version: metadata.Version || 'unknown',
-    extractTimestamp: metadata.ExtractTimestamp
+    extractTimestamp
   }
 }
 
+/**
+ * Read meta.csv from an extracted KBO dump directory (CLI scripts)
+ *
+ * @param dataPath Path to directory containing meta.csv
+ * @returns Parsed metadata
+ */
+export function readMetadataFile(dataPath: string): Metadata {
+  return parseMetadataFromContent(readFileSync(join(dataPath, 'meta.csv'), 'utf-8'))
+}
+
 /**
  * Validate extract type (must be 'full' or 'update')
  */
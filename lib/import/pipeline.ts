@@ -0,0 +1,305 @@
+/**
+ * Import Pipeline
+ *
+ * The one way an update extract gets imported: prepare (stage the extract and
+ * plan batches), process every batch (deletes then inserts, per table),
+ * finalize, then dispatch the webhooks of the changes (lib/webhooks/) and
+ * detect the changes of watched enterprises (lib/watchlists/).
+ * Executors only decide how each step runs:
+ * - inProcessExecutor: directly, in the calling process (CLI, daily-update route)
+ * - Restate (lib/restate/kbo-import-service.ts): as durable, retried steps
+ *
+ * Full dumps take the same route with runFullImportPipeline(): prepare, stage
+ * each table in batches (full-import.ts), reconcile every table (close missing
+ * records, then insert new and changed ones), then finalize, dispatch
+ * webhooks and detect watchlist changes. Monthly snapshots run it from the
+ * Restate workflow or, in process, from scripts/apply-monthly-snapshot.ts.
+ * Only the initial load of an empty database (scripts/initial-import.ts,
+ * scripts/reset-from-full-dump.ts) still runs whole tables as SQL in local
+ * DuckDB (duckdb-processor.ts with transformations.ts).
+ *
+ * All executors share the extract reader (extract.ts), meta.csv parsing
+ * (metadata.ts) and record definitions (records.ts), so the same CSV row
+ * always becomes the same database row, with the same ID.
+ */
+
+import {
+  processBatch,
+  finalizeImport,
+  type PrepareImportResult,
+  type ProcessBatchResult,
+  type FinalizeResult,
+} from './batched-update'
+import {
+  prepareFullImport,
+  removeDumpParts,
+  stageFullImportBatch,
+  type PrepareFullImportResult,
+  type StageFullImportResult,
+} from './full-import'
+import { dispatchWebhooks, type WebhookDispatchResult } from '../webhooks/dispatch'
+import { detectWatchlistChanges, type WatchlistDetectionResult } from '../watchlists/changes'
+import type { WorkerType } from '../types/import-job'
+
+/**
+ * Pipeline progress, reported after prepare and after every batch
+ */
+export interface ImportPipelineProgress {
+  status: 'staging' | 'processing' | 'finalizing'
+  job_id: string
+  completed_batches: number
+  total_batches: number
+  current_table?: string
+  current_batch?: number
+}
+
+/**
+ * Runs the steps of the pipeline
+ */
+export interface ImportExecutor {
+  /**
+   * Run one step. Step names are stable (prepare-import, prepare-full-import,
+   * stage-<table>-<n>, remove-dump-parts, delete-<table>-<n>, insert-<table>-<n>,
+   * finalize, dispatch-webhooks, detect-watchlist-changes) so durable executors
+   * can journal them.
+   */
+  run<T>(name: string, step: () => Promise<T>): Promise<T>
+  /** Optional progress callback */
+  onProgress?(progress: ImportPipelineProgress): void
+}
+
+/**
+ * Result of a pipeline run
+ */
+export interface ImportPipelineResult<P = PrepareImportResult> {
+  prepared: P
+  total_batches: number
+  records_deleted: number
+  records_inserted: number
+  finalized: FinalizeResult
+  /** Null when dispatching failed (the import itself completed) */
+  webhooks: WebhookDispatchResult | null
+  /** Null when detection failed (the import itself completed) */
+  watchlists: WatchlistDetectionResult | null
+}
+
+/**
+ * Executor running every step directly in the calling process
+ */
+export const inProcessExecutor: ImportExecutor = {
+  run: (_name, step) => step(),
+}
+
+/**
+ * Dispatch the webhooks of a finalized import
+ *
+ * Webhooks must not fail an import that already completed: errors are logged
+ * and the deliveries can be dispatched again from the admin pages.
+ */
+async function dispatchImportWebhooks(jobId: string): Promise<WebhookDispatchResult | null> {
+  try {
+    return await dispatchWebhooks(jobId)
+  } catch (error) {
+    console.error(`❌ Webhook dispatch failed for import ${jobId}:`, error)
+    return null
+  }
+}
+
+/**
+ * Detect the watchlist changes of a finalized import
+ *
+ * Like webhooks, detection must not fail a completed import; running it
+ * again (POST /api/admin/watchlists/detect) picks up what is missing.
+ */
+async function detectImportWatchlistChanges(jobId: string): Promise<WatchlistDetectionResult | null> {
+  try {
+    return await detectWatchlistChanges(jobId)
+  } catch (error) {
+    console.error(`❌ Watchlist change detection failed for import ${jobId}:`, error)
+    return null
+  }
+}
+
+/**
+ * Run the import pipeline with an executor
+ *
+ * @param prepare - Prepare step (prepareImport or prepareImportFromZip)
+ * @param executor - How to run the steps
+ * @returns Prepare result, records processed and finalization status
+ */
+export async function runImportPipeline(
+  prepare: () => Promise<PrepareImportResult>,
+  executor: ImportExecutor
+): Promise<ImportPipelineResult> {
+  const prepared = await executor.run('prepare-import', prepare)
+  const { job_id, batches_by_table, total_batches } = prepared
+
+  executor.onProgress?.({
+    status: 'processing',
+    job_id,
+    completed_batches: 0,
+    total_batches,
+  })
+
+  // Deletes first, then inserts, for each table
+  let completedBatches = 0
+  const records = { delete: 0, insert: 0 }
+
+  for (const [table, counts] of Object.entries(batches_by_table)) {
+    for (const operation of ['delete', 'insert'] as const) {
+      for (let i = 1; i <= counts[operation]; i++) {
+        const result: ProcessBatchResult | undefined = await executor.run(
+          `${operation}-${table}-${i}`,
+          () => processBatch(job_id, table, i, operation)
+        )
+        // Restate journals written before the pipeline recorded no batch result
+        records[operation] += result?.records_processed ?? 0
+
+        completedBatches++
+        executor.onProgress?.({
+          status: 'processing',
+          job_id,
+          completed_batches: completedBatches,
+          total_batches,
+          current_table: table,
+          current_batch: i,
+        })
+      }
+    }
+  }
+
+  executor.onProgress?.({
+    status: 'finalizing',
+    job_id,
+    completed_batches: total_batches,
+    total_batches,
+  })
+
+  const finalized = await executor.run('finalize', () => finalizeImport(job_id))
+  const webhooks = await executor.run('dispatch-webhooks', () => dispatchImportWebhooks(job_id))
+  const watchlists = await executor.run('detect-watchlist-changes', () => detectImportWatchlistChanges(job_id))
+
+  return {
+    prepared,
+    total_batches,
+    records_deleted: records.delete,
+    records_inserted: records.insert,
+    finalized,
+    webhooks,
+    watchlists,
+  }
+}
+
+/**
+ * Run the full import pipeline with an executor
+ *
+ * Prepare splits every table into parts once; every later step reads at most
+ * one part, so a durable executor can run a 2+ GB dump as many short steps
+ * and resume it at the step that was interrupted.
+ *
+ * @param zipSource - Vercel Blob URL or local path of the full dump ZIP
+ * @param executor - How to run the steps
+ * @param options.workerType - Type of worker (local, vercel, etc.)
+ * @param options.workflowId - Workflow ID for deterministic job ID generation
+ * @param options.force - Import even if a newer extract was already imported
+ * @returns Prepare result, records processed and finalization status
+ */
+export async function runFullImportPipeline(
+  zipSource: string,
+  executor: ImportExecutor,
+  options: { workerType?: WorkerType; workflowId?: string; force?: boolean } = {}
+): Promise<ImportPipelineResult<PrepareFullImportResult>> {
+  const prepared = await executor.run('prepare-full-import', () =>
+    prepareFullImport(zipSource, options.workerType, options.workflowId, { force: options.force })
+  )
+  const { job_id, tables, parts_by_table } = prepared
+
+  // One insert batch per part (a header-only part stages nothing), plus one
+  // delete batch per table
+  const insertBatches: Record<string, number> = Object.fromEntries(
+    tables.map(t => [t, parts_by_table[t].length])
+  )
+  const totalBatches = () =>
+    tables.length + Object.values(insertBatches).reduce((sum, n) => sum + n, 0)
+
+  for (const table of tables) {
+    const parts = parts_by_table[table]
+
+    for (let i = 1; i <= parts.length; i++) {
+      const staged: StageFullImportResult = await executor.run(`stage-${table}-${i}`, () =>
+        stageFullImportBatch(parts[i - 1], job_id, table, i, i === parts.length)
+      )
+      if (staged.rows_staged === 0) {
+        insertBatches[table]--
+      }
+
+      executor.onProgress?.({
+        status: 'staging',
+        job_id,
+        completed_batches: 0,
+        total_batches: totalBatches(),
+        current_table: table,
+        current_batch: i,
+      })
+    }
+  }
+
+  // Everything is staged; the parts are no longer needed
+  await executor.run('remove-dump-parts', () => removeDumpParts(zipSource, job_id))
+
+  const total_batches = totalBatches()
+  executor.onProgress?.({
+    status: 'processing',
+    job_id,
+    completed_batches: 0,
+    total_batches,
+  })
+
+  // Close missing records first, then insert new and changed ones, for each table
+  let completedBatches = 0
+  const records = { delete: 0, insert: 0 }
+
+  for (const table of tables) {
+    const counts = { delete: 1, insert: insertBatches[table] }
+    for (const operation of ['delete', 'insert'] as const) {
+      for (let i = 1; i <= counts[operation]; i++) {
+        const result: ProcessBatchResult = await executor.run(
+          `${operation}-${table}-${i}`,
+          () => processBatch(job_id, table, i, operation)
+        )
+        records[operation] += result.records_processed
+
+        completedBatches++
+        executor.onProgress?.({
+          status: 'processing',
+          job_id,
+          completed_batches: completedBatches,
+          total_batches,
+          current_table: table,
+          current_batch: i,
+        })
+      }
+    }
+  }
+
+  executor.onProgress?.({
+    status: 'finalizing',
+    job_id,
+    completed_batches: total_batches,
+    total_batches,
+  })
+
+  const finalized = await executor.run('finalize', () => finalizeImport(job_id))
+  const webhooks = await executor.run('dispatch-webhooks', () => dispatchImportWebhooks(job_id))
+  const watchlists = await executor.run('detect-watchlist-changes', () => detectImportWatchlistChanges(job_id))
+
+  return {
+    prepared,
+    total_batches,
+    records_deleted: records.delete,
+    records_inserted: records.insert,
+    finalized,
+    webhooks,
+    watchlists,
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * Import Preview (dry run)
+ *
+ * A dry-run import stops after prepareImport() has filled the staging tables
+ * and created the batches. The preview compares the staged delete/insert rows
+ * with the current data to show what the update will change, before any batch
+ * touches the versioned tables:
+ * - delete and insert counts per table
+ * - enterprises whose status or juridical situation changes
+ * - new and struck-off enterprises
+ * - denomination changes
+ *
+ * The job then waits for an explicit apply (processBatch() refuses to run
+ * until then) or is discarded together with its staging data.
+ *
+ * Key functions:
+ * - createImportPreview(): Build and store the preview of a staged job
+ * - getImportPreview(): Stored preview of a job
+ * - applyImportPreview(): Allow batch processing of a previewed job
+ * - assertPreviewApplied(): Guard used by processBatch()
+ * - discardImportPreview(): Drop a previewed job that was never applied
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeStatement, executeTransaction } from '../motherduck'
+import { ValidationError } from '../errors'
+import { VERSIONED_TABLES, getEntityKeyColumn, type VersionedTable } from './versioning'
+
+/**
+ * Maximum number of rows listed per change category
+ * (totals are always exact)
+ */
+const PREVIEW_SAMPLE_LIMIT = 100
+
+/**
+ * Staged changes of one table
+ */
+export interface TablePreview {
+  table: VersionedTable
+  /** Rows in the delete file (one per entity) */
+  deletes: number
+  /** Rows in the insert file */
+  inserts: number
+  /** Current rows the deletes will mark historical */
+  rows_closed: number
+}
+
+/**
+ * Change category with its exact total and the first rows
+ */
+export interface PreviewList<T> {
+  total: number
+  items: T[]
+}
+
+export interface EnterpriseStatusChange {
+  enterprise_number: string
+  name: string | null
+  old_status: string
+  new_status: string
+  old_juridical_situation: string | null
+  new_juridical_situation: string | null
+}
+
+export interface NewEnterprise {
+  enterprise_number: string
+  name: string | null
+  status: string | null
+  juridical_form: string | null
+  start_date: string | null
+}
+
+export interface StruckOffEnterprise {
+  enterprise_number: string
+  name: string | null
+  /** removed: deleted without a new version; stopped: new version has status ST */
+  reason: 'removed' | 'stopped'
+}
+
+export interface DenominationChange {
+  entity_number: string
+  language: string
+  denomination_type: string
+  /** Current name(s), null if the entity had none of this type and language */
+  old_denomination: string | null
+  /** Name(s) after the import, null if they are removed */
+  new_denomination: string | null
+}
+
+/**
+ * What a staged import will change
+ */
+export interface ImportPreviewReport {
+  job_id: string
+  extract_number: number
+  snapshot_date: string
+  generated_at: string
+  tables: TablePreview[]
+  status_changes: PreviewList<EnterpriseStatusChange>
+  new_enterprises: PreviewList<NewEnterprise>
+  struck_off_enterprises: PreviewList<StruckOffEnterprise>
+  denomination_changes: PreviewList<DenominationChange>
+}
+
+/**
+ * Stored preview with its apply state
+ */
+export interface ImportPreview {
+  report: ImportPreviewReport
+  created_at: string
+  applied_at: string | null
+  applied_by: string | null
+}
+
+/**
+ * Query a change category, returning the exact total and the first rows
+ */
+async function queryPreviewList<T>(
+  db: DuckDBConnection,
+  sql: string,
+  params: { job_id: string }
+): Promise<PreviewList<T>> {
+  const counts = await executeQuery<{ total: bigint | number }>(db, `
+    SELECT COUNT(*) as total FROM (${sql}) changes
+  `, params)
+  const items = await executeQuery<T>(db, `
+    SELECT * FROM (${sql}) changes LIMIT ${PREVIEW_SAMPLE_LIMIT}
+  `, params)
+
+  return { total: Number(counts[0]?.total || 0), items }
+}
+
+/**
+ * Latest staged insert row per enterprise (last row in the CSV wins, as in processBatch)
+ */
+const STAGED_ENTERPRISES = `
+  SELECT *
+  FROM import_staging_enterprises
+  WHERE job_id = $job_id
+    AND operation = 'insert'
+  QUALIFY ROW_NUMBER() OVER (PARTITION BY enterprise_number ORDER BY row_sequence DESC) = 1
+`
+
+/**
+ * Legal name (type 001) per entity in the staged denominations, Dutch first
+ */
+const STAGED_NAMES = `
+  SELECT
+    entity_number,
+    arg_min(denomination, CASE language WHEN '2' THEN 1 WHEN '1' THEN 2 WHEN '0' THEN 3 ELSE 4 END) as name
+  FROM import_staging_denominations
+  WHERE job_id = $job_id
+    AND operation = 'insert'
+    AND denomination_type = '001'
+  GROUP BY entity_number
+`
+
+async function previewTables(db: DuckDBConnection, jobId: string): Promise<TablePreview[]> {
+  const tables: TablePreview[] = []
+
+  for (const table of VERSIONED_TABLES) {
+    const entityKey = getEntityKeyColumn(table)
+    const counts = await executeQuery<{
+      deletes: bigint | number | null
+      inserts: bigint | number | null
+      rows_closed: bigint | number | null
+    }>(db, `
+      SELECT
+        COUNT(*) FILTER (WHERE operation = 'delete') as deletes,
+        COUNT(*) FILTER (WHERE operation = 'insert') as inserts,
+        (
+          SELECT COUNT(*)
+          FROM ${table}
+          WHERE _is_current = true
+            AND ${entityKey} IN (
+              SELECT ${entityKey}
+              FROM import_staging_${table}
+              WHERE job_id = $job_id
+                AND operation = 'delete'
+            )
+        ) as rows_closed
+      FROM import_staging_${table}
+      WHERE job_id = $job_id
+    `, { job_id: jobId })
+
+    tables.push({
+      table,
+      deletes: Number(counts[0]?.deletes || 0),
+      inserts: Number(counts[0]?.inserts || 0),
+      rows_closed: Number(counts[0]?.rows_closed || 0),
+    })
+  }
+
+  return tables
+}
+
+/**
+ * Build the change preview of a staged import job from its staging tables
+ */
+export async function buildImportPreview(
+  db: DuckDBConnection,
+  jobId: string
+): Promise<ImportPreviewReport> {
+  const jobs = await executeQuery<{ extract_number: number; snapshot_date: string }>(db, `
+    SELECT extract_number, snapshot_date::VARCHAR as snapshot_date
+    FROM import_jobs
+    WHERE id = $job_id
+  `, { job_id: jobId })
+
+  if (jobs.length === 0) {
+    throw new ValidationError(`Import job ${jobId} not found`, { job_id: jobId })
+  }
+
+  const params = { job_id: jobId }
+
+  const tables = await previewTables(db, jobId)
+
+  const statusChanges = await queryPreviewList<EnterpriseStatusChange>(db, `
+    SELECT
+      s.enterprise_number,
+      e.primary_name as name,
+      e.status as old_status,
+      s.status as new_status,
+      e.juridical_situation as old_juridical_situation,
+      s.juridical_situation as new_juridical_situation
+    FROM (${STAGED_ENTERPRISES}) s
+    JOIN enterprises e
+      ON e.enterprise_number = s.enterprise_number
+      AND e._is_current = true
+    WHERE e.status IS DISTINCT FROM s.status
+       OR e.juridical_situation IS DISTINCT FROM s.juridical_situation
+    ORDER BY s.enterprise_number
+  `, params)
+
+  const newEnterprises = await queryPreviewList<NewEnterprise>(db, `
+    SELECT
+      s.enterprise_number,
+      n.name,
+      s.status,
+      s.juridical_form,
+      s.start_date::VARCHAR as start_date
+    FROM (${STAGED_ENTERPRISES}) s
+    LEFT JOIN (${STAGED_NAMES}) n ON n.entity_number = s.enterprise_number
+    WHERE NOT EXISTS (
+      SELECT 1 FROM enterprises e
+      WHERE e.enterprise_number = s.enterprise_number
+        AND e._is_current = true
+    )
+    ORDER BY s.enterprise_number
+  `, params)
+
+  const struckOff = await queryPreviewList<StruckOffEnterprise>(db, `
+    SELECT e.enterprise_number, e.primary_name as name, 'removed' as reason
+    FROM enterprises e
+    WHERE e._is_current = true
+      AND e.enterprise_number IN (
+        SELECT enterprise_number
+        FROM import_staging_enterprises
+        WHERE job_id = $job_id
+          AND operation = 'delete'
+      )
+      AND e.enterprise_number NOT IN (
+        SELECT enterprise_number
+        FROM import_staging_enterprises
+        WHERE job_id = $job_id
+          AND operation = 'insert'
+      )
+    UNION ALL
+    SELECT s.enterprise_number, e.primary_name as name, 'stopped' as reason
+    FROM (${STAGED_ENTERPRISES}) s
+    JOIN enterprises e
+      ON e.enterprise_number = s.enterprise_number
+      AND e._is_current = true
+    WHERE s.status = 'ST'
+      AND e.status != 'ST'
+    ORDER BY enterprise_number
+  `, params)
+
+  // A delete replaces every current name of the entity; an insert without a
+  // delete adds to them. Compare the names per type and language before and after.
+  const denominationChanges = await queryPreviewList<DenominationChange>(db, `
+    WITH staged AS (
+      SELECT * FROM import_staging_denominations WHERE job_id = $job_id
+    ),
+    before AS (
+      SELECT entity_number, language, denomination_type, denomination
+      FROM denominations
+      WHERE _is_current = true
+        AND entity_number IN (SELECT entity_number FROM staged)
+    ),
+    after AS (
+      SELECT * FROM before
+      WHERE entity_number NOT IN (SELECT entity_number FROM staged WHERE operation = 'delete')
+      UNION
+      SELECT entity_number, language, denomination_type, denomination
+      FROM staged
+      WHERE operation = 'insert'
+    ),
+    before_names AS (
+      SELECT entity_number, language, denomination_type,
+        string_agg(DISTINCT denomination, ' | ' ORDER BY denomination) as denomination
+      FROM before
+      GROUP BY entity_number, language, denomination_type
+    ),
+    after_names AS (
+      SELECT entity_number, language, denomination_type,
+        string_agg(DISTINCT denomination, ' | ' ORDER BY denomination) as denomination
+      FROM after
+      GROUP BY entity_number, language, denomination_type
+    )
+    SELECT
+      COALESCE(a.entity_number, b.entity_number) as entity_number,
+      COALESCE(a.language, b.language) as language,
+      COALESCE(a.denomination_type, b.denomination_type) as denomination_type,
+      b.denomination as old_denomination,
+      a.denomination as new_denomination
+    FROM before_names b
+    FULL OUTER JOIN after_names a
+      ON a.entity_number = b.entity_number
+      AND a.language = b.language
+      AND a.denomination_type = b.denomination_type
+    WHERE b.denomination IS DISTINCT FROM a.denomination
+    ORDER BY entity_number, denomination_type, language
+  `, params)
+
+  return {
+    job_id: jobId,
+    extract_number: Number(jobs[0].extract_number),
+    snapshot_date: jobs[0].snapshot_date,
+    generated_at: new Date().toISOString(),
+    tables,
+    status_changes: statusChanges,
+    new_enterprises: newEnterprises,
+    struck_off_enterprises: struckOff,
+    denomination_changes: denominationChanges,
+  }
+}
+
+/**
+ * Get the stored preview of an import job, null if the job was not a dry run
+ */
+export async function getImportPreview(
+  db: DuckDBConnection,
+  jobId: string
+): Promise<ImportPreview | null> {
+  const rows = await executeQuery<{
+    report: string
+    created_at: string
+    applied_at: string | null
+    applied_by: string | null
+  }>(db, `
+    SELECT
+      report::VARCHAR as report,
+      created_at::VARCHAR as created_at,
+      applied_at::VARCHAR as applied_at,
+      applied_by
+    FROM import_previews
+    WHERE job_id = $job_id
+  `, { job_id: jobId })
+
+  if (rows.length === 0) return null
+
+  return {
+    report: JSON.parse(rows[0].report) as ImportPreviewReport,
+    created_at: rows[0].created_at,
+    applied_at: rows[0].applied_at,
+    applied_by: rows[0].applied_by,
+  }
+}
+
+/**
+ * Build the preview of a staged job and store it, holding the job until applied
+ *
+ * Re-running a dry run for the same job replaces its preview. Throws
+ * ValidationError if the job was already applied.
+ */
+export async function createImportPreview(
+  db: DuckDBConnection,
+  jobId: string
+): Promise<ImportPreviewReport> {
+  const existing = await getImportPreview(db, jobId)
+  if (existing?.applied_at) {
+    throw new ValidationError(`Import job ${jobId} was already applied`, { job_id: jobId })
+  }
+
+  console.log('\n🔍 Building change preview...')
+  const report = await buildImportPreview(db, jobId)
+
+  // Delete then insert (Motherduck may not honor ON CONFLICT at commit time)
+  await executeTransaction(db, [
+    { sql: 'DELETE FROM import_previews WHERE job_id = $job_id', params: { job_id: jobId } },
+    {
+      sql: 'INSERT INTO import_previews (job_id, report, created_at) VALUES ($job_id, $report, CURRENT_TIMESTAMP)',
+      params: { job_id: jobId, report: JSON.stringify(report) },
+    },
+  ])
+
+  console.log(`   ✓ ${report.status_changes.total} status changes, ${report.new_enterprises.total} new, ${report.struck_off_enterprises.total} struck off, ${report.denomination_changes.total} denomination changes`)
+
+  return report
+}
+
+/**
+ * Apply a previewed import: allow its batches to be processed
+ *
+ * @param userId - Clerk user ID recorded as applied_by
+ */
+export async function applyImportPreview(
+  db: DuckDBConnection,
+  jobId: string,
+  userId?: string
+): Promise<ImportPreview> {
+  const preview = await getImportPreview(db, jobId)
+  if (!preview) {
+    throw new ValidationError(`Import job ${jobId} has no preview to apply`, { job_id: jobId })
+  }
+  if (preview.applied_at) {
+    throw new ValidationError(`Import job ${jobId} was already applied`, {
+      job_id: jobId,
+      applied_at: preview.applied_at,
+    })
+  }
+
+  await executeStatement(db, `
+    UPDATE import_previews
+    SET applied_at = $applied_at,
+        applied_by = $applied_by
+    WHERE job_id = $job_id
+  `, { job_id: jobId, applied_at: new Date().toISOString(), applied_by: userId ?? null })
+
+  return (await getImportPreview(db, jobId))!
+}
+
+/**
+ * Throw ValidationError if the job is a dry run that has not been applied yet
+ */
+export async function assertPreviewApplied(
+  db: DuckDBConnection,
+  jobId: string
+): Promise<void> {
+  const rows = await executeQuery<{ applied_at: string | null }>(db, `
+    SELECT applied_at::VARCHAR as applied_at FROM import_previews WHERE job_id = $job_id
+  `, { job_id: jobId })
+
+  if (rows.length > 0 && !rows[0].applied_at) {
+    throw new ValidationError(`Import job ${jobId} is a dry run; apply its preview before processing batches`, {
+      job_id: jobId,
+    })
+  }
+}
+
+/**
+ * Drop a dry-run import that was never applied: its staging data, batches,
+ * job record and preview. The extract can then be imported again.
+ */
+export async function discardImportPreview(
+  db: DuckDBConnection,
+  jobId: string
+): Promise<void> {
+  const preview = await getImportPreview(db, jobId)
+  if (!preview) {
+    throw new ValidationError(`Import job ${jobId} has no preview to discard`, { job_id: jobId })
+  }
+  if (preview.applied_at) {
+    throw new ValidationError(`Import job ${jobId} was already applied and cannot be discarded`, {
+      job_id: jobId,
+      applied_at: preview.applied_at,
+    })
+  }
+
+  const params = { job_id: jobId }
+  await executeTransaction(db, [
+    ...VERSIONED_TABLES.map(table => ({
+      sql: `DELETE FROM import_staging_${table} WHERE job_id = $job_id`,
+      params,
+    })),
+    { sql: 'DELETE FROM import_job_batches WHERE job_id = $job_id', params },
+    { sql: 'DELETE FROM import_previews WHERE job_id = $job_id', params },
+    { sql: 'DELETE FROM import_jobs WHERE id = $job_id', params },
+  ])
+}
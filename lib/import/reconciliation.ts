@@ -0,0 +1,936 @@
+/**
+ * Full Dump Reconciliation
+ *
+ * Compares the current data with a KBO full dump, to find where the
+ * incrementally built database has drifted from the authoritative snapshot.
+ * The dump is split and staged with the full import staging (splitFullDump and
+ * stageFullDumpBatch, with job_id = run id) and compared per table on the
+ * record key:
+ * - missing_in_db: in the dump, not current in the database
+ * - orphaned_in_db: current in the database, not in the dump
+ * - data_mismatch: in both, with different values (differing_fields lists them)
+ * Code tables are compared with code.csv of the dump.
+ *
+ * Every discrepancy is stored in reconciliation_discrepancies, the counts per
+ * table and a recommendation in reconciliation_runs:
+ * - < 1% discrepancies: keep history, continue with incremental updates
+ * - 1-5%: review the discrepancies, likely keep history
+ * - > 5%: consider a fresh start from the full dump
+ *
+ * With auto-repair, the staged dump is then applied the way a full import
+ * applies its snapshot (orphaned records closed, missing and changed records
+ * inserted, at the dump's extract) and the code tables are replaced. This
+ * requires the database to be at the dump's extract, otherwise the repair
+ * would undo later updates. Records written by that extract itself are left
+ * alone and stay listed as unrepaired.
+ *
+ * Key functions:
+ * - runReconciliationPipeline(): Run all steps with an executor (see pipeline.ts)
+ * - prepareReconciliation() / compareReconciliationTable() / compareReconciliationCodes()
+ *   / completeReconciliationComparison(): Comparison steps
+ * - closeOrphanedRecords() / repairReconciliationBatch() / repairReconciliationCodes()
+ *   / finishReconciliationRepair(): Auto-repair steps
+ * - listReconciliationRuns() / getReconciliationRun() / listDiscrepancies(): Stored results
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  executeStatement,
+  executeTransaction,
+  type QueryParamValue,
+} from '../motherduck'
+import { ValidationError } from '../errors'
+import { refreshNameSearchIndex } from '../motherduck/name-search'
+import {
+  applySnapshotBatch,
+  cleanupStagingTables,
+  closeMissingFromSnapshot,
+  resolvePrimaryNames,
+} from './batched-update'
+import {
+  FULL_IMPORT_TABLES,
+  readDumpCodes,
+  readDumpMetadata,
+  refreshCodes,
+  removeDumpParts,
+  splitFullDump,
+  stageFullDumpBatch,
+} from './full-import'
+import type { ImportExecutor } from './pipeline'
+import { RECORD_COLUMNS, recordKeySql } from './records'
+import type { VersionedTable } from './versioning'
+
+/**
+ * Discrepancy rows inserted per statement (codes)
+ */
+const DISCREPANCY_INSERT_CHUNK = 1000
+
+export type DiscrepancyType = 'missing_in_db' | 'orphaned_in_db' | 'data_mismatch'
+
+export type ReconciliationStatus = 'staging' | 'comparing' | 'repairing' | 'completed' | 'failed'
+
+export type ReconciliationRecommendation = 'keep_history' | 'review_details' | 'start_fresh'
+
+/**
+ * Tables compared by a reconciliation run
+ */
+export type ReconciliationTable = VersionedTable | 'codes'
+
+/**
+ * Comparison of one table
+ */
+export interface TableReconciliation {
+  table_name: ReconciliationTable
+  current_db_count: number
+  full_dump_count: number
+  /** Absolute difference between the two counts */
+  difference: number
+  difference_percent: number
+  missing_in_db: number
+  orphaned_in_db: number
+  data_mismatches: number
+}
+
+export interface ReconciliationRun {
+  id: string
+  extract_number: number
+  snapshot_date: string
+  last_imported_extract: number | null
+  status: ReconciliationStatus
+  auto_repair: boolean
+  started_at: string
+  completed_at: string | null
+  error_message: string | null
+  table_stats: TableReconciliation[]
+  overall_discrepancy_percent: number | null
+  recommendation: ReconciliationRecommendation | null
+  recommendation_reason: string | null
+  repaired_at: string | null
+  records_repaired: number | null
+}
+
+export interface Discrepancy {
+  table_name: ReconciliationTable
+  record_key: string
+  entity_number: string | null
+  issue_type: DiscrepancyType
+  db_record: Record<string, unknown> | null
+  dump_record: Record<string, unknown> | null
+  differing_fields: string[]
+  repaired_at: string | null
+}
+
+/**
+ * Result from prepareReconciliation()
+ */
+export interface PrepareReconciliationResult {
+  run_id: string
+  extract_number: number
+  snapshot_date: string
+  auto_repair: boolean
+  /** Tables to stage and compare, in order */
+  tables: VersionedTable[]
+  /** Parts of each table's CSV, one per staging batch (see splitFullDump) */
+  parts_by_table: Record<string, string[]>
+}
+
+/**
+ * Result of a pipeline run
+ */
+export interface ReconciliationPipelineResult {
+  prepared: PrepareReconciliationResult
+  tables: TableReconciliation[]
+  overall_discrepancy_percent: number
+  recommendation: ReconciliationRecommendation
+  /** Discrepancies resolved by the auto-repair (null without auto-repair) */
+  records_repaired: number | null
+}
+
+/**
+ * Column holding the enterprise or establishment a record belongs to
+ */
+function entityNumberColumn(table: VersionedTable): string {
+  return table === 'enterprises' ? 'enterprise_number' :
+         table === 'establishments' ? 'establishment_number' :
+         table === 'branches' ? 'enterprise_number' :
+         'entity_number'
+}
+
+/**
+ * SELECT of the discrepancies between the current rows of a table and the
+ * dump staged for a run (columns of reconciliation_discrepancies)
+ *
+ * Binds $run_id
+ */
+function buildDiscrepancySql(table: VersionedTable): string {
+  const stagingTable = `import_staging_${table}`
+  const columns = RECORD_COLUMNS[table]
+  const entityColumn = entityNumberColumn(table)
+  const dumpKey = recordKeySql(table, column => `s.${column}`)
+  const recordJson = (alias: string) =>
+    `json_object(${columns.map(column => `'${column}', ${alias}.${column}`).join(', ')})`
+  const differs = columns.map(column => `db.${column} IS DISTINCT FROM dump.${column}`)
+
+  return `
+    WITH dump AS (
+      SELECT s.*, ${dumpKey} as record_key
+      FROM ${stagingTable} s
+      WHERE s.job_id = $run_id
+        AND s.operation = 'insert'
+      QUALIFY ROW_NUMBER() OVER (PARTITION BY ${dumpKey} ORDER BY s.row_sequence DESC) = 1
+    ),
+    db AS (
+      SELECT t.*, ${recordKeySql(table, column => `t.${column}`)} as record_key
+      FROM ${table} t
+      WHERE t._is_current = true
+    )
+    SELECT
+      COALESCE(dump.record_key, db.record_key) as record_key,
+      COALESCE(dump.${entityColumn}, db.${entityColumn}) as entity_number,
+      CASE
+        WHEN db.record_key IS NULL THEN 'missing_in_db'
+        WHEN dump.record_key IS NULL THEN 'orphaned_in_db'
+        ELSE 'data_mismatch'
+      END as issue_type,
+      CASE WHEN db.record_key IS NOT NULL THEN ${recordJson('db')} END as db_record,
+      CASE WHEN dump.record_key IS NOT NULL THEN ${recordJson('dump')} END as dump_record,
+      CASE
+        WHEN db.record_key IS NOT NULL AND dump.record_key IS NOT NULL THEN to_json(list_filter([
+          ${columns.map(column => `CASE WHEN db.${column} IS DISTINCT FROM dump.${column} THEN '${column}' END`).join(',\n          ')}
+        ], field -> field IS NOT NULL))
+      END as differing_fields
+    FROM dump
+    FULL OUTER JOIN db ON db.record_key = dump.record_key
+    WHERE db.record_key IS NULL
+      OR dump.record_key IS NULL
+      OR ${differs.join('\n      OR ')}
+  `
+}
+
+/**
+ * Recommendation for a discrepancy percentage
+ */
+function recommend(
+  overallPercent: number,
+  extractNumber: number
+): { recommendation: ReconciliationRecommendation; reason: string } {
+  if (overallPercent < 1) {
+    return {
+      recommendation: 'keep_history',
+      reason: 'Very low discrepancy (<1%). Database state is accurate. Safe to keep temporal history and continue with incremental updates.',
+    }
+  }
+  if (overallPercent < 5) {
+    return {
+      recommendation: 'review_details',
+      reason: `Moderate discrepancy (${overallPercent.toFixed(2)}%). Review the discrepancies to understand the cause (e.g. a missing or failed incremental update) before proceeding.`,
+    }
+  }
+  return {
+    recommendation: 'start_fresh',
+    reason: `High discrepancy (${overallPercent.toFixed(2)}%). Significant divergence suggests data quality or import issues. Recommend resetting from full dump #${extractNumber} as new baseline.`,
+  }
+}
+
+async function getRunRow(
+  db: DuckDBConnection,
+  runId: string
+): Promise<{ extract_number: number; snapshot_date: string; auto_repair: boolean; status: ReconciliationStatus }> {
+  const runs = await executeQuery<{
+    extract_number: number
+    snapshot_date: string
+    auto_repair: boolean
+    status: ReconciliationStatus
+  }>(db, `
+    SELECT extract_number, snapshot_date::VARCHAR as snapshot_date, auto_repair, status
+    FROM reconciliation_runs
+    WHERE id = $run_id
+  `, { run_id: runId })
+
+  if (runs.length === 0) {
+    throw new ValidationError(`Reconciliation run ${runId} not found`, { run_id: runId })
+  }
+
+  return { ...runs[0], extract_number: Number(runs[0].extract_number) }
+}
+
+async function setRunStatus(
+  db: DuckDBConnection,
+  runId: string,
+  status: ReconciliationStatus
+): Promise<void> {
+  await executeStatement(db, `
+    UPDATE reconciliation_runs SET status = $status WHERE id = $run_id
+  `, { run_id: runId, status })
+}
+
+/**
+ * Step 1: Prepare Reconciliation (RESUMABLE)
+ *
+ * Validates the dump, creates (or resumes) the run and splits every table into
+ * parts (see splitFullDump). Auto-repair is refused unless the latest
+ * completed import is the dump's extract.
+ *
+ * @param zipSource - Vercel Blob URL or local path of the full dump ZIP
+ * @param runId - Run ID (derive it from the workflow ID so retries resume)
+ * @param options.autoRepair - Repair the discrepancies after comparing
+ */
+export async function prepareReconciliation(
+  zipSource: string,
+  runId: string,
+  options: { autoRepair?: boolean } = {}
+): Promise<PrepareReconciliationResult> {
+  const metadata = await readDumpMetadata(zipSource)
+  const autoRepair = options.autoRepair === true
+  const db = await connectMotherduck()
+
+  try {
+    const existing = await executeQuery<{ auto_repair: boolean }>(db, `
+      SELECT auto_repair FROM reconciliation_runs WHERE id = $run_id
+    `, { run_id: runId })
+
+    if (existing.length > 0) {
+      console.log(`\n📝 Resuming reconciliation run ${runId}...`)
+    } else {
+      const lastImport = await executeQuery<{ extract_number: number | null }>(db, `
+        SELECT MAX(extract_number) as extract_number
+        FROM import_jobs
+        WHERE status = 'completed'
+      `)
+      const lastImportedExtract = lastImport[0]?.extract_number == null
+        ? null
+        : Number(lastImport[0].extract_number)
+
+      if (autoRepair && lastImportedExtract !== metadata.extractNumber) {
+        throw new ValidationError(
+          `Auto-repair needs the database at extract ${metadata.extractNumber}, but the latest import is ${lastImportedExtract ?? 'none'}`,
+          { extract_number: metadata.extractNumber, last_imported_extract: lastImportedExtract }
+        )
+      }
+
+      console.log('\n📝 Creating reconciliation run...')
+      await executeStatement(db, `
+        INSERT INTO reconciliation_runs (
+          id, extract_number, snapshot_date, last_imported_extract, status, auto_repair, started_at
+        ) VALUES (
+          $run_id, $extract_number, $snapshot_date, $last_imported_extract, 'staging', $auto_repair, $started_at
+        )
+      `, {
+        run_id: runId,
+        extract_number: metadata.extractNumber,
+        snapshot_date: metadata.snapshotDate,
+        last_imported_extract: lastImportedExtract,
+        auto_repair: autoRepair,
+        started_at: new Date().toISOString(),
+      })
+    }
+
+    const partsByTable = await splitFullDump(zipSource, runId)
+
+    return {
+      run_id: runId,
+      extract_number: metadata.extractNumber,
+      snapshot_date: metadata.snapshotDate,
+      auto_repair: existing.length > 0 ? existing[0].auto_repair : autoRepair,
+      tables: FULL_IMPORT_TABLES.map(t => t.table),
+      parts_by_table: partsByTable,
+    }
+
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Step 3: Compare one staged table with the current data (RESUMABLE)
+ *
+ * Replaces the table's discrepancies from an earlier attempt.
+ */
+export async function compareReconciliationTable(
+  runId: string,
+  table: VersionedTable
+): Promise<TableReconciliation> {
+  const db = await connectMotherduck()
+
+  try {
+    await setRunStatus(db, runId, 'comparing')
+
+    await executeTransaction(db, [
+      {
+        sql: 'DELETE FROM reconciliation_discrepancies WHERE run_id = $run_id AND table_name = $table_name',
+        params: { run_id: runId, table_name: table },
+      },
+      {
+        sql: `
+          INSERT INTO reconciliation_discrepancies (
+            run_id, table_name, record_key, entity_number, issue_type, db_record, dump_record, differing_fields
+          )
+          SELECT $run_id, $table_name, record_key, entity_number, issue_type, db_record, dump_record, differing_fields
+          FROM (${buildDiscrepancySql(table)})
+        `,
+        params: { run_id: runId, table_name: table },
+      },
+    ])
+
+    const counts = await executeQuery<{
+      current_db_count: bigint | number
+      full_dump_count: bigint | number
+      missing_in_db: bigint | number
+      orphaned_in_db: bigint | number
+      data_mismatches: bigint | number
+    }>(db, `
+      SELECT
+        (SELECT COUNT(*) FROM ${table} WHERE _is_current = true) as current_db_count,
+        (
+          SELECT COUNT(DISTINCT ${recordKeySql(table)})
+          FROM import_staging_${table}
+          WHERE job_id = $run_id AND operation = 'insert'
+        ) as full_dump_count,
+        COUNT(*) FILTER (WHERE issue_type = 'missing_in_db') as missing_in_db,
+        COUNT(*) FILTER (WHERE issue_type = 'orphaned_in_db') as orphaned_in_db,
+        COUNT(*) FILTER (WHERE issue_type = 'data_mismatch') as data_mismatches
+      FROM reconciliation_discrepancies
+      WHERE run_id = $run_id
+        AND table_name = $table_name
+    `, { run_id: runId, table_name: table })
+
+    const result = toTableReconciliation(table, counts[0])
+    console.log(`   ✓ ${table}: DB ${result.current_db_count.toLocaleString()} | Dump ${result.full_dump_count.toLocaleString()} | Missing ${result.missing_in_db.toLocaleString()} | Orphaned ${result.orphaned_in_db.toLocaleString()} | Mismatch ${result.data_mismatches.toLocaleString()}`)
+    return result
+
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+function toTableReconciliation(
+  table: ReconciliationTable,
+  counts: Record<string, bigint | number> | undefined
+): TableReconciliation {
+  const current = Number(counts?.current_db_count || 0)
+  const dump = Number(counts?.full_dump_count || 0)
+  const difference = Math.abs(current - dump)
+
+  return {
+    table_name: table,
+    current_db_count: current,
+    full_dump_count: dump,
+    difference,
+    difference_percent: dump > 0 ? (difference / dump) * 100 : 0,
+    missing_in_db: Number(counts?.missing_in_db || 0),
+    orphaned_in_db: Number(counts?.orphaned_in_db || 0),
+    data_mismatches: Number(counts?.data_mismatches || 0),
+  }
+}
+
+/**
+ * Step 4: Compare the code table with code.csv of the dump (RESUMABLE)
+ */
+export async function compareReconciliationCodes(
+  zipSource: string,
+  runId: string
+): Promise<TableReconciliation> {
+  const dumpCodes = await readDumpCodes(zipSource)
+  const db = await connectMotherduck()
+
+  try {
+    const currentCodes = await executeQuery<{ category: string; code: string; language: string; description: string }>(db, `
+      SELECT category, code, language, description FROM codes
+    `)
+
+    const codeKey = (c: { category: string; code: string; language: string }) => `${c.category}|${c.code}|${c.language}`
+    const current = new Map(currentCodes.map(c => [codeKey(c), c]))
+    const dump = new Map(dumpCodes.map(c => [codeKey(c), c]))
+    const rows: QueryParamValue[][] = []
+
+    for (const [key, code] of dump) {
+      const existing = current.get(key)
+      if (!existing) {
+        rows.push([key, 'missing_in_db', null, JSON.stringify({ description: code.description }), null])
+      } else if (existing.description !== code.description) {
+        rows.push([
+          key, 'data_mismatch',
+          JSON.stringify({ description: existing.description }),
+          JSON.stringify({ description: code.description }),
+          JSON.stringify(['description']),
+        ])
+      }
+    }
+    for (const [key, code] of current) {
+      if (!dump.has(key)) {
+        rows.push([key, 'orphaned_in_db', JSON.stringify({ description: code.description }), null, null])
+      }
+    }
+
+    const inserts: { sql: string; params: QueryParamValue[] }[] = []
+    for (let i = 0; i < rows.length; i += DISCREPANCY_INSERT_CHUNK) {
+      const chunk = rows.slice(i, i + DISCREPANCY_INSERT_CHUNK)
+      inserts.push({
+        sql: `
+          INSERT INTO reconciliation_discrepancies (
+            run_id, table_name, record_key, entity_number, issue_type, db_record, dump_record, differing_fields
+          ) VALUES ${chunk.map(() => "(?, 'codes', ?, NULL, ?, ?, ?, ?)").join(', ')}
+        `,
+        params: chunk.flatMap(row => [runId, ...row]),
+      })
+    }
+
+    await executeTransaction(db, [
+      {
+        sql: "DELETE FROM reconciliation_discrepancies WHERE run_id = $run_id AND table_name = 'codes'",
+        params: { run_id: runId },
+      },
+      ...inserts,
+    ])
+
+    const result = toTableReconciliation('codes', {
+      current_db_count: current.size,
+      full_dump_count: dump.size,
+      missing_in_db: rows.filter(row => row[1] === 'missing_in_db').length,
+      orphaned_in_db: rows.filter(row => row[1] === 'orphaned_in_db').length,
+      data_mismatches: rows.filter(row => row[1] === 'data_mismatch').length,
+    })
+    console.log(`   ✓ codes: DB ${result.current_db_count.toLocaleString()} | Dump ${result.full_dump_count.toLocaleString()} | Missing ${result.missing_in_db} | Orphaned ${result.orphaned_in_db} | Mismatch ${result.data_mismatches}`)
+    return result
+
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Step 5: Store the comparison report and recommendation
+ *
+ * The overall percentage is the number of discrepancies relative to the
+ * records in the dump. The run is completed, or moves on to repairing.
+ */
+export async function completeReconciliationComparison(
+  runId: string,
+  tables: TableReconciliation[]
+): Promise<{ overall_discrepancy_percent: number; recommendation: ReconciliationRecommendation }> {
+  const db = await connectMotherduck()
+
+  try {
+    const run = await getRunRow(db, runId)
+
+    const totalDump = tables.reduce((sum, t) => sum + t.full_dump_count, 0)
+    const totalDiscrepancies = tables.reduce(
+      (sum, t) => sum + t.missing_in_db + t.orphaned_in_db + t.data_mismatches, 0
+    )
+    const overallPercent = totalDump > 0 ? (totalDiscrepancies / totalDump) * 100 : 0
+    const { recommendation, reason } = recommend(overallPercent, run.extract_number)
+
+    await executeStatement(db, `
+      UPDATE reconciliation_runs
+      SET status = $status,
+          completed_at = $completed_at,
+          table_stats = $table_stats,
+          overall_discrepancy_percent = $overall_discrepancy_percent,
+          recommendation = $recommendation,
+          recommendation_reason = $recommendation_reason
+      WHERE id = $run_id
+    `, {
+      run_id: runId,
+      status: run.auto_repair ? 'repairing' : 'completed',
+      completed_at: run.auto_repair ? null : new Date().toISOString(),
+      table_stats: JSON.stringify(tables),
+      overall_discrepancy_percent: overallPercent,
+      recommendation,
+      recommendation_reason: reason,
+    })
+
+    console.log(`\n📊 ${totalDiscrepancies.toLocaleString()} discrepancies (${overallPercent.toFixed(2)}%): ${recommendation.toUpperCase().replace(/_/g, ' ')}`)
+    return { overall_discrepancy_percent: overallPercent, recommendation }
+
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Repair step: close current records of a table missing from the dump
+ */
+export async function closeOrphanedRecords(
+  runId: string,
+  table: VersionedTable
+): Promise<void> {
+  const db = await connectMotherduck()
+
+  try {
+    const run = await getRunRow(db, runId)
+    await closeMissingFromSnapshot(db, table, runId, run.extract_number)
+    console.log(`   ✓ ${table}: orphaned records closed`)
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Repair step: insert the missing and changed records of one staged batch
+ *
+ * @returns Number of records inserted
+ */
+export async function repairReconciliationBatch(
+  runId: string,
+  table: VersionedTable,
+  batchNumber: number
+): Promise<number> {
+  const db = await connectMotherduck()
+
+  try {
+    const run = await getRunRow(db, runId)
+    const inserted = await applySnapshotBatch(
+      db, table, runId, batchNumber, run.snapshot_date, run.extract_number
+    )
+    console.log(`   ✓ ${table} batch ${batchNumber}: ${inserted} records inserted`)
+    return inserted
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Repair step: replace the code tables with code.csv of the dump
+ */
+export async function repairReconciliationCodes(
+  zipSource: string,
+  runId: string
+): Promise<number> {
+  const codes = await readDumpCodes(zipSource)
+  const db = await connectMotherduck()
+
+  try {
+    await getRunRow(db, runId)
+    const refreshed = await refreshCodes(db, codes)
+    console.log(`   ✓ ${refreshed} codes`)
+    return refreshed
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Repair step: resolve names of repaired enterprises, refresh the name search
+ * index and mark the discrepancies that no longer exist as repaired
+ *
+ * @returns Number of discrepancies repaired
+ */
+export async function finishReconciliationRepair(runId: string): Promise<number> {
+  const db = await connectMotherduck()
+
+  try {
+    const run = await getRunRow(db, runId)
+
+    const namesResolved = await resolvePrimaryNames(db, run.snapshot_date, run.extract_number)
+    console.log(`   ✓ Resolved primary names for ${namesResolved} enterprises`)
+    const namesIndexed = await refreshNameSearchIndex(db)
+    console.log(`   ✓ Indexed ${namesIndexed.toLocaleString()} names`)
+
+    const repairedAt = new Date().toISOString()
+    await executeTransaction(db, [
+      ...FULL_IMPORT_TABLES.map(({ table }) => ({
+        sql: `
+          UPDATE reconciliation_discrepancies
+          SET repaired_at = $repaired_at
+          WHERE run_id = $run_id
+            AND table_name = $table_name
+            AND repaired_at IS NULL
+            AND record_key NOT IN (SELECT record_key FROM (${buildDiscrepancySql(table)}))
+        `,
+        params: { run_id: runId, table_name: table, repaired_at: repairedAt },
+      })),
+      // The code tables were replaced with code.csv as a whole
+      {
+        sql: `
+          UPDATE reconciliation_discrepancies
+          SET repaired_at = $repaired_at
+          WHERE run_id = $run_id
+            AND table_name = 'codes'
+            AND repaired_at IS NULL
+        `,
+        params: { run_id: runId, repaired_at: repairedAt },
+      },
+    ])
+
+    const repaired = await executeQuery<{ count: bigint | number }>(db, `
+      SELECT COUNT(*) as count
+      FROM reconciliation_discrepancies
+      WHERE run_id = $run_id
+        AND repaired_at IS NOT NULL
+    `, { run_id: runId })
+    const recordsRepaired = Number(repaired[0]?.count || 0)
+
+    await executeStatement(db, `
+      UPDATE reconciliation_runs
+      SET status = 'completed',
+          completed_at = $repaired_at,
+          repaired_at = $repaired_at,
+          records_repaired = $records_repaired
+      WHERE id = $run_id
+    `, { run_id: runId, repaired_at: repairedAt, records_repaired: recordsRepaired })
+
+    console.log(`   ✓ ${recordsRepaired.toLocaleString()} discrepancies repaired`)
+    return recordsRepaired
+
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Remove the staged dump of a run
+ */
+export async function cleanupReconciliationStaging(runId: string): Promise<void> {
+  const db = await connectMotherduck()
+
+  try {
+    await cleanupStagingTables(db, runId)
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Mark a run as failed (no-op if the run was never created)
+ */
+export async function markReconciliationFailed(runId: string, errorMessage: string): Promise<void> {
+  const db = await connectMotherduck()
+
+  try {
+    await executeStatement(db, `
+      UPDATE reconciliation_runs
+      SET status = 'failed',
+          completed_at = $completed_at,
+          error_message = $error_message
+      WHERE id = $run_id
+    `, { run_id: runId, completed_at: new Date().toISOString(), error_message: errorMessage })
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Run a reconciliation with an executor
+ *
+ * Step names: prepare-reconciliation, stage-<table>-<n>, remove-dump-parts, compare-<table>,
+ * compare-codes, complete-comparison, then with auto-repair close-<table>,
+ * repair-<table>-<n>, repair-codes and finish-repair, and finally
+ * cleanup-staging. Failures mark the run failed (the staged dump is kept, so
+ * retrying the same run resumes).
+ *
+ * @param zipSource - Vercel Blob URL or local path of the full dump ZIP
+ * @param executor - How to run the steps
+ */
+export async function runReconciliationPipeline(
+  zipSource: string,
+  executor: ImportExecutor,
+  options: { runId: string; autoRepair?: boolean }
+): Promise<ReconciliationPipelineResult> {
+  const { runId } = options
+
+  const prepared = await executor.run('prepare-reconciliation', () =>
+    prepareReconciliation(zipSource, runId, { autoRepair: options.autoRepair })
+  )
+
+  // Stage every table part by part (a header-only part stages nothing)
+  console.log('\n📥 Staging full dump...')
+  const batchesByTable: Partial<Record<VersionedTable, number>> = {}
+  for (const table of prepared.tables) {
+    const parts = prepared.parts_by_table[table]
+    batchesByTable[table] = 0
+    for (let i = 1; i <= parts.length; i++) {
+      const staged = await executor.run(`stage-${table}-${i}`, () =>
+        stageFullDumpBatch(parts[i - 1], runId, table, i)
+      )
+      if (staged.rows_staged > 0) {
+        batchesByTable[table] = i
+      }
+    }
+  }
+  await executor.run('remove-dump-parts', () => removeDumpParts(zipSource, runId))
+
+  console.log('\n🔍 Comparing with current data...')
+  const tables: TableReconciliation[] = []
+  for (const table of prepared.tables) {
+    tables.push(await executor.run(`compare-${table}`, () => compareReconciliationTable(runId, table)))
+  }
+  tables.push(await executor.run('compare-codes', () => compareReconciliationCodes(zipSource, runId)))
+
+  const summary = await executor.run('complete-comparison', () =>
+    completeReconciliationComparison(runId, tables)
+  )
+
+  let recordsRepaired: number | null = null
+  if (prepared.auto_repair) {
+    console.log('\n🔧 Repairing discrepancies...')
+    for (const table of prepared.tables) {
+      await executor.run(`close-${table}`, () => closeOrphanedRecords(runId, table))
+      for (let i = 1; i <= (batchesByTable[table] ?? 0); i++) {
+        await executor.run(`repair-${table}-${i}`, () => repairReconciliationBatch(runId, table, i))
+      }
+    }
+    await executor.run('repair-codes', () => repairReconciliationCodes(zipSource, runId))
+    recordsRepaired = await executor.run('finish-repair', () => finishReconciliationRepair(runId))
+  }
+
+  await executor.run('cleanup-staging', () => cleanupReconciliationStaging(runId))
+
+  return {
+    prepared,
+    tables,
+    overall_discrepancy_percent: summary.overall_discrepancy_percent,
+    recommendation: summary.recommendation,
+    records_repaired: recordsRepaired,
+  }
+}
+
+/**
+ * Most recent reconciliation runs, newest first
+ */
+export async function listReconciliationRuns(
+  db: DuckDBConnection,
+  limit = 20
+): Promise<ReconciliationRun[]> {
+  const rows = await executeQuery<ReconciliationRunRow>(db, `
+    ${RUN_SELECT}
+    ORDER BY started_at DESC
+    LIMIT ${Math.max(1, Math.floor(limit))}
+  `)
+  return rows.map(toReconciliationRun)
+}
+
+/**
+ * One reconciliation run, or null if it does not exist
+ */
+export async function getReconciliationRun(
+  db: DuckDBConnection,
+  runId: string
+): Promise<ReconciliationRun | null> {
+  const rows = await executeQuery<ReconciliationRunRow>(db, `
+    ${RUN_SELECT}
+    WHERE id = $run_id
+  `, { run_id: runId })
+  return rows.length > 0 ? toReconciliationRun(rows[0]) : null
+}
+
+const RUN_SELECT = `
+  SELECT
+    id, extract_number, snapshot_date::VARCHAR as snapshot_date, last_imported_extract,
+    status, auto_repair, started_at::VARCHAR as started_at, completed_at::VARCHAR as completed_at,
+    error_message, table_stats::VARCHAR as table_stats, overall_discrepancy_percent,
+    recommendation, recommendation_reason, repaired_at::VARCHAR as repaired_at, records_repaired
+  FROM reconciliation_runs
+`
+
+/**
+ * Row of RUN_SELECT
+ */
+interface ReconciliationRunRow {
+  id: string
+  extract_number: bigint | number
+  snapshot_date: string
+  last_imported_extract: bigint | number | null
+  status: ReconciliationStatus
+  auto_repair: boolean
+  started_at: string
+  completed_at: string | null
+  error_message: string | null
+  table_stats: string | null
+  overall_discrepancy_percent: number | null
+  recommendation: ReconciliationRecommendation | null
+  recommendation_reason: string | null
+  repaired_at: string | null
+  records_repaired: bigint | number | null
+}
+
+function toReconciliationRun(row: ReconciliationRunRow): ReconciliationRun {
+  return {
+    id: row.id,
+    extract_number: Number(row.extract_number),
+    snapshot_date: row.snapshot_date,
+    last_imported_extract: row.last_imported_extract === null ? null : Number(row.last_imported_extract),
+    status: row.status,
+    auto_repair: row.auto_repair,
+    started_at: row.started_at,
+    completed_at: row.completed_at,
+    error_message: row.error_message,
+    table_stats: row.table_stats ? JSON.parse(row.table_stats) : [],
+    overall_discrepancy_percent: row.overall_discrepancy_percent === null ? null : Number(row.overall_discrepancy_percent),
+    recommendation: row.recommendation,
+    recommendation_reason: row.recommendation_reason,
+    repaired_at: row.repaired_at,
+    records_repaired: row.records_repaired === null ? null : Number(row.records_repaired),
+  }
+}
+
+/**
+ * Discrepancies of a run, filtered by table, entity and issue type
+ */
+export async function listDiscrepancies(
+  db: DuckDBConnection,
+  runId: string,
+  filter: {
+    table?: ReconciliationTable
+    entityNumber?: string
+    issueType?: DiscrepancyType
+    limit?: number
+    offset?: number
+  } = {}
+): Promise<{ total: number; items: Discrepancy[] }> {
+  const conditions = ['run_id = $run_id']
+  const params: Record<string, QueryParamValue> = { run_id: runId }
+
+  if (filter.table) {
+    conditions.push('table_name = $table_name')
+    params.table_name = filter.table
+  }
+  if (filter.entityNumber) {
+    conditions.push('entity_number = $entity_number')
+    params.entity_number = filter.entityNumber
+  }
+  if (filter.issueType) {
+    conditions.push('issue_type = $issue_type')
+    params.issue_type = filter.issueType
+  }
+
+  const where = conditions.join(' AND ')
+  const limit = Math.min(Math.max(1, Math.floor(filter.limit ?? 50)), 500)
+  const offset = Math.max(0, Math.floor(filter.offset ?? 0))
+
+  const total = await executeQuery<{ count: bigint | number }>(db, `
+    SELECT COUNT(*) as count FROM reconciliation_discrepancies WHERE ${where}
+  `, params)
+
+  const rows = await executeQuery<{
+    table_name: ReconciliationTable
+    record_key: string
+    entity_number: string | null
+    issue_type: DiscrepancyType
+    db_record: string | null
+    dump_record: string | null
+    differing_fields: string | null
+    repaired_at: string | null
+  }>(db, `
+    SELECT
+      table_name, record_key, entity_number, issue_type,
+      db_record::VARCHAR as db_record, dump_record::VARCHAR as dump_record,
+      differing_fields::VARCHAR as differing_fields, repaired_at::VARCHAR as repaired_at
+    FROM reconciliation_discrepancies
+    WHERE ${where}
+    ORDER BY table_name, entity_number, record_key
+    LIMIT ${limit} OFFSET ${offset}
+  `, params)
+
+  return {
+    total: Number(total[0]?.count || 0),
+    items: rows.map(row => ({
+      ...row,
+      db_record: row.db_record ? JSON.parse(row.db_record) : null,
+      dump_record: row.dump_record ? JSON.parse(row.dump_record) : null,
+      differing_fields: row.differing_fields ? JSON.parse(row.differing_fields) : [],
+    })),
+  }
+}
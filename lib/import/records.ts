@@ -0,0 +1,135 @@
+/**
+ * KBO Record Definitions
+ *
+ * The single definition of how a KBO CSV row becomes a database row, shared by
+ * every import executor (in-process, batched/Restate and local DuckDB):
+ * - record IDs of the link tables (activities, addresses, contacts, denominations)
+ * - entity_type (enterprise vs establishment)
+ * - empty values and DD-MM-YYYY dates
+ *
+ * The SQL builders take a column reference function so the local DuckDB path can
+ * apply them to raw CSV columns (PascalCase) while the staging tables use
+ * database columns (snake_case).
+ */
+
+import { convertKboDateFormat, dbColumnToCsvColumn, isKboDateFormat } from '../utils/column-mapping'
+import type { VersionedTable } from './versioning'
+
+/**
+ * Maps a database column name to the SQL expression that holds its value
+ */
+export type ColumnRef = (dbColumn: string) => string
+
+const dbColumns: ColumnRef = column => column
+
+/**
+ * Refers to the raw CSV columns of an extract (e.g. entity_number → EntityNumber)
+ */
+export const csvColumns: ColumnRef = column => dbColumnToCsvColumn(column)
+
+/**
+ * Columns of each table that come from the KBO CSV files (database names)
+ * entity_type, record IDs and primary names are derived, not listed here.
+ */
+export const RECORD_COLUMNS: Record<VersionedTable, string[]> = {
+  enterprises: [
+    'enterprise_number', 'status', 'juridical_situation', 'type_of_enterprise',
+    'juridical_form', 'juridical_form_cac', 'start_date'
+  ],
+  establishments: ['establishment_number', 'enterprise_number', 'start_date'],
+  denominations: ['entity_number', 'language', 'denomination_type', 'denomination'],
+  addresses: [
+    'entity_number', 'type_of_address', 'country_nl', 'country_fr', 'zipcode',
+    'municipality_nl', 'municipality_fr', 'street_nl', 'street_fr', 'house_number',
+    'box', 'extra_address_info', 'date_striking_off'
+  ],
+  activities: ['entity_number', 'activity_group', 'nace_version', 'nace_code', 'classification'],
+  contacts: ['entity_number', 'entity_contact', 'contact_type', 'contact_value'],
+  branches: ['id', 'enterprise_number', 'start_date'],
+}
+
+/**
+ * Short hash of variable-length text in record IDs (first 8 hex chars of MD5)
+ */
+function shortHashSql(expression: string): string {
+  return `SUBSTRING(MD5(${expression}), 1, 8)`
+}
+
+/**
+ * SQL expression for the record ID of a row
+ *
+ * - activities: entity_number_group_version_code_classification
+ * - addresses: entity_number_type_of_address
+ * - contacts: entity_number_entity_contact_contact_type_hash(value)
+ * - denominations: entity_number_type_language_hash(denomination)
+ * - branches: the KBO branch id
+ *
+ * Enterprises and establishments are identified by their number and have no id column.
+ */
+export function recordIdSql(table: VersionedTable, col: ColumnRef = dbColumns): string {
+  switch (table) {
+    case 'activities':
+      return `${col('entity_number')} || '_' || ${col('activity_group')} || '_' || ${col('nace_version')} || '_' || ${col('nace_code')} || '_' || ${col('classification')}`
+    case 'addresses':
+      return `${col('entity_number')} || '_' || ${col('type_of_address')}`
+    case 'contacts':
+      return `${col('entity_number')} || '_' || ${col('entity_contact')} || '_' || ${col('contact_type')} || '_' || ${shortHashSql(col('contact_value'))}`
+    case 'denominations':
+      return `${col('entity_number')} || '_' || ${col('denomination_type')} || '_' || ${col('language')} || '_' || ${shortHashSql(col('denomination'))}`
+    case 'branches':
+      return col('id')
+    default:
+      throw new Error(`Table ${table} has no record id`)
+  }
+}
+
+/**
+ * SQL expression identifying one logical record across versions
+ *
+ * Used to supersede and close versions at import. Denominations are keyed by
+ * entity, type and language like their point-in-time partitions
+ * (getTemporalPartitionKey): their record ID hashes the name, so a renamed
+ * denomination would otherwise leave its old version current.
+ */
+export function recordKeySql(table: VersionedTable, col: ColumnRef = dbColumns): string {
+  switch (table) {
+    case 'enterprises':
+      return col('enterprise_number')
+    case 'establishments':
+      return col('establishment_number')
+    case 'denominations':
+      return `${col('entity_number')} || '_' || ${col('denomination_type')} || '_' || ${col('language')}`
+    default:
+      return recordIdSql(table, col)
+  }
+}
+
+/**
+ * SQL expression for entity_type: establishment numbers start with "2."
+ */
+export function entityTypeSql(col: ColumnRef = dbColumns): string {
+  return `CASE WHEN ${col('entity_number')} LIKE '2.%' THEN 'establishment' ELSE 'enterprise' END`
+}
+
+/**
+ * SQL expression converting a raw KBO date column (DD-MM-YYYY, or already
+ * detected as DATE by read_csv) to DATE
+ */
+export function kboDateSql(expression: string): string {
+  return `COALESCE(TRY_CAST(${expression} AS DATE), TRY_STRPTIME(CAST(${expression} AS VARCHAR), '%d-%m-%Y')::DATE)`
+}
+
+/**
+ * Normalize one CSV value for staging: empty → NULL, DD-MM-YYYY dates → YYYY-MM-DD
+ */
+export function normalizeCsvValue(csvColumn: string, value: string | null | undefined): string | null {
+  if (value === '' || value === null || value === undefined) {
+    return null
+  }
+
+  if (csvColumn.toLowerCase().includes('date') && isKboDateFormat(value)) {
+    return convertKboDateFormat(value)
+  }
+
+  return value
+}
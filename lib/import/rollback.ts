@@ -0,0 +1,266 @@
+/**
+ * Import Rollback
+ *
+ * Reverts the most recent completed daily update without rebuilding from a
+ * full dump (scripts/reset-from-full-dump.ts). An update at extract N only
+ * ever touches two kinds of rows in the versioned tables:
+ * - rows it inserted (_extract_number = N), which are deleted
+ * - rows it closed (_deleted_at_extract = N), which become current again
+ *
+ * The job is kept as 'rolled_back' for the record; importing the same extract
+ * again replaces it (see discardReplacedJob).
+ *
+ * Key functions:
+ * - getRollbackCandidate(): Most recent completed import job
+ * - rollbackImportJob(): Revert one import job
+ * - countExtractChanges() / buildRevertStatements(): Revert the rows of an extract
+ *   (also used to cancel an unfinished import, see cancel.ts, and to revert an
+ *   import that fails its data quality checks, see finalizeImport)
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeTransaction, type QueryParamValue } from '../motherduck'
+import { ValidationError } from '../errors'
+import { VERSIONED_TABLES, type VersionedTable } from './versioning'
+import { refreshNameSearchIndex } from '../motherduck/name-search'
+
+/**
+ * Import job that can be rolled back
+ */
+export interface RollbackCandidate {
+  job_id: string
+  extract_number: number
+  extract_type: 'full' | 'update'
+  snapshot_date: string
+  completed_at: string | null
+}
+
+/**
+ * Rows reverted in one table
+ */
+export interface TableRollbackResult {
+  table: VersionedTable
+  rows_deleted: number
+  rows_restored: number
+}
+
+/**
+ * Result of rolling back an import job
+ */
+export interface RollbackResult {
+  job_id: string
+  extract_number: number
+  snapshot_date: string
+  tables: TableRollbackResult[]
+  rows_deleted: number
+  rows_restored: number
+  /** Names in the refreshed search index, null if the refresh failed */
+  names_indexed: number | null
+}
+
+/**
+ * Count, per table, the rows an extract inserted and the rows it closed
+ * (call before buildRevertStatements(), which removes both)
+ */
+export async function countExtractChanges(
+  db: DuckDBConnection,
+  extractNumber: number
+): Promise<TableRollbackResult[]> {
+  const tables: TableRollbackResult[] = []
+  for (const table of VERSIONED_TABLES) {
+    const counts = await executeQuery<{ inserted: bigint | number | null; superseded: bigint | number | null }>(db, `
+      SELECT
+        COUNT(*) FILTER (WHERE _extract_number = $extract_number) as inserted,
+        COUNT(*) FILTER (WHERE _deleted_at_extract = $extract_number AND _extract_number < $extract_number) as superseded
+      FROM ${table}
+      WHERE _extract_number = $extract_number OR _deleted_at_extract = $extract_number
+    `, { extract_number: extractNumber })
+
+    tables.push({
+      table,
+      rows_deleted: Number(counts[0]?.inserted || 0),
+      rows_restored: Number(counts[0]?.superseded || 0),
+    })
+  }
+  return tables
+}
+
+/**
+ * Statements reverting every versioned table to before an extract: delete the
+ * new versions first, then reopen the versions they replaced
+ */
+export function buildRevertStatements(
+  extractNumber: number
+): { sql: string; params: Record<string, QueryParamValue> }[] {
+  const params = { extract_number: extractNumber }
+
+  return VERSIONED_TABLES.flatMap(table => [
+    { sql: `DELETE FROM ${table} WHERE _extract_number = $extract_number`, params },
+    {
+      sql: `
+        UPDATE ${table}
+        SET _is_current = true,
+            _deleted_at_extract = NULL
+        WHERE _deleted_at_extract = $extract_number
+          AND _extract_number < $extract_number
+      `,
+      params,
+    },
+  ])
+}
+
+/**
+ * Get the most recent completed import job (the only one that can be rolled back)
+ */
+export async function getRollbackCandidate(db: DuckDBConnection): Promise<RollbackCandidate | null> {
+  const rows = await executeQuery<RollbackCandidate>(db, `
+    SELECT
+      id as job_id,
+      extract_number,
+      extract_type,
+      snapshot_date::VARCHAR as snapshot_date,
+      completed_at::VARCHAR as completed_at
+    FROM import_jobs
+    WHERE status = 'completed'
+    ORDER BY extract_number DESC
+    LIMIT 1
+  `)
+
+  return rows.length > 0
+    ? { ...rows[0], extract_number: Number(rows[0].extract_number) }
+    : null
+}
+
+/**
+ * Revert a completed import job
+ *
+ * Only the most recent completed daily update can be rolled back, and only
+ * while no later import is pending or running. Throws ValidationError
+ * otherwise.
+ */
+export async function rollbackImportJob(
+  db: DuckDBConnection,
+  jobId: string
+): Promise<RollbackResult> {
+  const candidate = await getRollbackCandidate(db)
+
+  if (!candidate || candidate.job_id !== jobId) {
+    throw new ValidationError(
+      candidate
+        ? `Only the most recent completed import can be rolled back (extract ${candidate.extract_number}, job ${candidate.job_id})`
+        : 'There is no completed import to roll back',
+      { job_id: jobId, rollback_candidate: candidate?.job_id ?? null }
+    )
+  }
+
+  if (candidate.extract_type !== 'update') {
+    throw new ValidationError(
+      'Full imports cannot be rolled back; use scripts/reset-from-full-dump.ts',
+      { job_id: jobId, extract_type: candidate.extract_type }
+    )
+  }
+
+  const laterJobs = await executeQuery<{ extract_number: number; status: string }>(db, `
+    SELECT extract_number, status
+    FROM import_jobs
+    WHERE extract_number > $extract_number
+      AND status IN ('pending', 'running')
+  `, { extract_number: candidate.extract_number })
+
+  if (laterJobs.length > 0) {
+    throw new ValidationError(
+      `Cannot roll back while the import of extract ${laterJobs[0].extract_number} is ${laterJobs[0].status}`,
+      { job_id: jobId, blocking_extract: Number(laterJobs[0].extract_number) }
+    )
+  }
+
+  // Count before changing anything, so the result reports what was reverted
+  const tables = await countExtractChanges(db, candidate.extract_number)
+
+  console.log(`⏪ Rolling back extract ${candidate.extract_number} (job ${jobId})...`)
+
+  await executeTransaction(db, [
+    ...buildRevertStatements(candidate.extract_number),
+    { sql: 'DELETE FROM import_job_batches WHERE job_id = $job_id', params: { job_id: jobId } },
+    { sql: 'DELETE FROM watchlist_changes WHERE job_id = $job_id', params: { job_id: jobId } },
+    {
+      sql: `
+        UPDATE import_jobs
+        SET status = 'rolled_back',
+            rolled_back_at = $rolled_back_at
+        WHERE id = $job_id
+      `,
+      params: { job_id: jobId, rolled_back_at: new Date().toISOString() },
+    },
+  ])
+
+  for (const result of tables) {
+    if (result.rows_deleted > 0 || result.rows_restored > 0) {
+      console.log(`   ✓ ${result.table}: ${result.rows_deleted} deleted, ${result.rows_restored} restored`)
+    }
+  }
+
+  // Rebuild the name search index from the restored current data
+  // (the rollback itself is committed; a failed refresh can be re-run separately)
+  console.log('\n🔎 Refreshing name search index...')
+  let namesIndexed: number | null = null
+  try {
+    namesIndexed = await refreshNameSearchIndex(db)
+    console.log(`   ✓ Indexed ${namesIndexed.toLocaleString()} names`)
+  } catch (error) {
+    console.error('   ❌ Name search refresh failed, run scripts/refresh-name-search.ts:', error)
+  }
+
+  return {
+    job_id: jobId,
+    extract_number: candidate.extract_number,
+    snapshot_date: candidate.snapshot_date,
+    tables,
+    rows_deleted: tables.reduce((sum, t) => sum + t.rows_deleted, 0),
+    rows_restored: tables.reduce((sum, t) => sum + t.rows_restored, 0),
+    names_indexed: namesIndexed,
+  }
+}
+
+/**
+ * SQL condition for import jobs that left no applied data behind, so their
+ * extract can be imported again: rolled back, cancelled, or failed without
+ * batch records (failed before its batches were created, or reverted by the
+ * data quality gate, see finalizeImport)
+ *
+ * @param alias - Alias of import_jobs in the query
+ */
+export function replaceableJobSql(alias: string): string {
+  return `(
+    ${alias}.status IN ('rolled_back', 'cancelled')
+    OR (
+      ${alias}.status = 'failed'
+      AND NOT EXISTS (SELECT 1 FROM import_job_batches b WHERE b.job_id = ${alias}.id)
+    )
+  )`
+}
+
+/**
+ * Remove a replaced job (see replaceableJobSql) for an extract that is
+ * imported again (extract_number is unique in import_jobs)
+ */
+export async function discardReplacedJob(
+  db: DuckDBConnection,
+  extractNumber: number
+): Promise<void> {
+  const replaced = await executeQuery<{ id: string; status: string }>(db, `
+    SELECT j.id, j.status FROM import_jobs j
+    WHERE j.extract_number = $extract_number
+      AND ${replaceableJobSql('j')}
+  `, { extract_number: extractNumber })
+
+  if (replaced.length === 0) return
+
+  console.log(`   ℹ️  Replacing ${replaced[0].status.replace('_', ' ')} job ${replaced[0].id} for extract ${extractNumber}`)
+  await executeTransaction(db, [
+    { sql: 'DELETE FROM import_previews WHERE job_id = $job_id', params: { job_id: replaced[0].id } },
+    { sql: 'DELETE FROM data_quality_findings WHERE job_id = $job_id', params: { job_id: replaced[0].id } },
+    { sql: 'DELETE FROM watchlist_changes WHERE job_id = $job_id', params: { job_id: replaced[0].id } },
+    { sql: 'DELETE FROM import_jobs WHERE id = $job_id', params: { job_id: replaced[0].id } },
+  ])
+}
@@ -5,8 +5,8 @@
  * into the normalized temporal schema.
  *
  * These transformations:
- * - Generate computed IDs for link tables
- * - Compute entity_type (enterprise vs establishment)
+ * - Generate computed IDs for link tables (records.ts, shared with update imports)
+ * - Compute entity_type (enterprise vs establishment, records.ts)
  * - Handle primary name selection from denominations
  * - Normalize NACE codes
  * - Convert date formats
@@ -14,6 +14,7 @@
  */
 
 import { Metadata } from './metadata'
+import { recordIdSql, entityTypeSql, kboDateSql, csvColumns } from './records'
 
 /**
  * Table transformation definition
@@ -88,7 +89,7 @@ export function getEnterprisesTransformation(): TableTransformation {
         e.TypeOfEnterprise as type_of_enterprise,
         e.JuridicalForm as juridical_form,
         e.JuridicalFormCAC as juridical_form_cac,
-        TRY_CAST(e.StartDate AS DATE) as start_date,
+        ${kboDateSql('e.StartDate')} as start_date,
         -- Primary name: first available in priority order (Language 2=NL, 1=FR, 3=DE, 4=EN, 0=Unknown)
         -- Store the actual name used as primary_name (never NULL)
         COALESCE(
@@ -143,7 +144,7 @@ export function getEstablishmentsTransformation(): TableTransformation {
         CURRENT_DATE as _snapshot_date,
         0 as _extract_number,
         e.EnterpriseNumber as enterprise_number,
-        TRY_CAST(e.StartDate AS DATE) as start_date,
+        ${kboDateSql('e.StartDate')} as start_date,
         -- Extract primary commercial name (Type 003) - Priority: Dutch -> French -> Unknown -> German -> English
         COALESCE(
           MAX(CASE WHEN d.Language = '2' AND d.TypeOfDenomination = '003' THEN d.Denomination END),
@@ -179,15 +180,11 @@ export function getDenominationsTransformation(): TableTransformation {
     csvFile: '', // Already staged
     transformSql: `
       SELECT
-        EntityNumber || '_' || TypeOfDenomination || '_' || Language || '_' ||
-        SUBSTRING(MD5(Denomination), 1, 8) as id,
+        ${recordIdSql('denominations', csvColumns)} as id,
         CURRENT_DATE as _snapshot_date,
         0 as _extract_number,
         EntityNumber as entity_number,
-        CASE
-          WHEN EntityNumber LIKE '2.%' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql(csvColumns)} as entity_type,
         TypeOfDenomination as denomination_type,
         Language as language,
         Denomination as denomination,
@@ -206,14 +203,11 @@ export function getAddressesTransformation(): TableTransformation {
     csvFile: '', // Already staged
     transformSql: `
       SELECT
-        EntityNumber || '_' || TypeOfAddress as id,
+        ${recordIdSql('addresses', csvColumns)} as id,
         CURRENT_DATE as _snapshot_date,
         0 as _extract_number,
         EntityNumber as entity_number,
-        CASE
-          WHEN EntityNumber LIKE '2.%' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql(csvColumns)} as entity_type,
         TypeOfAddress as type_of_address,
         CountryNL as country_nl,
         CountryFR as country_fr,
@@ -225,7 +219,7 @@ export function getAddressesTransformation(): TableTransformation {
         HouseNumber as house_number,
         Box as box,
         ExtraAddressInfo as extra_address_info,
-        TRY_CAST(DateStrikingOff AS DATE) as date_striking_off,
+        ${kboDateSql('DateStrikingOff')} as date_striking_off,
         TRUE as _is_current
       FROM staged_addresses
     `
@@ -241,14 +235,11 @@ export function getActivitiesTransformation(): TableTransformation {
     csvFile: '', // Already staged
     transformSql: `
       SELECT DISTINCT
-        EntityNumber || '_' || ActivityGroup || '_' || NaceVersion || '_' || NaceCode || '_' || Classification as id,
+        ${recordIdSql('activities', csvColumns)} as id,
         CURRENT_DATE as _snapshot_date,
         0 as _extract_number,
         EntityNumber as entity_number,
-        CASE
-          WHEN EntityNumber LIKE '2.%' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql(csvColumns)} as entity_type,
         ActivityGroup as activity_group,
         NaceVersion as nace_version,
         NaceCode as nace_code,
@@ -268,14 +259,11 @@ export function getContactsTransformation(): TableTransformation {
     csvFile: '', // Already staged
     transformSql: `
       SELECT DISTINCT
-        EntityNumber || '_' || EntityContact || '_' || ContactType || '_' || Value as id,
+        ${recordIdSql('contacts', csvColumns)} as id,
         CURRENT_DATE as _snapshot_date,
         0 as _extract_number,
         EntityNumber as entity_number,
-        CASE
-          WHEN EntityNumber LIKE '2.%' THEN 'establishment'
-          ELSE 'enterprise'
-        END as entity_type,
+        ${entityTypeSql(csvColumns)} as entity_type,
         EntityContact as entity_contact,
         ContactType as contact_type,
         Value as contact_value,
@@ -294,11 +282,11 @@ export function getBranchesTransformation(): TableTransformation {
     csvFile: '', // Already staged
     transformSql: `
       SELECT
-        Id as id,
+        ${recordIdSql('branches', csvColumns)} as id,
         CURRENT_DATE as _snapshot_date,
         0 as _extract_number,
         EnterpriseNumber as enterprise_number,
-        TRY_CAST(StartDate AS DATE) as start_date,
+        ${kboDateSql('StartDate')} as start_date,
         TRUE as _is_current
       FROM staged_branches
     `
@@ -0,0 +1,221 @@
+/**
+ * Version tracking for the temporal tables
+ *
+ * KBO updates use a delete-then-insert pattern. Every row that stops being
+ * current (deleted, or replaced by a newer version) must carry the extract
+ * number at which that happened in _deleted_at_extract, otherwise point-in-time
+ * queries (buildTemporalFilter) keep seeing it after it was superseded.
+ *
+ * Key functions:
+ * - getEntityKeyColumn(): Column KBO delete files refer to
+ * - buildSupersedeSql(): Close older versions of records re-inserted at an extract
+ * - buildCloseMissingSql(): Close current records missing from a full snapshot
+ * - buildSkipUnchangedSql(): Leave records unchanged in a full snapshot alone
+ * - backfillDeletedAtExtract(): Derive missing values from _extract_number ordering
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeStatement } from '../motherduck'
+import { RECORD_COLUMNS, recordKeySql } from './records'
+
+/**
+ * All versioned tables (each has _is_current and _deleted_at_extract)
+ */
+export const VERSIONED_TABLES = [
+  'enterprises',
+  'establishments',
+  'denominations',
+  'addresses',
+  'activities',
+  'contacts',
+  'branches',
+] as const
+
+export type VersionedTable = typeof VERSIONED_TABLES[number]
+
+/**
+ * Column that KBO delete files refer to
+ * A delete removes every current row of the entity in that table
+ */
+export function getEntityKeyColumn(tableName: string): string {
+  return tableName === 'enterprises' ? 'enterprise_number' :
+         tableName === 'establishments' ? 'establishment_number' :
+         tableName === 'branches' ? 'id' :
+         'entity_number'
+}
+
+/**
+ * Build UPDATE that closes older versions of records re-inserted at an extract
+ *
+ * Catches records that appear in an insert file without a matching delete
+ * (or whose delete ran before the previous version was written), so that at
+ * most one version of each record is current.
+ *
+ * Binds $extract_number; entityFilter may reference further parameters
+ * supplied by the caller.
+ *
+ * @param entityFilter - Optional SQL subquery of entity keys to limit the scope (e.g. one batch)
+ */
+export function buildSupersedeSql(
+  tableName: VersionedTable,
+  entityFilter?: string
+): string {
+  const recordKey = recordKeySql(tableName)
+  const entityKey = getEntityKeyColumn(tableName)
+
+  return `
+    UPDATE ${tableName}
+    SET _is_current = false,
+        _deleted_at_extract = $extract_number
+    WHERE _is_current = true
+      AND _extract_number < $extract_number
+      AND ${recordKey} IN (
+        SELECT ${recordKey}
+        FROM ${tableName}
+        WHERE _extract_number = $extract_number
+          ${entityFilter ? `AND ${entityKey} IN (${entityFilter})` : ''}
+      )
+  `
+}
+
+/**
+ * Build UPDATE that closes current records missing from a full snapshot
+ *
+ * A full dump lists every record that exists at its extract; current records
+ * from earlier extracts whose key is not in the staged snapshot were removed.
+ *
+ * Binds $job_id and $extract_number
+ *
+ * @param stagingTable - Staging table holding the complete snapshot of the table
+ */
+export function buildCloseMissingSql(
+  tableName: VersionedTable,
+  stagingTable: string
+): string {
+  const recordKey = recordKeySql(tableName, column => `${tableName}.${column}`)
+
+  return `
+    UPDATE ${tableName}
+    SET _is_current = false,
+        _deleted_at_extract = $extract_number
+    WHERE _is_current = true
+      AND _extract_number < $extract_number
+      AND NOT EXISTS (
+        SELECT 1
+        FROM ${stagingTable} s
+        WHERE s.job_id = $job_id
+          AND s.operation = 'insert'
+          AND ${recordKeySql(tableName, column => `s.${column}`)} = ${recordKey}
+      )
+  `
+}
+
+/**
+ * Build UPDATE that marks staged records identical to their current version
+ * as processed, so a full snapshot only inserts new and changed records
+ *
+ * Binds $job_id and $batch_number
+ */
+export function buildSkipUnchangedSql(
+  tableName: VersionedTable,
+  stagingTable: string
+): string {
+  const recordKey = recordKeySql(tableName, column => `t.${column}`)
+  const sameValues = RECORD_COLUMNS[tableName]
+    .map(column => `t.${column} IS NOT DISTINCT FROM ${stagingTable}.${column}`)
+    .join('\n          AND ')
+
+  return `
+    UPDATE ${stagingTable}
+    SET processed = true
+    WHERE job_id = $job_id
+      AND operation = 'insert'
+      AND batch_number = $batch_number
+      AND processed = false
+      AND EXISTS (
+        SELECT 1
+        FROM ${tableName} t
+        WHERE t._is_current = true
+          AND ${recordKey} = ${recordKeySql(tableName, column => `${stagingTable}.${column}`)}
+          AND ${sameValues}
+      )
+  `
+}
+
+/**
+ * Result of backfilling one table
+ */
+export interface BackfillResult {
+  table: VersionedTable
+  updated: number
+  unresolved: number
+}
+
+/**
+ * Count historical rows without _deleted_at_extract
+ */
+export async function countMissingDeletedAtExtract(
+  db: DuckDBConnection,
+  tableName: VersionedTable
+): Promise<number> {
+  const result = await executeQuery<{ count: bigint | number }>(db, `
+    SELECT COUNT(*) as count
+    FROM ${tableName}
+    WHERE _is_current = false
+      AND _deleted_at_extract IS NULL
+  `)
+  return Number(result[0]?.count || 0)
+}
+
+/**
+ * Backfill _deleted_at_extract for historical rows that are missing it
+ *
+ * Deletes apply per entity, so a historical row ended at the next extract
+ * in which the same entity has rows in that table. Rows with no later
+ * extract for their entity (entity removed for good) cannot be derived from
+ * ordering alone and are reported as unresolved.
+ *
+ * Idempotent - only touches rows where _deleted_at_extract IS NULL.
+ */
+export async function backfillDeletedAtExtract(
+  db: DuckDBConnection,
+  tableName: VersionedTable
+): Promise<BackfillResult> {
+  const entityKey = getEntityKeyColumn(tableName)
+
+  const before = await countMissingDeletedAtExtract(db, tableName)
+  if (before === 0) {
+    return { table: tableName, updated: 0, unresolved: 0 }
+  }
+
+  await executeStatement(db, `
+    UPDATE ${tableName} t
+    SET _deleted_at_extract = n.next_extract
+    FROM (
+      SELECT
+        ${entityKey} as entity_key,
+        _extract_number,
+        LEAD(_extract_number) OVER (
+          PARTITION BY ${entityKey}
+          ORDER BY _extract_number
+        ) as next_extract
+      FROM (
+        SELECT DISTINCT ${entityKey}, _extract_number
+        FROM ${tableName}
+      )
+    ) n
+    WHERE t.${entityKey} = n.entity_key
+      AND t._extract_number = n._extract_number
+      AND n.next_extract IS NOT NULL
+      AND t._is_current = false
+      AND t._deleted_at_extract IS NULL
+  `)
+
+  const after = await countMissingDeletedAtExtract(db, tableName)
+
+  return {
+    table: tableName,
+    updated: before - after,
+    unresolved: after,
+  }
+}
@@ -355,6 +355,14 @@ export async function listDailyUpdates(): Promise<KboDatasetFile[]> {
   return allFiles.filter(file => file.file_type === 'update')
 }
 
+/**
+ * List available monthly full dump files from the KBO portal
+ */
+export async function listFullDumps(): Promise<KboDatasetFile[]> {
+  const allFiles = await listAvailableFiles()
+  return allFiles.filter(file => file.file_type === 'full')
+}
+
 /**
  * Construct download URL for a known filename
  */
@@ -7,6 +7,8 @@ import {
   buildPointInTimeQuery,
   buildPointInTimeQueryByNaturalKey,
   buildTemporalFilter,
+  resolveTemporalFilter,
+  temporalParams,
   type TemporalFilter
 } from './temporal-query'
 import { getDenominationTypeDescription, getLanguageAbbreviation } from '@/lib/cache/codes'
@@ -17,17 +19,31 @@ import { getDenominationTypeDescription, getLanguageAbbreviation } from '@/lib/c
  *
  * @param connection - Database connection
  * @param enterpriseNumber - Enterprise number to fetch
- * @param filter - Temporal filter (current or point-in-time)
+ * @param filter - Temporal filter (current, point-in-time by extract or by snapshot date)
  * @param language - Language for code descriptions (NL, FR, or DE)
  */
 export async function fetchEnterpriseDetail(
   connection: DuckDBConnection,
   enterpriseNumber: string,
-  filter: TemporalFilter,
+  temporalFilter: TemporalFilter,
   language: Language = 'NL'
 ): Promise<EnterpriseDetail | null> {
+  // Snapshot dates resolve to the latest completed extract on or before that date
+  const filter = await resolveTemporalFilter(connection, temporalFilter)
+  if (!filter) {
+    return null
+  }
+
   const usePointInTime = filter.type === 'point-in-time'
 
+  // Shared by every query below; unused keys are dropped per statement
+  const params = {
+    ...temporalParams(filter),
+    entity_number: enterpriseNumber,
+    enterprise_number: enterpriseNumber,
+    language,
+  }
+
   // For point-in-time queries, wrap with window function to get latest version
   const enterpriseQuery = usePointInTime
     ? buildPointInTimeQueryByNaturalKey(
@@ -54,17 +70,17 @@ export async function fetchEnterpriseDetail(
          FROM enterprises e
          LEFT JOIN codes c_status ON c_status.category = 'Status'
            AND c_status.code = e.status
-           AND c_status.language = '${language}'
+           AND c_status.language = $language
          LEFT JOIN codes c_jf ON c_jf.category = 'JuridicalForm'
            AND c_jf.code = e.juridical_form
-           AND c_jf.language = '${language}'
+           AND c_jf.language = $language
          LEFT JOIN codes c_js ON c_js.category = 'JuridicalSituation'
            AND c_js.code = e.juridical_situation
-           AND c_js.language = '${language}'
+           AND c_js.language = $language
          LEFT JOIN codes c_type ON c_type.category = 'TypeOfEnterprise'
            AND c_type.code = e.type_of_enterprise
-           AND c_type.language = '${language}'
-         WHERE e.enterprise_number = '${enterpriseNumber}' AND ${buildTemporalFilter(filter, 'e')})`,
+           AND c_type.language = $language
+         WHERE e.enterprise_number = $enterprise_number AND ${buildTemporalFilter(filter, 'e')})`,
         `1=1`, // WHERE clause already in subquery
         'enterprise_number'
       )
@@ -86,17 +102,17 @@ export async function fetchEnterpriseDetail(
       FROM enterprises e
       LEFT JOIN codes c_status ON c_status.category = 'Status'
         AND c_status.code = e.status
-        AND c_status.language = '${language}'
+        AND c_status.language = $language
       LEFT JOIN codes c_jf ON c_jf.category = 'JuridicalForm'
         AND c_jf.code = e.juridical_form
-        AND c_jf.language = '${language}'
+        AND c_jf.language = $language
       LEFT JOIN codes c_js ON c_js.category = 'JuridicalSituation'
         AND c_js.code = e.juridical_situation
-        AND c_js.language = '${language}'
+        AND c_js.language = $language
       LEFT JOIN codes c_type ON c_type.category = 'TypeOfEnterprise'
         AND c_type.code = e.type_of_enterprise
-        AND c_type.language = '${language}'
-      WHERE e.enterprise_number = '${enterpriseNumber}'
+        AND c_type.language = $language
+      WHERE e.enterprise_number = $enterprise_number
         AND ${buildTemporalFilter(filter, 'e')}
       LIMIT 1`
 
@@ -116,7 +132,7 @@ export async function fetchEnterpriseDetail(
     _extract_number: number
     _is_current: boolean
     _deleted_at_extract: number | null
-  }>(connection, enterpriseQuery)
+  }>(connection, enterpriseQuery, params)
 
   if (enterprises.length === 0) {
     return null
@@ -131,7 +147,8 @@ export async function fetchEnterpriseDetail(
       connection,
       `SELECT MAX(_snapshot_date)::VARCHAR as last_snapshot_date
        FROM enterprises
-       WHERE enterprise_number = '${enterpriseNumber}'`
+       WHERE enterprise_number = $enterprise_number`,
+      { enterprise_number: enterpriseNumber }
     )
     lastSnapshotDate = lastSnapshot[0]?.last_snapshot_date || null
   }
@@ -148,11 +165,11 @@ export async function fetchEnterpriseDetail(
       buildChildTableQuery(
         'denominations',
         'language, denomination_type, denomination',
-        enterpriseNumber,
         filter,
         'denomination_type, language',
         'entity_number, language, denomination_type'
-      )
+      ),
+      params
     ),
 
     // Addresses
@@ -185,11 +202,11 @@ export async function fetchEnterpriseDetail(
         box,
         extra_address_info,
         date_striking_off::VARCHAR as date_striking_off`,
-        enterpriseNumber,
         filter,
         'type_of_address',
         'id'
-      )
+      ),
+      params
     ),
 
     // Activities with NACE descriptions and activity group descriptions - needs custom query due to JOINs
@@ -207,7 +224,7 @@ export async function fetchEnterpriseDetail(
       connection,
       (() => {
         const temporalWhere = buildTemporalFilter(filter, 'a')
-        const baseWhere = `a.entity_number = '${enterpriseNumber}' AND ${temporalWhere}`
+        const baseWhere = `a.entity_number = $enterprise_number AND ${temporalWhere}`
 
         if (filter.type === 'current') {
           return `
@@ -264,7 +281,8 @@ export async function fetchEnterpriseDetail(
           'id',
           'nace_version DESC, classification, nace_code'
         )
-      })()
+      })(),
+      params
     ),
 
     // Contacts
@@ -277,11 +295,11 @@ export async function fetchEnterpriseDetail(
       buildChildTableQuery(
         'contacts',
         'entity_number, contact_type, contact_value',
-        enterpriseNumber,
         filter,
         'contact_type',
         'id'
-      )
+      ),
+      params
     ),
 
     // Establishments - uses enterprise_number FK, not entity_number
@@ -293,7 +311,7 @@ export async function fetchEnterpriseDetail(
       connection,
       (() => {
         const temporalWhere = buildTemporalFilter(filter)
-        const baseWhere = `enterprise_number = '${enterpriseNumber}' AND ${temporalWhere}`
+        const baseWhere = `enterprise_number = $enterprise_number AND ${temporalWhere}`
 
         if (filter.type === 'current') {
           return `
@@ -317,7 +335,8 @@ export async function fetchEnterpriseDetail(
           'establishment_number',
           'start_date DESC'
         )
-      })()
+      })(),
+      params
     ),
 
     // Establishment activities - fetch all activities for establishments of this enterprise
@@ -356,7 +375,7 @@ export async function fetchEnterpriseDetail(
               AND c_ag_nl.code = a.activity_group AND c_ag_nl.language = 'NL'
             LEFT JOIN codes c_ag_fr ON c_ag_fr.category = 'ActivityGroup'
               AND c_ag_fr.code = a.activity_group AND c_ag_fr.language = 'FR'
-            WHERE est.enterprise_number = '${enterpriseNumber}'
+            WHERE est.enterprise_number = $enterprise_number
               AND ${estTemporalWhere}
               AND ${actTemporalWhere}
             ORDER BY a.entity_number, a.activity_group, a.nace_version DESC, a.nace_code
@@ -368,7 +387,7 @@ export async function fetchEnterpriseDetail(
           WITH current_establishments AS (
             SELECT DISTINCT establishment_number
             FROM establishments est
-            WHERE enterprise_number = '${enterpriseNumber}'
+            WHERE enterprise_number = $enterprise_number
               AND ${estTemporalWhere}
           )
           SELECT
@@ -391,7 +410,8 @@ export async function fetchEnterpriseDetail(
           WHERE ${actTemporalWhere}
           ORDER BY a.entity_number, a.activity_group, a.nace_version DESC, a.nace_code
         `.trim()
-      })()
+      })(),
+      params
     ),
   ])
 
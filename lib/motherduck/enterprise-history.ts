@@ -0,0 +1,203 @@
+import { executeQuery } from './index'
+import type { DuckDBConnection } from '@duckdb/node-api'
+import type {
+  HistoryChange,
+  HistoryChangeType,
+  HistoryExtract,
+  HistoryTable,
+} from '@/app/api/enterprises/[number]/history/route'
+import { assertValidSnapshotDate } from './temporal-query'
+
+/**
+ * Versioned tables included in the enterprise timeline
+ *
+ * recordKey identifies the same logical record across versions, so a row
+ * that ends at the extract where a new version of the same record starts
+ * is reported as superseded rather than deleted.
+ */
+const HISTORY_TABLES: Array<{
+  table: HistoryTable
+  entityColumn: string
+  recordKey: string
+  columns: string
+}> = [
+  {
+    table: 'enterprises',
+    entityColumn: 'enterprise_number',
+    recordKey: 'enterprise_number',
+    columns: `status, juridical_situation, type_of_enterprise, juridical_form,
+      juridical_form_cac, start_date::VARCHAR as start_date, primary_name`,
+  },
+  {
+    table: 'denominations',
+    entityColumn: 'entity_number',
+    recordKey: `entity_number || '_' || language || '_' || denomination_type`,
+    columns: 'denomination_type, language, denomination',
+  },
+  {
+    table: 'addresses',
+    entityColumn: 'entity_number',
+    recordKey: 'id',
+    columns: `type_of_address, country_nl, country_fr, zipcode, municipality_nl,
+      municipality_fr, street_nl, street_fr, house_number, box, extra_address_info,
+      date_striking_off::VARCHAR as date_striking_off`,
+  },
+  {
+    table: 'activities',
+    entityColumn: 'entity_number',
+    recordKey: 'id',
+    columns: 'activity_group, nace_version, nace_code, classification',
+  },
+  {
+    table: 'contacts',
+    entityColumn: 'entity_number',
+    recordKey: 'id',
+    columns: 'entity_contact, contact_type, contact_value',
+  },
+  {
+    table: 'establishments',
+    entityColumn: 'enterprise_number',
+    recordKey: 'establishment_number',
+    columns: `establishment_number, start_date::VARCHAR as start_date, commercial_name`,
+  },
+]
+
+interface VersionRow {
+  record_key: string
+  _extract_number: number
+  _snapshot_date: string
+  ended_at_extract: number | null
+  next_extract: number | null
+  [column: string]: unknown
+}
+
+export interface EnterpriseHistoryOptions {
+  /** Only include changes on or after this date (YYYY-MM-DD) */
+  fromDate?: string
+  /** Only include changes on or before this date (YYYY-MM-DD) */
+  toDate?: string
+}
+
+/**
+ * Fetches the full change history of an enterprise, grouped by extract
+ *
+ * Every version of every row in the versioned tables produces an 'inserted'
+ * change at the extract it appeared in. When a version ends, it produces a
+ * 'superseded' change if a newer version of the same record starts at that
+ * extract, or a 'deleted' change otherwise.
+ *
+ * Rows marked historical without _deleted_at_extract (older imports) are
+ * assumed to end at the next version of the same record.
+ *
+ * @param connection - Database connection
+ * @param enterpriseNumber - Enterprise number to fetch
+ * @param options - Optional date range (inclusive, by extract snapshot date)
+ */
+export async function fetchEnterpriseHistory(
+  connection: DuckDBConnection,
+  enterpriseNumber: string,
+  options: EnterpriseHistoryOptions = {}
+): Promise<HistoryExtract[]> {
+  if (options.fromDate) assertValidSnapshotDate(options.fromDate)
+  if (options.toDate) assertValidSnapshotDate(options.toDate)
+
+  const [versionsByTable, importJobs] = await Promise.all([
+    Promise.all(
+      HISTORY_TABLES.map((config) =>
+        executeQuery<VersionRow>(
+          connection,
+          `WITH versions AS (
+            SELECT
+              ${config.columns},
+              ${config.recordKey} as record_key,
+              _extract_number,
+              _snapshot_date::VARCHAR as _snapshot_date,
+              _is_current,
+              _deleted_at_extract,
+              LEAD(_extract_number) OVER (
+                PARTITION BY ${config.recordKey}
+                ORDER BY _extract_number
+              ) as next_extract
+            FROM ${config.table}
+            WHERE ${config.entityColumn} = $enterprise_number
+          )
+          SELECT
+            * EXCLUDE (_is_current, _deleted_at_extract),
+            CASE
+              WHEN _is_current THEN NULL
+              ELSE COALESCE(_deleted_at_extract, next_extract)
+            END as ended_at_extract
+          FROM versions
+          ORDER BY _extract_number`,
+          { enterprise_number: enterpriseNumber }
+        ).then((rows) => ({ table: config.table, rows }))
+      )
+    ),
+    executeQuery<{ extract_number: number; snapshot_date: string }>(
+      connection,
+      `SELECT extract_number, snapshot_date::VARCHAR as snapshot_date FROM import_jobs`
+    ),
+  ])
+
+  // Snapshot dates per extract: import_jobs first, rows fill in extracts without a job
+  const snapshotDates = new Map<number, string>()
+  for (const job of importJobs) {
+    snapshotDates.set(Number(job.extract_number), job.snapshot_date)
+  }
+
+  const extracts = new Map<number, HistoryChange[]>()
+  const addChange = (extractNumber: number, change: HistoryChange) => {
+    const changes = extracts.get(extractNumber) ?? []
+    changes.push(change)
+    extracts.set(extractNumber, changes)
+  }
+
+  for (const { table, rows } of versionsByTable) {
+    for (const row of rows) {
+      const {
+        record_key,
+        _extract_number,
+        _snapshot_date,
+        ended_at_extract,
+        next_extract,
+        ...values
+      } = row
+
+      if (!snapshotDates.has(_extract_number)) {
+        snapshotDates.set(_extract_number, _snapshot_date)
+      }
+
+      addChange(_extract_number, {
+        table,
+        recordKey: record_key,
+        changeType: 'inserted',
+        values,
+      })
+
+      if (ended_at_extract !== null) {
+        const changeType: HistoryChangeType =
+          next_extract === ended_at_extract ? 'superseded' : 'deleted'
+        addChange(ended_at_extract, {
+          table,
+          recordKey: record_key,
+          changeType,
+          values,
+        })
+      }
+    }
+  }
+
+  return Array.from(extracts.entries())
+    .map(([extractNumber, changes]) => ({
+      extractNumber,
+      snapshotDate: snapshotDates.get(extractNumber) ?? null,
+      changes,
+    }))
+    .filter(({ snapshotDate }) => {
+      if (!snapshotDate) return !options.fromDate && !options.toDate
+      if (options.fromDate && snapshotDate < options.fromDate) return false
+      if (options.toDate && snapshotDate > options.toDate) return false
+      return true
+    })
+    .sort((a, b) => a.extractNumber - b.extractNumber)
+}
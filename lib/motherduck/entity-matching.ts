@@ -0,0 +1,365 @@
+/**
+ * Entity resolution: match external company records to KBO enterprises
+ *
+ * Each candidate record (name, postal code, municipality, VAT number - all
+ * optional) is resolved independently:
+ * - A VAT number that passes validateEnterpriseNumber() and exists is a
+ *   direct hit
+ * - Names are matched against the name_search table (see name-search.ts):
+ *   tokens shared through its full-text index to find candidates, Jaro-Winkler
+ *   similarity on the whole name (legal form suffixes removed) to score them
+ * - Registered office addresses (REGO) confirm or weaken name matches by
+ *   zipcode and municipality
+ *
+ * Confidence is a weighted average of the signals provided by the record,
+ * in [0, 1].
+ */
+
+import { listValue, type DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeStatement } from './index'
+import { foldSearchText } from './name-search'
+import { formatEnterpriseNumber, validateEnterpriseNumber } from '@/lib/validation'
+
+/**
+ * External record to resolve
+ */
+export interface MatchCandidate {
+  /** Caller's identifier, echoed back in the result */
+  reference?: string
+  name?: string
+  zipcode?: string
+  municipality?: string
+  /** VAT or enterprise number, with or without BE prefix and dots */
+  vatNumber?: string
+}
+
+export type MatchSignal = 'vat_number' | 'name' | 'zipcode' | 'municipality'
+
+export interface EnterpriseMatch {
+  enterpriseNumber: string
+  name: string
+  status: string
+  zipcode: string | null
+  municipality: string | null
+  /** 0-1, higher is better */
+  confidence: number
+  /** Signals of the candidate that agree with this enterprise */
+  matchedOn: MatchSignal[]
+}
+
+export interface CandidateMatchResult {
+  reference: string | null
+  candidate: MatchCandidate
+  matches: EnterpriseMatch[]
+}
+
+export interface MatchOptions {
+  /** Matches returned per candidate (default 3) */
+  maxMatches?: number
+  /** Matches below this confidence are dropped (default 0.5) */
+  minConfidence?: number
+}
+
+/** Signal weights; only signals present on the candidate count */
+const SIGNAL_WEIGHTS = {
+  name: 0.6,
+  zipcode: 0.25,
+  municipality: 0.15,
+} as const
+
+/** Whole-name similarity from which the name counts as matching */
+const MIN_NAME_SIMILARITY = 0.85
+
+/** Names sharing a token with a candidate compared per candidate */
+const TOKEN_HIT_LIMIT = 500
+
+/** Enterprises scored per candidate before address checks */
+const NAME_POOL_SIZE = 25
+
+/** Confidence multiplier for enterprises that are not active */
+const INACTIVE_PENALTY = 0.9
+
+/**
+ * Legal form tokens ignored when comparing names (after folding)
+ * "Colruyt NV" and "Colruyt" should compare as equal; dotted forms
+ * ("S.A.") fold to spaced letters
+ */
+const LEGAL_FORM_TOKENS = [
+  'nv', 'n v', 'sa', 's a', 'bv', 'b v', 'srl', 's r l', 'bvba', 'sprl',
+  'cv', 'sc', 'cvba', 'scrl', 'vzw', 'v z w', 'asbl', 'a s b l', 'ivzw', 'aisbl',
+  'comm v', 'commv', 'scs', 'gcv', 'snc', 'vof',
+]
+
+const LEGAL_FORM_PATTERN = `\\b(${LEGAL_FORM_TOKENS.join('|')})\\b`
+
+/**
+ * Fold a name and drop legal form tokens
+ */
+export function normalizeCompanyName(name: string): string {
+  return foldSearchText(name)
+    .replace(new RegExp(LEGAL_FORM_PATTERN, 'g'), ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Parse a VAT or enterprise number into the 9999.999.999 format
+ * Returns null if it does not form a valid enterprise number
+ */
+export function parseEnterpriseNumber(value: string): string | null {
+  let digits = value.replace(/^\s*BE/i, '').replace(/\D/g, '')
+  // Old 9-digit numbers are prefixed with 0
+  if (digits.length === 9) {
+    digits = `0${digits}`
+  }
+  if (digits.length !== 10) {
+    return null
+  }
+
+  const formatted = formatEnterpriseNumber(digits)
+  return validateEnterpriseNumber(formatted) ? formatted : null
+}
+
+interface PoolRow {
+  /** Position of the candidate in the batch */
+  candidate_index: number
+  enterprise_number: string
+  name: string
+  name_similarity: number | null
+  status: string
+  zipcode: string | null
+  municipality_nl: string | null
+  municipality_fr: string | null
+}
+
+/**
+ * Enterprises worth scoring, for a whole batch of candidates in one query
+ *
+ * Names are blocked on the full-text index: only names sharing a token with
+ * the candidate (the names BM25 would score) are compared with Jaro-Winkler,
+ * rarest tokens first, at most TOKEN_HIT_LIMIT per candidate. A name with a
+ * typo in every token is therefore not found. A candidate's own enterprise
+ * number is always part of its pool.
+ *
+ * @param names - Normalized name per candidate ('' when it has none)
+ * @param enterpriseNumbers - Parsed number per candidate (null when it has none)
+ */
+async function fetchCandidatePools(
+  connection: DuckDBConnection,
+  names: string[],
+  enterpriseNumbers: (string | null)[]
+): Promise<PoolRow[]> {
+  const rows = await executeQuery<PoolRow>(connection, `
+    WITH candidates AS (
+      SELECT candidate_index, name, NULLIF(enterprise_number, '') as enterprise_number
+      FROM (
+        SELECT
+          UNNEST($candidate_indexes)::INTEGER as candidate_index,
+          UNNEST($names) as name,
+          UNNEST($enterprise_numbers) as enterprise_number
+      )
+    ),
+    candidate_terms AS (
+      SELECT DISTINCT candidate_index, term
+      FROM (
+        SELECT candidate_index, UNNEST(string_split(name, ' ')) as term
+        FROM candidates
+        WHERE name <> ''
+      )
+    ),
+    token_hits AS (
+      SELECT ct.candidate_index, t.docid
+      FROM candidate_terms ct
+      INNER JOIN fts_main_name_search.dict d ON d.term = ct.term
+      INNER JOIN fts_main_name_search.terms t ON t.termid = d.termid
+      GROUP BY ct.candidate_index, t.docid
+      QUALIFY ROW_NUMBER() OVER (
+        PARTITION BY ct.candidate_index
+        ORDER BY SUM(1.0 / d.df) DESC, t.docid
+      ) <= ${TOKEN_HIT_LIMIT}
+    ),
+    named AS (
+      SELECT th.candidate_index, ns.enterprise_number, ns.name, ns.search_text
+      FROM token_hits th
+      INNER JOIN fts_main_name_search.docs doc ON doc.docid = th.docid
+      INNER JOIN name_search ns ON ns.id = doc.name
+
+      UNION
+
+      SELECT c.candidate_index, ns.enterprise_number, ns.name, ns.search_text
+      FROM candidates c
+      INNER JOIN name_search ns ON ns.enterprise_number = c.enterprise_number
+      WHERE c.name <> ''
+    ),
+    hits AS (
+      SELECT
+        n.candidate_index,
+        n.enterprise_number,
+        n.name,
+        jaro_winkler_similarity(
+          trim(regexp_replace(regexp_replace(n.search_text, '${LEGAL_FORM_PATTERN}', ' ', 'g'), '\\s+', ' ', 'g')),
+          c.name
+        ) as name_similarity
+      FROM named n
+      INNER JOIN candidates c ON c.candidate_index = n.candidate_index
+
+      UNION ALL
+
+      -- Number only: no name to compare
+      SELECT candidate_index, enterprise_number, NULL, NULL
+      FROM candidates
+      WHERE name = '' AND enterprise_number IS NOT NULL
+    ),
+    pool AS (
+      SELECT
+        h.candidate_index,
+        h.enterprise_number,
+        arg_max(h.name, h.name_similarity) as name,
+        MAX(h.name_similarity) as name_similarity
+      FROM hits h
+      INNER JOIN candidates c ON c.candidate_index = h.candidate_index
+      GROUP BY h.candidate_index, h.enterprise_number
+      QUALIFY ROW_NUMBER() OVER (
+        PARTITION BY h.candidate_index
+        ORDER BY bool_or(h.enterprise_number = c.enterprise_number) DESC, MAX(h.name_similarity) DESC NULLS LAST
+      ) <= ${NAME_POOL_SIZE}
+    )
+    SELECT
+      pool.candidate_index,
+      pool.enterprise_number,
+      COALESCE(pool.name, e.primary_name, pool.enterprise_number) as name,
+      pool.name_similarity,
+      e.status,
+      a.zipcode,
+      a.municipality_nl,
+      a.municipality_fr
+    FROM pool
+    INNER JOIN enterprises_current e ON e.enterprise_number = pool.enterprise_number
+    LEFT JOIN addresses_current a
+      ON a.entity_number = pool.enterprise_number
+      AND a.type_of_address = 'REGO'
+  `, {
+    candidate_indexes: listValue(names.map((_, index) => index)),
+    names: listValue(names),
+    enterprise_numbers: listValue(enterpriseNumbers.map((number) => number ?? '')),
+  })
+
+  return rows.map((row) => ({ ...row, candidate_index: Number(row.candidate_index) }))
+}
+
+/**
+ * Score one enterprise against a candidate
+ */
+function scoreMatch(
+  row: PoolRow,
+  candidate: MatchCandidate,
+  enterpriseNumber: string | null
+): EnterpriseMatch {
+  const matchedOn: MatchSignal[] = []
+  let weighted = 0
+  let totalWeight = 0
+
+  const nameSimilarity = row.name_similarity === null ? null : Number(row.name_similarity)
+  if (candidate.name && nameSimilarity !== null) {
+    weighted += SIGNAL_WEIGHTS.name * nameSimilarity
+    totalWeight += SIGNAL_WEIGHTS.name
+    if (nameSimilarity >= MIN_NAME_SIMILARITY) matchedOn.push('name')
+  }
+
+  if (candidate.zipcode) {
+    const zipMatch = row.zipcode !== null && row.zipcode.trim() === candidate.zipcode.trim()
+    weighted += zipMatch ? SIGNAL_WEIGHTS.zipcode : 0
+    totalWeight += SIGNAL_WEIGHTS.zipcode
+    if (zipMatch) matchedOn.push('zipcode')
+  }
+
+  if (candidate.municipality) {
+    const wanted = foldSearchText(candidate.municipality)
+    const municipalityMatch = [row.municipality_nl, row.municipality_fr]
+      .some((m) => m !== null && foldSearchText(m) === wanted)
+    weighted += municipalityMatch ? SIGNAL_WEIGHTS.municipality : 0
+    totalWeight += SIGNAL_WEIGHTS.municipality
+    if (municipalityMatch) matchedOn.push('municipality')
+  }
+
+  let confidence = totalWeight > 0 ? weighted / totalWeight : 0
+
+  // A valid, existing number is decisive; other signals only qualify it
+  if (enterpriseNumber && row.enterprise_number === enterpriseNumber) {
+    matchedOn.unshift('vat_number')
+    confidence = totalWeight > 0 ? 0.8 + 0.2 * confidence : 1
+  }
+
+  if (row.status !== 'AC') {
+    confidence *= INACTIVE_PENALTY
+  }
+
+  return {
+    enterpriseNumber: row.enterprise_number,
+    name: row.name,
+    status: row.status,
+    zipcode: row.zipcode,
+    municipality: row.municipality_nl ?? row.municipality_fr,
+    confidence: Math.round(confidence * 1000) / 1000,
+    matchedOn,
+  }
+}
+
+/**
+ * Resolve a batch of candidate records to ranked enterprise matches
+ *
+ * All candidates are resolved in one query; results keep the input order.
+ */
+export async function matchEnterprises(
+  connection: DuckDBConnection,
+  candidates: MatchCandidate[],
+  options: MatchOptions = {}
+): Promise<CandidateMatchResult[]> {
+  const maxMatches = options.maxMatches ?? 3
+  const minConfidence = options.minConfidence ?? 0.5
+
+  if (candidates.length === 0) {
+    return []
+  }
+
+  await executeStatement(connection, 'LOAD fts')
+
+  const enterpriseNumbers = candidates.map((candidate) =>
+    candidate.vatNumber ? parseEnterpriseNumber(candidate.vatNumber) : null
+  )
+  const names = candidates.map((candidate) => (candidate.name ? normalizeCompanyName(candidate.name) : ''))
+
+  const pools = new Map<number, PoolRow[]>()
+  for (const row of await fetchCandidatePools(connection, names, enterpriseNumbers)) {
+    const pool = pools.get(row.candidate_index)
+    if (pool) {
+      pool.push(row)
+    } else {
+      pools.set(row.candidate_index, [row])
+    }
+  }
+
+  const results: CandidateMatchResult[] = candidates.map((candidate, index) => {
+    const enterpriseNumber = enterpriseNumbers[index]
+
+    // One row per enterprise (an enterprise has at most one current REGO address)
+    const byEnterprise = new Map<string, EnterpriseMatch>()
+    for (const row of pools.get(index) ?? []) {
+      if (byEnterprise.has(row.enterprise_number)) continue
+      byEnterprise.set(row.enterprise_number, scoreMatch(row, candidate, enterpriseNumber))
+    }
+
+    const matches = Array.from(byEnterprise.values())
+      .filter((match) => match.confidence >= minConfidence)
+      .sort((a, b) => b.confidence - a.confidence || a.enterpriseNumber.localeCompare(b.enterpriseNumber))
+      .slice(0, maxMatches)
+
+    return {
+      reference: candidate.reference ?? null,
+      candidate,
+      matches,
+    }
+  })
+
+  return results
+}
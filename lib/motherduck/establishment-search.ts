@@ -0,0 +1,194 @@
+/**
+ * Establishment search
+ *
+ * Establishment units have their own numbers, names and addresses (BAET),
+ * none of which are visible to the enterprise search. This search matches
+ * them directly and links every hit to its parent enterprise:
+ * - A complete establishment number (validated with the modulo 97 check) is
+ *   an exact lookup; other numeric queries match number fragments and postal
+ *   codes
+ * - Text queries match establishment names (denominations and commercial
+ *   name) and the establishment address, accent- and case-insensitive
+ *
+ * Works for current and point-in-time searches (see buildTemporalJoinQuery).
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, type QueryParamValue } from './index'
+import {
+  buildTemporalJoinQuery,
+  buildTemporalSource,
+  type TemporalFilter,
+  type TemporalJoinQueryOptions,
+} from './temporal-query'
+import { foldSearchText, foldSearchTextSql } from './name-search'
+import { formatEstablishmentNumber, validateEstablishmentNumber } from '@/lib/validation'
+
+/**
+ * Establishment matched by a search
+ */
+export interface EstablishmentSearchMatch {
+  establishmentNumber: string
+  enterpriseNumber: string
+  enterpriseName: string
+  enterpriseStatus: string
+  /** Commercial name of the establishment, if it has one */
+  commercialName: string | null
+  startDate: string | null
+  /** Establishment (BAET) address */
+  address: string | null
+  zipcode: string | null
+  municipality: string | null
+  /** Which part of the establishment matched the query */
+  matchedOn: 'number' | 'name' | 'address'
+  isCurrent: boolean
+}
+
+/**
+ * Parse a complete, valid establishment number (with or without dots)
+ * Returns null for anything else
+ */
+export function parseEstablishmentNumber(query: string): string | null {
+  const digits = query.replace(/[.\s]/g, '')
+  if (!/^\d{10}$/.test(digits)) {
+    return null
+  }
+  const formatted = formatEstablishmentNumber(digits)
+  return validateEstablishmentNumber(formatted) ? formatted : null
+}
+
+/**
+ * Search establishments by number, name or address
+ *
+ * @param conditions - Extra conditions on the parent enterprise (alias e),
+ *   e.g. structured search filters; their parameters go in `params`
+ */
+export async function searchEstablishments(
+  connection: DuckDBConnection,
+  query: string,
+  filter: TemporalFilter,
+  options: {
+    limit: number
+    offset: number
+    conditions?: string[]
+    params?: Record<string, QueryParamValue>
+  }
+): Promise<{ matches: EstablishmentSearchMatch[]; total: number }> {
+  const params: Record<string, QueryParamValue> = { ...options.params }
+  const establishmentNumber = parseEstablishmentNumber(query)
+
+  let numberMatch = 'FALSE'
+  let nameMatch = 'FALSE'
+  let addressMatch = 'FALSE'
+
+  if (establishmentNumber) {
+    params.establishment_number = establishmentNumber
+    numberMatch = 'est.establishment_number = $establishment_number'
+  } else if (/^[\d.\s]+$/.test(query)) {
+    // Number fragment or postal code
+    params.clean_number = query.replace(/[.\s]/g, '')
+    numberMatch = `contains(REPLACE(est.establishment_number, '.', ''), $clean_number)`
+    addressMatch = 'a.zipcode = $clean_number'
+  } else {
+    const term = foldSearchText(query)
+    if (!term) {
+      return { matches: [], total: 0 }
+    }
+    params.search_term = term
+    nameMatch = `(
+      contains(${foldSearchTextSql('est.commercial_name')}, $search_term)
+      OR EXISTS (
+        SELECT 1 FROM ${buildTemporalSource('denominations', filter)} d
+        WHERE d.entity_number = est.establishment_number
+          AND contains(${foldSearchTextSql('d.denomination')}, $search_term)
+      )
+    )`
+    addressMatch = `contains(${foldSearchTextSql(
+      `concat_ws(' ', a.street_nl, a.street_fr, a.house_number, a.zipcode, a.municipality_nl, a.municipality_fr)`
+    )}, $search_term)`
+  }
+
+  const where = [`(${numberMatch} OR ${nameMatch} OR ${addressMatch})`, ...(options.conditions || [])]
+    .join(' AND ')
+
+  const base: Omit<TemporalJoinQueryOptions, 'select'> = {
+    from: { table: 'establishments', alias: 'est' },
+    joins: [
+      {
+        table: 'enterprises',
+        alias: 'e',
+        type: 'INNER',
+        on: 'e.enterprise_number = est.enterprise_number',
+      },
+      {
+        table: 'addresses',
+        alias: 'a',
+        on: 'a.entity_number = est.establishment_number',
+        where: `type_of_address = 'BAET'`,
+      },
+    ],
+    where,
+  }
+
+  const searchQuery = buildTemporalJoinQuery({
+    ...base,
+    select: `
+      est.establishment_number,
+      est.enterprise_number,
+      e.primary_name as enterprise_name,
+      e.status as enterprise_status,
+      est.commercial_name,
+      est.start_date,
+      nullif(concat_ws(' ', COALESCE(a.street_nl, a.street_fr), a.house_number), '') as address,
+      a.zipcode,
+      COALESCE(a.municipality_nl, a.municipality_fr) as municipality,
+      CASE
+        WHEN ${numberMatch} THEN 'number'
+        WHEN ${nameMatch} THEN 'name'
+        ELSE 'address'
+      END as matched_on,
+      est._is_current`,
+    orderBy: 'est.establishment_number',
+    limit: options.limit,
+    offset: options.offset,
+  }, filter)
+
+  const countQuery = buildTemporalJoinQuery({
+    ...base,
+    select: 'COUNT(*) as count',
+  }, filter)
+
+  const [rows, countResult] = await Promise.all([
+    executeQuery<{
+      establishment_number: string
+      enterprise_number: string
+      enterprise_name: string
+      enterprise_status: string
+      commercial_name: string | null
+      start_date: string | null
+      address: string | null
+      zipcode: string | null
+      municipality: string | null
+      matched_on: EstablishmentSearchMatch['matchedOn']
+      _is_current: boolean
+    }>(connection, searchQuery.sql, { ...searchQuery.params, ...params }),
+    executeQuery<{ count: bigint | number }>(connection, countQuery.sql, { ...countQuery.params, ...params }),
+  ])
+
+  return {
+    matches: rows.map((row) => ({
+      establishmentNumber: row.establishment_number,
+      enterpriseNumber: row.enterprise_number,
+      enterpriseName: row.enterprise_name,
+      enterpriseStatus: row.enterprise_status,
+      commercialName: row.commercial_name,
+      startDate: row.start_date,
+      address: row.address,
+      zipcode: row.zipcode,
+      municipality: row.municipality,
+      matchedOn: row.matched_on,
+      isCurrent: row._is_current,
+    })),
+    total: Number(countResult[0]?.count || 0),
+  }
+}
@@ -24,6 +24,45 @@ export interface AffectedEnterprisesResult {
   totalPages: number
 }
 
+/**
+ * Tables whose versions are attributed to an enterprise, with the column
+ * holding its number. Child tables only count rows of the enterprise itself.
+ */
+const AFFECTED_TABLES: Array<{ table: string; entityColumn: string; enterpriseOnly: boolean }> = [
+  { table: 'enterprises', entityColumn: 'enterprise_number', enterpriseOnly: false },
+  { table: 'establishments', entityColumn: 'enterprise_number', enterpriseOnly: false },
+  { table: 'denominations', entityColumn: 'entity_number', enterpriseOnly: true },
+  { table: 'addresses', entityColumn: 'entity_number', enterpriseOnly: true },
+  { table: 'activities', entityColumn: 'entity_number', enterpriseOnly: true },
+  { table: 'contacts', entityColumn: 'entity_number', enterpriseOnly: true },
+]
+
+/**
+ * Records written or deleted by the selected extracts, one row per record
+ * version: entity_number, table_name, change_type ('delete' or
+ * 'insert_or_update') and change_count (1)
+ *
+ * @param extractCondition - Condition selecting the extracts, applied to
+ *   _extract_number and _deleted_at_extract (e.g. column = $extract_number)
+ */
+export function buildAffectedRecordsQuery(extractCondition: (column: string) => string): string {
+  return AFFECTED_TABLES.map(({ table, entityColumn, enterpriseOnly }) => `
+      SELECT
+        ${entityColumn} as entity_number,
+        '${table}' as table_name,
+        CASE
+          WHEN ${extractCondition('_deleted_at_extract')} THEN 'delete'
+          ELSE 'insert_or_update'
+        END as change_type,
+        1 as change_count
+      FROM ${table}
+      WHERE (${extractCondition('_extract_number')} OR ${extractCondition('_deleted_at_extract')})${enterpriseOnly ? `
+        AND entity_type = 'enterprise'` : ''}`).join(`
+
+      UNION ALL
+`)
+}
+
 /**
  * Get enterprises affected by a specific extract/import job
  * Queries temporal data across all tables to find changes
@@ -40,91 +79,7 @@ export async function getAffectedEnterprises(
   // We'll use window functions to avoid running the CTE twice
   const query = `
     WITH affected_records AS (
-      -- Enterprises table
-      SELECT
-        enterprise_number as entity_number,
-        'enterprises' as table_name,
-        CASE
-          WHEN _deleted_at_extract = ${extractNumber} THEN 'delete'
-          WHEN _extract_number = ${extractNumber} THEN 'insert_or_update'
-        END as change_type,
-        1 as change_count
-      FROM enterprises
-      WHERE _extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber}
-
-      UNION ALL
-
-      -- Establishments table
-      SELECT
-        enterprise_number as entity_number,
-        'establishments' as table_name,
-        CASE
-          WHEN _deleted_at_extract = ${extractNumber} THEN 'delete'
-          WHEN _extract_number = ${extractNumber} THEN 'insert_or_update'
-        END as change_type,
-        1 as change_count
-      FROM establishments
-      WHERE _extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber}
-
-      UNION ALL
-
-      -- Denominations table
-      SELECT
-        entity_number,
-        'denominations' as table_name,
-        CASE
-          WHEN _deleted_at_extract = ${extractNumber} THEN 'delete'
-          WHEN _extract_number = ${extractNumber} THEN 'insert_or_update'
-        END as change_type,
-        1 as change_count
-      FROM denominations
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
-        AND entity_type = 'enterprise'
-
-      UNION ALL
-
-      -- Addresses table
-      SELECT
-        entity_number,
-        'addresses' as table_name,
-        CASE
-          WHEN _deleted_at_extract = ${extractNumber} THEN 'delete'
-          WHEN _extract_number = ${extractNumber} THEN 'insert_or_update'
-        END as change_type,
-        1 as change_count
-      FROM addresses
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
-        AND entity_type = 'enterprise'
-
-      UNION ALL
-
-      -- Activities table
-      SELECT
-        entity_number,
-        'activities' as table_name,
-        CASE
-          WHEN _deleted_at_extract = ${extractNumber} THEN 'delete'
-          WHEN _extract_number = ${extractNumber} THEN 'insert_or_update'
-        END as change_type,
-        1 as change_count
-      FROM activities
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
-        AND entity_type = 'enterprise'
-
-      UNION ALL
-
-      -- Contacts table
-      SELECT
-        entity_number,
-        'contacts' as table_name,
-        CASE
-          WHEN _deleted_at_extract = ${extractNumber} THEN 'delete'
-          WHEN _extract_number = ${extractNumber} THEN 'insert_or_update'
-        END as change_type,
-        1 as change_count
-      FROM contacts
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
-        AND entity_type = 'enterprise'
+      ${buildAffectedRecordsQuery((column) => `${column} = $extract_number`)}
     ),
 
     -- Group by enterprise to compute aggregates
@@ -152,7 +107,7 @@ export async function getAffectedEnterprises(
           WHEN NOT EXISTS (
             SELECT 1 FROM enterprises e
             WHERE e.enterprise_number = ec.entity_number
-              AND e._extract_number < ${extractNumber}
+              AND e._extract_number < $extract_number
           ) THEN 'insert'
           -- Otherwise it's an update
           ELSE 'update'
@@ -197,7 +152,7 @@ export async function getAffectedEnterprises(
     affected_tables_json,
     total_count
   FROM paginated
-  WHERE row_num > ${offset} AND row_num <= ${offset + limit}
+  WHERE row_num > $offset AND row_num <= $offset + $limit
   `
 
   const results = await executeQuery<{
@@ -206,7 +161,7 @@ export async function getAffectedEnterprises(
     primary_name: string
     affected_tables_json: Array<{ tableName: string; changeCount: number }>
     total_count: number
-  }>(connection, query)
+  }>(connection, query, { extract_number: extractNumber, offset, limit })
 
   const total = results.length > 0 ? Number(results[0].total_count) : 0
   const totalPages = Math.ceil(total / limit)
@@ -264,46 +219,50 @@ export async function getImportJobSummary(
     WITH affected_records AS (
       SELECT 'enterprises' as table_name, COUNT(*) as count
       FROM enterprises
-      WHERE _extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber}
+      WHERE _extract_number = $extract_number OR _deleted_at_extract = $extract_number
 
       UNION ALL
 
       SELECT 'establishments', COUNT(*)
       FROM establishments
-      WHERE _extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber}
+      WHERE _extract_number = $extract_number OR _deleted_at_extract = $extract_number
 
       UNION ALL
 
       SELECT 'denominations', COUNT(*)
       FROM denominations
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
+      WHERE (_extract_number = $extract_number OR _deleted_at_extract = $extract_number)
         AND entity_type = 'enterprise'
 
       UNION ALL
 
       SELECT 'addresses', COUNT(*)
       FROM addresses
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
+      WHERE (_extract_number = $extract_number OR _deleted_at_extract = $extract_number)
         AND entity_type = 'enterprise'
 
       UNION ALL
 
       SELECT 'activities', COUNT(*)
       FROM activities
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
+      WHERE (_extract_number = $extract_number OR _deleted_at_extract = $extract_number)
         AND entity_type = 'enterprise'
 
       UNION ALL
 
       SELECT 'contacts', COUNT(*)
       FROM contacts
-      WHERE (_extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber})
+      WHERE (_extract_number = $extract_number OR _deleted_at_extract = $extract_number)
         AND entity_type = 'enterprise'
     )
     SELECT table_name, count FROM affected_records
   `
 
-  const results = await executeQuery<{ table_name: string; count: number }>(connection, query)
+  const results = await executeQuery<{ table_name: string; count: number }>(
+    connection,
+    query,
+    { extract_number: extractNumber }
+  )
 
   const tableBreakdown: Record<string, number> = {}
   for (const row of results) {
@@ -315,18 +274,18 @@ export async function getImportJobSummary(
     WITH all_affected_enterprises AS (
       SELECT DISTINCT enterprise_number
       FROM enterprises
-      WHERE _extract_number = ${extractNumber} OR _deleted_at_extract = ${extractNumber}
+      WHERE _extract_number = $extract_number OR _deleted_at_extract = $extract_number
     ),
     change_types AS (
       SELECT
         CASE
           WHEN EXISTS(SELECT 1 FROM enterprises e
                      WHERE e.enterprise_number = ae.enterprise_number
-                       AND e._deleted_at_extract = ${extractNumber})
+                       AND e._deleted_at_extract = $extract_number)
             THEN 'delete'
           WHEN NOT EXISTS(SELECT 1 FROM enterprises e
                          WHERE e.enterprise_number = ae.enterprise_number
-                           AND e._extract_number < ${extractNumber})
+                           AND e._extract_number < $extract_number)
             THEN 'insert'
           ELSE 'update'
         END as change_type
@@ -341,7 +300,8 @@ export async function getImportJobSummary(
 
   const changeTypeResults = await executeQuery<{ change_type: string; count: number }>(
     connection,
-    changeTypeQuery
+    changeTypeQuery,
+    { extract_number: extractNumber }
   )
 
   let insertCount = 0
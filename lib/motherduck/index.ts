@@ -6,9 +6,72 @@
  */
 
 import { DuckDBInstance } from '@duckdb/node-api'
-import type { DuckDBConnection } from '@duckdb/node-api'
+import type { DuckDBConnection, DuckDBValue } from '@duckdb/node-api'
 import { MotherduckError } from '@/lib/errors'
 
+/**
+ * Value bound to a query parameter
+ * Use listValue() from @duckdb/node-api for IN-lists: `col IN (SELECT UNNEST($values))`
+ */
+export type QueryParamValue = DuckDBValue
+
+/**
+ * Bound query parameters
+ * - Named: { enterprise_number: '0123.456.789' } for `$enterprise_number`
+ * - Positional: ['0123.456.789'] for `$1` / `?`
+ */
+export type QueryParams = Record<string, QueryParamValue> | QueryParamValue[]
+
+/**
+ * Keep only the named parameters the statement references
+ *
+ * DuckDB rejects bindings for unknown names. Dropping them lets callers pass
+ * shared parameter sets (e.g. temporalParams()) without tracking which
+ * fragments ended up in the final SQL.
+ */
+function bindableParams(sql: string, params?: QueryParams): QueryParams | undefined {
+  if (!params || Array.isArray(params)) {
+    return params
+  }
+
+  const used: Record<string, QueryParamValue> = {}
+  for (const [name, value] of Object.entries(params)) {
+    if (new RegExp(`\\$${name}(?![A-Za-z0-9_])`).test(sql)) {
+      used[name] = value
+    }
+  }
+  return Object.keys(used).length > 0 ? used : undefined
+}
+
+/**
+ * Last statement queued on each connection
+ *
+ * Statements with bound parameters are prepared on the connection, which
+ * fails intermittently when several run at once ("Failed to execute prepared
+ * statement"). Callers may still issue queries in parallel (Promise.all);
+ * they are run one after another here.
+ */
+const connectionQueues = new WeakMap<DuckDBConnection, Promise<unknown>>()
+
+/**
+ * Run a task once all statements queued before it on the connection are done
+ */
+function runQueued<T>(connection: DuckDBConnection, task: () => Promise<T>): Promise<T> {
+  const previous = connectionQueues.get(connection) ?? Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  connectionQueues.set(connection, next)
+  return next
+}
+
+/**
+ * Quote an identifier (table or column name) for use in SQL
+ * Identifiers cannot be bound as parameters - use this for names that
+ * are not compile-time constants (e.g. export table names read from the database)
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
 /**
  * Motherduck connection configuration
  */
@@ -85,14 +148,19 @@ export async function connectMotherduck(
 
 /**
  * Execute a SQL query
+ *
+ * @param params - Bound parameters; never interpolate user input into sql
  */
 export async function executeQuery<T = unknown>(
   connection: DuckDBConnection,
-  sql: string
+  sql: string,
+  params?: QueryParams
 ): Promise<T[]> {
   try {
-    const result = await connection.run(sql)
-    const chunks = await result.fetchAllChunks()
+    const { result, chunks } = await runQueued(connection, async () => {
+      const result = await connection.run(sql, bindableParams(sql, params))
+      return { result, chunks: await result.fetchAllChunks() }
+    })
 
     // Get column names from the result
     const columnNames = result.columnNames()
@@ -123,13 +191,16 @@ export async function executeQuery<T = unknown>(
 
 /**
  * Execute a SQL statement (no results expected)
+ *
+ * @param params - Bound parameters; never interpolate user input into sql
  */
 export async function executeStatement(
   connection: DuckDBConnection,
-  sql: string
+  sql: string,
+  params?: QueryParams
 ): Promise<void> {
   try {
-    await connection.run(sql)
+    await runQueued(connection, () => connection.run(sql, bindableParams(sql, params)))
   } catch (error) {
     throw new MotherduckError(
       `Statement execution failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -143,13 +214,17 @@ export async function executeStatement(
  */
 export async function executeTransaction(
   connection: DuckDBConnection,
-  statements: string[]
+  statements: Array<string | { sql: string; params?: QueryParams }>
 ): Promise<void> {
   await executeStatement(connection, 'BEGIN TRANSACTION')
 
   try {
-    for (const sql of statements) {
-      await executeStatement(connection, sql)
+    for (const statement of statements) {
+      if (typeof statement === 'string') {
+        await executeStatement(connection, statement)
+      } else {
+        await executeStatement(connection, statement.sql, statement.params)
+      }
     }
     await executeStatement(connection, 'COMMIT')
   } catch (error) {
@@ -163,10 +238,11 @@ export async function executeTransaction(
  */
 export async function* executeQueryStreaming<T = unknown>(
   connection: DuckDBConnection,
-  sql: string
+  sql: string,
+  params?: QueryParams
 ): AsyncGenerator<T[], void, unknown> {
   try {
-    const result = await connection.run(sql)
+    const result = await runQueued(connection, () => connection.run(sql, bindableParams(sql, params)))
     const columnNames = result.columnNames()
 
     // Fetch chunks one at a time instead of all at once
@@ -258,7 +334,7 @@ export async function getTableCount(
 ): Promise<number> {
   const result = await executeQuery<{ count: number }>(
     connection,
-    `SELECT COUNT(*) as count FROM ${tableName}`
+    `SELECT COUNT(*) as count FROM ${quoteIdentifier(tableName)}`
   )
   return result[0]?.count || 0
 }
@@ -0,0 +1,228 @@
+/**
+ * Full-text name search
+ *
+ * Enterprise names are searched through the name_search table, a flattened
+ * copy of all current denominations (every language) and establishment
+ * commercial names, with a DuckDB FTS index on top. Both the table and the
+ * index are rebuilt after every import (see finalizeImport).
+ *
+ * Matching combines BM25 over accent-folded tokens with Jaro-Winkler
+ * similarity on the whole name for typo tolerance. Legal names (type 001)
+ * and active enterprises rank higher.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeStatement, executeTransaction } from './index'
+import type { TemporalQuery } from './temporal-query'
+
+/** Minimum whole-name similarity for a match without a token hit */
+const MIN_SIMILARITY = 0.9
+
+/** Score boost for legal names (denomination type 001) */
+const LEGAL_NAME_BOOST = 1.5
+
+/** Score boost for active enterprises (status AC) */
+const ACTIVE_BOOST = 1.25
+
+/**
+ * Fold a name the way name_search.search_text is folded in SQL:
+ * lowercase, accents stripped, non-alphanumerics collapsed to single spaces
+ */
+export function foldSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * SQL counterpart of foldSearchText()
+ */
+export function foldSearchTextSql(column: string): string {
+  return `trim(regexp_replace(lower(strip_accents(${column})), '[^a-z0-9]+', ' ', 'g'))`
+}
+
+/**
+ * Rebuild the name_search table and its full-text index from current data
+ *
+ * @returns Number of names indexed
+ */
+export async function refreshNameSearchIndex(db: DuckDBConnection): Promise<number> {
+  await executeTransaction(db, [
+    'DELETE FROM name_search',
+    `INSERT INTO name_search (
+      id, enterprise_number, entity_number, source,
+      denomination_type, language, name, search_text, is_active
+    )
+    SELECT
+      d.id,
+      e.enterprise_number,
+      d.entity_number,
+      'denomination',
+      d.denomination_type,
+      d.language,
+      d.denomination,
+      ${foldSearchTextSql('d.denomination')},
+      e.status = 'AC'
+    FROM denominations_current d
+    LEFT JOIN establishments_current est
+      ON d.entity_type = 'establishment'
+      AND est.establishment_number = d.entity_number
+    INNER JOIN enterprises_current e
+      ON e.enterprise_number = COALESCE(est.enterprise_number, d.entity_number)
+    WHERE d.denomination IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      'est_' || est.establishment_number,
+      e.enterprise_number,
+      est.establishment_number,
+      'commercial_name',
+      NULL,
+      est.commercial_name_language,
+      est.commercial_name,
+      ${foldSearchTextSql('est.commercial_name')},
+      e.status = 'AC'
+    FROM establishments_current est
+    INNER JOIN enterprises_current e ON e.enterprise_number = est.enterprise_number
+    WHERE est.commercial_name IS NOT NULL`,
+  ])
+
+  // The FTS index is a snapshot of the table - recreate it after every rebuild.
+  // No stemming or stopwords: names are multilingual and short.
+  await executeStatement(db, 'INSTALL fts')
+  await executeStatement(db, 'LOAD fts')
+  await executeStatement(db, `
+    PRAGMA create_fts_index(
+      'name_search', 'id', 'search_text',
+      stemmer = 'none',
+      stopwords = 'none',
+      ignore = '[^a-z0-9]+',
+      strip_accents = 1,
+      lower = 1,
+      overwrite = 1
+    )
+  `)
+
+  const result = await executeQuery<{ count: bigint | number }>(
+    db,
+    'SELECT COUNT(*) as count FROM name_search'
+  )
+  return Number(result[0]?.count || 0)
+}
+
+/**
+ * Enterprise matched by a name search
+ */
+export interface NameSearchMatch {
+  enterpriseNumber: string
+  /** Best-scoring name of the enterprise for this query */
+  matchedName: string
+  /** Relevance score (higher is better; only comparable within one query) */
+  score: number
+}
+
+/**
+ * Search current enterprise names, ranked by relevance
+ *
+ * Each enterprise appears once, scored by its best-matching name.
+ *
+ * @param query - Free-text query (accents and case are ignored)
+ * @param options.restrictTo - Query selecting the enterprise_number values
+ *   eligible for matching (e.g. structured search filters)
+ */
+export async function searchEnterpriseNames(
+  connection: DuckDBConnection,
+  query: string,
+  options: { limit: number; offset: number; restrictTo?: TemporalQuery }
+): Promise<{ matches: NameSearchMatch[]; total: number }> {
+  const foldedQuery = foldSearchText(query)
+  if (!foldedQuery) {
+    return { matches: [], total: 0 }
+  }
+
+  await executeStatement(connection, 'LOAD fts')
+
+  const rankedSql = `
+    WITH candidates AS (
+      SELECT
+        enterprise_number,
+        name,
+        denomination_type,
+        is_active,
+        fts_main_name_search.match_bm25(id, $query) as bm25,
+        jaro_winkler_similarity(search_text, $query) as similarity
+      FROM name_search
+      ${options.restrictTo ? `WHERE enterprise_number IN (${options.restrictTo.sql})` : ''}
+    ),
+    scored AS (
+      SELECT
+        enterprise_number,
+        name,
+        (
+          COALESCE(bm25, 0)
+          + CASE WHEN similarity >= ${MIN_SIMILARITY} THEN similarity ELSE 0 END
+        )
+          * CASE WHEN denomination_type = '001' THEN ${LEGAL_NAME_BOOST} ELSE 1 END
+          * CASE WHEN is_active THEN ${ACTIVE_BOOST} ELSE 1 END as score
+      FROM candidates
+      WHERE bm25 IS NOT NULL OR similarity >= ${MIN_SIMILARITY}
+    ),
+    ranked AS (
+      SELECT
+        enterprise_number,
+        arg_max(name, score) as matched_name,
+        MAX(score) as score
+      FROM scored
+      GROUP BY enterprise_number
+    )`
+
+  const [rows, countResult] = await Promise.all([
+    executeQuery<{ enterprise_number: string; matched_name: string; score: number }>(
+      connection,
+      `${rankedSql}
+      SELECT enterprise_number, matched_name, score
+      FROM ranked
+      ORDER BY score DESC, enterprise_number
+      LIMIT $limit OFFSET $offset`,
+      { ...options.restrictTo?.params, query: foldedQuery, limit: options.limit, offset: options.offset }
+    ),
+    executeQuery<{ count: bigint | number }>(
+      connection,
+      `${rankedSql}
+      SELECT COUNT(*) as count FROM ranked`,
+      { ...options.restrictTo?.params, query: foldedQuery }
+    ),
+  ])
+
+  return {
+    matches: rows.map((row) => ({
+      enterpriseNumber: row.enterprise_number,
+      matchedName: row.matched_name,
+      score: Number(row.score),
+    })),
+    total: Number(countResult[0]?.count || 0),
+  }
+}
+
+/**
+ * Condition matching the same enterprises as searchEnterpriseNames(), unranked
+ *
+ * For queries that need the whole match set (e.g. facet counts) rather than
+ * a page of it. Requires the fts extension to be loaded on the connection.
+ *
+ * @param column - Enterprise number column to test (e.g. 'e.enterprise_number')
+ */
+export function buildNameMatchCondition(column: string, query: string): TemporalQuery {
+  return {
+    sql: `${column} IN (
+      SELECT enterprise_number FROM name_search
+      WHERE fts_main_name_search.match_bm25(id, $name_query) IS NOT NULL
+        OR jaro_winkler_similarity(search_text, $name_query) >= ${MIN_SIMILARITY}
+    )`,
+    params: { name_query: foldSearchText(query) },
+  }
+}
@@ -0,0 +1,461 @@
+/**
+ * Structured search filters and facet counts
+ *
+ * Filters narrow an enterprise search independently of the text query and
+ * can be combined freely. Conditions on child tables (activities, registered
+ * office address) are EXISTS subqueries over their temporal source, so they
+ * never multiply result rows and work for current and point-in-time searches
+ * alike. All activity conditions must hold for the same activity.
+ *
+ * Facet counts follow the usual convention: each facet is counted with every
+ * filter applied except its own, so the counts show what selecting another
+ * value would return.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { listValue } from '@duckdb/node-api'
+import { executeQuery, type QueryParamValue } from './index'
+import {
+  assertValidSnapshotDate,
+  buildTemporalJoinQuery,
+  buildTemporalSource,
+  type TemporalFilter,
+  type TemporalJoin,
+} from './temporal-query'
+import { BELGIAN_PROVINCES, generateProvinceSQLCase } from '@/lib/config/provinces'
+import { ValidationError } from '@/lib/errors'
+
+export interface SearchFilters {
+  /** Juridical form codes (e.g. '014', '610'); any of them matches */
+  juridicalForms?: string[]
+  status?: 'AC' | 'ST'
+  /** Type of enterprise: 1=natural person, 2=legal person */
+  entityType?: '1' | '2'
+  /** NACE code prefix, dots ignored (e.g. '62' or '62.01') */
+  naceCode?: string
+  naceVersion?: '2003' | '2008' | '2025'
+  /** Activity group code (001=VAT ... 007=Subsidized education) */
+  activityGroup?: string
+  /** Registered office postal code range (inclusive) */
+  zipcodeFrom?: number
+  zipcodeTo?: number
+  /** Province name from BELGIAN_PROVINCES */
+  province?: string
+  /** Start date range (YYYY-MM-DD, inclusive) */
+  startDateFrom?: string
+  startDateTo?: string
+}
+
+export type SearchFacet =
+  | 'juridicalForm'
+  | 'status'
+  | 'entityType'
+  | 'nace'
+  | 'naceVersion'
+  | 'activityGroup'
+  | 'province'
+  | 'startYear'
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+export type SearchFacets = Record<SearchFacet, FacetCount[]>
+
+/** Values returned per facet */
+const MAX_FACET_VALUES = 100
+
+const NACE_VERSIONS = ['2003', '2008', '2025']
+
+/**
+ * Filters a facet ignores when counting its own values
+ */
+const FACET_FILTER_KEYS: Record<SearchFacet, (keyof SearchFilters)[]> = {
+  juridicalForm: ['juridicalForms'],
+  status: ['status'],
+  entityType: ['entityType'],
+  nace: ['naceCode'],
+  naceVersion: ['naceVersion'],
+  activityGroup: ['activityGroup'],
+  province: ['zipcodeFrom', 'zipcodeTo', 'province'],
+  startYear: ['startDateFrom', 'startDateTo'],
+}
+
+/**
+ * Filters with the ones belonging to a facet removed
+ */
+function withoutFacetFilters(filters: SearchFilters, facet: SearchFacet): SearchFilters {
+  const skipped = FACET_FILTER_KEYS[facet]
+  return Object.fromEntries(
+    Object.entries(filters).filter(([key]) => !skipped.includes(key as keyof SearchFilters))
+  )
+}
+
+/**
+ * Parse structured filters from search parameters
+ *
+ * Recognised parameters: juridical_form (comma separated or repeated),
+ * status, entity_type, nace, nace_version, activity_group, zipcode_from,
+ * zipcode_to, province, start_date_from, start_date_to.
+ *
+ * @throws ValidationError when a value is malformed
+ */
+export function parseSearchFilters(searchParams: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {}
+  const get = (name: string) => searchParams.get(name)?.trim() || undefined
+
+  const juridicalForms = searchParams.getAll('juridical_form')
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean)
+  if (juridicalForms.length > 0) {
+    const invalid = juridicalForms.filter((code) => !/^\d{3}$/.test(code))
+    if (invalid.length > 0) {
+      throw new ValidationError('Invalid juridical form code, expected 3 digits', { juridicalForms: invalid })
+    }
+    filters.juridicalForms = juridicalForms
+  }
+
+  const status = get('status')?.toUpperCase()
+  if (status) {
+    if (status !== 'AC' && status !== 'ST') {
+      throw new ValidationError('Invalid status, expected AC or ST', { status })
+    }
+    filters.status = status
+  }
+
+  const entityType = get('entity_type')
+  if (entityType) {
+    if (entityType !== '1' && entityType !== '2') {
+      throw new ValidationError('Invalid entity type, expected 1 (natural person) or 2 (legal person)', { entityType })
+    }
+    filters.entityType = entityType
+  }
+
+  const naceCode = get('nace')?.replace(/\./g, '')
+  if (naceCode) {
+    if (!/^\d{1,7}$/.test(naceCode)) {
+      throw new ValidationError('Invalid NACE code prefix', { naceCode })
+    }
+    filters.naceCode = naceCode
+  }
+
+  const naceVersion = get('nace_version')
+  if (naceVersion) {
+    if (!NACE_VERSIONS.includes(naceVersion)) {
+      throw new ValidationError('Invalid NACE version, expected 2003, 2008 or 2025', { naceVersion })
+    }
+    filters.naceVersion = naceVersion as SearchFilters['naceVersion']
+  }
+
+  const activityGroup = get('activity_group')
+  if (activityGroup) {
+    if (!/^\d{3}$/.test(activityGroup)) {
+      throw new ValidationError('Invalid activity group, expected 3 digits', { activityGroup })
+    }
+    filters.activityGroup = activityGroup
+  }
+
+  for (const [param, key] of [['zipcode_from', 'zipcodeFrom'], ['zipcode_to', 'zipcodeTo']] as const) {
+    const value = get(param)
+    if (!value) continue
+    if (!/^\d{4}$/.test(value)) {
+      throw new ValidationError('Invalid postal code, expected 4 digits', { [key]: value })
+    }
+    filters[key] = parseInt(value)
+  }
+
+  const province = get('province')
+  if (province) {
+    if (!BELGIAN_PROVINCES.some((p) => p.name === province)) {
+      throw new ValidationError('Unknown province', {
+        province,
+        provinces: BELGIAN_PROVINCES.map((p) => p.name),
+      })
+    }
+    filters.province = province
+  }
+
+  for (const [param, key] of [['start_date_from', 'startDateFrom'], ['start_date_to', 'startDateTo']] as const) {
+    const value = get(param)
+    if (!value) continue
+    assertValidSnapshotDate(value)
+    filters[key] = value
+  }
+
+  return filters
+}
+
+/**
+ * Search parameter name of each filter (see parseSearchFilters)
+ */
+const FILTER_PARAMS: Record<keyof SearchFilters, string> = {
+  juridicalForms: 'juridical_form',
+  status: 'status',
+  entityType: 'entity_type',
+  naceCode: 'nace',
+  naceVersion: 'nace_version',
+  activityGroup: 'activity_group',
+  zipcodeFrom: 'zipcode_from',
+  zipcodeTo: 'zipcode_to',
+  province: 'province',
+  startDateFrom: 'start_date_from',
+  startDateTo: 'start_date_to',
+}
+
+/**
+ * Validate filters given as an object (e.g. stored in a JSON document)
+ *
+ * Applies the same rules as parseSearchFilters. Numbers are accepted for
+ * postal codes, arrays for juridical forms.
+ *
+ * @throws ValidationError when a key is unknown or a value is malformed
+ */
+export function validateSearchFilters(input: unknown): SearchFilters {
+  if (input === undefined || input === null) {
+    return {}
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Filters must be an object')
+  }
+
+  const searchParams = new URLSearchParams()
+  for (const [key, value] of Object.entries(input)) {
+    const param = FILTER_PARAMS[key as keyof SearchFilters]
+    if (!param) {
+      throw new ValidationError(`Unknown filter: ${key}`, { allowed: Object.keys(FILTER_PARAMS) })
+    }
+    if (value === undefined || value === null || value === '') continue
+
+    const values = Array.isArray(value) ? value : [value]
+    for (const item of values) {
+      if (typeof item !== 'string' && typeof item !== 'number') {
+        throw new ValidationError(`Invalid value for filter ${key}`, { [key]: value })
+      }
+      searchParams.append(param, String(item))
+    }
+  }
+
+  return parseSearchFilters(searchParams)
+}
+
+/**
+ * True when at least one filter is set
+ */
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Object.values(filters).some((value) => value !== undefined)
+}
+
+/**
+ * Conditions on the activity row aliased `alias`
+ */
+function activityConditions(filters: SearchFilters, alias: string): string[] {
+  const conditions: string[] = []
+  if (filters.naceCode) {
+    conditions.push(`starts_with(REPLACE(${alias}.nace_code, '.', ''), $filter_nace_code)`)
+  }
+  if (filters.naceVersion) {
+    conditions.push(`${alias}.nace_version = $filter_nace_version`)
+  }
+  if (filters.activityGroup) {
+    conditions.push(`${alias}.activity_group = $filter_activity_group`)
+  }
+  return conditions
+}
+
+/**
+ * Conditions on the registered office address row aliased `alias`
+ */
+function addressConditions(filters: SearchFilters, alias: string): string[] {
+  const zipcode = `TRY_CAST(${alias}.zipcode AS INTEGER)`
+  const conditions: string[] = []
+  if (filters.zipcodeFrom !== undefined) {
+    conditions.push(`${zipcode} >= $filter_zipcode_from`)
+  }
+  if (filters.zipcodeTo !== undefined) {
+    conditions.push(`${zipcode} <= $filter_zipcode_to`)
+  }
+  if (filters.province) {
+    // Ranges come from configuration, not from the request
+    const ranges = BELGIAN_PROVINCES.find((p) => p.name === filters.province)?.postalCodeRanges || []
+    conditions.push(`(${ranges.map((r) => `${zipcode} BETWEEN ${r.min} AND ${r.max}`).join(' OR ')})`)
+  }
+  return conditions
+}
+
+/**
+ * Parameters referenced by the conditions of buildSearchFilterConditions()
+ */
+function filterParams(filters: SearchFilters): Record<string, QueryParamValue> {
+  return {
+    ...(filters.juridicalForms && { filter_juridical_forms: listValue(filters.juridicalForms) }),
+    ...(filters.status && { filter_status: filters.status }),
+    ...(filters.entityType && { filter_entity_type: filters.entityType }),
+    ...(filters.naceCode && { filter_nace_code: filters.naceCode }),
+    ...(filters.naceVersion && { filter_nace_version: filters.naceVersion }),
+    ...(filters.activityGroup && { filter_activity_group: filters.activityGroup }),
+    ...(filters.zipcodeFrom !== undefined && { filter_zipcode_from: filters.zipcodeFrom }),
+    ...(filters.zipcodeTo !== undefined && { filter_zipcode_to: filters.zipcodeTo }),
+    ...(filters.startDateFrom && { filter_start_date_from: filters.startDateFrom }),
+    ...(filters.startDateTo && { filter_start_date_to: filters.startDateTo }),
+  }
+}
+
+/**
+ * Build WHERE conditions for the filters, on enterprises aliased `e`
+ *
+ * Conditions are ANDed by the caller. The parameters returned must be bound
+ * along with temporalParams(temporal) (buildTemporalJoinQuery includes them).
+ *
+ * @param exclude - Facet whose own filters are left out (for facet counts)
+ */
+export function buildSearchFilterConditions(
+  filters: SearchFilters,
+  temporal: TemporalFilter,
+  exclude?: SearchFacet
+): { conditions: string[]; params: Record<string, QueryParamValue> } {
+  const active = exclude ? withoutFacetFilters(filters, exclude) : filters
+
+  const conditions: string[] = []
+
+  if (active.juridicalForms) {
+    conditions.push('e.juridical_form IN (SELECT UNNEST($filter_juridical_forms))')
+  }
+  if (active.status) {
+    conditions.push('e.status = $filter_status')
+  }
+  if (active.entityType) {
+    conditions.push('e.type_of_enterprise = $filter_entity_type')
+  }
+  if (active.startDateFrom) {
+    conditions.push('e.start_date >= $filter_start_date_from')
+  }
+  if (active.startDateTo) {
+    conditions.push('e.start_date <= $filter_start_date_to')
+  }
+
+  const activity = activityConditions(active, 'f_act')
+  if (activity.length > 0) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM ${buildTemporalSource('activities', temporal)} f_act
+      WHERE f_act.entity_number = e.enterprise_number
+        AND ${activity.join(' AND ')}
+    )`)
+  }
+
+  const address = addressConditions(active, 'f_addr')
+  if (address.length > 0) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM ${buildTemporalSource('addresses', temporal, undefined, `type_of_address = 'REGO'`)} f_addr
+      WHERE f_addr.entity_number = e.enterprise_number
+        AND ${address.join(' AND ')}
+    )`)
+  }
+
+  return { conditions, params: filterParams(active) }
+}
+
+/**
+ * Base search the facets are counted over (text query conditions)
+ */
+export interface FacetBaseQuery {
+  joins: TemporalJoin[]
+  where?: string
+  params: Record<string, QueryParamValue>
+}
+
+interface FacetDefinition {
+  /** Facet value expression */
+  value: string
+  /** Extra join providing the value (child table facets) */
+  join?: (filters: SearchFilters) => TemporalJoin
+  orderBy: string
+}
+
+const FACETS: Record<SearchFacet, FacetDefinition> = {
+  juridicalForm: { value: 'e.juridical_form', orderBy: 'count DESC, value' },
+  status: { value: 'e.status', orderBy: 'count DESC, value' },
+  entityType: { value: 'e.type_of_enterprise', orderBy: 'value' },
+  startYear: { value: 'CAST(year(e.start_date) AS VARCHAR)', orderBy: 'value DESC' },
+  // NACE facets count on the joined activity, restricted by the other
+  // activity filters so the counts describe the same activity
+  nace: {
+    value: `left(REPLACE(fa.nace_code, '.', ''), 2)`,
+    join: (filters) => activityFacetJoin(filters),
+    orderBy: 'count DESC, value',
+  },
+  naceVersion: {
+    value: 'fa.nace_version',
+    join: (filters) => activityFacetJoin(filters),
+    orderBy: 'value',
+  },
+  activityGroup: {
+    value: 'fa.activity_group',
+    join: (filters) => activityFacetJoin(filters),
+    orderBy: 'value',
+  },
+  province: {
+    value: generateProvinceSQLCase(),
+    join: () => ({
+      table: 'addresses',
+      alias: 'fa',
+      type: 'INNER',
+      on: 'fa.entity_number = e.enterprise_number',
+      where: `type_of_address = 'REGO'`,
+    }),
+    orderBy: 'count DESC, value',
+  },
+}
+
+function activityFacetJoin(filters: SearchFilters): TemporalJoin {
+  const conditions = activityConditions(filters, 'fa')
+  return {
+    table: 'activities',
+    alias: 'fa',
+    type: 'INNER',
+    on: ['fa.entity_number = e.enterprise_number', ...conditions].join(' AND '),
+  }
+}
+
+/**
+ * Count enterprises per facet value for a search
+ *
+ * @param base - Text query part of the search (joins, condition, params)
+ */
+export async function fetchSearchFacets(
+  connection: DuckDBConnection,
+  filters: SearchFilters,
+  temporal: TemporalFilter,
+  base: FacetBaseQuery
+): Promise<SearchFacets> {
+  const facets = {} as SearchFacets
+
+  for (const facet of Object.keys(FACETS) as SearchFacet[]) {
+    const definition = FACETS[facet]
+    const { conditions, params } = buildSearchFilterConditions(filters, temporal, facet)
+    const where = [base.where, ...conditions].filter(Boolean).join(' AND ')
+
+    const query = buildTemporalJoinQuery({
+      select: `${definition.value} as value, COUNT(DISTINCT e.enterprise_number) as count`,
+      from: { table: 'enterprises', alias: 'e' },
+      joins: [...base.joins, ...(definition.join ? [definition.join(withoutFacetFilters(filters, facet))] : [])],
+      where: where || undefined,
+      groupBy: 'value',
+      orderBy: definition.orderBy,
+      limit: MAX_FACET_VALUES,
+    }, temporal)
+
+    const rows = await executeQuery<{ value: string | null; count: bigint | number }>(
+      connection,
+      query.sql,
+      { ...query.params, ...base.params, ...params }
+    )
+
+    facets[facet] = rows
+      .filter((row) => row.value !== null && row.value !== '')
+      .map((row) => ({ value: String(row.value), count: Number(row.count) }))
+  }
+
+  return facets
+}
@@ -72,7 +72,8 @@ export async function getDatabaseStats(language: Language = 'NL'): Promise<Datab
       `SELECT CAST(active_bytes AS VARCHAR) as active_bytes,
               CAST(historical_bytes AS VARCHAR) as historical_bytes
        FROM md_information_schema.storage_info
-       WHERE database_name = '${dbName}'`
+       WHERE database_name = $database_name`,
+      { database_name: dbName }
     )
 
     // Format bytes to human readable size
@@ -13,8 +13,25 @@
  * 1. Find all versions of each record where _extract_number <= 150
  * 2. Exclude records deleted before or at Extract 150
  * 3. Take the latest version of each record
+ *
+ * Snapshot dates are resolved to the latest completed extract on or before
+ * that date (see resolveTemporalFilter), so callers can navigate by date.
+ *
+ * Bitemporal ("as known at"):
+ * Extract numbers are the valid-time axis (what KBO published). knownAt adds
+ * the transaction-time axis (what this database contained at a moment), based
+ * on import_jobs.completed_at. A version is known at time X when its extract
+ * was imported by X, and its deletion is only known when the deleting extract
+ * was imported by X. Both axes can be combined.
+ *
+ * Filter values are bound, not interpolated: SQL built here references
+ * $temporal_* parameters, so pass temporalParams(filter) along with the query.
  */
 
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, type QueryParamValue } from './index'
+import { ValidationError } from '@/lib/errors'
+
 export interface TemporalFilter {
   /**
    * For current/latest data: Use _is_current = true
@@ -28,9 +45,152 @@ export interface TemporalFilter {
   extractNumber?: number
 
   /**
-   * Snapshot date for point-in-time queries
+   * Snapshot date for point-in-time queries (YYYY-MM-DD)
+   * Resolved to the latest completed extract on or before this date
+   * when no extractNumber is given
    */
   snapshotDate?: string
+
+  /**
+   * Transaction time for point-in-time queries (YYYY-MM-DD or ISO timestamp)
+   * Only extracts whose import completed at or before this moment are visible.
+   * A date alone means the end of that day.
+   */
+  knownAt?: string
+}
+
+/**
+ * Validate a calendar date (YYYY-MM-DD) before it is used in a query
+ */
+export function assertValidSnapshotDate(date: string): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    throw new ValidationError('Invalid date, expected YYYY-MM-DD', { date })
+  }
+}
+
+/**
+ * Validate a transaction time (YYYY-MM-DD or ISO timestamp) before it is used in a query
+ */
+export function assertValidKnownAt(knownAt: string): void {
+  if (
+    !/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(knownAt) ||
+    isNaN(Date.parse(knownAt))
+  ) {
+    throw new ValidationError('Invalid known-at time, expected YYYY-MM-DD or ISO timestamp', { knownAt })
+  }
+}
+
+/**
+ * Exclusive upper bound on import_jobs.completed_at for a known-at time
+ * A date alone means the end of that day; completed_at is stored in UTC
+ */
+function knownAtCutoff(knownAt: string): string {
+  assertValidKnownAt(knownAt)
+
+  const cutoff = /^\d{4}-\d{2}-\d{2}$/.test(knownAt)
+    ? new Date(Date.parse(`${knownAt}T00:00:00Z`) + 24 * 60 * 60 * 1000)
+    : new Date(Date.parse(knownAt) + 1)
+
+  return cutoff.toISOString().replace('T', ' ').replace('Z', '')
+}
+
+/**
+ * Condition on import_jobs selecting imports completed by the known-at time
+ * Binds $temporal_known_before (see temporalParams)
+ */
+const KNOWN_AT_JOB_CONDITION =
+  `status = 'completed' AND completed_at < $temporal_known_before::TIMESTAMP`
+
+/**
+ * Bound parameters referenced by SQL from buildTemporalFilter and the builders on top of it
+ */
+export function temporalParams(filter: TemporalFilter): Record<string, QueryParamValue> {
+  const params: Record<string, QueryParamValue> = {}
+
+  if (filter.type === 'point-in-time') {
+    if (filter.extractNumber) {
+      params.temporal_extract_number = filter.extractNumber
+    }
+    if (filter.knownAt) {
+      params.temporal_known_before = knownAtCutoff(filter.knownAt)
+    }
+  }
+
+  return params
+}
+
+/**
+ * Resolve a snapshot date to the extract that was current on that date
+ *
+ * Returns the latest completed import on or before the given date,
+ * or null when no completed import exists yet at that date.
+ * With knownAt, only imports completed by that moment are considered.
+ */
+export async function resolveExtractForDate(
+  connection: DuckDBConnection,
+  snapshotDate: string,
+  knownAt?: string
+): Promise<{ extractNumber: number; snapshotDate: string } | null> {
+  assertValidSnapshotDate(snapshotDate)
+
+  const rows = await executeQuery<{ extract_number: number; snapshot_date: string }>(
+    connection,
+    `SELECT extract_number, snapshot_date::VARCHAR as snapshot_date
+     FROM import_jobs
+     WHERE ${knownAt ? KNOWN_AT_JOB_CONDITION : `status = 'completed'`}
+       AND snapshot_date <= $snapshot_date::DATE
+     ORDER BY extract_number DESC
+     LIMIT 1`,
+    {
+      snapshot_date: snapshotDate,
+      ...(knownAt && { temporal_known_before: knownAtCutoff(knownAt) }),
+    }
+  )
+
+  if (rows.length === 0) {
+    return null
+  }
+
+  return {
+    extractNumber: Number(rows[0].extract_number),
+    snapshotDate: rows[0].snapshot_date,
+  }
+}
+
+/**
+ * Turn a date-based point-in-time filter into an extract-based one
+ *
+ * Current filters, filters that already carry an extract number and
+ * known-at-only filters are returned unchanged. Returns null when the
+ * snapshot date precedes every completed import (nothing existed yet at
+ * that date).
+ */
+export async function resolveTemporalFilter(
+  connection: DuckDBConnection,
+  filter: TemporalFilter
+): Promise<TemporalFilter | null> {
+  if (filter.type === 'current' || filter.extractNumber) {
+    return filter
+  }
+
+  if (!filter.snapshotDate) {
+    if (filter.knownAt) {
+      return filter
+    }
+    throw new ValidationError('Point-in-time filter requires an extract number, snapshot date or known-at time')
+  }
+
+  const resolved = await resolveExtractForDate(connection, filter.snapshotDate, filter.knownAt)
+  if (!resolved) {
+    return null
+  }
+
+  return {
+    type: 'point-in-time',
+    extractNumber: resolved.extractNumber,
+    snapshotDate: resolved.snapshotDate,
+    knownAt: filter.knownAt,
+  }
 }
 
 /**
@@ -38,6 +198,9 @@ export interface TemporalFilter {
  *
  * For current data: Simple filter on _is_current = true
  * For historical data: Complex filter to reconstruct state at extract N
+ * and/or as known at a transaction time
+ *
+ * References $temporal_* parameters - bind temporalParams(filter)
  */
 export function buildTemporalFilter(
   filter: TemporalFilter,
@@ -49,19 +212,39 @@ export function buildTemporalFilter(
     return `${prefix}_is_current = true`
   }
 
-  if (filter.type === 'point-in-time' && filter.extractNumber) {
-    const extractNum = filter.extractNumber
+  if (filter.type === 'point-in-time' && (filter.extractNumber || filter.knownAt)) {
+    const conditions: string[] = []
 
-    // Records that:
-    // 1. Were created/updated on or before extract N
-    // 2. Were either never deleted, or deleted after extract N
-    return `
-      ${prefix}_extract_number <= ${extractNum}
-      AND (
-        ${prefix}_deleted_at_extract IS NULL
-        OR ${prefix}_deleted_at_extract > ${extractNum}
-      )
-    `.trim()
+    if (filter.extractNumber) {
+      // Records that:
+      // 1. Were created/updated on or before extract N
+      // 2. Were either never deleted, or deleted after extract N
+      conditions.push(`
+        ${prefix}_extract_number <= $temporal_extract_number
+        AND (
+          ${prefix}_deleted_at_extract IS NULL
+          OR ${prefix}_deleted_at_extract > $temporal_extract_number
+        )
+      `.trim())
+    }
+
+    if (filter.knownAt) {
+      assertValidKnownAt(filter.knownAt)
+      const knownExtracts = `SELECT extract_number FROM import_jobs WHERE ${KNOWN_AT_JOB_CONDITION}`
+
+      // Records that:
+      // 1. Came from an extract imported by the known-at time
+      // 2. Were either never deleted, or deleted by an extract imported later
+      conditions.push(`
+        ${prefix}_extract_number IN (${knownExtracts})
+        AND (
+          ${prefix}_deleted_at_extract IS NULL
+          OR ${prefix}_deleted_at_extract NOT IN (${knownExtracts})
+        )
+      `.trim())
+    }
+
+    return conditions.join('\n      AND ')
   }
 
   throw new Error('Invalid temporal filter configuration')
@@ -130,17 +313,18 @@ export function buildPointInTimeQueryByNaturalKey(
 /**
  * Simple helper to build temporal queries for child tables
  * Handles both current and point-in-time queries with proper ROW_NUMBER windowing
+ *
+ * Binds $entity_number plus temporalParams(filter)
  */
 export function buildChildTableQuery(
   tableName: string,
   selectColumns: string,
-  entityNumber: string,
   filter: TemporalFilter,
   orderBy?: string,
   partitionKey: string = 'id'
 ): string {
   const temporalWhere = buildTemporalFilter(filter)
-  const baseWhere = `entity_number = '${entityNumber}' AND ${temporalWhere}`
+  const baseWhere = `entity_number = $entity_number AND ${temporalWhere}`
 
   if (filter.type === 'current') {
     // Simple query for current data
@@ -161,3 +345,151 @@ export function buildChildTableQuery(
     orderBy
   )
 }
+
+/**
+ * Columns identifying a record across versions, per versioned table
+ * Denominations use the natural key because their id embeds a name hash;
+ * imports close versions by the same key (recordKeySql in lib/import/records.ts)
+ */
+const TEMPORAL_PARTITION_KEYS: Record<string, string> = {
+  enterprises: 'enterprise_number',
+  establishments: 'establishment_number',
+  denominations: 'entity_number, language, denomination_type',
+}
+
+/**
+ * Default partition key for point-in-time version selection of a table
+ */
+export function getTemporalPartitionKey(tableName: string): string {
+  return TEMPORAL_PARTITION_KEYS[tableName] || 'id'
+}
+
+/**
+ * Build a FROM source for a versioned table under the given filter
+ *
+ * For current data this is the *_current view. For point-in-time queries it is
+ * a subquery yielding the latest version of each record at the extract, so it
+ * can be joined like a regular table.
+ *
+ * @param tableName - Versioned base table (e.g. 'enterprises')
+ * @param filter - Resolved temporal filter
+ * @param partitionKey - Columns identifying a record across versions
+ * @param where - Optional conditions applied before version selection. Only
+ *   reference columns that are the same for every version of a record
+ *   (part of the partition key), otherwise an older version may be picked.
+ */
+export function buildTemporalSource(
+  tableName: string,
+  filter: TemporalFilter,
+  partitionKey: string = getTemporalPartitionKey(tableName),
+  where?: string
+): string {
+  if (filter.type === 'current') {
+    return where
+      ? `(SELECT * FROM ${tableName}_current WHERE ${where})`
+      : `${tableName}_current`
+  }
+
+  const temporalWhere = buildTemporalFilter(filter)
+  return `(${buildPointInTimeQuery(
+    '*',
+    tableName,
+    where ? `${temporalWhere} AND (${where})` : temporalWhere,
+    partitionKey
+  )})`
+}
+
+/**
+ * Versioned table referenced by a temporal join query
+ */
+export interface TemporalTableRef {
+  /** Versioned base table (e.g. 'enterprises') */
+  table: string
+  /** Alias used in select, on and where clauses */
+  alias: string
+  /** Columns identifying a record across versions (default per table) */
+  partitionKey?: string
+  /** Conditions applied before version selection (see buildTemporalSource) */
+  where?: string
+}
+
+/**
+ * Child table joined into a temporal join query
+ */
+export interface TemporalJoin extends TemporalTableRef {
+  /** Join condition, e.g. 'd.entity_number = e.enterprise_number' */
+  on: string
+  /** Join type (default LEFT) */
+  type?: 'INNER' | 'LEFT'
+}
+
+/**
+ * SQL with the parameters it references
+ */
+export interface TemporalQuery {
+  sql: string
+  params: Record<string, QueryParamValue>
+}
+
+export interface TemporalJoinQueryOptions {
+  select: string
+  from: TemporalTableRef
+  joins?: TemporalJoin[]
+  where?: string
+  groupBy?: string
+  orderBy?: string
+  limit?: number
+  offset?: number
+  distinct?: boolean
+}
+
+/**
+ * Build a query joining versioned tables at one point in time
+ *
+ * Every table (base and joins) is replaced by its temporal source, so the
+ * whole result set is reconstructed as of the filter: current views for
+ * current data, latest version per record for point-in-time. Callers write
+ * plain joins without per-table ROW_NUMBER() windowing.
+ *
+ * Returns the SQL with its bound parameters (temporal filter, limit, offset);
+ * merge in the caller's own parameters for where/on clauses.
+ *
+ * @example
+ * buildTemporalJoinQuery({
+ *   select: 'e.enterprise_number, e.primary_name, a.zipcode',
+ *   from: { table: 'enterprises', alias: 'e' },
+ *   joins: [{ table: 'addresses', alias: 'a', on: 'a.entity_number = e.enterprise_number', where: "type_of_address = 'REGO'" }],
+ *   where: "e.status = 'AC'",
+ * }, { type: 'point-in-time', extractNumber: 150 })
+ */
+export function buildTemporalJoinQuery(
+  options: TemporalJoinQueryOptions,
+  filter: TemporalFilter
+): TemporalQuery {
+  const source = (ref: TemporalTableRef) =>
+    `${buildTemporalSource(ref.table, filter, ref.partitionKey, ref.where)} ${ref.alias}`
+
+  const joins = (options.joins || [])
+    .map((join) => `${join.type || 'LEFT'} JOIN ${source(join)} ON ${join.on}`)
+    .join('\n    ')
+
+  const sql = `
+    SELECT ${options.distinct ? 'DISTINCT ' : ''}${options.select}
+    FROM ${source(options.from)}
+    ${joins}
+    ${options.where ? `WHERE ${options.where}` : ''}
+    ${options.groupBy ? `GROUP BY ${options.groupBy}` : ''}
+    ${options.orderBy ? `ORDER BY ${options.orderBy}` : ''}
+    ${options.limit !== undefined ? 'LIMIT $limit' : ''}
+    ${options.offset !== undefined ? 'OFFSET $offset' : ''}
+  `.trim()
+
+  return {
+    sql,
+    params: {
+      ...temporalParams(filter),
+      ...(options.limit !== undefined && { limit: options.limit }),
+      ...(options.offset !== undefined && { offset: options.offset }),
+    },
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * KBO Import Workflow Control
+ *
+ * Calls the pause, resume and cancel handlers of a running KboImport workflow
+ * (see kbo-import-service.ts) through the Restate ingress.
+ */
+
+import { NextResponse } from "next/server";
+
+const RESTATE_INGRESS_URL = process.env.RESTATE_INGRESS_URL || "http://localhost:8080";
+const RESTATE_AUTH_TOKEN = process.env.RESTATE_AUTH_TOKEN;
+
+export type ImportControlAction = "pause" | "resume" | "cancel";
+
+/**
+ * Send a control request to an import workflow and turn the answer into a
+ * route response: 200 when accepted, 409 when the workflow cannot do it in
+ * its current state (e.g. resume while not paused), 404 for unknown workflows
+ */
+export async function controlImportWorkflow(
+  workflowId: string,
+  action: ImportControlAction
+): Promise<NextResponse> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (RESTATE_AUTH_TOKEN) {
+    headers["Authorization"] = `Bearer ${RESTATE_AUTH_TOKEN}`;
+  }
+
+  const response = await fetch(
+    `${RESTATE_INGRESS_URL}/KboImport/${encodeURIComponent(workflowId)}/${action}`,
+    {
+      method: "POST",
+      headers,
+      body: "null",
+    }
+  );
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return NextResponse.json(
+        { error: "Workflow not found", workflow_id: workflowId },
+        { status: 404 }
+      );
+    }
+
+    const errorText = await response.text();
+    console.error(`Restate error (${action}):`, errorText);
+    return NextResponse.json(
+      { error: `Failed to ${action} workflow`, details: errorText },
+      { status: 500 }
+    );
+  }
+
+  const result: { accepted: boolean; message: string } = await response.json();
+
+  return NextResponse.json(
+    { workflow_id: workflowId, action, ...result },
+    { status: result.accepted ? 200 : 409 }
+  );
+}
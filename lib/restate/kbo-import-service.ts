@@ -1,28 +1,48 @@
 /**
  * KBO Import Workflow - Restate Durable Execution
  *
- * Wraps the existing batch import system in Restate for durability.
+ * Runs the import pipeline (lib/import/pipeline.ts) in Restate for durability.
  * Each step is checkpointed, so if Vercel times out or crashes,
  * Restate will resume from the last completed step.
  *
+ * Handles both daily update ZIPs and monthly full dumps. Full dumps are staged
+ * in batches (one step per batch), so no step has to read the whole dump.
+ *
+ * Running imports can be paused, resumed and cancelled (pause/resume/cancel
+ * handlers); requests take effect between steps. Cancelling reverts the
+ * batches already applied and marks the import job as cancelled.
+ *
  * Note: Large files are stored in Vercel Blob and only URLs are passed through
  * Restate to avoid payload size limits.
  */
 
 import * as restate from "@restatedev/restate-sdk";
+import { prepareImport, generateJobId } from "@/lib/import/batched-update";
+import { cancelImportJob } from "@/lib/import/cancel";
+import { removeCachedExtract, removeDumpParts } from "@/lib/import/full-import";
 import {
-  prepareImport,
-  processBatch,
-  finalizeImport,
-  type PrepareImportResult,
-} from "@/lib/import/batched-update";
+  runImportPipeline,
+  runFullImportPipeline,
+  type ImportExecutor,
+} from "@/lib/import/pipeline";
 import { deleteFromBlob } from "@/lib/blob";
+import { connectMotherduck, closeMotherduck } from "@/lib/motherduck";
+import { DataQualityError, ExtractSequenceError, ValidationError } from "@/lib/errors";
 
 /**
  * Progress state stored in Restate
  */
 interface ImportProgress {
-  status: "pending" | "preparing" | "processing" | "finalizing" | "completed" | "failed";
+  status:
+    | "pending"
+    | "preparing"
+    | "staging"
+    | "processing"
+    | "paused"
+    | "finalizing"
+    | "completed"
+    | "failed"
+    | "cancelled";
   job_id?: string;
   completed_batches: number;
   total_batches: number;
@@ -37,6 +57,141 @@ interface ImportProgress {
 interface ImportInput {
   blobUrl: string;  // Vercel Blob URL (not KBO URL)
   filename: string;
+  force?: boolean;  // Import even if the extract is out of order or skips extracts
+  extractType?: "full" | "update";  // Defaults to "update"
+}
+
+/**
+ * Answer of the pause, resume and cancel handlers
+ */
+interface ControlResult {
+  accepted: boolean;
+  message: string;
+}
+
+/**
+ * Thrown in the run handler once a cancel request is seen
+ */
+class ImportCancelledError extends restate.TerminalError {}
+
+/** Progress states in which the import has ended */
+const FINISHED_STATUSES: ImportProgress["status"][] = ["completed", "failed", "cancelled"];
+
+/** Name of the pipeline step after which the import can no longer be paused or cancelled */
+const FINALIZE_STEP = "finalize";
+
+/**
+ * Why a pause or cancel request is refused (null when it is accepted)
+ *
+ * Once finalizing, the import is committed and the post-import steps
+ * (webhooks, watchlists) run to the end.
+ */
+function refuseControlRequest(progress: ImportProgress | null): string | null {
+  if (!progress || FINISHED_STATUSES.includes(progress.status)) {
+    return `Import is ${progress?.status ?? "not running"}`;
+  }
+  if (progress.status === "finalizing") {
+    return "Import is finalizing and can no longer be paused or cancelled";
+  }
+  return null;
+}
+
+/**
+ * Pause, resume and cancel requests are durable promises, since shared handlers
+ * cannot write state: "cancel" once, and "pause-<n>" / "resume-<n>" for every
+ * pause, where n (state "pause_round") counts the pauses so far.
+ */
+async function getPauseRound(ctx: restate.WorkflowSharedContext): Promise<number> {
+  return (await ctx.get<number>("pause_round")) ?? 0;
+}
+
+/**
+ * Stop before the next step if requested: throw when the import was cancelled,
+ * wait for resume (or cancel) when it was paused
+ */
+async function applyControlRequests(ctx: restate.WorkflowContext): Promise<void> {
+  const cancelled = await ctx.promise<string>("cancel").peek();
+  if (cancelled !== undefined) {
+    throw new ImportCancelledError(cancelled);
+  }
+
+  const round = await getPauseRound(ctx);
+  if ((await ctx.promise<boolean>(`pause-${round}`).peek()) === undefined) {
+    return;
+  }
+
+  const progress = await ctx.get<ImportProgress>("progress");
+  ctx.set("progress", { ...progress, status: "paused" } as ImportProgress);
+  ctx.console.log("Import paused");
+
+  await restate.RestatePromise.race([
+    ctx.promise<string>(`resume-${round}`).get(),
+    ctx.promise<string>("cancel").get(),
+  ]);
+  ctx.set("pause_round", round + 1);
+
+  const cancelledWhilePaused = await ctx.promise<string>("cancel").peek();
+  if (cancelledWhilePaused !== undefined) {
+    throw new ImportCancelledError(cancelledWhilePaused);
+  }
+
+  ctx.set("progress", progress as ImportProgress);
+  ctx.console.log("Import resumed");
+}
+
+/**
+ * Executor running each pipeline step as a durable Restate step
+ *
+ * Control requests are honored before every step up to and including
+ * finalize, not after it.
+ */
+function restateExecutor(ctx: restate.WorkflowContext): ImportExecutor {
+  let finalized = false;
+
+  return {
+    run: async (name, step) => {
+      if (!finalized) {
+        await applyControlRequests(ctx);
+      }
+      const result = await ctx.run(name, async () => {
+        try {
+          return await step();
+        } catch (error) {
+          // Retrying cannot fix the extract order, an unapplied dry run or the data quality
+          if (
+            error instanceof ExtractSequenceError ||
+            error instanceof ValidationError ||
+            error instanceof DataQualityError
+          ) {
+            throw new restate.TerminalError(error.message);
+          }
+          throw error;
+        }
+      });
+      if (name === FINALIZE_STEP) {
+        finalized = true;
+      }
+      return result;
+    },
+    onProgress: (progress) => {
+      if (progress.status === "staging") {
+        ctx.console.log(
+          `Staged ${progress.current_table} batch ${progress.current_batch}`
+        );
+      } else if (progress.current_table) {
+        ctx.console.log(
+          `Processed ${progress.current_table} batch ${progress.current_batch} (${progress.completed_batches}/${progress.total_batches})`
+        );
+      } else if (progress.status === "finalizing") {
+        ctx.console.log("Finalizing import...");
+      } else {
+        ctx.console.log(
+          `Import prepared: job_id=${progress.job_id}, total_batches=${progress.total_batches}`
+        );
+      }
+      ctx.set("progress", progress as ImportProgress);
+    },
+  };
 }
 
 /**
@@ -44,7 +199,9 @@ interface ImportInput {
  *
  * Orchestrates the full import process:
  * 1. Prepare import (download from blob, parse ZIP, populate staging tables, create batches)
+ *    Full dumps: prepare, then stage each table batch by batch
  * 2. Process each batch (delete then insert operations)
+ *    Full dumps: close records missing from the snapshot, insert new and changed ones
  * 3. Finalize (resolve names, cleanup staging)
  * 4. Cleanup blob storage
  */
@@ -58,7 +215,11 @@ const kboImportWorkflow = restate.workflow({
       ctx: restate.WorkflowContext,
       input: ImportInput
     ): Promise<{ job_id: string; names_resolved: number }> => {
-      const { blobUrl, filename } = input;
+      const { blobUrl, filename, force, extractType = "update" } = input;
+
+      // Pass workflow ID for deterministic job ID generation (enables resumability)
+      const workflowId = ctx.key;
+      const jobId = generateJobId(workflowId);
 
       // Store blob URL for cleanup in case of failure
       ctx.set("blobUrl", blobUrl);
@@ -71,92 +232,25 @@ const kboImportWorkflow = restate.workflow({
       } as ImportProgress);
 
       try {
-        // Step 1: Prepare import (downloads from blob, parses ZIP, creates batches)
-        // prepareImport handles the blob download internally
-        // Pass workflow ID for deterministic job ID generation (enables resumability)
-        const workflowId = ctx.key;
-        ctx.console.log(`Preparing import from blob for ${filename} (workflow: ${workflowId})...`);
-        const prepareResult = await ctx.run(
-          "prepare-import",
-          async (): Promise<PrepareImportResult> => {
-            return await prepareImport(blobUrl, "vercel", workflowId);
-          }
-        );
-
-        const { job_id, batches_by_table, total_batches } = prepareResult;
-
-        ctx.console.log(
-          `Import prepared: job_id=${job_id}, total_batches=${total_batches}`
-        );
+        // Prepare (downloads from blob, parses ZIP, creates batches), process each
+        // batch and finalize - every step is a durable checkpoint.
+        ctx.console.log(`Preparing ${extractType} import from blob for ${filename} (workflow: ${workflowId})...`);
+        const { prepared, total_batches, finalized: finalResult } = extractType === "full"
+          ? await runFullImportPipeline(blobUrl, restateExecutor(ctx), {
+              workerType: "vercel",
+              workflowId,
+              force,
+            })
+          : await runImportPipeline(
+              () => prepareImport(blobUrl, "vercel", workflowId, { force }),
+              restateExecutor(ctx)
+            );
+        const { job_id } = prepared;
 
-        // Update progress with batch info
-        ctx.set("progress", {
-          status: "processing",
-          job_id,
-          completed_batches: 0,
-          total_batches,
-        } as ImportProgress);
-
-        // Step 2: Process each batch (each is a durable checkpoint)
-        // Order: deletes first, then inserts, for each table
-        let completedBatches = 0;
-
-        for (const [table, counts] of Object.entries(batches_by_table)) {
-          // Process DELETE batches first
-          for (let i = 1; i <= counts.delete; i++) {
-            ctx.console.log(`Processing ${table} delete batch ${i}/${counts.delete}`);
-
-            await ctx.run(`delete-${table}-${i}`, async () => {
-              await processBatch(job_id, table, i, 'delete');
-            });
-
-            completedBatches++;
-            ctx.set("progress", {
-              status: "processing",
-              job_id,
-              completed_batches: completedBatches,
-              total_batches,
-              current_table: table,
-              current_batch: i,
-            } as ImportProgress);
-          }
-
-          // Then process INSERT batches
-          for (let i = 1; i <= counts.insert; i++) {
-            ctx.console.log(`Processing ${table} insert batch ${i}/${counts.insert}`);
-
-            await ctx.run(`insert-${table}-${i}`, async () => {
-              await processBatch(job_id, table, i, 'insert');
-            });
-
-            completedBatches++;
-            ctx.set("progress", {
-              status: "processing",
-              job_id,
-              completed_batches: completedBatches,
-              total_batches,
-              current_table: table,
-              current_batch: i,
-            } as ImportProgress);
-          }
-        }
-
-        // Step 3: Finalize
-        ctx.set("progress", {
-          status: "finalizing",
-          job_id,
-          completed_batches: total_batches,
-          total_batches,
-        } as ImportProgress);
-
-        ctx.console.log("Finalizing import...");
-        const finalResult = await ctx.run("finalize", async () => {
-          return await finalizeImport(job_id);
-        });
-
-        // Step 4: Cleanup blob storage
+        // Cleanup blob storage (and the local copy of a full dump)
         ctx.console.log("Cleaning up blob storage...");
         await ctx.run("cleanup-blob", async () => {
+          removeCachedExtract(blobUrl);
           await deleteFromBlob(blobUrl);
         });
 
@@ -177,15 +271,44 @@ const kboImportWorkflow = restate.workflow({
           names_resolved: finalResult.names_resolved,
         };
       } catch (error) {
-        // On any error, attempt to cleanup the blob
-        ctx.console.error(`Workflow error: ${error}`);
+        let status: ImportProgress["status"] = "failed";
+        let failure = error;
 
-        // Mark as failed
+        if (error instanceof ImportCancelledError) {
+          ctx.console.log(`Cancelling import: ${error.message}`);
+
+          // Revert applied batches, remove staging data and mark the job cancelled
+          try {
+            await ctx.run("cancel-import", async () => {
+              const db = await connectMotherduck();
+              try {
+                await cancelImportJob(db, jobId, error.message);
+              } catch (cancelError) {
+                // A completed job cannot be cancelled; retrying will not change that
+                if (cancelError instanceof ValidationError) {
+                  throw new restate.TerminalError(cancelError.message);
+                }
+                throw cancelError;
+              } finally {
+                await closeMotherduck(db);
+              }
+            });
+            status = "cancelled";
+          } catch (cancelError) {
+            failure = cancelError;
+          }
+        }
+
+        if (status === "failed") {
+          ctx.console.error(`Workflow error: ${failure}`);
+        }
+
+        // Mark as failed (or cancelled)
         const currentProgress = await ctx.get<ImportProgress>("progress");
         ctx.set("progress", {
           ...currentProgress,
-          status: "failed",
-          error: String(error),
+          status,
+          error: status === "failed" ? String(failure) : undefined,
         } as ImportProgress);
 
         // Try to cleanup blob (best effort - don't fail if cleanup fails)
@@ -193,6 +316,10 @@ const kboImportWorkflow = restate.workflow({
           await ctx.run("cleanup-blob-on-error", async () => {
             const url = blobUrl;
             if (url) {
+              removeCachedExtract(url);
+              if (extractType === "full") {
+                await removeDumpParts(url, jobId);
+              }
               await deleteFromBlob(url);
             }
           });
@@ -200,10 +327,64 @@ const kboImportWorkflow = restate.workflow({
           ctx.console.error(`Failed to cleanup blob: ${cleanupError}`);
         }
 
-        throw error;
+        throw failure;
       }
     },
 
+    /**
+     * Pause the import after the current step
+     */
+    pause: restate.handlers.workflow.shared(
+      async (ctx: restate.WorkflowSharedContext): Promise<ControlResult> => {
+        const refusal = refuseControlRequest(await ctx.get<ImportProgress>("progress"));
+        if (refusal) {
+          return { accepted: false, message: refusal };
+        }
+
+        const pause = ctx.promise<boolean>(`pause-${await getPauseRound(ctx)}`);
+        if ((await pause.peek()) === undefined) {
+          await pause.resolve(true);
+        }
+        return { accepted: true, message: "Import will pause after the current step" };
+      }
+    ),
+
+    /**
+     * Resume a paused import
+     */
+    resume: restate.handlers.workflow.shared(
+      async (ctx: restate.WorkflowSharedContext): Promise<ControlResult> => {
+        const round = await getPauseRound(ctx);
+        if ((await ctx.promise<boolean>(`pause-${round}`).peek()) === undefined) {
+          return { accepted: false, message: "Import is not paused" };
+        }
+
+        const resume = ctx.promise<string>(`resume-${round}`);
+        if ((await resume.peek()) === undefined) {
+          await resume.resolve("resumed");
+        }
+        return { accepted: true, message: "Import resumed" };
+      }
+    ),
+
+    /**
+     * Cancel the import after the current step (or right away when paused)
+     */
+    cancel: restate.handlers.workflow.shared(
+      async (ctx: restate.WorkflowSharedContext): Promise<ControlResult> => {
+        const refusal = refuseControlRequest(await ctx.get<ImportProgress>("progress"));
+        if (refusal) {
+          return { accepted: false, message: refusal };
+        }
+
+        const cancel = ctx.promise<string>("cancel");
+        if ((await cancel.peek()) === undefined) {
+          await cancel.resolve("Cancelled by an administrator");
+        }
+        return { accepted: true, message: "Import will be cancelled after the current step" };
+      }
+    ),
+
     /**
      * Shared handler to get progress (can be called while workflow runs)
      */
@@ -0,0 +1,174 @@
+/**
+ * KBO Scheduled Ingestion - Restate Virtual Object
+ *
+ * Imports new daily updates automatically. Triggered by the daily cron
+ * (/api/cron/daily-update) under the key "daily"; being a virtual object,
+ * only one run executes at a time.
+ *
+ * Each run:
+ * 1. Checks the persisted autoUpdateEnabled setting
+ * 2. Plans the contiguous run of extracts after the last completed import
+ *    (see lib/import/ingestion.ts - gaps are never skipped)
+ * 3. Imports them one by one, in extract-number order, by calling the
+ *    KboImport workflow and waiting for it to finish
+ * 4. Stops at the first failure, or when the setting is switched off
+ */
+
+import * as restate from "@restatedev/restate-sdk";
+import kboImportWorkflow from "@/lib/restate/kbo-import-service";
+import { listDailyUpdates } from "@/lib/kbo-client";
+import { connectMotherduck, closeMotherduck } from "@/lib/motherduck";
+import { getAppSettings } from "@/lib/config/app-settings";
+import {
+  planDailyIngestion,
+  getExtractJobStates,
+  getImportWorkflowId,
+  stageDailyUpdate,
+  type IngestionPlan,
+  type IngestionBlocker,
+} from "@/lib/import/ingestion";
+
+/**
+ * Outcome of an ingestion run, stored in Restate as "lastRun"
+ */
+export interface IngestionRunResult {
+  status: "disabled" | "up_to_date" | "completed" | "blocked" | "failed";
+  started_at: string;
+  finished_at: string;
+  last_imported_extract: number | null;
+  imported: { extract_number: number; workflow_id: string; job_id: string }[];
+  blocked: IngestionBlocker | null;
+  error?: string;
+}
+
+/**
+ * Read the autoUpdateEnabled setting from the database
+ */
+async function isAutoUpdateEnabled(): Promise<boolean> {
+  const db = await connectMotherduck();
+  try {
+    return (await getAppSettings(db)).autoUpdateEnabled;
+  } finally {
+    await closeMotherduck(db);
+  }
+}
+
+/**
+ * Plan the next extracts to import from the KBO portal and import_jobs
+ */
+async function loadIngestionPlan(): Promise<IngestionPlan> {
+  const files = await listDailyUpdates();
+  const db = await connectMotherduck();
+  try {
+    return planDailyIngestion(files, await getExtractJobStates(db));
+  } finally {
+    await closeMotherduck(db);
+  }
+}
+
+const kboIngestionObject = restate.object({
+  name: "KboIngestion",
+  handlers: {
+    /**
+     * Import every daily update that can be imported without skipping one
+     */
+    run: async (ctx: restate.ObjectContext): Promise<IngestionRunResult> => {
+      const startedAt = await ctx.date.toJSON();
+      const finish = async (
+        result: Omit<IngestionRunResult, "started_at" | "finished_at">
+      ): Promise<IngestionRunResult> => {
+        const runResult = { ...result, started_at: startedAt, finished_at: await ctx.date.toJSON() };
+        ctx.set("lastRun", runResult);
+        return runResult;
+      };
+
+      const enabled = await ctx.run("check-setting", () => isAutoUpdateEnabled());
+      if (!enabled) {
+        ctx.console.log("Automatic daily updates are disabled, skipping run");
+        return finish({ status: "disabled", last_imported_extract: null, imported: [], blocked: null });
+      }
+
+      const plan = await ctx.run("plan", () => loadIngestionPlan());
+      ctx.console.log(
+        `Last imported extract: ${plan.last_imported_extract ?? "none"}, ` +
+        `${plan.pending.length} update(s) to import`
+      );
+      if (plan.blocked) {
+        ctx.console.warn(`Ingestion blocked at extract ${plan.blocked.extract_number}: ${plan.blocked.message}`);
+      }
+
+      const imported: IngestionRunResult["imported"] = [];
+
+      for (const file of plan.pending) {
+        // The setting may be switched off while earlier extracts import
+        if (imported.length > 0) {
+          const stillEnabled = await ctx.run(
+            `check-setting-${file.extract_number}`,
+            () => isAutoUpdateEnabled()
+          );
+          if (!stillEnabled) {
+            ctx.console.log("Automatic daily updates were disabled, stopping run");
+            return finish({
+              status: "disabled",
+              last_imported_extract: file.extract_number - 1,
+              imported,
+              blocked: null,
+            });
+          }
+        }
+
+        const workflowId = getImportWorkflowId(file.filename);
+        ctx.console.log(`Importing ${file.filename} (workflow: ${workflowId})...`);
+
+        try {
+          const blobUrl = await ctx.run(
+            `stage-${file.extract_number}`,
+            () => stageDailyUpdate(file, workflowId)
+          );
+
+          // Wait for the import to finish before starting the next extract
+          const { job_id } = await ctx
+            .workflowClient(kboImportWorkflow, workflowId)
+            .run({ blobUrl, filename: file.filename });
+
+          imported.push({ extract_number: file.extract_number, workflow_id: workflowId, job_id });
+        } catch (error) {
+          ctx.console.error(`Import of extract ${file.extract_number} failed: ${error}`);
+          return finish({
+            status: "failed",
+            last_imported_extract: file.extract_number - 1,
+            imported,
+            blocked: {
+              extract_number: file.extract_number,
+              reason: "failed_job",
+              message: `Import of extract ${file.extract_number} failed; re-run it from the imports page`,
+            },
+            error: String(error),
+          });
+        }
+      }
+
+      const lastImported = imported.length > 0
+        ? imported[imported.length - 1].extract_number
+        : plan.last_imported_extract;
+
+      return finish({
+        status: plan.blocked ? "blocked" : imported.length > 0 ? "completed" : "up_to_date",
+        last_imported_extract: lastImported,
+        imported,
+        blocked: plan.blocked,
+      });
+    },
+
+    /**
+     * Shared handler to get the outcome of the last run
+     */
+    getStatus: restate.handlers.object.shared(
+      async (ctx: restate.ObjectSharedContext): Promise<IngestionRunResult | null> => {
+        return (await ctx.get<IngestionRunResult>("lastRun")) ?? null;
+      }
+    ),
+  },
+});
+
+export default kboIngestionObject;
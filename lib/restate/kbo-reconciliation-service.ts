@@ -0,0 +1,139 @@
+/**
+ * KBO Reconciliation Workflow - Restate Durable Execution
+ *
+ * Runs the reconciliation pipeline (lib/import/reconciliation.ts) in Restate:
+ * stages a full dump, compares it with the current data and, if requested,
+ * repairs the discrepancies. Each step is checkpointed, so a timeout resumes
+ * from the last completed step.
+ *
+ * Note: The full dump is stored in Vercel Blob and only its URL is passed
+ * through Restate to avoid payload size limits.
+ */
+
+import * as restate from "@restatedev/restate-sdk";
+import { generateJobId } from "@/lib/import/batched-update";
+import { removeCachedExtract, removeDumpParts } from "@/lib/import/full-import";
+import type { ImportExecutor } from "@/lib/import/pipeline";
+import {
+  markReconciliationFailed,
+  runReconciliationPipeline,
+  type ReconciliationRecommendation,
+} from "@/lib/import/reconciliation";
+import { deleteFromBlob } from "@/lib/blob";
+import { ValidationError } from "@/lib/errors";
+
+/**
+ * Progress state stored in Restate
+ */
+interface ReconciliationProgress {
+  status: "pending" | "running" | "completed" | "failed";
+  run_id?: string;
+  current_step?: string;
+  error?: string;
+}
+
+/**
+ * Input for the reconciliation workflow
+ */
+interface ReconciliationInput {
+  blobUrl: string;  // Vercel Blob URL of the full dump
+  filename: string;
+  autoRepair?: boolean;
+}
+
+/**
+ * Executor running each pipeline step as a durable Restate step
+ */
+function restateExecutor(ctx: restate.WorkflowContext, runId: string): ImportExecutor {
+  return {
+    run: async (name, step) => {
+      ctx.set("progress", { status: "running", run_id: runId, current_step: name } as ReconciliationProgress);
+      return ctx.run(name, async () => {
+        try {
+          return await step();
+        } catch (error) {
+          // Retrying cannot fix an invalid dump or a refused auto-repair
+          if (error instanceof ValidationError) {
+            throw new restate.TerminalError(error.message);
+          }
+          throw error;
+        }
+      });
+    },
+  };
+}
+
+/**
+ * KBO Reconciliation Workflow
+ */
+const kboReconciliationWorkflow = restate.workflow({
+  name: "KboReconciliation",
+  handlers: {
+    /**
+     * Main workflow handler - runs exactly once per workflow ID
+     */
+    run: async (
+      ctx: restate.WorkflowContext,
+      input: ReconciliationInput
+    ): Promise<{ run_id: string; recommendation: ReconciliationRecommendation; records_repaired: number | null }> => {
+      const { blobUrl, filename, autoRepair } = input;
+
+      // Deterministic run ID from the workflow ID (enables resumability)
+      const runId = generateJobId(ctx.key);
+
+      ctx.set("progress", { status: "running", run_id: runId } as ReconciliationProgress);
+
+      try {
+        ctx.console.log(`Reconciling with ${filename} (run: ${runId}, auto-repair: ${autoRepair === true})...`);
+        const result = await runReconciliationPipeline(blobUrl, restateExecutor(ctx, runId), {
+          runId,
+          autoRepair,
+        });
+
+        await ctx.run("cleanup-blob", async () => {
+          removeCachedExtract(blobUrl);
+          await deleteFromBlob(blobUrl);
+        });
+
+        ctx.set("progress", { status: "completed", run_id: runId } as ReconciliationProgress);
+        ctx.console.log(
+          `Reconciliation completed: ${result.overall_discrepancy_percent.toFixed(2)}% discrepancies, ${result.recommendation}`
+        );
+
+        return {
+          run_id: runId,
+          recommendation: result.recommendation,
+          records_repaired: result.records_repaired,
+        };
+      } catch (error) {
+        ctx.console.error(`Workflow error: ${error}`);
+        ctx.set("progress", { status: "failed", run_id: runId, error: String(error) } as ReconciliationProgress);
+
+        // Best effort - don't hide the original error
+        try {
+          await ctx.run("mark-failed", () => markReconciliationFailed(runId, String(error)));
+          await ctx.run("cleanup-blob-on-error", async () => {
+            removeCachedExtract(blobUrl);
+            await removeDumpParts(blobUrl, runId);
+            await deleteFromBlob(blobUrl);
+          });
+        } catch (cleanupError) {
+          ctx.console.error(`Failed to cleanup: ${cleanupError}`);
+        }
+
+        throw error;
+      }
+    },
+
+    /**
+     * Shared handler to get progress (can be called while workflow runs)
+     */
+    getProgress: restate.handlers.workflow.shared(
+      async (ctx: restate.WorkflowSharedContext): Promise<ReconciliationProgress> => {
+        return (await ctx.get<ReconciliationProgress>("progress")) || { status: "pending" };
+      }
+    ),
+  },
+});
+
+export default kboReconciliationWorkflow;
@@ -0,0 +1,60 @@
+/**
+ * KBO Webhook Delivery - Restate Durable Execution
+ *
+ * Sends one webhook delivery (lib/webhooks/delivery.ts). Each attempt is a
+ * durable step; after a failed attempt the handler sleeps with exponential
+ * backoff, so retries survive restarts without keeping a function running.
+ * After WEBHOOK_MAX_ATTEMPTS failures the delivery is marked failed and can
+ * be retried from the admin pages.
+ *
+ * Invoked with an idempotency key (the delivery ID, or the ID plus attempt
+ * count for a manual retry) so a delivery is never queued twice.
+ */
+
+import * as restate from "@restatedev/restate-sdk";
+import {
+  attemptWebhookDelivery,
+  webhookRetryDelay,
+  WEBHOOK_MAX_ATTEMPTS,
+  type WebhookAttemptResult,
+} from "@/lib/webhooks/delivery";
+
+/**
+ * Input for the deliver handler
+ */
+interface DeliveryInput {
+  deliveryId: string;
+}
+
+/**
+ * KBO Webhook Delivery Service
+ */
+const kboWebhookDeliveryService = restate.service({
+  name: "KboWebhookDelivery",
+  handlers: {
+    /**
+     * Send a delivery until it is delivered or out of attempts
+     */
+    deliver: async (ctx: restate.Context, input: DeliveryInput): Promise<WebhookAttemptResult> => {
+      const { deliveryId } = input;
+      let result: WebhookAttemptResult = { status: "pending", attempts: 0 };
+
+      for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+        result = await ctx.run(`attempt-${attempt}`, () => attemptWebhookDelivery(deliveryId, attempt));
+        if (result.status !== "retrying") {
+          break;
+        }
+
+        ctx.console.log(`Delivery ${deliveryId} attempt ${attempt} failed, retrying`);
+        await ctx.sleep(webhookRetryDelay(attempt));
+      }
+
+      if (result.status === "failed") {
+        ctx.console.error(`Delivery ${deliveryId} failed after ${result.attempts} attempts`);
+      }
+      return result;
+    },
+  },
+});
+
+export default kboWebhookDeliveryService;
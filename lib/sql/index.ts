@@ -22,6 +22,13 @@ const SCHEMA_FILES = [
   '10_import_jobs.sql',
   '11_batched_import.sql',
   '12_export_jobs.sql',
+  '13_name_search.sql',
+  '14_app_settings.sql',
+  '15_import_previews.sql',
+  '16_data_quality_findings.sql',
+  '17_reconciliation.sql',
+  '18_webhooks.sql',
+  '19_watchlists.sql',
 ] as const
 
 /**
@@ -109,6 +116,18 @@ export function extractTableNames(): string[] {
     'import_staging_activities',
     'import_staging_branches',
     'export_jobs',
+    'name_search',
+    'app_settings',
+    'import_previews',
+    'data_quality_findings',
+    'reconciliation_runs',
+    'reconciliation_discrepancies',
+    'webhook_subscriptions',
+    'webhook_deliveries',
+    'watchlists',
+    'watchlist_enterprises',
+    'watchlist_changes',
+    'watchlist_visits',
   ]
 }
 
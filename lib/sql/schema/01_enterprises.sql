@@ -45,4 +45,4 @@ COMMENT ON COLUMN enterprises.primary_name_nl IS 'Dutch version if available, el
 COMMENT ON COLUMN enterprises.primary_name_fr IS 'French version if available, else NULL';
 COMMENT ON COLUMN enterprises.primary_name_de IS 'German version if available, else NULL';
 COMMENT ON COLUMN enterprises._is_current IS 'TRUE for current version (highest extract number), FALSE for historical versions';
-COMMENT ON COLUMN enterprises._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. NOTE: Not populated by import scripts (added 2025-10-26), documented limitation.';
+COMMENT ON COLUMN enterprises._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. Set by batched and daily imports on delete and supersede; older history can be derived with scripts/backfill-deleted-at-extract.ts.';
@@ -35,4 +35,4 @@ COMMENT ON COLUMN establishments.enterprise_number IS 'Parent enterprise (FK)';
 COMMENT ON COLUMN establishments.commercial_name IS 'Commercial name in any language (optional, Type 003)';
 COMMENT ON COLUMN establishments.commercial_name_language IS 'Language of commercial_name: 0=Unknown, 1=FR, 2=NL, 3=DE, 4=EN';
 COMMENT ON COLUMN establishments._is_current IS 'TRUE for current version (highest extract number), FALSE for historical versions';
-COMMENT ON COLUMN establishments._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. NOTE: Not populated by import scripts (added 2025-10-26), documented limitation.';
+COMMENT ON COLUMN establishments._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. Set by batched and daily imports on delete and supersede; older history can be derived with scripts/backfill-deleted-at-extract.ts.';
@@ -40,4 +40,4 @@ COMMENT ON COLUMN denominations.entity_type IS 'enterprise or establishment';
 COMMENT ON COLUMN denominations.language IS '0=Unknown, 1=FR, 2=NL, 3=DE, 4=EN';
 COMMENT ON COLUMN denominations.denomination_type IS '001=Legal name, 002=Abbreviation, 003=Commercial name, 004=Branch name';
 COMMENT ON COLUMN denominations._is_current IS 'TRUE for current version (highest extract number), FALSE for historical versions';
-COMMENT ON COLUMN denominations._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. NOTE: Not populated by import scripts (added 2025-10-26), documented limitation. Point-in-time queries use partition key (entity_number, language, denomination_type) as workaround.';
+COMMENT ON COLUMN denominations._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. Set by batched and daily imports on delete and supersede; older history can be derived with scripts/backfill-deleted-at-extract.ts. Point-in-time queries partition by (entity_number, language, denomination_type).';
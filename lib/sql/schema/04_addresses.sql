@@ -47,5 +47,5 @@ COMMENT ON COLUMN addresses._extract_number IS 'Monotonic extract number for ver
 COMMENT ON COLUMN addresses.entity_number IS 'Enterprise or establishment number (FK to either table)';
 COMMENT ON COLUMN addresses.type_of_address IS 'REGO=Registered office, BAET=Establishment, ABBR=Branch, OBAD=Oldest active';
 COMMENT ON COLUMN addresses._is_current IS 'TRUE for current version (highest extract number), FALSE for historical versions';
-COMMENT ON COLUMN addresses._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. NOTE: Not populated by import scripts (added 2025-10-26), documented limitation.';
+COMMENT ON COLUMN addresses._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. Set by batched and daily imports on delete and supersede; older history can be derived with scripts/backfill-deleted-at-extract.ts.';
 COMMENT ON COLUMN addresses.date_striking_off IS 'Date struck off (rare)';
@@ -42,7 +42,7 @@ COMMENT ON COLUMN activities.entity_number IS 'Enterprise or establishment numbe
 COMMENT ON COLUMN activities.classification IS 'MAIN=Main activity, SECO=Secondary, ANCI=Ancillary';
 COMMENT ON COLUMN activities.nace_version IS '2003, 2008, or 2025';
 COMMENT ON COLUMN activities._is_current IS 'TRUE for current version (highest extract number), FALSE for historical versions';
-COMMENT ON COLUMN activities._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. NOTE: Not populated by import scripts (added 2025-10-26), documented limitation.';
+COMMENT ON COLUMN activities._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. Set by batched and daily imports on delete and supersede; older history can be derived with scripts/backfill-deleted-at-extract.ts.';
 COMMENT ON COLUMN activities.activity_group IS '001=VAT, 002=EDRL, 003=General, 004=Federal public, 005=RSZPPO, 006=RSZ, 007=Subsidized education';
 COMMENT ON COLUMN activities.classification IS 'MAIN=Main activity, SECO=Secondary, ANCI=Auxiliary';
 COMMENT ON COLUMN activities.nace_version IS '2003, 2008, or 2025';
@@ -37,4 +37,4 @@ COMMENT ON COLUMN contacts.entity_contact IS 'ENT, ESTB, or BRANCH';
 COMMENT ON COLUMN contacts.contact_type IS 'TEL, EMAIL, WEB';
 COMMENT ON COLUMN contacts.contact_value IS 'Phone, email, or URL';
 COMMENT ON COLUMN contacts._is_current IS 'TRUE for current version (highest extract number), FALSE for historical versions';
-COMMENT ON COLUMN contacts._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. NOTE: Not populated by import scripts (added 2025-10-26), documented limitation.';
+COMMENT ON COLUMN contacts._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. Set by batched and daily imports on delete and supersede; older history can be derived with scripts/backfill-deleted-at-extract.ts.';
@@ -29,4 +29,4 @@ COMMENT ON COLUMN branches._snapshot_date IS 'Date of KBO data snapshot (part of
 COMMENT ON COLUMN branches._extract_number IS 'Monotonic extract number for version ordering (part of composite PK)';
 COMMENT ON COLUMN branches.enterprise_number IS 'Parent enterprise (nullable)';
 COMMENT ON COLUMN branches._is_current IS 'TRUE for current version (highest extract number), FALSE for historical versions';
-COMMENT ON COLUMN branches._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. NOTE: Not populated by import scripts (added 2025-10-26), documented limitation.';
+COMMENT ON COLUMN branches._deleted_at_extract IS 'Extract number when this record was superseded. NULL if current or never superseded. Set by batched and daily imports on delete and supersede; older history can be derived with scripts/backfill-deleted-at-extract.ts.';
@@ -13,10 +13,11 @@ CREATE TABLE IF NOT EXISTS import_jobs (
   extract_timestamp TIMESTAMP NOT NULL,       -- From meta.csv
 
   -- Job status
-  status VARCHAR NOT NULL,                    -- 'pending', 'running', 'completed', 'failed'
+  status VARCHAR NOT NULL,                    -- 'pending', 'running', 'completed', 'failed', 'rolled_back', 'cancelled'
   started_at TIMESTAMP,
   completed_at TIMESTAMP,
   error_message VARCHAR,
+  rolled_back_at TIMESTAMP,                   -- When the import was reverted (lib/import/rollback.ts)
 
   -- Statistics
   -- NOTE: records_processed = records_inserted + records_deleted (always)
@@ -31,7 +32,7 @@ CREATE TABLE IF NOT EXISTS import_jobs (
 
   -- Constraints
   CHECK (extract_type IN ('full', 'update')),
-  CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'rolled_back', 'cancelled')),
   CHECK (worker_type IN ('local', 'vercel', 'backfill', 'web_manual'))
 );
 
@@ -39,6 +40,6 @@ CREATE TABLE IF NOT EXISTS import_jobs (
 COMMENT ON TABLE import_jobs IS 'Import job metadata and statistics for monitoring';
 COMMENT ON COLUMN import_jobs.extract_number IS 'Unique ID (e.g. 140)';
 COMMENT ON COLUMN import_jobs.extract_type IS 'full=Monthly full dataset, update=Daily incremental';
-COMMENT ON COLUMN import_jobs.status IS 'pending, running, completed, failed';
+COMMENT ON COLUMN import_jobs.status IS 'pending, running, completed, failed, rolled_back (changes reverted), cancelled (stopped before completion, changes reverted)';
 COMMENT ON COLUMN import_jobs.worker_type IS 'local (CLI), vercel (cron), backfill (retroactive), web_manual (admin UI trigger)';
 COMMENT ON COLUMN import_jobs.records_updated IS 'Always 0 - KBO uses delete-then-insert pattern, not in-place updates';
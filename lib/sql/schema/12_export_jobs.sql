@@ -1,5 +1,5 @@
 -- Export Jobs Table
--- Tracks export operations for VAT-liable entities and other exports
+-- Tracks export operations: the fixed entity export and custom exports built from an export spec
 -- Uses MotherDuck tables for storage instead of files
 
 CREATE TABLE IF NOT EXISTS export_jobs (
@@ -7,8 +7,8 @@ CREATE TABLE IF NOT EXISTS export_jobs (
   id VARCHAR PRIMARY KEY,
 
   -- Export configuration
-  export_type VARCHAR NOT NULL,               -- 'vat_entities' (extensible for future types)
-  filter_config JSON,                         -- Stores filter parameters (e.g., {"activity_groups": ["001", "004", "007"]})
+  export_type VARCHAR NOT NULL,               -- 'vat_entities', 'all_entities', 'custom', 'change_feed', 'watchlist_digest'
+  filter_config JSON,                         -- Export parameters, the export spec for 'custom' (lib/export/spec.ts), the extract range for 'change_feed', the watchlist for 'watchlist_digest'
 
   -- Job status
   status VARCHAR NOT NULL,                    -- 'pending', 'running', 'completed', 'failed'
@@ -31,7 +31,7 @@ CREATE TABLE IF NOT EXISTS export_jobs (
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
 
   -- Constraints
-  CHECK (export_type IN ('vat_entities', 'all_entities')),    -- Extend as needed
+  CHECK (export_type IN ('vat_entities', 'all_entities', 'custom', 'change_feed', 'watchlist_digest')),
   CHECK (status IN ('pending', 'running', 'completed', 'failed')),
   CHECK (worker_type IN ('vercel', 'web_manual', 'cli'))
 );
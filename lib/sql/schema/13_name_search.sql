@@ -0,0 +1,35 @@
+-- Name Search Table
+-- Flattened, current-only list of searchable names (denominations in every
+-- language and establishment commercial names), one row per name.
+-- Rebuilt by refreshNameSearchIndex() (lib/motherduck/name-search.ts) at the end
+-- of every import; the full-text index (schema fts_main_name_search) is created
+-- on top of it by the same refresh with PRAGMA create_fts_index.
+
+CREATE TABLE IF NOT EXISTS name_search (
+  -- Primary key (denomination id, or 'est_' || establishment_number for commercial names)
+  id VARCHAR PRIMARY KEY,
+
+  -- Enterprise the name resolves to (parent enterprise for establishment names)
+  enterprise_number VARCHAR NOT NULL,
+  entity_number VARCHAR NOT NULL,             -- Enterprise or establishment that carries the name
+
+  -- Name details
+  source VARCHAR NOT NULL,                    -- 'denomination' or 'commercial_name'
+  denomination_type VARCHAR,                  -- 001=Legal, 002=Abbreviation, 003=Commercial (NULL for commercial_name)
+  language VARCHAR,                           -- 0=Unknown, 1=FR, 2=NL, 3=DE, 4=EN
+  name VARCHAR NOT NULL,                      -- Name as registered
+  search_text VARCHAR NOT NULL,               -- Lowercased, accent-folded, punctuation-free name
+
+  -- Ranking signals
+  is_active BOOLEAN NOT NULL,                 -- Enterprise status is AC
+
+  -- Metadata
+  _refreshed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CHECK (source IN ('denomination', 'commercial_name'))
+);
+
+COMMENT ON TABLE name_search IS 'Current names of enterprises and establishments for full-text search. Rebuilt after every import.';
+COMMENT ON COLUMN name_search.enterprise_number IS 'Enterprise a match resolves to (parent enterprise for establishment names)';
+COMMENT ON COLUMN name_search.search_text IS 'Folded name: lowercase, accents stripped, non-alphanumerics collapsed to single spaces';
+COMMENT ON COLUMN name_search.is_active IS 'TRUE when the enterprise status is AC; active enterprises rank higher';
@@ -0,0 +1,19 @@
+-- Application Settings Table
+-- Key/value store for settings changed from the admin Settings page
+-- (e.g. autoUpdateEnabled). Values are JSON; keys without a row fall back to
+-- the defaults in lib/config/app-settings.ts.
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  -- Primary key
+  key VARCHAR PRIMARY KEY,                    -- Setting name (e.g. 'autoUpdateEnabled')
+
+  -- Setting value
+  value JSON NOT NULL,
+
+  -- Audit
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_by VARCHAR                          -- User ID from Clerk
+);
+
+COMMENT ON TABLE app_settings IS 'Persisted application settings (admin Settings page)';
+COMMENT ON COLUMN app_settings.value IS 'JSON-encoded setting value';
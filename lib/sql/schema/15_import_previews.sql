@@ -0,0 +1,22 @@
+-- Import Previews Table
+-- Change preview of a dry-run import (lib/import/preview.ts), built from the
+-- staging tables before any batch runs. Batches of a job with a preview are
+-- only processed once the preview has been applied.
+-- Related: import_jobs table (10_import_jobs.sql), staging tables (11_batched_import.sql)
+
+CREATE TABLE IF NOT EXISTS import_previews (
+  -- Primary key
+  job_id VARCHAR PRIMARY KEY,                 -- Foreign key to import_jobs.id
+
+  -- Preview report (ImportPreviewReport)
+  report JSON NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Apply step
+  applied_at TIMESTAMP,                       -- NULL until the import is applied
+  applied_by VARCHAR                          -- User ID from Clerk
+);
+
+COMMENT ON TABLE import_previews IS 'Change previews of dry-run imports, awaiting an explicit apply';
+COMMENT ON COLUMN import_previews.report IS 'JSON-encoded ImportPreviewReport';
+COMMENT ON COLUMN import_previews.applied_at IS 'When batch processing was allowed to start (NULL = still a dry run)';
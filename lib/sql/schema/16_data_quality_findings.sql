@@ -0,0 +1,24 @@
+-- Data Quality Findings Table
+-- Result of the data quality rules (lib/import/data-quality.ts), checked
+-- against the current views when an import is finalized. One row per job and
+-- rule, also for rules without violations, so the trend per rule is complete.
+-- Related: import_jobs table (10_import_jobs.sql)
+
+CREATE TABLE IF NOT EXISTS data_quality_findings (
+  -- Composite primary key
+  job_id VARCHAR NOT NULL,                    -- Foreign key to import_jobs.id
+  rule_id VARCHAR NOT NULL,                   -- DataQualityRule.id
+
+  -- Result
+  violations BIGINT NOT NULL,                 -- Number of violating rows
+  threshold BIGINT,                           -- Maximum new violations allowed at check time (NULL = never fails)
+  exceeded BOOLEAN NOT NULL DEFAULT false,    -- New violations (vs. previous completed import) > threshold, failed the job
+  sample JSON,                                -- First violating subjects (JSON array of strings)
+  checked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (job_id, rule_id)
+);
+
+COMMENT ON TABLE data_quality_findings IS 'Data quality rule violations found after each import';
+COMMENT ON COLUMN data_quality_findings.threshold IS 'Maximum allowed new violations (compared with the previous completed import) when checked (NULL = report only)';
+COMMENT ON COLUMN data_quality_findings.sample IS 'JSON array with the first violating subjects (entity numbers or codes)';
@@ -0,0 +1,62 @@
+-- Reconciliation Tables
+-- Comparison of the current data with a KBO full dump (lib/import/reconciliation.ts).
+-- The dump is authoritative: records in the dump but not current in the
+-- database are "missing", current records not in the dump are "orphaned".
+-- Related: staging tables (11_batched_import.sql), staged with job_id = run id
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  -- Primary key
+  id VARCHAR PRIMARY KEY,                     -- Derived from the workflow ID
+
+  -- Full dump compared against
+  extract_number INTEGER NOT NULL,
+  snapshot_date DATE NOT NULL,
+  last_imported_extract INTEGER,              -- Latest completed import when the run started
+
+  -- Run status
+  status VARCHAR NOT NULL,                    -- 'staging', 'comparing', 'repairing', 'completed', 'failed'
+  auto_repair BOOLEAN NOT NULL DEFAULT false,
+  started_at TIMESTAMP NOT NULL,
+  completed_at TIMESTAMP,
+  error_message VARCHAR,
+
+  -- Report
+  table_stats JSON,                           -- TableReconciliation[] (counts per table)
+  overall_discrepancy_percent DOUBLE,
+  recommendation VARCHAR,                     -- 'keep_history', 'review_details' or 'start_fresh'
+  recommendation_reason VARCHAR,
+
+  -- Repair
+  repaired_at TIMESTAMP,
+  records_repaired BIGINT,
+
+  -- Constraints
+  CHECK (status IN ('staging', 'comparing', 'repairing', 'completed', 'failed')),
+  CHECK (recommendation IS NULL OR recommendation IN ('keep_history', 'review_details', 'start_fresh'))
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_discrepancies (
+  run_id VARCHAR NOT NULL,                    -- Foreign key to reconciliation_runs.id
+  table_name VARCHAR NOT NULL,                -- Versioned table, or 'codes'
+  record_key VARCHAR NOT NULL,                -- Record key (enterprise number, record id, category|code|language)
+  entity_number VARCHAR,                      -- Enterprise or establishment the record belongs to (NULL for codes)
+  issue_type VARCHAR NOT NULL,                -- 'missing_in_db', 'orphaned_in_db' or 'data_mismatch'
+
+  -- Both versions of the record (NULL where it does not exist)
+  db_record JSON,
+  dump_record JSON,
+  differing_fields JSON,                      -- JSON array of column names (data_mismatch only)
+
+  repaired_at TIMESTAMP,                      -- Set when an auto-repair resolved the discrepancy
+
+  -- Constraints
+  CHECK (issue_type IN ('missing_in_db', 'orphaned_in_db', 'data_mismatch'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_table ON reconciliation_discrepancies(run_id, table_name);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_entity ON reconciliation_discrepancies(run_id, entity_number);
+
+COMMENT ON TABLE reconciliation_runs IS 'Comparisons of the current data with a full dump';
+COMMENT ON COLUMN reconciliation_runs.recommendation IS 'keep_history (<1% discrepancies), review_details (1-5%), start_fresh (>5%)';
+COMMENT ON TABLE reconciliation_discrepancies IS 'Records that differ between the current data and the full dump of a reconciliation run';
+COMMENT ON COLUMN reconciliation_discrepancies.issue_type IS 'missing_in_db (only in dump), orphaned_in_db (only in database), data_mismatch (both, different values)';
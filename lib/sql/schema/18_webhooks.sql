@@ -0,0 +1,58 @@
+-- Webhook Tables
+-- Subscriptions of machine API clients to enterprise changes, and the log of
+-- every callback sent for them (lib/webhooks/). After each finalized import
+-- the changes matching a subscription's filter become one or more deliveries,
+-- which are sent and retried by the KboWebhookDelivery Restate service.
+-- Related: import_jobs table (10_import_jobs.sql)
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  -- Primary key
+  id VARCHAR PRIMARY KEY,                     -- UUID
+
+  -- Owner and target
+  client_id VARCHAR NOT NULL,                 -- Machine API client (MACHINE_API_KEYS clientId)
+  url VARCHAR NOT NULL,                       -- Callback URL (https, or http on localhost)
+  secret VARCHAR NOT NULL,                    -- HMAC-SHA256 signing secret
+  description VARCHAR,
+
+  -- Which changes to send
+  filter JSON NOT NULL,                       -- WebhookFilter (enterprise numbers, NACE prefixes, postal ranges, change kinds)
+
+  active BOOLEAN NOT NULL DEFAULT true,       -- Inactive subscriptions get no new deliveries
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  -- Primary key
+  id VARCHAR PRIMARY KEY,                     -- Derived from subscription, import job and page
+
+  subscription_id VARCHAR NOT NULL,           -- Foreign key to webhook_subscriptions.id
+  job_id VARCHAR NOT NULL,                    -- Foreign key to import_jobs.id
+  extract_number INTEGER NOT NULL,
+
+  -- What is sent
+  change_count INTEGER NOT NULL,              -- Enterprises in the payload
+  payload JSON NOT NULL,                      -- Request body (WebhookPayload)
+
+  -- Delivery status
+  status VARCHAR NOT NULL DEFAULT 'pending',  -- 'pending', 'retrying', 'delivered', 'failed'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_attempt_at TIMESTAMP,
+  next_attempt_at TIMESTAMP,                  -- When the next retry is due (status 'retrying')
+  last_status_code INTEGER,                   -- HTTP status of the last attempt (NULL when no response)
+  last_error VARCHAR,
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  -- Constraints
+  CHECK (status IN ('pending', 'retrying', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_client ON webhook_subscriptions(client_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_job ON webhook_deliveries(job_id);
+
+COMMENT ON TABLE webhook_subscriptions IS 'Webhook subscriptions of machine API clients to enterprise changes';
+COMMENT ON TABLE webhook_deliveries IS 'Webhook callbacks per subscription and import, with their delivery status';
+COMMENT ON COLUMN webhook_deliveries.status IS 'pending (not sent yet), retrying (last attempt failed), delivered (2xx response), failed (all attempts failed)';
@@ -0,0 +1,58 @@
+-- Watchlist Tables
+-- Per-user portfolios of enterprises (lib/watchlists/). After each finalized
+-- import, the watched enterprises it touched are compared with their state
+-- at the previous extract (lib/utils/compare-snapshots.ts) and the differences
+-- are stored once per enterprise and extract, shared by every watchlist.
+-- Related: import_jobs table (10_import_jobs.sql)
+
+CREATE TABLE IF NOT EXISTS watchlists (
+  -- Primary key
+  id VARCHAR PRIMARY KEY,                     -- UUID
+
+  user_id VARCHAR NOT NULL,                   -- Owner (Clerk user ID)
+  name VARCHAR NOT NULL,
+  description VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_enterprises (
+  watchlist_id VARCHAR NOT NULL,              -- Foreign key to watchlists.id
+  enterprise_number VARCHAR NOT NULL,         -- 9999.999.999
+  added_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (watchlist_id, enterprise_number)
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_changes (
+  enterprise_number VARCHAR NOT NULL,
+  extract_number INTEGER NOT NULL,            -- Extract that made the change
+  job_id VARCHAR NOT NULL,                    -- Foreign key to import_jobs.id
+  snapshot_date DATE NOT NULL,
+
+  -- What changed
+  change_type VARCHAR NOT NULL,               -- 'created', 'updated', 'removed'
+  name VARCHAR,                               -- Enterprise name after the change (before it when removed)
+  changes JSON NOT NULL,                      -- WatchlistFieldChange[] (empty for created and removed)
+
+  detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (enterprise_number, extract_number),
+
+  -- Constraints
+  CHECK (change_type IN ('created', 'updated', 'removed'))
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_visits (
+  user_id VARCHAR PRIMARY KEY,                -- Clerk user ID
+  last_visited_at TIMESTAMP NOT NULL          -- Last time the user opened the watchlist inbox
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlists_user ON watchlists(user_id);
+CREATE INDEX IF NOT EXISTS idx_watchlist_enterprises_number ON watchlist_enterprises(enterprise_number);
+CREATE INDEX IF NOT EXISTS idx_watchlist_changes_detected_at ON watchlist_changes(detected_at);
+
+COMMENT ON TABLE watchlists IS 'Per-user lists of enterprises to monitor for changes';
+COMMENT ON TABLE watchlist_enterprises IS 'Enterprises on a watchlist';
+COMMENT ON TABLE watchlist_changes IS 'Changes of watched enterprises per extract, detected after each import';
+COMMENT ON TABLE watchlist_visits IS 'When each user last opened the watchlist inbox (changes since then are new)';
@@ -7,6 +7,8 @@ export enum ImportJobStatus {
   Running = 'running',
   Completed = 'completed',
   Failed = 'failed',
+  RolledBack = 'rolled_back',
+  Cancelled = 'cancelled',
 }
 
 export type ImportJobType = 'full' | 'update'
@@ -23,6 +25,7 @@ export interface ImportJob {
   started_at: Date | null
   completed_at: Date | null
   error_message: string | null
+  rolled_back_at: Date | null
   records_processed: number
   records_inserted: number
   records_updated: number
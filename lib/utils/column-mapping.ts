@@ -81,18 +81,27 @@ export function csvColumnToDbColumn(csvColumn: string): string {
 }
 
 /**
- * Convert CSV table name to database table name
+ * Convert snake_case database column name back to the PascalCase CSV column name
  */
-export function csvTableToDbTable(csvTable: string): string {
-  return CSV_TO_DB_TABLE_NAMES[csvTable] || csvTable
+export function dbColumnToCsvColumn(dbColumn: string): string {
+  // Check special cases first
+  const special = Object.keys(SPECIAL_COLUMN_MAPPINGS).find(csvColumn => SPECIAL_COLUMN_MAPPINGS[csvColumn] === dbColumn)
+  if (special) {
+    return special
+  }
+
+  // Default: simple PascalCase conversion
+  return dbColumn
+    .split('_')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
 }
 
 /**
- * Compute entity_type from entity number
- * Establishments start with "2.", everything else is enterprise
+ * Convert CSV table name to database table name
  */
-export function computeEntityType(entityNumber: string): 'enterprise' | 'establishment' {
-  return entityNumber.startsWith('2.') ? 'establishment' : 'enterprise'
+export function csvTableToDbTable(csvTable: string): string {
+  return CSV_TO_DB_TABLE_NAMES[csvTable] || csvTable
 }
 
 /**
@@ -0,0 +1,354 @@
+/**
+ * Watchlist change detection and inbox
+ *
+ * After each finalized import, the watched enterprises it touched (the
+ * records of buildAffectedRecordsQuery for its extract) are fetched as of
+ * that extract and as of the previous completed one and compared with
+ * compareEnterprises(), as the enterprise detail page does. Differences are
+ * stored once per enterprise and extract in watchlist_changes; watchlists
+ * share them. Detecting an extract again skips what is already stored.
+ * Rolling back, cancelling or replacing the job deletes its changes (see
+ * lib/import/rollback.ts and cancel.ts); the inbox and digest only show
+ * changes of completed jobs.
+ *
+ * The inbox shows a user the changes of their watched enterprises detected
+ * since they last opened it.
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import type { EnterpriseDetail } from '@/app/api/enterprises/[number]/route'
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  executeTransaction,
+} from '../motherduck'
+import { fetchEnterpriseDetail } from '../motherduck/enterprise-detail'
+import { buildAffectedRecordsQuery } from '../motherduck/import-job-analysis'
+import { compareEnterprises, type EnterpriseComparison } from '../utils/compare-snapshots'
+import type {
+  WatchlistChange,
+  WatchlistChangeType,
+  WatchlistField,
+  WatchlistFieldChange,
+  WatchlistInboxEntry,
+} from './types'
+
+/** Inbox entries returned at most */
+const MAX_INBOX_ENTRIES = 500
+
+/**
+ * Result of detectWatchlistChanges()
+ */
+export interface WatchlistDetectionResult {
+  /** Watched enterprises touched by the extract */
+  enterprises_checked: number
+  changes_recorded: number
+}
+
+const BASIC_FIELDS = [
+  'status',
+  'juridicalForm',
+  'juridicalSituation',
+  'typeOfEnterprise',
+  'startDate',
+] as const satisfies readonly WatchlistField[]
+
+const LIST_FIELDS = [
+  'denominations',
+  'addresses',
+  'activities',
+  'contacts',
+  'establishments',
+] as const satisfies readonly WatchlistField[]
+
+type ListField = (typeof LIST_FIELDS)[number]
+
+/** One-line description of a list item, per list field */
+const DESCRIBE_ITEM: { [F in ListField]: (item: EnterpriseDetail[F][number]) => string } = {
+  denominations: (d) => `${d.denomination} (${d.typeDescription ?? d.typeCode}, ${d.languageDescription ?? d.language})`,
+  addresses: (a) => {
+    const street = [a.streetNL ?? a.streetFR, a.houseNumber, a.box].filter(Boolean).join(' ')
+    const place = [a.zipcode, a.municipalityNL ?? a.municipalityFR].filter(Boolean).join(' ')
+    return `${a.typeCode}: ${[street, place].filter(Boolean).join(', ')}`
+  },
+  activities: (a) => `NACE ${a.naceVersion} ${a.naceCode} (${a.classification}, group ${a.activityGroup})`,
+  contacts: (c) => `${c.contactType}: ${c.value}`,
+  establishments: (e) => (e.primaryName ? `${e.establishmentNumber} ${e.primaryName}` : e.establishmentNumber),
+}
+
+/**
+ * Flatten a comparison into its differences
+ *
+ * Unchanged fields and items are left out.
+ */
+export function summarizeComparison(comparison: EnterpriseComparison): WatchlistFieldChange[] {
+  const changes: WatchlistFieldChange[] = []
+
+  for (const field of BASIC_FIELDS) {
+    const change = comparison[field]
+    if (change.type !== 'unchanged') {
+      changes.push({
+        field,
+        type: change.type,
+        old_value: change.oldValue ?? null,
+        new_value: change.newValue ?? null,
+      })
+    }
+  }
+
+  for (const field of LIST_FIELDS) {
+    const describe = DESCRIBE_ITEM[field] as (item: EnterpriseDetail[ListField][number]) => string
+    const { added, removed } = comparison[field]
+    for (const item of removed) {
+      changes.push({ field, type: 'removed', old_value: describe(item), new_value: null })
+    }
+    for (const item of added) {
+      changes.push({ field, type: 'added', old_value: null, new_value: describe(item) })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Legal name of an enterprise (NL, FR, then any language)
+ */
+function enterpriseName(detail: EnterpriseDetail): string | null {
+  const names = detail.denominations.filter((d) => d.typeCode === '001')
+  const preferred = ['2', '1']
+    .map((language) => names.find((d) => d.language === language))
+    .find(Boolean)
+  return (preferred ?? names[0] ?? detail.denominations[0])?.denomination ?? null
+}
+
+/**
+ * Detect the changes of watched enterprises made by a completed import job
+ *
+ * @param jobId - Import job ID
+ */
+export async function detectWatchlistChanges(jobId: string): Promise<WatchlistDetectionResult> {
+  const result: WatchlistDetectionResult = { enterprises_checked: 0, changes_recorded: 0 }
+  const db = await connectMotherduck()
+
+  try {
+    const jobs = await executeQuery<{
+      extract_number: number
+      snapshot_date: string
+      status: string
+      previous_extract: number | null
+    }>(db, `
+      SELECT
+        j.extract_number,
+        j.snapshot_date::VARCHAR AS snapshot_date,
+        j.status,
+        (
+          SELECT MAX(earlier.extract_number)
+          FROM import_jobs earlier
+          WHERE earlier.status = 'completed'
+            AND earlier.extract_number < j.extract_number
+        ) AS previous_extract
+      FROM import_jobs j
+      WHERE j.id = $job_id
+    `, { job_id: jobId })
+
+    const job = jobs[0]
+    if (!job || job.status !== 'completed') {
+      console.log(`   ℹ️  Import job ${jobId} is not completed, no watchlist changes detected`)
+      return result
+    }
+
+    // Watched enterprises touched by the extract, not detected yet
+    const watched = await executeQuery<{ enterprise_number: string }>(db, `
+      SELECT DISTINCT affected.entity_number AS enterprise_number
+      FROM (
+        ${buildAffectedRecordsQuery((column) => `${column} = $extract_number`)}
+      ) affected
+      WHERE affected.entity_number IN (SELECT enterprise_number FROM watchlist_enterprises)
+        AND affected.entity_number NOT IN (
+          SELECT enterprise_number FROM watchlist_changes WHERE extract_number = $extract_number
+        )
+      ORDER BY enterprise_number
+    `, { extract_number: job.extract_number })
+
+    result.enterprises_checked = watched.length
+
+    for (const { enterprise_number } of watched) {
+      const change = await compareWatchedEnterprise(db, enterprise_number, job.extract_number, job.previous_extract)
+      if (!change) {
+        continue
+      }
+
+      // NOT EXISTS rather than ON CONFLICT (Motherduck may not honor it at commit time);
+      // a concurrent detection of the same extract may have stored the change already
+      const inserted = await executeQuery<{ enterprise_number: string }>(db, `
+        INSERT INTO watchlist_changes (
+          enterprise_number, extract_number, job_id, snapshot_date, change_type, name, changes
+        )
+        SELECT
+          $enterprise_number, $extract_number, $job_id, $snapshot_date::DATE, $change_type, $name, $changes::JSON
+        WHERE NOT EXISTS (
+          SELECT 1 FROM watchlist_changes
+          WHERE enterprise_number = $enterprise_number
+            AND extract_number = $extract_number
+        )
+        RETURNING enterprise_number
+      `, {
+        enterprise_number,
+        extract_number: job.extract_number,
+        job_id: jobId,
+        snapshot_date: job.snapshot_date,
+        change_type: change.changeType,
+        name: change.name,
+        changes: JSON.stringify(change.changes),
+      })
+      result.changes_recorded += inserted.length
+    }
+
+    console.log(
+      `   ✓ Watchlists: ${result.changes_recorded} changes in ${result.enterprises_checked} watched enterprises`
+    )
+    return result
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Compare a watched enterprise as of an extract with the previous extract
+ *
+ * @returns null when nothing visible changed (e.g. a version rewritten unchanged)
+ */
+async function compareWatchedEnterprise(
+  db: DuckDBConnection,
+  enterpriseNumber: string,
+  extractNumber: number,
+  previousExtract: number | null
+): Promise<{ changeType: WatchlistChangeType; name: string | null; changes: WatchlistFieldChange[] } | null> {
+  const current = await fetchEnterpriseDetail(db, enterpriseNumber, {
+    type: 'point-in-time',
+    extractNumber,
+  })
+  const previous = previousExtract
+    ? await fetchEnterpriseDetail(db, enterpriseNumber, { type: 'point-in-time', extractNumber: previousExtract })
+    : null
+
+  if (!current) {
+    return previous ? { changeType: 'removed', name: enterpriseName(previous), changes: [] } : null
+  }
+
+  const comparison = compareEnterprises(current, previous)
+  if (!comparison) {
+    // No previous version
+    return { changeType: 'created', name: enterpriseName(current), changes: [] }
+  }
+
+  const changes = summarizeComparison(comparison)
+  if (changes.length === 0) {
+    return null
+  }
+  return { changeType: 'updated', name: enterpriseName(current), changes }
+}
+
+interface WatchlistChangeRow extends Omit<WatchlistInboxEntry, 'changes' | 'watchlists'> {
+  changes: string
+  watchlists: string
+}
+
+/**
+ * Changes of a user's watched enterprises detected since their last visit
+ *
+ * Changes detected before an enterprise was added to a watchlist, and
+ * changes of jobs that are no longer completed, are left out. Without an
+ * earlier visit, everything since then is new.
+ *
+ * @returns Time of the last visit (null for the first one), the newest
+ *   entries (at most 500) and their total
+ */
+export async function listWatchlistInbox(
+  db: DuckDBConnection,
+  userId: string
+): Promise<{ since: string | null; entries: WatchlistInboxEntry[]; total: number }> {
+  const visits = await executeQuery<{ last_visited_at: string }>(db, `
+    SELECT strftime(last_visited_at, '%Y-%m-%dT%H:%M:%S.000Z') AS last_visited_at
+    FROM watchlist_visits
+    WHERE user_id = $user_id
+  `, { user_id: userId })
+  const since = visits[0]?.last_visited_at ?? null
+
+  const rows = await executeQuery<WatchlistChangeRow & { total: bigint | number }>(db, `
+    WITH matched AS (
+      SELECT
+        c.enterprise_number,
+        c.extract_number,
+        LIST({'id': w.id, 'name': w.name} ORDER BY lower(w.name)) AS watchlists
+      FROM watchlist_changes c
+      JOIN import_jobs j ON j.id = c.job_id AND j.status = 'completed'
+      JOIN watchlist_enterprises we ON we.enterprise_number = c.enterprise_number
+      JOIN watchlists w ON w.id = we.watchlist_id
+      WHERE w.user_id = $user_id
+        AND c.detected_at >= we.added_at
+        AND NOT EXISTS (
+          SELECT 1
+          FROM watchlist_visits v
+          WHERE v.user_id = $user_id
+            AND v.last_visited_at >= c.detected_at
+        )
+      GROUP BY c.enterprise_number, c.extract_number
+    )
+    SELECT
+      c.enterprise_number,
+      c.extract_number,
+      c.job_id,
+      c.snapshot_date::VARCHAR AS snapshot_date,
+      c.change_type,
+      c.name,
+      c.changes::VARCHAR AS changes,
+      strftime(c.detected_at, '%Y-%m-%dT%H:%M:%S.000Z') AS detected_at,
+      to_json(m.watchlists)::VARCHAR AS watchlists,
+      COUNT(*) OVER () AS total
+    FROM matched m
+    JOIN watchlist_changes c
+      ON c.enterprise_number = m.enterprise_number
+      AND c.extract_number = m.extract_number
+    ORDER BY c.detected_at DESC, c.extract_number DESC, c.enterprise_number
+    LIMIT ${MAX_INBOX_ENTRIES}
+  `, { user_id: userId })
+
+  return {
+    since,
+    entries: rows.map(toInboxEntry),
+    total: Number(rows[0]?.total ?? 0),
+  }
+}
+
+function toInboxEntry(row: WatchlistChangeRow): WatchlistInboxEntry {
+  return {
+    enterprise_number: row.enterprise_number,
+    extract_number: row.extract_number,
+    job_id: row.job_id,
+    snapshot_date: row.snapshot_date,
+    change_type: row.change_type,
+    name: row.name,
+    detected_at: row.detected_at,
+    changes: JSON.parse(row.changes) as WatchlistChange['changes'],
+    watchlists: JSON.parse(row.watchlists) as WatchlistInboxEntry['watchlists'],
+  }
+}
+
+/**
+ * Record that a user opened the inbox: what they saw is no longer new
+ */
+export async function recordWatchlistVisit(db: DuckDBConnection, userId: string): Promise<void> {
+  // Delete then insert (Motherduck may not honor ON CONFLICT at commit time)
+  await executeTransaction(db, [
+    { sql: 'DELETE FROM watchlist_visits WHERE user_id = $user_id', params: { user_id: userId } },
+    {
+      sql: `
+        INSERT INTO watchlist_visits (user_id, last_visited_at)
+        VALUES ($user_id, CURRENT_TIMESTAMP)
+      `,
+      params: { user_id: userId },
+    },
+  ])
+}
@@ -0,0 +1,84 @@
+/**
+ * TypeScript types for watchlists
+ */
+
+import type { ChangeType } from '../utils/compare-snapshots'
+
+export interface Watchlist {
+  id: string
+  user_id: string
+  name: string
+  description: string | null
+  enterprise_count: number
+  created_at: string
+  updated_at: string | null
+}
+
+export interface WatchlistEnterprise {
+  enterprise_number: string
+  /** Current primary name (null when the enterprise is not in the database) */
+  name: string | null
+  added_at: string
+}
+
+/**
+ * Result of adding enterprise numbers to a watchlist
+ */
+export interface WatchlistUploadResult {
+  /** Numbers that were not on the watchlist yet */
+  added: number
+  /** Valid numbers that were already on it (or repeated in the upload) */
+  duplicates: number
+  /** Values that are not valid enterprise numbers (first 100) */
+  invalid: string[]
+  invalid_count: number
+}
+
+/** Fields compared by compareEnterprises(), in display order */
+export type WatchlistField =
+  | 'status'
+  | 'juridicalForm'
+  | 'juridicalSituation'
+  | 'typeOfEnterprise'
+  | 'startDate'
+  | 'denominations'
+  | 'addresses'
+  | 'activities'
+  | 'contacts'
+  | 'establishments'
+
+/**
+ * One difference between two snapshots of an enterprise
+ *
+ * Basic fields are added, removed or changed; list fields (denominations,
+ * addresses, ...) have one entry per added or removed item.
+ */
+export interface WatchlistFieldChange {
+  field: WatchlistField
+  type: Exclude<ChangeType, 'unchanged'>
+  old_value: string | null
+  new_value: string | null
+}
+
+export type WatchlistChangeType = 'created' | 'updated' | 'removed'
+
+/**
+ * Change of a watched enterprise in one extract
+ */
+export interface WatchlistChange {
+  enterprise_number: string
+  extract_number: number
+  job_id: string
+  snapshot_date: string
+  change_type: WatchlistChangeType
+  name: string | null
+  changes: WatchlistFieldChange[]
+  detected_at: string
+}
+
+/**
+ * Change in the inbox, with the user's watchlists that contain the enterprise
+ */
+export interface WatchlistInboxEntry extends WatchlistChange {
+  watchlists: { id: string; name: string }[]
+}
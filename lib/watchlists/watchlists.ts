@@ -0,0 +1,340 @@
+/**
+ * Watchlists
+ *
+ * Every user keeps their own lists of enterprises to monitor. Enterprise
+ * numbers are validated with validateEnterpriseNumber() (through
+ * parseEnterpriseNumber(), which also accepts VAT numbers and old 9-digit
+ * numbers); they do not have to exist yet.
+ */
+
+import { randomUUID } from 'crypto'
+import { listValue, type DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeStatement, type QueryParamValue } from '../motherduck'
+import { parseEnterpriseNumber } from '../motherduck/entity-matching'
+import { ValidationError } from '@/lib/errors'
+import type { Watchlist, WatchlistEnterprise, WatchlistUploadResult } from './types'
+
+/** Enterprise numbers per watchlist (and per upload) */
+export const MAX_WATCHLIST_ENTERPRISES = 10_000
+
+const MAX_NAME_LENGTH = 100
+const MAX_DESCRIPTION_LENGTH = 500
+
+/**
+ * Changes to a watchlist, validated
+ */
+export interface WatchlistInput {
+  name?: string
+  description?: string | null
+}
+
+/**
+ * Validate the fields of a create (name required) or update request
+ *
+ * @throws ValidationError when a field is malformed
+ */
+export function validateWatchlistInput(
+  input: unknown,
+  options: { partial?: boolean } = {}
+): WatchlistInput {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Request body must be an object')
+  }
+  const raw = input as Record<string, unknown>
+  const result: WatchlistInput = {}
+
+  if (raw.name !== undefined || !options.partial) {
+    if (typeof raw.name !== 'string' || !raw.name.trim() || raw.name.length > MAX_NAME_LENGTH) {
+      throw new ValidationError(`name must be a string of 1 to ${MAX_NAME_LENGTH} characters`)
+    }
+    result.name = raw.name.trim()
+  }
+  if (raw.description !== undefined) {
+    if (raw.description !== null && (typeof raw.description !== 'string' || raw.description.length > MAX_DESCRIPTION_LENGTH)) {
+      throw new ValidationError(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`)
+    }
+    result.description = raw.description ? raw.description.trim() : null
+  }
+
+  return result
+}
+
+/**
+ * Split an upload into enterprise numbers
+ *
+ * Accepts a list of strings or text with one number per line (or separated
+ * by commas, semicolons or tabs, e.g. a CSV column). A header line that is
+ * not a number counts as invalid.
+ *
+ * @returns Normalized numbers (9999.999.999, duplicates kept) and the invalid values
+ * @throws ValidationError when the upload is empty or too large
+ */
+export function parseEnterpriseNumberUpload(input: unknown): { numbers: string[]; invalid: string[] } {
+  let values: string[]
+  if (typeof input === 'string') {
+    values = input.split(/[\r\n,;\t]+/)
+  } else if (Array.isArray(input) && input.every((value) => typeof value === 'string')) {
+    values = input as string[]
+  } else {
+    throw new ValidationError('enterpriseNumbers must be a list of strings or text')
+  }
+
+  values = values.map((value) => value.trim().replace(/^"(.*)"$/, '$1')).filter(Boolean)
+  if (values.length === 0) {
+    throw new ValidationError('No enterprise numbers in the upload')
+  }
+  if (values.length > MAX_WATCHLIST_ENTERPRISES) {
+    throw new ValidationError(`At most ${MAX_WATCHLIST_ENTERPRISES} enterprise numbers per upload`, {
+      count: values.length,
+    })
+  }
+
+  const numbers: string[] = []
+  const invalid: string[] = []
+  for (const value of values) {
+    const number = parseEnterpriseNumber(value)
+    if (number) {
+      numbers.push(number)
+    } else {
+      invalid.push(value)
+    }
+  }
+
+  return { numbers, invalid }
+}
+
+const WATCHLIST_COLUMNS = `
+  w.id,
+  w.user_id,
+  w.name,
+  w.description,
+  (SELECT COUNT(*) FROM watchlist_enterprises we WHERE we.watchlist_id = w.id)::INTEGER AS enterprise_count,
+  strftime(w.created_at, '%Y-%m-%dT%H:%M:%S.000Z') AS created_at,
+  strftime(w.updated_at, '%Y-%m-%dT%H:%M:%S.000Z') AS updated_at
+`
+
+/**
+ * Create a watchlist
+ */
+export async function createWatchlist(
+  db: DuckDBConnection,
+  userId: string,
+  input: Required<Pick<WatchlistInput, 'name'>> & WatchlistInput
+): Promise<Watchlist> {
+  const id = randomUUID()
+
+  await executeStatement(db, `
+    INSERT INTO watchlists (id, user_id, name, description)
+    VALUES ($id, $user_id, $name, $description)
+  `, {
+    id,
+    user_id: userId,
+    name: input.name,
+    description: input.description ?? null,
+  })
+
+  return (await getWatchlist(db, id, userId)) as Watchlist
+}
+
+/**
+ * List the watchlists of a user, by name
+ */
+export async function listWatchlists(db: DuckDBConnection, userId: string): Promise<Watchlist[]> {
+  return executeQuery<Watchlist>(db, `
+    SELECT ${WATCHLIST_COLUMNS}
+    FROM watchlists w
+    WHERE w.user_id = $user_id
+    ORDER BY lower(w.name), w.created_at
+  `, { user_id: userId })
+}
+
+/**
+ * Get a watchlist of a user
+ *
+ * @returns The watchlist, or null when it does not exist or is someone else's
+ */
+export async function getWatchlist(
+  db: DuckDBConnection,
+  id: string,
+  userId: string
+): Promise<Watchlist | null> {
+  const rows = await executeQuery<Watchlist>(db, `
+    SELECT ${WATCHLIST_COLUMNS}
+    FROM watchlists w
+    WHERE w.id = $id
+      AND w.user_id = $user_id
+  `, { id, user_id: userId })
+
+  return rows[0] ?? null
+}
+
+/**
+ * Rename a watchlist or change its description
+ *
+ * @returns The updated watchlist, or null when it does not exist or is someone else's
+ */
+export async function updateWatchlist(
+  db: DuckDBConnection,
+  id: string,
+  userId: string,
+  changes: WatchlistInput
+): Promise<Watchlist | null> {
+  const existing = await getWatchlist(db, id, userId)
+  if (!existing) {
+    return null
+  }
+
+  const assignments: string[] = []
+  const params: Record<string, QueryParamValue> = { id }
+
+  if (changes.name !== undefined) {
+    assignments.push('name = $name')
+    params.name = changes.name
+  }
+  if (changes.description !== undefined) {
+    assignments.push('description = $description')
+    params.description = changes.description
+  }
+
+  if (assignments.length > 0) {
+    await executeStatement(db, `
+      UPDATE watchlists
+      SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $id
+    `, params)
+  }
+
+  return getWatchlist(db, id, userId)
+}
+
+/**
+ * Delete a watchlist and its enterprises
+ *
+ * Detected changes are kept: other watchlists may share the enterprises.
+ *
+ * @returns false when the watchlist does not exist or is someone else's
+ */
+export async function deleteWatchlist(db: DuckDBConnection, id: string, userId: string): Promise<boolean> {
+  const existing = await getWatchlist(db, id, userId)
+  if (!existing) {
+    return false
+  }
+
+  await executeStatement(db, 'DELETE FROM watchlist_enterprises WHERE watchlist_id = $id', { id })
+  await executeStatement(db, 'DELETE FROM watchlists WHERE id = $id', { id })
+  return true
+}
+
+/**
+ * Enterprises on a watchlist with their current name, by enterprise number
+ */
+export async function listWatchlistEnterprises(
+  db: DuckDBConnection,
+  watchlistId: string
+): Promise<WatchlistEnterprise[]> {
+  return executeQuery<WatchlistEnterprise>(db, `
+    SELECT
+      we.enterprise_number,
+      e.primary_name AS name,
+      strftime(we.added_at, '%Y-%m-%dT%H:%M:%S.000Z') AS added_at
+    FROM watchlist_enterprises we
+    LEFT JOIN enterprises e
+      ON e.enterprise_number = we.enterprise_number
+      AND e._is_current = true
+    WHERE we.watchlist_id = $watchlist_id
+    ORDER BY we.enterprise_number
+  `, { watchlist_id: watchlistId })
+}
+
+/**
+ * Add uploaded enterprise numbers to a watchlist
+ *
+ * @param upload - List of strings or text (see parseEnterpriseNumberUpload)
+ * @throws ValidationError when the upload is malformed or the watchlist would get too large
+ */
+export async function addWatchlistEnterprises(
+  db: DuckDBConnection,
+  watchlistId: string,
+  upload: unknown
+): Promise<WatchlistUploadResult> {
+  const { numbers, invalid } = parseEnterpriseNumberUpload(upload)
+  const unique = [...new Set(numbers)]
+
+  let added = 0
+  if (unique.length > 0) {
+    const existing = await executeQuery<{ enterprise_number: string }>(db, `
+      SELECT enterprise_number
+      FROM watchlist_enterprises
+      WHERE watchlist_id = $watchlist_id
+    `, { watchlist_id: watchlistId })
+    const onList = new Set(existing.map((row) => row.enterprise_number))
+    const newNumbers = unique.filter((number) => !onList.has(number))
+
+    if (onList.size + newNumbers.length > MAX_WATCHLIST_ENTERPRISES) {
+      throw new ValidationError(`A watchlist holds at most ${MAX_WATCHLIST_ENTERPRISES} enterprises`, {
+        current: onList.size,
+        adding: newNumbers.length,
+      })
+    }
+
+    if (newNumbers.length > 0) {
+      // NOT EXISTS rather than ON CONFLICT (Motherduck may not honor it at commit time)
+      await executeStatement(db, `
+        INSERT INTO watchlist_enterprises (watchlist_id, enterprise_number)
+        SELECT $watchlist_id, enterprise_number
+        FROM (SELECT UNNEST($enterprise_numbers) AS enterprise_number) numbers
+        WHERE NOT EXISTS (
+          SELECT 1 FROM watchlist_enterprises we
+          WHERE we.watchlist_id = $watchlist_id
+            AND we.enterprise_number = numbers.enterprise_number
+        )
+      `, { watchlist_id: watchlistId, enterprise_numbers: listValue(newNumbers) })
+      await touchWatchlist(db, watchlistId)
+    }
+    added = newNumbers.length
+  }
+
+  return {
+    added,
+    duplicates: numbers.length - added,
+    invalid: invalid.slice(0, 100),
+    invalid_count: invalid.length,
+  }
+}
+
+/**
+ * Remove enterprise numbers from a watchlist
+ *
+ * @returns Number of enterprises removed
+ * @throws ValidationError when the upload is malformed
+ */
+export async function removeWatchlistEnterprises(
+  db: DuckDBConnection,
+  watchlistId: string,
+  upload: unknown
+): Promise<number> {
+  const { numbers } = parseEnterpriseNumberUpload(upload)
+  if (numbers.length === 0) {
+    return 0
+  }
+
+  const removed = await executeQuery<{ count: bigint | number }>(db, `
+    SELECT COUNT(*) AS count
+    FROM watchlist_enterprises
+    WHERE watchlist_id = $watchlist_id
+      AND enterprise_number IN (SELECT UNNEST($enterprise_numbers))
+  `, { watchlist_id: watchlistId, enterprise_numbers: listValue(numbers) })
+
+  await executeStatement(db, `
+    DELETE FROM watchlist_enterprises
+    WHERE watchlist_id = $watchlist_id
+      AND enterprise_number IN (SELECT UNNEST($enterprise_numbers))
+  `, { watchlist_id: watchlistId, enterprise_numbers: listValue(numbers) })
+  await touchWatchlist(db, watchlistId)
+
+  return Number(removed[0]?.count || 0)
+}
+
+async function touchWatchlist(db: DuckDBConnection, id: string): Promise<void> {
+  await executeStatement(db, 'UPDATE watchlists SET updated_at = CURRENT_TIMESTAMP WHERE id = $id', { id })
+}
@@ -0,0 +1,464 @@
+/**
+ * Webhook delivery
+ *
+ * Deliveries are sent by the KboWebhookDelivery Restate service
+ * (lib/restate/kbo-webhook-service.ts), which calls attemptWebhookDelivery()
+ * as a durable step and sleeps between failed attempts with exponential
+ * backoff. Every attempt is recorded on the delivery row.
+ *
+ * Callbacks are POSTs with the JSON payload as body and these headers:
+ * - X-Webhook-Id: delivery ID (the same for every attempt, use it to dedupe)
+ * - X-Webhook-Event: enterprise.changes
+ * - X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>"
+ *   with the subscription secret>
+ * Any 2xx response counts as delivered.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { connectMotherduck, closeMotherduck, executeQuery, executeStatement } from '../motherduck'
+import { ValidationError } from '@/lib/errors'
+import { checkWebhookUrl, webhookLookup } from './targets'
+import type { WebhookDelivery, WebhookDeliveryCounts, WebhookDeliveryStatus } from './types'
+
+const RESTATE_INGRESS_URL = process.env.RESTATE_INGRESS_URL || 'http://localhost:8080'
+const RESTATE_AUTH_TOKEN = process.env.RESTATE_AUTH_TOKEN
+
+/** Attempts per delivery before it is marked failed */
+export const WEBHOOK_MAX_ATTEMPTS = 8
+
+/** Delay after the first failed attempt, doubled after each next one */
+const RETRY_BASE_DELAY_MS = 30_000
+const RETRY_MAX_DELAY_MS = 60 * 60_000
+
+/** Time a receiver has to answer */
+const REQUEST_TIMEOUT_MS = 10_000
+
+/** Response text kept in last_error */
+const MAX_ERROR_LENGTH = 500
+
+/** Accepted age of a signature when verifying */
+const SIGNATURE_TOLERANCE_SECONDS = 300
+
+/** Deliveries per page of the delivery log */
+const MAX_DELIVERIES_PER_PAGE = 100
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'delivered', 'failed']
+
+/**
+ * Delay before the retry that follows a failed attempt (1-based)
+ */
+export function webhookRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * X-Webhook-Signature header for a request body
+ *
+ * @param timestamp - Unix time in seconds (defaults to now)
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Verify an X-Webhook-Signature header, as a receiver would
+ *
+ * @returns false when the signature does not match or is too old
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    (header ?? '').split(',').map((part) => part.trim().split('=', 2) as [string, string])
+  )
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1 || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex')
+  const actual = Buffer.from(parts.v1, 'hex')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Outcome of one HTTP attempt
+ */
+export interface WebhookSendResult {
+  ok: boolean
+  statusCode: number | null
+  error: string | null
+}
+
+/**
+ * POST a request body and read the response, capped at MAX_ERROR_LENGTH
+ *
+ * Uses http(s).request rather than fetch so the connection resolves the host
+ * through webhookLookup(). Redirects are not followed.
+ */
+function postWebhook(
+  url: URL,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ statusCode: number; text: string }> {
+  const send = url.protocol === 'http:' ? httpRequest : httpsRequest
+
+  return new Promise((resolve, reject) => {
+    const request = send(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: webhookLookup,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, (response) => {
+      let text = ''
+      response.setEncoding('utf8')
+      response.on('data', (chunk: string) => {
+        if (text.length < MAX_ERROR_LENGTH) {
+          text += chunk
+        }
+      })
+      response.on('end', () => resolve({ statusCode: response.statusCode ?? 0, text: text.slice(0, MAX_ERROR_LENGTH) }))
+      response.on('error', reject)
+    })
+
+    request.on('error', reject)
+    request.end(body)
+  })
+}
+
+/**
+ * POST a signed payload to a callback URL
+ *
+ * The URL is checked first (see targets.ts), and the connection resolves the
+ * host through webhookLookup(), which refuses private addresses: the address
+ * checked is the address connected to, even if DNS changed since the
+ * subscription was saved. Never throws: refused targets, network errors and
+ * timeouts are returned as a failed result.
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  deliveryId: string,
+  body: string
+): Promise<WebhookSendResult> {
+  let target: URL
+  try {
+    target = new URL(url)
+  } catch {
+    return { ok: false, statusCode: null, error: 'Invalid url' }
+  }
+
+  const refusal = checkWebhookUrl(target)
+  if (refusal) {
+    return { ok: false, statusCode: null, error: refusal }
+  }
+
+  try {
+    const response = await postWebhook(target, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'NewAgeKBO-Webhooks/1.0',
+      'X-Webhook-Id': deliveryId,
+      'X-Webhook-Event': 'enterprise.changes',
+      'X-Webhook-Signature': signWebhookPayload(secret, body),
+    }, body)
+
+    if (response.statusCode >= 200 && response.statusCode < 300) {
+      return { ok: true, statusCode: response.statusCode, error: null }
+    }
+
+    return {
+      ok: false,
+      statusCode: response.statusCode,
+      error: `HTTP ${response.statusCode}${response.text ? `: ${response.text}` : ''}`,
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH),
+    }
+  }
+}
+
+/**
+ * Result of attemptWebhookDelivery()
+ */
+export interface WebhookAttemptResult {
+  /** 'retrying' means another attempt should follow */
+  status: WebhookDeliveryStatus
+  attempts: number
+}
+
+/**
+ * Send a delivery once and record the attempt
+ *
+ * A failed attempt leaves the delivery 'retrying', or 'failed' when it was
+ * the last one. Deliveries that were already delivered are not sent again;
+ * deliveries of deleted or inactive subscriptions are marked failed.
+ *
+ * @param deliveryId - Delivery to send
+ * @param attempt - Attempt number within this round of retries (1-based)
+ */
+export async function attemptWebhookDelivery(
+  deliveryId: string,
+  attempt: number
+): Promise<WebhookAttemptResult> {
+  const db = await connectMotherduck()
+
+  try {
+    const rows = await executeQuery<{
+      status: WebhookDeliveryStatus
+      attempts: number
+      payload: string
+      url: string | null
+      secret: string | null
+      active: boolean | null
+    }>(db, `
+      SELECT d.status, d.attempts, d.payload::VARCHAR AS payload, s.url, s.secret, s.active
+      FROM webhook_deliveries d
+      LEFT JOIN webhook_subscriptions s ON s.id = d.subscription_id
+      WHERE d.id = $id
+    `, { id: deliveryId })
+
+    const delivery = rows[0]
+    if (!delivery) {
+      // Deleted together with its subscription
+      return { status: 'failed', attempts: 0 }
+    }
+    if (delivery.status === 'delivered' || delivery.status === 'failed') {
+      return { status: delivery.status, attempts: delivery.attempts }
+    }
+
+    const attempts = delivery.attempts + 1
+    const now = new Date()
+
+    if (!delivery.url || !delivery.secret || !delivery.active) {
+      await executeStatement(db, `
+        UPDATE webhook_deliveries
+        SET status = 'failed', next_attempt_at = NULL, last_error = $error
+        WHERE id = $id
+      `, { id: deliveryId, error: 'Subscription is inactive' })
+      return { status: 'failed', attempts: delivery.attempts }
+    }
+
+    const result = await sendWebhook(delivery.url, delivery.secret, deliveryId, delivery.payload)
+
+    let status: WebhookDeliveryStatus
+    if (result.ok) {
+      status = 'delivered'
+    } else {
+      status = attempt >= WEBHOOK_MAX_ATTEMPTS ? 'failed' : 'retrying'
+    }
+
+    await executeStatement(db, `
+      UPDATE webhook_deliveries
+      SET status = $status,
+          attempts = $attempts,
+          last_attempt_at = $now,
+          next_attempt_at = $next_attempt_at,
+          last_status_code = $status_code,
+          last_error = $error,
+          delivered_at = $delivered_at
+      WHERE id = $id
+    `, {
+      id: deliveryId,
+      status,
+      attempts,
+      now: now.toISOString(),
+      next_attempt_at: status === 'retrying'
+        ? new Date(now.getTime() + webhookRetryDelay(attempt)).toISOString()
+        : null,
+      status_code: result.statusCode,
+      error: result.error,
+      delivered_at: result.ok ? now.toISOString() : null,
+    })
+
+    return { status, attempts }
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Hand a delivery to the KboWebhookDelivery Restate service
+ *
+ * @param idempotencyKey - Restate ignores a second request with the same key
+ * @throws Error when Restate does not accept the request
+ */
+export async function queueWebhookDelivery(deliveryId: string, idempotencyKey: string): Promise<void> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'idempotency-key': idempotencyKey,
+  }
+  if (RESTATE_AUTH_TOKEN) {
+    headers['Authorization'] = `Bearer ${RESTATE_AUTH_TOKEN}`
+  }
+
+  const response = await fetch(`${RESTATE_INGRESS_URL}/KboWebhookDelivery/deliver/send`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ deliveryId }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Restate rejected webhook delivery ${deliveryId}: ${await response.text()}`)
+  }
+}
+
+/**
+ * Send a failed or unsent delivery again, with a new round of attempts
+ *
+ * @throws ValidationError when the delivery was delivered or is being retried
+ * @returns false when the delivery does not exist
+ */
+export async function retryWebhookDelivery(db: DuckDBConnection, deliveryId: string): Promise<boolean> {
+  const rows = await executeQuery<{ status: WebhookDeliveryStatus; attempts: number }>(db, `
+    SELECT status, attempts FROM webhook_deliveries WHERE id = $id
+  `, { id: deliveryId })
+
+  const delivery = rows[0]
+  if (!delivery) {
+    return false
+  }
+  if (delivery.status === 'delivered' || delivery.status === 'retrying') {
+    throw new ValidationError(`Delivery is ${delivery.status}`, { deliveryId, status: delivery.status })
+  }
+
+  await executeStatement(db, `
+    UPDATE webhook_deliveries
+    SET status = 'pending', next_attempt_at = NULL
+    WHERE id = $id
+  `, { id: deliveryId })
+
+  await queueWebhookDelivery(deliveryId, `${deliveryId}-${delivery.attempts}`)
+  return true
+}
+
+/**
+ * Filters for listWebhookDeliveries()
+ */
+export interface WebhookDeliveryQuery {
+  subscriptionId?: string
+  /** Only deliveries of this client's subscriptions */
+  clientId?: string
+  status?: WebhookDeliveryStatus
+  limit: number
+  offset: number
+}
+
+/**
+ * Parse the status, page and limit query parameters of a delivery log request
+ *
+ * @throws ValidationError when the status is unknown
+ */
+export function parseWebhookDeliveryQuery(
+  searchParams: URLSearchParams
+): Pick<WebhookDeliveryQuery, 'status' | 'limit' | 'offset'> & { page: number } {
+  const status = searchParams.get('status') || undefined
+  if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    throw new ValidationError('Unknown delivery status', { status, allowed: WEBHOOK_DELIVERY_STATUSES })
+  }
+
+  const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25') || 25, 1), MAX_DELIVERIES_PER_PAGE)
+
+  return {
+    status: status as WebhookDeliveryStatus | undefined,
+    page,
+    limit,
+    offset: (page - 1) * limit,
+  }
+}
+
+/**
+ * Page of the delivery log, newest first (without payloads)
+ */
+export async function listWebhookDeliveries(
+  db: DuckDBConnection,
+  query: WebhookDeliveryQuery
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  const where = `
+    WHERE ($subscription_id IS NULL OR d.subscription_id = $subscription_id)
+      AND ($client_id IS NULL OR s.client_id = $client_id)
+      AND ($status IS NULL OR d.status = $status)
+  `
+  const params = {
+    subscription_id: query.subscriptionId ?? null,
+    client_id: query.clientId ?? null,
+    status: query.status ?? null,
+  }
+
+  const deliveries = await executeQuery<WebhookDelivery>(db, `
+    SELECT
+      d.id,
+      d.subscription_id,
+      d.job_id,
+      d.extract_number,
+      d.change_count,
+      d.status,
+      d.attempts,
+      strftime(d.last_attempt_at, '%Y-%m-%dT%H:%M:%S.000Z') AS last_attempt_at,
+      strftime(d.next_attempt_at, '%Y-%m-%dT%H:%M:%S.000Z') AS next_attempt_at,
+      d.last_status_code,
+      d.last_error,
+      strftime(d.delivered_at, '%Y-%m-%dT%H:%M:%S.000Z') AS delivered_at,
+      strftime(d.created_at, '%Y-%m-%dT%H:%M:%S.000Z') AS created_at
+    FROM webhook_deliveries d
+    LEFT JOIN webhook_subscriptions s ON s.id = d.subscription_id
+    ${where}
+    ORDER BY d.created_at DESC, d.id
+    LIMIT $limit OFFSET $offset
+  `, { ...params, limit: query.limit, offset: query.offset })
+
+  const count = await executeQuery<{ total: bigint | number }>(db, `
+    SELECT COUNT(*) AS total
+    FROM webhook_deliveries d
+    LEFT JOIN webhook_subscriptions s ON s.id = d.subscription_id
+    ${where}
+  `, params)
+
+  return { deliveries, total: Number(count[0]?.total || 0) }
+}
+
+/**
+ * Delivery counts per subscription ID (subscriptions without deliveries are absent)
+ */
+export async function countWebhookDeliveries(db: DuckDBConnection): Promise<Record<string, WebhookDeliveryCounts>> {
+  const rows = await executeQuery<{
+    subscription_id: string
+    pending: bigint | number
+    retrying: bigint | number
+    delivered: bigint | number
+    failed: bigint | number
+    last_delivered_at: string | null
+  }>(db, `
+    SELECT
+      subscription_id,
+      COUNT(*) FILTER (WHERE status = 'pending') AS pending,
+      COUNT(*) FILTER (WHERE status = 'retrying') AS retrying,
+      COUNT(*) FILTER (WHERE status = 'delivered') AS delivered,
+      COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+      strftime(MAX(delivered_at), '%Y-%m-%dT%H:%M:%S.000Z') AS last_delivered_at
+    FROM webhook_deliveries
+    GROUP BY subscription_id
+  `)
+
+  return Object.fromEntries(rows.map((row) => [row.subscription_id, {
+    pending: Number(row.pending),
+    retrying: Number(row.retrying),
+    delivered: Number(row.delivered),
+    failed: Number(row.failed),
+    last_delivered_at: row.last_delivered_at,
+  }]))
+}
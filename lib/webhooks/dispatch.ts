@@ -0,0 +1,192 @@
+/**
+ * Webhook dispatch after an import
+ *
+ * Once an import is finalized, its change feed is built once and matched
+ * against every active subscription. Each subscription with matches gets one
+ * delivery per page of changes, stored with its payload and handed to Restate
+ * for sending. Delivery IDs derive from subscription, job and page, so
+ * dispatching a job again adds nothing.
+ *
+ * The first import (no earlier completed extract) is not dispatched: every
+ * enterprise would be "created".
+ */
+
+import type { DuckDBConnection } from '@duckdb/node-api'
+import {
+  connectMotherduck,
+  closeMotherduck,
+  executeQuery,
+  executeStatement,
+  quoteIdentifier,
+} from '../motherduck'
+import { createChangeFeedTable } from '../export/change-feed'
+import { generateJobId } from '../import/batched-update'
+import { buildWebhookMatchQuery, toWebhookChange, type ChangeFeedRow } from './matching'
+import { queueWebhookDelivery } from './delivery'
+import { listWebhookSubscriptions } from './subscriptions'
+import type { WebhookPayload, WebhookSubscription } from './types'
+
+/** Changes per delivery */
+const CHANGES_PER_DELIVERY = 500
+
+/**
+ * Result of dispatchWebhooks()
+ */
+export interface WebhookDispatchResult {
+  /** Active subscriptions with at least one matching change */
+  subscriptions_matched: number
+  deliveries_created: number
+  /** Deliveries Restate accepted; the others stay pending until retried */
+  deliveries_queued: number
+}
+
+/**
+ * Create and queue the webhook deliveries of a completed import job
+ *
+ * @param jobId - Import job ID
+ */
+export async function dispatchWebhooks(jobId: string): Promise<WebhookDispatchResult> {
+  const result: WebhookDispatchResult = { subscriptions_matched: 0, deliveries_created: 0, deliveries_queued: 0 }
+  const db = await connectMotherduck()
+
+  try {
+    const subscriptions = (await listWebhookSubscriptions(db)).filter((subscription) => subscription.active)
+    if (subscriptions.length === 0) {
+      return result
+    }
+
+    const jobs = await executeQuery<{
+      extract_number: number
+      snapshot_date: string
+      status: string
+      earlier_imports: bigint | number
+    }>(db, `
+      SELECT
+        j.extract_number,
+        j.snapshot_date::VARCHAR AS snapshot_date,
+        j.status,
+        (
+          SELECT COUNT(*)
+          FROM import_jobs earlier
+          WHERE earlier.status = 'completed'
+            AND earlier.extract_number < j.extract_number
+        ) AS earlier_imports
+      FROM import_jobs j
+      WHERE j.id = $job_id
+    `, { job_id: jobId })
+
+    const job = jobs[0]
+    if (!job || job.status !== 'completed') {
+      console.log(`   ℹ️  Import job ${jobId} is not completed, no webhooks sent`)
+      return result
+    }
+    if (Number(job.earlier_imports) === 0) {
+      console.log('   ℹ️  First import, no webhooks sent')
+      return result
+    }
+
+    const tableName = `webhook_changes_${jobId.replace(/\W/g, '_')}`
+    try {
+      await createChangeFeedTable(db, tableName, {
+        fromExtract: job.extract_number,
+        toExtract: job.extract_number,
+      })
+
+      for (const subscription of subscriptions) {
+        const created = await createDeliveries(db, subscription, tableName, {
+          jobId,
+          extractNumber: job.extract_number,
+          snapshotDate: job.snapshot_date,
+        })
+        if (created > 0) {
+          result.subscriptions_matched++
+          result.deliveries_created += created
+        }
+      }
+    } finally {
+      await executeStatement(db, `DROP TABLE IF EXISTS ${quoteIdentifier(tableName)}`)
+    }
+
+    // Unsent deliveries of this job (also those left from an earlier dispatch)
+    const pending = await executeQuery<{ id: string }>(db, `
+      SELECT id
+      FROM webhook_deliveries
+      WHERE job_id = $job_id
+        AND status = 'pending'
+        AND attempts = 0
+      ORDER BY id
+    `, { job_id: jobId })
+
+    for (const { id } of pending) {
+      try {
+        await queueWebhookDelivery(id, id)
+        result.deliveries_queued++
+      } catch (error) {
+        console.error(`   ⚠️  Could not queue webhook delivery ${id}:`, error)
+      }
+    }
+
+    console.log(
+      `   ✓ Webhooks: ${result.deliveries_created} deliveries for ${result.subscriptions_matched} subscriptions, ${result.deliveries_queued} queued`
+    )
+    return result
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+/**
+ * Store the deliveries of one subscription
+ *
+ * @returns Number of deliveries created (0 when nothing matched or all were stored before)
+ */
+async function createDeliveries(
+  db: DuckDBConnection,
+  subscription: WebhookSubscription,
+  tableName: string,
+  job: { jobId: string; extractNumber: number; snapshotDate: string }
+): Promise<number> {
+  const { sql, params } = buildWebhookMatchQuery(subscription.filter, tableName, job.extractNumber)
+  const changes = (await executeQuery<ChangeFeedRow>(db, sql, params)).map(toWebhookChange)
+  if (changes.length === 0) {
+    return 0
+  }
+
+  let created = 0
+  const pages = Math.ceil(changes.length / CHANGES_PER_DELIVERY)
+  for (let page = 1; page <= pages; page++) {
+    const deliveryId = generateJobId(`${subscription.id}:${job.jobId}:${page}`)
+    const pageChanges = changes.slice((page - 1) * CHANGES_PER_DELIVERY, page * CHANGES_PER_DELIVERY)
+
+    const payload: WebhookPayload = {
+      delivery_id: deliveryId,
+      event: 'enterprise.changes',
+      subscription_id: subscription.id,
+      job_id: job.jobId,
+      extract_number: job.extractNumber,
+      snapshot_date: job.snapshotDate,
+      page,
+      pages,
+      changes: pageChanges,
+    }
+
+    // NOT EXISTS rather than ON CONFLICT (Motherduck may not honor it at commit time):
+    // a delivery stored by an earlier dispatch of the job is kept as it is
+    const inserted = await executeQuery<{ id: string }>(db, `
+      INSERT INTO webhook_deliveries (id, subscription_id, job_id, extract_number, change_count, payload)
+      SELECT $id, $subscription_id, $job_id, $extract_number, $change_count, $payload::JSON
+      WHERE NOT EXISTS (SELECT 1 FROM webhook_deliveries WHERE id = $id)
+      RETURNING id
+    `, {
+      id: deliveryId,
+      subscription_id: subscription.id,
+      job_id: job.jobId,
+      extract_number: job.extractNumber,
+      change_count: pageChanges.length,
+      payload: JSON.stringify(payload),
+    })
+    created += inserted.length
+  }
+
+  return created
+}
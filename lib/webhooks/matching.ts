@@ -0,0 +1,131 @@
+/**
+ * Matching changes to webhook subscriptions
+ *
+ * The changes of an import are its change feed (lib/export/change-feed.ts)
+ * for the one extract. A subscription's filter is applied to that table:
+ * enterprise numbers directly, NACE prefixes to the activities before and
+ * after the change, postal ranges to the registered office versions valid
+ * before or after the extract.
+ */
+
+import { listValue } from '@duckdb/node-api'
+import type { QueryParamValue } from '../motherduck'
+import { quoteIdentifier } from '../motherduck'
+import type { ChangeKind } from '../export/change-feed'
+import type { WebhookChange, WebhookEnterpriseState, WebhookFilter } from './types'
+
+/**
+ * Change-feed row (see CHANGE_FEED_QUERY in lib/export/change-feed.ts)
+ */
+export interface ChangeFeedRow {
+  EnterpriseNumber: string
+  ChangeKinds: string
+  OldStatus: string | null
+  NewStatus: string | null
+  OldName: string | null
+  NewName: string | null
+  OldAddress: string | null
+  NewAddress: string | null
+  OldNaceCodes: string | null
+  NewNaceCodes: string | null
+  OldContacts: string | null
+  NewContacts: string | null
+}
+
+/**
+ * Query selecting the rows of a change-feed table that match a filter
+ *
+ * @param filter - Validated subscription filter
+ * @param tableName - Change-feed table of the extract
+ * @param extractNumber - Extract the change feed covers
+ */
+export function buildWebhookMatchQuery(
+  filter: WebhookFilter,
+  tableName: string,
+  extractNumber: number
+): { sql: string; params: Record<string, QueryParamValue> } {
+  const conditions: string[] = []
+  const params: Record<string, QueryParamValue> = {}
+
+  if (filter.enterpriseNumbers) {
+    conditions.push('f."EnterpriseNumber" IN (SELECT UNNEST($webhook_enterprise_numbers))')
+    params.webhook_enterprise_numbers = listValue(filter.enterpriseNumbers)
+  }
+
+  if (filter.nacePrefixes) {
+    // NACE lists are ;-separated version:code values
+    conditions.push(`EXISTS (
+      SELECT 1
+      FROM (
+        SELECT UNNEST(string_split(concat_ws(';', f."OldNaceCodes", f."NewNaceCodes"), ';')) AS nace
+      ) codes
+      JOIN (SELECT UNNEST($webhook_nace_prefixes) AS prefix) prefixes
+        ON starts_with(REPLACE(split_part(codes.nace, ':', 2), '.', ''), prefixes.prefix)
+    )`)
+    params.webhook_nace_prefixes = listValue(filter.nacePrefixes)
+  }
+
+  if (filter.postalRanges) {
+    // Registered office versions valid at the extract, or closed by it
+    const ranges = filter.postalRanges.map((_, i) =>
+      `TRY_CAST(a.zipcode AS INTEGER) BETWEEN $webhook_postal_from_${i} AND $webhook_postal_to_${i}`
+    )
+    conditions.push(`EXISTS (
+      SELECT 1
+      FROM addresses a
+      WHERE a.entity_number = f."EnterpriseNumber"
+        AND a.entity_type = 'enterprise'
+        AND a.type_of_address = 'REGO'
+        AND a._extract_number <= $webhook_extract_number
+        AND (a._deleted_at_extract IS NULL OR a._deleted_at_extract >= $webhook_extract_number)
+        AND (${ranges.join(' OR ')})
+    )`)
+    params.webhook_extract_number = extractNumber
+    filter.postalRanges.forEach((range, i) => {
+      params[`webhook_postal_from_${i}`] = range.from
+      params[`webhook_postal_to_${i}`] = range.to
+    })
+  }
+
+  if (filter.changeKinds) {
+    conditions.push(`list_has_any(string_split(f."ChangeKinds", ';'), $webhook_change_kinds)`)
+    params.webhook_change_kinds = listValue(filter.changeKinds)
+  }
+
+  const sql = `
+    SELECT *
+    FROM ${quoteIdentifier(tableName)} f
+    ${conditions.length > 0 ? `WHERE ${conditions.join('\n      AND ')}` : ''}
+    ORDER BY f."EnterpriseNumber"
+  `
+
+  return { sql, params }
+}
+
+function list(value: string | null): string[] {
+  return value ? value.split(';') : []
+}
+
+/**
+ * Webhook representation of a change-feed row
+ */
+export function toWebhookChange(row: ChangeFeedRow): WebhookChange {
+  const kinds = list(row.ChangeKinds) as ChangeKind[]
+  const created = kinds.includes('created')
+  const removed = kinds.includes('struck_off') && row.NewStatus === null
+
+  const state = (side: 'Old' | 'New'): WebhookEnterpriseState => ({
+    status: row[`${side}Status`],
+    name: row[`${side}Name`],
+    address: row[`${side}Address`],
+    nace_codes: list(row[`${side}NaceCodes`]),
+    contacts: list(row[`${side}Contacts`]),
+  })
+
+  return {
+    enterprise_number: row.EnterpriseNumber,
+    change_kinds: kinds,
+    old: created ? null : state('Old'),
+    new: removed ? null : state('New'),
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Webhook subscriptions
+ *
+ * Machine API clients subscribe a callback URL to the enterprise changes
+ * matching a filter. Each subscription has its own signing secret, returned
+ * once when it is created (see delivery.ts for the signature).
+ */
+
+import { randomBytes, randomUUID } from 'crypto'
+import type { DuckDBConnection } from '@duckdb/node-api'
+import { executeQuery, executeStatement, type QueryParamValue } from '../motherduck'
+import { CHANGE_KINDS, type ChangeKind } from '../export/change-feed'
+import { parseEnterpriseNumber } from '../motherduck/entity-matching'
+import { ValidationError } from '@/lib/errors'
+import { assertWebhookTarget, checkWebhookUrl } from './targets'
+import type { WebhookFilter, WebhookSubscription } from './types'
+
+const FILTER_KEYS = ['enterpriseNumbers', 'nacePrefixes', 'postalRanges', 'changeKinds']
+
+const MAX_ENTERPRISE_NUMBERS = 10_000
+const MAX_NACE_PREFIXES = 100
+const MAX_POSTAL_RANGES = 50
+const MAX_URL_LENGTH = 2000
+const MAX_DESCRIPTION_LENGTH = 200
+
+/**
+ * Changes to a subscription, validated
+ */
+export interface WebhookSubscriptionInput {
+  url?: string
+  description?: string | null
+  filter?: WebhookFilter
+  active?: boolean
+}
+
+/**
+ * Validate a webhook filter received from a client
+ *
+ * Enterprise numbers are normalized to 9999.999.999, NACE prefixes lose their
+ * dots and duplicates are dropped.
+ *
+ * @throws ValidationError when the filter is malformed or selects everything
+ */
+export function validateWebhookFilter(input: unknown): WebhookFilter {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Filter must be an object')
+  }
+  const raw = input as Record<string, unknown>
+
+  const unknownKeys = Object.keys(raw).filter((key) => !FILTER_KEYS.includes(key))
+  if (unknownKeys.length > 0) {
+    throw new ValidationError(`Unknown filter field: ${unknownKeys[0]}`, { allowed: FILTER_KEYS })
+  }
+
+  const filter: WebhookFilter = {}
+
+  const enterpriseNumbers = stringList(raw.enterpriseNumbers, 'enterpriseNumbers', MAX_ENTERPRISE_NUMBERS)
+  if (enterpriseNumbers) {
+    const parsed = enterpriseNumbers.map((value) => ({ value, number: parseEnterpriseNumber(value) }))
+    const invalid = parsed.filter((entry) => !entry.number).map((entry) => entry.value)
+    if (invalid.length > 0) {
+      throw new ValidationError('Invalid enterprise number', { enterpriseNumbers: invalid.slice(0, 10) })
+    }
+    filter.enterpriseNumbers = [...new Set(parsed.map((entry) => entry.number as string))]
+  }
+
+  const nacePrefixes = stringList(raw.nacePrefixes, 'nacePrefixes', MAX_NACE_PREFIXES)
+  if (nacePrefixes) {
+    const prefixes = nacePrefixes.map((prefix) => prefix.replace(/\./g, ''))
+    const invalid = prefixes.filter((prefix) => !/^\d{1,7}$/.test(prefix))
+    if (invalid.length > 0) {
+      throw new ValidationError('Invalid NACE code prefix', { nacePrefixes: invalid })
+    }
+    filter.nacePrefixes = [...new Set(prefixes)]
+  }
+
+  if (raw.postalRanges !== undefined && raw.postalRanges !== null) {
+    if (!Array.isArray(raw.postalRanges) || raw.postalRanges.length === 0 || raw.postalRanges.length > MAX_POSTAL_RANGES) {
+      throw new ValidationError(`postalRanges must be a list of 1 to ${MAX_POSTAL_RANGES} ranges`)
+    }
+    filter.postalRanges = raw.postalRanges.map((range) => {
+      const { from, to } = (range ?? {}) as Record<string, unknown>
+      const min = Number(from)
+      const max = Number(to)
+      if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || min > max) {
+        throw new ValidationError('Postal range must be { from, to } with whole numbers, from <= to', { range })
+      }
+      return { from: min, to: max }
+    })
+  }
+
+  const changeKinds = stringList(raw.changeKinds, 'changeKinds', CHANGE_KINDS.length)
+  if (changeKinds) {
+    const unknown = changeKinds.filter((kind) => !CHANGE_KINDS.includes(kind as ChangeKind))
+    if (unknown.length > 0) {
+      throw new ValidationError('Unknown change kind', { changeKinds: unknown, allowed: CHANGE_KINDS })
+    }
+    filter.changeKinds = [...new Set(changeKinds as ChangeKind[])]
+  }
+
+  if (!filter.enterpriseNumbers && !filter.nacePrefixes && !filter.postalRanges) {
+    throw new ValidationError('Filter needs enterpriseNumbers, nacePrefixes or postalRanges')
+  }
+
+  return filter
+}
+
+function stringList(input: unknown, field: string, max: number): string[] | undefined {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+  if (!Array.isArray(input) || input.length === 0 || input.length > max || input.some((v) => typeof v !== 'string')) {
+    throw new ValidationError(`${field} must be a list of 1 to ${max} strings`)
+  }
+  return (input as string[]).map((value) => value.trim())
+}
+
+/**
+ * Validate a callback URL: https to a public host (see targets.ts)
+ *
+ * Only checks the URL itself; validateWebhookSubscriptionInput() also
+ * resolves the host.
+ *
+ * @throws ValidationError when the URL is not allowed
+ */
+export function validateWebhookUrl(input: unknown): string {
+  if (typeof input !== 'string' || input.length > MAX_URL_LENGTH) {
+    throw new ValidationError('url must be a string')
+  }
+
+  let url: URL
+  try {
+    url = new URL(input)
+  } catch {
+    throw new ValidationError('Invalid url', { url: input })
+  }
+
+  const refusal = checkWebhookUrl(url)
+  if (refusal) {
+    throw new ValidationError(refusal, { url: input })
+  }
+
+  return url.toString()
+}
+
+/**
+ * Validate the fields of a create (all of url and filter) or update request
+ *
+ * @throws ValidationError when a field is malformed or the url host resolves
+ *   to an internal address
+ */
+export async function validateWebhookSubscriptionInput(
+  input: unknown,
+  options: { partial?: boolean } = {}
+): Promise<WebhookSubscriptionInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Request body must be an object')
+  }
+  const raw = input as Record<string, unknown>
+  const result: WebhookSubscriptionInput = {}
+
+  if (raw.url !== undefined || !options.partial) {
+    result.url = validateWebhookUrl(raw.url)
+    await assertWebhookTarget(result.url)
+  }
+  if (raw.filter !== undefined || !options.partial) {
+    result.filter = validateWebhookFilter(raw.filter)
+  }
+  if (raw.description !== undefined) {
+    if (raw.description !== null && (typeof raw.description !== 'string' || raw.description.length > MAX_DESCRIPTION_LENGTH)) {
+      throw new ValidationError(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`)
+    }
+    result.description = raw.description ? raw.description.trim() : null
+  }
+  if (raw.active !== undefined) {
+    if (typeof raw.active !== 'boolean') {
+      throw new ValidationError('active must be true or false')
+    }
+    result.active = raw.active
+  }
+
+  return result
+}
+
+interface WebhookSubscriptionRow extends Omit<WebhookSubscription, 'filter'> {
+  filter: string
+}
+
+const SUBSCRIPTION_COLUMNS = `
+  id,
+  client_id,
+  url,
+  description,
+  filter::VARCHAR AS filter,
+  active,
+  strftime(created_at, '%Y-%m-%dT%H:%M:%S.000Z') AS created_at,
+  strftime(updated_at, '%Y-%m-%dT%H:%M:%S.000Z') AS updated_at
+`
+
+function toSubscription(row: WebhookSubscriptionRow): WebhookSubscription {
+  return { ...row, filter: JSON.parse(row.filter) as WebhookFilter }
+}
+
+/**
+ * Create a subscription
+ *
+ * @returns The subscription and its signing secret (not readable afterwards)
+ */
+export async function createWebhookSubscription(
+  db: DuckDBConnection,
+  clientId: string,
+  input: Required<Pick<WebhookSubscriptionInput, 'url' | 'filter'>> & WebhookSubscriptionInput
+): Promise<{ subscription: WebhookSubscription; secret: string }> {
+  const id = randomUUID()
+  const secret = `whsec_${randomBytes(24).toString('hex')}`
+
+  await executeStatement(db, `
+    INSERT INTO webhook_subscriptions (id, client_id, url, secret, description, filter, active)
+    VALUES ($id, $client_id, $url, $secret, $description, $filter::JSON, $active)
+  `, {
+    id,
+    client_id: clientId,
+    url: input.url,
+    secret,
+    description: input.description ?? null,
+    filter: JSON.stringify(input.filter),
+    active: input.active ?? true,
+  })
+
+  const subscription = await getWebhookSubscription(db, id)
+  return { subscription: subscription as WebhookSubscription, secret }
+}
+
+/**
+ * List subscriptions, newest first
+ *
+ * @param clientId - Only the subscriptions of this client (all when omitted)
+ */
+export async function listWebhookSubscriptions(
+  db: DuckDBConnection,
+  clientId?: string
+): Promise<WebhookSubscription[]> {
+  const rows = await executeQuery<WebhookSubscriptionRow>(db, `
+    SELECT ${SUBSCRIPTION_COLUMNS}
+    FROM webhook_subscriptions
+    WHERE ($client_id IS NULL OR client_id = $client_id)
+    ORDER BY created_at DESC
+  `, { client_id: clientId ?? null })
+
+  return rows.map(toSubscription)
+}
+
+/**
+ * Get a subscription
+ *
+ * @param clientId - Only when owned by this client (any when omitted)
+ * @returns The subscription, or null when it does not exist
+ */
+export async function getWebhookSubscription(
+  db: DuckDBConnection,
+  id: string,
+  clientId?: string
+): Promise<WebhookSubscription | null> {
+  const rows = await executeQuery<WebhookSubscriptionRow>(db, `
+    SELECT ${SUBSCRIPTION_COLUMNS}
+    FROM webhook_subscriptions
+    WHERE id = $id
+      AND ($client_id IS NULL OR client_id = $client_id)
+  `, { id, client_id: clientId ?? null })
+
+  return rows[0] ? toSubscription(rows[0]) : null
+}
+
+/**
+ * Update the url, description, filter or active flag of a subscription
+ *
+ * @param clientId - Only when owned by this client (any when omitted)
+ * @returns The updated subscription, or null when it does not exist
+ */
+export async function updateWebhookSubscription(
+  db: DuckDBConnection,
+  id: string,
+  changes: WebhookSubscriptionInput,
+  clientId?: string
+): Promise<WebhookSubscription | null> {
+  const existing = await getWebhookSubscription(db, id, clientId)
+  if (!existing) {
+    return null
+  }
+
+  const assignments: string[] = []
+  const params: Record<string, QueryParamValue> = { id }
+
+  if (changes.url !== undefined) {
+    assignments.push('url = $url')
+    params.url = changes.url
+  }
+  if (changes.description !== undefined) {
+    assignments.push('description = $description')
+    params.description = changes.description
+  }
+  if (changes.filter !== undefined) {
+    assignments.push('filter = $filter::JSON')
+    params.filter = JSON.stringify(changes.filter)
+  }
+  if (changes.active !== undefined) {
+    assignments.push('active = $active')
+    params.active = changes.active
+  }
+
+  if (assignments.length > 0) {
+    await executeStatement(db, `
+      UPDATE webhook_subscriptions
+      SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $id
+    `, params)
+  }
+
+  return getWebhookSubscription(db, id)
+}
+
+/**
+ * Delete a subscription and its delivery log
+ *
+ * Deliveries that are still being retried stop at their next attempt.
+ *
+ * @param clientId - Only when owned by this client (any when omitted)
+ * @returns false when the subscription does not exist
+ */
+export async function deleteWebhookSubscription(
+  db: DuckDBConnection,
+  id: string,
+  clientId?: string
+): Promise<boolean> {
+  const existing = await getWebhookSubscription(db, id, clientId)
+  if (!existing) {
+    return false
+  }
+
+  await executeStatement(db, 'DELETE FROM webhook_deliveries WHERE subscription_id = $id', { id })
+  await executeStatement(db, 'DELETE FROM webhook_subscriptions WHERE id = $id', { id })
+  return true
+}
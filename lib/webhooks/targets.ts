@@ -0,0 +1,197 @@
+/**
+ * Webhook targets
+ *
+ * Callbacks only go to public hosts, so machine API clients cannot make the
+ * server POST to internal services: loopback, private, link-local (including
+ * the cloud metadata address 169.254.169.254), CGNAT and other special-use
+ * addresses are refused, as IP literals and as the addresses a host name
+ * resolves to. Subscriptions are checked when they are saved. Sends resolve
+ * the host through webhookLookup(), which refuses the same addresses, so the
+ * address that was checked is the address connected to: a DNS server cannot
+ * answer the check with a public address and the connection with an internal one.
+ *
+ * For local receivers in development and tests, WEBHOOKS_ALLOW_LOCALHOST=true
+ * allows http and https callbacks to localhost, 127.0.0.1 and [::1] (ignored
+ * when NODE_ENV is production).
+ */
+
+import { lookup as lookupCallback, type LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import { ValidationError } from '@/lib/errors'
+
+/** Hosts that may receive callbacks when local receivers are allowed */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1']
+
+/** Host name suffixes that only resolve inside a network */
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.internal', '.intranet', '.lan', '.home.arpa', '.corp']
+
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // CGNAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['64:ff9b::', 96], // IPv4/IPv6 translation
+  ['100::', 64], // discard
+  ['2001:db8::', 32], // documentation
+  ['fc00::', 7], // unique local, AWS metadata (fd00:ec2::254)
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+const LOOPBACK_ADDRESSES = new BlockList()
+LOOPBACK_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4')
+LOOPBACK_ADDRESSES.addAddress('::1', 'ipv6')
+
+/**
+ * Whether callbacks to localhost are allowed (development and tests only)
+ */
+export function localWebhooksAllowed(): boolean {
+  return process.env.WEBHOOKS_ALLOW_LOCALHOST === 'true' && process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Host of a URL without the brackets of an IPv6 literal
+ */
+function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase()
+}
+
+/**
+ * Whether a callback may be sent to an IP address
+ */
+function isAllowedAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) {
+    return false
+  }
+  const type = family === 4 ? 'ipv4' : 'ipv6'
+  if (localWebhooksAllowed() && LOOPBACK_ADDRESSES.check(address, type)) {
+    return true
+  }
+  return !BLOCKED_ADDRESSES.check(address, type)
+}
+
+/**
+ * Check the scheme and host of a callback URL, without resolving the host
+ *
+ * @returns Why the URL is refused, or null when it may be used
+ */
+export function checkWebhookUrl(url: URL): string | null {
+  const host = urlHost(url)
+  const local = localWebhooksAllowed() && LOCAL_HOSTS.includes(host)
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) {
+    return 'url must use https'
+  }
+  if (local) {
+    return null
+  }
+  if (url.username || url.password) {
+    return 'url must not contain credentials'
+  }
+
+  if (isIP(host)) {
+    return isAllowedAddress(host) ? null : 'url must not point to a private, loopback or link-local address'
+  }
+  if (host === 'localhost' || !host.includes('.') || INTERNAL_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return 'url must use a public host name'
+  }
+  return null
+}
+
+/**
+ * Check a callback URL and every address its host resolves to
+ *
+ * @returns Why the URL is refused, or null when a callback may be sent
+ */
+export async function checkWebhookTarget(input: string): Promise<string | null> {
+  let url: URL
+  try {
+    url = new URL(input)
+  } catch {
+    return 'Invalid url'
+  }
+
+  const refusal = checkWebhookUrl(url)
+  if (refusal) {
+    return refusal
+  }
+
+  const host = urlHost(url)
+  if (isIP(host)) {
+    return null
+  }
+
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch {
+    return `Host ${host} does not resolve`
+  }
+
+  const blocked = addresses.find(({ address }) => !isAllowedAddress(address))
+  return blocked ? `Host ${host} resolves to a private, loopback or link-local address (${blocked.address})` : null
+}
+
+/**
+ * DNS lookup for sending callbacks (the `lookup` option of http.request)
+ *
+ * Resolves like the default lookup, but fails when any address of the host
+ * is refused, so the connection can only use addresses that passed the check.
+ */
+export const webhookLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0)
+      return
+    }
+
+    const blocked = addresses.find(({ address }) => !isAllowedAddress(address))
+    if (blocked || addresses.length === 0) {
+      const reason = blocked
+        ? `Host ${hostname} resolves to a private, loopback or link-local address (${blocked.address})`
+        : `Host ${hostname} does not resolve`
+      callback(Object.assign(new Error(reason), { code: 'EWEBHOOKTARGET' }), '', 0)
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+/**
+ * Refuse a callback URL that is not a public target (see checkWebhookTarget)
+ *
+ * @throws ValidationError when the URL is refused
+ */
+export async function assertWebhookTarget(url: string): Promise<void> {
+  const refusal = await checkWebhookTarget(url)
+  if (refusal) {
+    throw new ValidationError(refusal, { url })
+  }
+}
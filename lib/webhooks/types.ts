@@ -0,0 +1,99 @@
+/**
+ * TypeScript types for webhook subscriptions and deliveries
+ */
+
+import type { ChangeKind } from '../export/change-feed'
+
+/**
+ * Which enterprise changes a subscription receives
+ *
+ * Every criterion that is set must match; within a criterion any value
+ * matches. At least one of enterpriseNumbers, nacePrefixes or postalRanges
+ * is required.
+ */
+export interface WebhookFilter {
+  /** Enterprise numbers (9999.999.999) */
+  enterpriseNumbers?: string[]
+  /** NACE code prefixes, dots ignored (e.g. '62' or '62.01'), matched before and after the change */
+  nacePrefixes?: string[]
+  /** Registered office postal code ranges (inclusive), matched before and after the change */
+  postalRanges?: { from: number; to: number }[]
+  /** Only these kinds of change (default: all) */
+  changeKinds?: ChangeKind[]
+}
+
+export interface WebhookSubscription {
+  id: string
+  client_id: string
+  url: string
+  description: string | null
+  filter: WebhookFilter
+  active: boolean
+  created_at: string
+  updated_at: string | null
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  subscription_id: string
+  job_id: string
+  extract_number: number
+  change_count: number
+  status: WebhookDeliveryStatus
+  attempts: number
+  last_attempt_at: string | null
+  next_attempt_at: string | null
+  last_status_code: number | null
+  last_error: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+/**
+ * Delivery counts of a subscription
+ */
+export interface WebhookDeliveryCounts {
+  pending: number
+  retrying: number
+  delivered: number
+  failed: number
+  last_delivered_at: string | null
+}
+
+/**
+ * State of an enterprise on one side of a change (see the change feed)
+ */
+export interface WebhookEnterpriseState {
+  status: string | null
+  name: string | null
+  address: string | null
+  nace_codes: string[]
+  contacts: string[]
+}
+
+export interface WebhookChange {
+  enterprise_number: string
+  change_kinds: ChangeKind[]
+  /** Before the extract (null when created) */
+  old: WebhookEnterpriseState | null
+  /** After the extract (null when removed) */
+  new: WebhookEnterpriseState | null
+}
+
+/**
+ * Request body of a webhook callback
+ */
+export interface WebhookPayload {
+  delivery_id: string
+  event: 'enterprise.changes'
+  subscription_id: string
+  job_id: string
+  extract_number: number
+  snapshot_date: string
+  /** Large change sets are split over several deliveries */
+  page: number
+  pages: number
+  changes: WebhookChange[]
+}
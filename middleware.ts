@@ -9,10 +9,11 @@ const isProtectedRoute = createRouteMatcher([
 // Routes that should skip Clerk entirely (called by external services)
 const isPublicApiRoute = createRouteMatcher([
   '/api/restate(.*)',
+  '/api/cron(.*)',
 ])
 
 export default clerkMiddleware(async (auth, req) => {
-  // Skip Clerk for public API routes (called by Restate server)
+  // Skip Clerk for public API routes (called by Restate server and Vercel Cron)
   if (isPublicApiRoute(req)) {
     return NextResponse.next()
   }
@@ -6,12 +6,16 @@
  *
  * This is now a thin CLI wrapper around the core library function
  * The actual import logic is in lib/import/daily-update.ts
+ *
+ * Usage:
+ *   npx tsx scripts/apply-daily-update.ts <path-to-update.zip> [--force]
+ *
+ * --force applies the update even if it is out of order or skips extracts
  */
 
 import { config } from 'dotenv'
 config({ path: ['.env.local', '.env'] })
 
-import { readFileSync } from 'fs'
 import { processDailyUpdate } from '../lib/import/daily-update'
 import * as path from 'path'
 
@@ -20,31 +24,30 @@ import * as path from 'path'
  */
 async function main() {
   const args = process.argv.slice(2)
+  const force = args.includes('--force')
+  const positional = args.filter(arg => !arg.startsWith('--'))
 
-  if (args.length === 0) {
-    console.error('Usage: npx tsx scripts/apply-daily-update.ts <path-to-update.zip>')
+  if (positional.length === 0) {
+    console.error('Usage: npx tsx scripts/apply-daily-update.ts <path-to-update.zip> [--force]')
     console.error('\nExample:')
     console.error('  npx tsx scripts/apply-daily-update.ts sampledata/KboOpenData_0141_2025_10_06_Update.zip')
     process.exit(1)
   }
 
-  const zipPath = args[0]
+  const zipPath = positional[0]
 
   console.log(`\n📦 Processing daily update: ${path.basename(zipPath)}\n`)
 
   try {
-    // Read the ZIP file into a buffer
-    const zipBuffer = readFileSync(zipPath)
-
-    // Call the library function
-    const stats = await processDailyUpdate(zipBuffer, 'local')
+    // Call the library function (the ZIP is read from disk as it is staged)
+    const stats = await processDailyUpdate(zipPath, 'local', { force })
 
     // Summary
     console.log('\n' + '='.repeat(60))
     console.log('📊 DAILY UPDATE SUMMARY')
     console.log('='.repeat(60))
-    console.log(`Extract Number: ${stats.metadata.ExtractNumber}`)
-    console.log(`Snapshot Date: ${stats.metadata.SnapshotDate}`)
+    console.log(`Extract Number: ${stats.metadata.extractNumber}`)
+    console.log(`Snapshot Date: ${stats.metadata.snapshotDate}`)
     console.log(`\nTables Processed: ${stats.tablesProcessed.length}`)
     console.log(`Records Marked Historical: ${stats.deletesApplied}`)
     console.log(`Records Inserted: ${stats.insertsApplied}`)
@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backfill _deleted_at_extract for existing history
+ * Purpose: Derive the extract at which each historical row was deleted or
+ * superseded, for rows imported before the import pipeline populated it
+ *
+ * The derivation lives in lib/import/versioning.ts and is idempotent -
+ * only rows with _is_current = false and _deleted_at_extract IS NULL are touched.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-deleted-at-extract.ts [--table=<name>] [--dry-run]
+ */
+
+import { config } from 'dotenv'
+config({ path: ['.env.local', '.env'] })
+
+import { connectMotherduck, closeMotherduck } from '../lib/motherduck'
+import {
+  VERSIONED_TABLES,
+  backfillDeletedAtExtract,
+  countMissingDeletedAtExtract,
+  type VersionedTable
+} from '../lib/import/versioning'
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes('--dry-run')
+  const tableArg = args.find(arg => arg.startsWith('--table='))?.split('=')[1]
+
+  if (tableArg && !VERSIONED_TABLES.includes(tableArg as VersionedTable)) {
+    console.error(`❌ Unknown table: ${tableArg}`)
+    console.error(`   Valid tables: ${VERSIONED_TABLES.join(', ')}`)
+    process.exit(1)
+  }
+
+  const tables: readonly VersionedTable[] = tableArg ? [tableArg as VersionedTable] : VERSIONED_TABLES
+
+  console.log(`\n🕰️  Backfilling _deleted_at_extract${dryRun ? ' (dry run)' : ''}\n`)
+
+  const db = await connectMotherduck()
+
+  try {
+    let totalUpdated = 0
+    let totalUnresolved = 0
+
+    for (const table of tables) {
+      if (dryRun) {
+        const missing = await countMissingDeletedAtExtract(db, table)
+        console.log(`   ${table}: ${missing.toLocaleString()} historical rows missing _deleted_at_extract`)
+        totalUnresolved += missing
+        continue
+      }
+
+      process.stdout.write(`   ${table}... `)
+      const result = await backfillDeletedAtExtract(db, table)
+      console.log(`✓ ${result.updated.toLocaleString()} updated, ${result.unresolved.toLocaleString()} unresolved`)
+      totalUpdated += result.updated
+      totalUnresolved += result.unresolved
+    }
+
+    console.log('\n' + '='.repeat(60))
+    if (dryRun) {
+      console.log(`Rows missing _deleted_at_extract: ${totalUnresolved.toLocaleString()}`)
+    } else {
+      console.log(`Rows updated: ${totalUpdated.toLocaleString()}`)
+      console.log(`Rows unresolved: ${totalUnresolved.toLocaleString()}`)
+      if (totalUnresolved > 0) {
+        console.log('\n💡 Unresolved rows belong to entities with no later extract in that table')
+        console.log('   (removed for good); their deletion extract cannot be derived from ordering.')
+      }
+    }
+    console.log('='.repeat(60) + '\n')
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+main().catch((error) => {
+  console.error('\n❌ Backfill failed:', error)
+  process.exit(1)
+})
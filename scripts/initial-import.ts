@@ -30,7 +30,7 @@ import {
 } from '../lib/motherduck'
 import { formatUserError } from '../lib/errors'
 import {
-  parseMetadataWithDuckDB,
+  readMetadataFile,
   validateExtractType,
   Metadata
 } from '../lib/import/metadata'
@@ -221,7 +221,7 @@ async function initialImport() {
 
     // Step 6: Parse metadata from meta.csv
     console.log('6️⃣  Reading metadata from meta.csv...')
-    const metadata = await parseMetadataWithDuckDB(localDb, dataPath)
+    const metadata = readMetadataFile(dataPath)
     console.log(`   ✅ Extract #${metadata.extractNumber} (${metadata.snapshotDate})`)
     console.log(`   📅 Snapshot date: ${metadata.snapshotDate}`)
     console.log(`   📦 Extract type: ${metadata.extractType}`)
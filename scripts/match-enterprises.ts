@@ -0,0 +1,175 @@
+#!/usr/bin/env tsx
+
+/**
+ * Match a customer list to KBO enterprises
+ * Purpose: Resolve company records (name, zipcode, municipality, VAT number)
+ * to enterprise numbers with confidence scores
+ *
+ * Input is a CSV with a header row; recognised columns are reference, name,
+ * zipcode, municipality and vat (all optional, but each row needs a name or
+ * a VAT number). Output is a CSV with one row per match, best match first,
+ * and an empty match for rows without any.
+ *
+ * Usage:
+ *   npx tsx scripts/match-enterprises.ts <input.csv> [output.csv] [options]
+ *
+ * Options:
+ *   --max-matches=N       Matches per record (default 3)
+ *   --min-confidence=X    Drop matches below X, 0-1 (default 0.5)
+ */
+
+import { config } from 'dotenv'
+config({ path: ['.env.local', '.env'] })
+
+import * as fs from 'fs'
+import { parse } from 'csv-parse/sync'
+import { connectMotherduck, closeMotherduck } from '../lib/motherduck'
+import { matchEnterprises, type MatchCandidate } from '../lib/motherduck/entity-matching'
+
+/** Candidates matched per call, so progress can be reported */
+const CHUNK_SIZE = 100
+
+const OUTPUT_COLUMNS = [
+  'reference',
+  'input_name',
+  'input_zipcode',
+  'input_municipality',
+  'input_vat',
+  'rank',
+  'enterprise_number',
+  'name',
+  'status',
+  'zipcode',
+  'municipality',
+  'confidence',
+  'matched_on',
+]
+
+/**
+ * Quote a CSV field when needed
+ */
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Read candidate records from a CSV file
+ */
+function readCandidates(inputPath: string): MatchCandidate[] {
+  const records = parse(fs.readFileSync(inputPath, 'utf-8'), {
+    columns: (header: string[]) => header.map((column) => column.trim().toLowerCase()),
+    skip_empty_lines: true,
+    trim: true,
+    bom: true,
+  }) as Record<string, string>[]
+
+  return records.map((record, index) => ({
+    reference: record.reference || String(index + 1),
+    name: record.name || undefined,
+    zipcode: record.zipcode || undefined,
+    municipality: record.municipality || undefined,
+    vatNumber: record.vat || undefined,
+  }))
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2)
+  const positional = args.filter(arg => !arg.startsWith('--'))
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+  const inputPath = positional[0]
+  if (!inputPath) {
+    console.error('Usage: npx tsx scripts/match-enterprises.ts <input.csv> [output.csv] [options]')
+    console.error('\nOptions:')
+    console.error('  --max-matches=N      Matches per record (default 3)')
+    console.error('  --min-confidence=X   Drop matches below X, 0-1 (default 0.5)')
+    console.error('\nExample:')
+    console.error('  npx tsx scripts/match-enterprises.ts customers.csv matches.csv --min-confidence=0.7')
+    process.exit(1)
+  }
+
+  if (!fs.existsSync(inputPath)) {
+    console.error(`❌ File not found: ${inputPath}`)
+    process.exit(1)
+  }
+
+  const outputPath = positional[1] || inputPath.replace(/\.csv$/i, '') + '-matches.csv'
+  const maxMatches = parseInt(option('max-matches') || '3') || 3
+  const minConfidence = parseFloat(option('min-confidence') || '0.5') || 0.5
+
+  const candidates = readCandidates(inputPath)
+  const unusable = candidates.filter(c => !c.name && !c.vatNumber).length
+
+  console.log(`\n🔗 Matching ${candidates.length.toLocaleString()} records from ${inputPath}\n`)
+  if (unusable > 0) {
+    console.log(`⚠️  ${unusable} records have neither name nor VAT number and will not match\n`)
+  }
+
+  const db = await connectMotherduck()
+  const lines = [OUTPUT_COLUMNS.join(',')]
+  let matched = 0
+
+  try {
+    const startTime = Date.now()
+
+    for (let i = 0; i < candidates.length; i += CHUNK_SIZE) {
+      const chunk = candidates.slice(i, i + CHUNK_SIZE)
+      const results = await matchEnterprises(db, chunk, { maxMatches, minConfidence })
+
+      for (const result of results) {
+        const input = [
+          result.reference,
+          result.candidate.name,
+          result.candidate.zipcode,
+          result.candidate.municipality,
+          result.candidate.vatNumber,
+        ]
+
+        if (result.matches.length === 0) {
+          lines.push([...input, '', '', '', '', '', '', '', ''].map(csvField).join(','))
+          continue
+        }
+
+        matched++
+        result.matches.forEach((match, rank) => {
+          lines.push([
+            ...input,
+            rank + 1,
+            match.enterpriseNumber,
+            match.name,
+            match.status,
+            match.zipcode,
+            match.municipality,
+            match.confidence,
+            match.matchedOn.join(' '),
+          ].map(csvField).join(','))
+        })
+      }
+
+      console.log(`   ✓ ${Math.min(i + CHUNK_SIZE, candidates.length).toLocaleString()} / ${candidates.length.toLocaleString()}`)
+    }
+
+    fs.writeFileSync(outputPath, lines.join('\n') + '\n')
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(1)
+
+    console.log('\n' + '='.repeat(60))
+    console.log(`Records: ${candidates.length.toLocaleString()}`)
+    console.log(`Matched: ${matched.toLocaleString()}`)
+    console.log(`Unmatched: ${(candidates.length - matched).toLocaleString()}`)
+    console.log(`Duration: ${duration}s`)
+    console.log(`Output: ${outputPath}`)
+    console.log('='.repeat(60) + '\n')
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+main().catch((error) => {
+  console.error('\n❌ Matching failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,94 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migration script: Allow custom, change-feed and watchlist digest export jobs
+ *
+ * Custom exports (lib/export/builder.ts) are recorded with export_type
+ * 'custom', change feeds (lib/export/change-feed.ts) with 'change_feed',
+ * watchlist digests (lib/export/watchlist-digest.ts) with 'watchlist_digest'.
+ * DuckDB cannot change the CHECK constraint of an existing table, so
+ * export_jobs is rebuilt from lib/sql/schema/12_export_jobs.sql and its
+ * rows are copied over. Its indexes are dropped first and recreated by the
+ * schema file.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-export-jobs-custom.ts
+ *
+ * This migration is idempotent - safe to run multiple times, also on a
+ * database that already allows some of these types.
+ */
+
+import { config } from 'dotenv'
+config({ path: ['.env.local', '.env'] })
+
+import { connectMotherduck, closeMotherduck, executeQuery, executeTransaction } from '../lib/motherduck'
+import { loadSchemaFile, splitSqlStatements } from '../lib/sql'
+
+/** Indexes on export_jobs, recreated by the schema file (they block the rename) */
+const INDEXES = [
+  'idx_export_jobs_created_by',
+  'idx_export_jobs_expires_at',
+  'idx_export_jobs_created_at',
+]
+
+/** Columns that exist before and after the migration */
+const COPIED_COLUMNS = [
+  'id',
+  'export_type',
+  'filter_config',
+  'status',
+  'started_at',
+  'completed_at',
+  'error_message',
+  'records_exported',
+  'table_name',
+  'expires_at',
+  'worker_type',
+  'created_by',
+  'created_at',
+].join(', ')
+
+async function runMigration() {
+  console.log('🔄 Migration: Allow custom, change_feed and watchlist_digest export_type on export_jobs\n')
+
+  const db = await connectMotherduck()
+
+  try {
+    const typeCheck = await executeQuery<{ count: bigint | number }>(db, `
+      SELECT COUNT(*) as count
+      FROM duckdb_constraints()
+      WHERE table_name = 'export_jobs'
+        AND constraint_type = 'CHECK'
+        AND constraint_text LIKE '%watchlist_digest%'
+    `)
+
+    if (Number(typeCheck[0]?.count || 0) > 0) {
+      console.log('✅ export_jobs already supports custom, change-feed and watchlist digest exports, nothing to do\n')
+      return
+    }
+
+    const jobCount = await executeQuery<{ count: bigint | number }>(db, 'SELECT COUNT(*) as count FROM export_jobs')
+    console.log(`📋 Rebuilding export_jobs (${Number(jobCount[0]?.count || 0)} jobs)...`)
+
+    const schemaStatements = splitSqlStatements(await loadSchemaFile('12_export_jobs.sql'))
+
+    await executeTransaction(db, [
+      ...INDEXES.map((index) => `DROP INDEX IF EXISTS ${index}`),
+      'ALTER TABLE export_jobs RENAME TO export_jobs_before_custom',
+      ...schemaStatements,
+      `INSERT INTO export_jobs (${COPIED_COLUMNS}) SELECT ${COPIED_COLUMNS} FROM export_jobs_before_custom`,
+      'DROP TABLE export_jobs_before_custom',
+    ])
+
+    const migrated = await executeQuery<{ count: bigint | number }>(db, 'SELECT COUNT(*) as count FROM export_jobs')
+    console.log(`   ✓ Copied ${Number(migrated[0]?.count || 0)} jobs`)
+    console.log('\n✅ Migration complete\n')
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+runMigration().catch((error) => {
+  console.error('\n❌ Migration failed:', error)
+  process.exit(1)
+})
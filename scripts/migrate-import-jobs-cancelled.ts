@@ -0,0 +1,98 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migration script: Allow cancelled import jobs
+ *
+ * Cancelling an import (lib/import/cancel.ts) marks its job as 'cancelled'.
+ * DuckDB cannot change the CHECK constraint of an existing table, so
+ * import_jobs is rebuilt from lib/sql/schema/10_import_jobs.sql and its rows
+ * are copied over.
+ *
+ * Run scripts/migrate-import-jobs-rollback.ts first on databases that predate
+ * import rollback.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-import-jobs-cancelled.ts
+ *
+ * This migration is idempotent - safe to run multiple times.
+ */
+
+import { config } from 'dotenv'
+config({ path: ['.env.local', '.env'] })
+
+import { connectMotherduck, closeMotherduck, executeQuery, executeTransaction } from '../lib/motherduck'
+import { loadSchemaFile, splitSqlStatements } from '../lib/sql'
+
+/** Columns that exist before and after the migration */
+const COPIED_COLUMNS = [
+  'id',
+  'extract_number',
+  'extract_type',
+  'snapshot_date',
+  'extract_timestamp',
+  'status',
+  'started_at',
+  'completed_at',
+  'error_message',
+  'rolled_back_at',
+  'records_processed',
+  'records_inserted',
+  'records_updated',
+  'records_deleted',
+  'worker_type',
+].join(', ')
+
+async function runMigration() {
+  console.log('🔄 Migration: Allow cancelled status on import_jobs\n')
+
+  const db = await connectMotherduck()
+
+  try {
+    const rollbackColumn = await executeQuery<{ count: bigint | number }>(db, `
+      SELECT COUNT(*) as count
+      FROM information_schema.columns
+      WHERE table_name = 'import_jobs'
+        AND column_name = 'rolled_back_at'
+    `)
+
+    if (Number(rollbackColumn[0]?.count || 0) === 0) {
+      throw new Error('import_jobs has no rolled_back_at column; run scripts/migrate-import-jobs-rollback.ts first')
+    }
+
+    const statusCheck = await executeQuery<{ count: bigint | number }>(db, `
+      SELECT COUNT(*) as count
+      FROM duckdb_constraints()
+      WHERE table_name = 'import_jobs'
+        AND constraint_type = 'CHECK'
+        AND constraint_text LIKE '%cancelled%'
+    `)
+
+    if (Number(statusCheck[0]?.count || 0) > 0) {
+      console.log('✅ import_jobs already supports cancellation, nothing to do\n')
+      return
+    }
+
+    const jobCount = await executeQuery<{ count: bigint | number }>(db, 'SELECT COUNT(*) as count FROM import_jobs')
+    console.log(`📋 Rebuilding import_jobs (${Number(jobCount[0]?.count || 0)} jobs)...`)
+
+    const schemaStatements = splitSqlStatements(await loadSchemaFile('10_import_jobs.sql'))
+
+    await executeTransaction(db, [
+      'ALTER TABLE import_jobs RENAME TO import_jobs_before_cancel',
+      ...schemaStatements,
+      `INSERT INTO import_jobs (${COPIED_COLUMNS}) SELECT ${COPIED_COLUMNS} FROM import_jobs_before_cancel`,
+      'DROP TABLE import_jobs_before_cancel',
+    ])
+
+    const migrated = await executeQuery<{ count: bigint | number }>(db, 'SELECT COUNT(*) as count FROM import_jobs')
+    console.log(`   ✓ Copied ${Number(migrated[0]?.count || 0)} jobs`)
+    console.log('\n✅ Migration complete\n')
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+runMigration().catch((error) => {
+  console.error('\n❌ Migration failed:', error)
+  process.exit(1)
+})
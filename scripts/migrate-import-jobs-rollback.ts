@@ -0,0 +1,82 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migration script: Allow rolled_back import jobs
+ *
+ * Import rollback (lib/import/rollback.ts) marks jobs as 'rolled_back' and
+ * records rolled_back_at. DuckDB cannot change the CHECK constraint of an
+ * existing table, so import_jobs is rebuilt from lib/sql/schema/10_import_jobs.sql
+ * and its rows are copied over.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-import-jobs-rollback.ts
+ *
+ * This migration is idempotent - safe to run multiple times.
+ */
+
+import { config } from 'dotenv'
+config({ path: ['.env.local', '.env'] })
+
+import { connectMotherduck, closeMotherduck, executeQuery, executeTransaction } from '../lib/motherduck'
+import { loadSchemaFile, splitSqlStatements } from '../lib/sql'
+
+/** Columns that exist before and after the migration */
+const COPIED_COLUMNS = [
+  'id',
+  'extract_number',
+  'extract_type',
+  'snapshot_date',
+  'extract_timestamp',
+  'status',
+  'started_at',
+  'completed_at',
+  'error_message',
+  'records_processed',
+  'records_inserted',
+  'records_updated',
+  'records_deleted',
+  'worker_type',
+].join(', ')
+
+async function runMigration() {
+  console.log('🔄 Migration: Allow rolled_back status on import_jobs\n')
+
+  const db = await connectMotherduck()
+
+  try {
+    const column = await executeQuery<{ count: bigint | number }>(db, `
+      SELECT COUNT(*) as count
+      FROM information_schema.columns
+      WHERE table_name = 'import_jobs'
+        AND column_name = 'rolled_back_at'
+    `)
+
+    if (Number(column[0]?.count || 0) > 0) {
+      console.log('✅ import_jobs already supports rollback, nothing to do\n')
+      return
+    }
+
+    const jobCount = await executeQuery<{ count: bigint | number }>(db, 'SELECT COUNT(*) as count FROM import_jobs')
+    console.log(`📋 Rebuilding import_jobs (${Number(jobCount[0]?.count || 0)} jobs)...`)
+
+    const schemaStatements = splitSqlStatements(await loadSchemaFile('10_import_jobs.sql'))
+
+    await executeTransaction(db, [
+      'ALTER TABLE import_jobs RENAME TO import_jobs_before_rollback',
+      ...schemaStatements,
+      `INSERT INTO import_jobs (${COPIED_COLUMNS}) SELECT ${COPIED_COLUMNS} FROM import_jobs_before_rollback`,
+      'DROP TABLE import_jobs_before_rollback',
+    ])
+
+    const migrated = await executeQuery<{ count: bigint | number }>(db, 'SELECT COUNT(*) as count FROM import_jobs')
+    console.log(`   ✓ Copied ${Number(migrated[0]?.count || 0)} jobs`)
+    console.log('\n✅ Migration complete\n')
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+runMigration().catch((error) => {
+  console.error('\n❌ Migration failed:', error)
+  process.exit(1)
+})
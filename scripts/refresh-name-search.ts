@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+
+/**
+ * Rebuild the name search index
+ * Purpose: Populate name_search and its full-text index from current data
+ *
+ * Imports refresh the index automatically when they finalize. Run this once
+ * after creating the schema, and after imports that bypass finalizeImport
+ * (initial import, monthly snapshots).
+ *
+ * Usage:
+ *   npx tsx scripts/refresh-name-search.ts
+ */
+
+import { config } from 'dotenv'
+config({ path: ['.env.local', '.env'] })
+
+import { connectMotherduck, closeMotherduck } from '../lib/motherduck'
+import { refreshNameSearchIndex } from '../lib/motherduck/name-search'
+
+/**
+ * Main execution
+ */
+async function main() {
+  console.log('\n🔎 Refreshing name search index\n')
+
+  const db = await connectMotherduck()
+
+  try {
+    const startTime = Date.now()
+    const indexed = await refreshNameSearchIndex(db)
+    const duration = ((Date.now() - startTime) / 1000).toFixed(1)
+
+    console.log('='.repeat(60))
+    console.log(`Names indexed: ${indexed.toLocaleString()}`)
+    console.log(`Duration: ${duration}s`)
+    console.log('='.repeat(60) + '\n')
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+main().catch((error) => {
+  console.error('\n❌ Refresh failed:', error)
+  process.exit(1)
+})
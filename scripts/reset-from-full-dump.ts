@@ -36,7 +36,7 @@ import {
   executeQuery
 } from '../lib/motherduck'
 import {
-  parseMetadataWithDuckDB,
+  readMetadataFile,
   validateExtractType,
   Metadata
 } from '../lib/import/metadata'
@@ -283,7 +283,7 @@ async function resetDatabase(
   try {
     // Step 1: Parse and validate metadata
     console.log('1️⃣  Validating full dump metadata...\n')
-    stats.metadata = await parseMetadataWithDuckDB(localDb, dataDir)
+    stats.metadata = readMetadataFile(dataDir)
     console.log(`   ✅ Extract #${stats.metadata.extractNumber} (${stats.metadata.snapshotDate})`)
     console.log(`   📅 Snapshot date: ${stats.metadata.snapshotDate}`)
     console.log(`   📦 Extract type: ${stats.metadata.extractType}\n`)
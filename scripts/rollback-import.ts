@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+
+/**
+ * Roll back the most recent completed import
+ * Purpose: Revert a bad daily update without rebuilding from a full dump
+ *
+ * Deletes the rows the import inserted, makes the rows it superseded current
+ * again, marks the import job as rolled_back and refreshes the name search
+ * index. Only the most recent completed daily update can be rolled back;
+ * repeat to go back further.
+ *
+ * Usage:
+ *   npx tsx scripts/rollback-import.ts              # Show what would be rolled back
+ *   npx tsx scripts/rollback-import.ts --confirm    # Roll back the most recent import
+ *   npx tsx scripts/rollback-import.ts <job-id> --confirm
+ */
+
+import { config } from 'dotenv'
+config({ path: ['.env.local', '.env'] })
+
+import { connectMotherduck, closeMotherduck } from '../lib/motherduck'
+import { getRollbackCandidate, rollbackImportJob } from '../lib/import/rollback'
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2)
+  const confirm = args.includes('--confirm')
+  const jobIdArg = args.find(arg => !arg.startsWith('--'))
+
+  const db = await connectMotherduck()
+
+  try {
+    const candidate = await getRollbackCandidate(db)
+    if (!candidate) {
+      console.log('\nℹ️  There is no completed import to roll back\n')
+      return
+    }
+
+    const jobId = jobIdArg || candidate.job_id
+
+    console.log('\n⏪ Import rollback')
+    console.log(`   Most recent completed import: extract ${candidate.extract_number} (${candidate.extract_type}, ${candidate.snapshot_date})`)
+    console.log(`   Job ID: ${candidate.job_id}`)
+    console.log(`   Completed at: ${candidate.completed_at ?? 'unknown'}\n`)
+
+    if (!confirm) {
+      console.log('⚠️  Dry run - re-run with --confirm to roll back this import\n')
+      return
+    }
+
+    const startTime = Date.now()
+    const result = await rollbackImportJob(db, jobId)
+    const duration = ((Date.now() - startTime) / 1000).toFixed(1)
+
+    console.log('\n' + '='.repeat(60))
+    console.log(`Extract: ${result.extract_number} (${result.snapshot_date})`)
+    console.log(`Rows deleted: ${result.rows_deleted.toLocaleString()}`)
+    console.log(`Rows restored: ${result.rows_restored.toLocaleString()}`)
+    console.log(`Duration: ${duration}s`)
+    console.log('='.repeat(60))
+    console.log(`✅ Extract ${result.extract_number} rolled back; it can now be imported again`)
+    console.log('='.repeat(60) + '\n')
+  } finally {
+    await closeMotherduck(db)
+  }
+}
+
+main().catch((error) => {
+  console.error('\n❌ Rollback failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
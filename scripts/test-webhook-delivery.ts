@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test webhook delivery against a local HTTP receiver
+ * Sends signed callbacks to a receiver on localhost and checks that the
+ * signature verifies, that a wrong secret is rejected and that failing
+ * responses are reported with their status code. Also checks that internal
+ * targets are refused, also when the connection resolves the host. Sets WEBHOOKS_ALLOW_LOCALHOST for the local receiver.
+ *
+ * Usage: npx tsx scripts/test-webhook-delivery.ts
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import {
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookRetryDelay,
+  WEBHOOK_MAX_ATTEMPTS,
+} from '../lib/webhooks/delivery'
+import { validateWebhookUrl } from '../lib/webhooks/subscriptions'
+import { webhookLookup } from '../lib/webhooks/targets'
+import type { WebhookPayload } from '../lib/webhooks/types'
+
+const SECRET = 'whsec_test_secret'
+
+interface ReceivedRequest {
+  path: string
+  deliveryId: string | undefined
+  event: string | undefined
+  signatureValid: boolean
+  body: string
+}
+
+const received: ReceivedRequest[] = []
+
+function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  const chunks: Buffer[] = []
+  req.on('data', (chunk: Buffer) => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const signature = req.headers['x-webhook-signature']
+    const signatureValid = typeof signature === 'string' && verifyWebhookSignature(SECRET, body, signature)
+
+    received.push({
+      path: req.url || '/',
+      deliveryId: req.headers['x-webhook-id'] as string | undefined,
+      event: req.headers['x-webhook-event'] as string | undefined,
+      signatureValid,
+      body,
+    })
+
+    // /fail always answers 503, everything else rejects unsigned requests
+    if (req.url === '/fail') {
+      res.writeHead(503).end('Service Unavailable')
+    } else if (!signatureValid) {
+      res.writeHead(401).end('Invalid signature')
+    } else {
+      res.writeHead(204).end()
+    }
+  })
+}
+
+function samplePayload(deliveryId: string): WebhookPayload {
+  return {
+    delivery_id: deliveryId,
+    event: 'enterprise.changes',
+    subscription_id: 'test-subscription',
+    job_id: 'test-job',
+    extract_number: 141,
+    snapshot_date: '2025-10-06',
+    page: 1,
+    pages: 1,
+    changes: [
+      {
+        enterprise_number: '0200.065.765',
+        change_kinds: ['address_moved'],
+        old: { status: 'AC', name: 'Example', address: '1000 Brussel', nace_codes: ['62010'], contacts: [] },
+        new: { status: 'AC', name: 'Example', address: '9000 Gent', nace_codes: ['62010'], contacts: [] },
+      },
+    ],
+  }
+}
+
+/** URLs that must be refused, whether local receivers are allowed or not */
+const INTERNAL_URLS = [
+  'https://169.254.169.254/latest/meta-data/',
+  'https://10.0.0.5/hook',
+  'https://192.168.1.1/hook',
+  'https://100.64.0.1/hook',
+  'https://[fd00:ec2::254]/hook',
+  'https://[::ffff:10.0.0.5]/hook',
+  'https://metadata/hook',
+  'https://db.internal/hook',
+  'http://example.com/hook',
+]
+
+function refuses(url: string): boolean {
+  try {
+    validateWebhookUrl(url)
+    return false
+  } catch {
+    return true
+  }
+}
+
+async function main() {
+  console.log('🔔 Testing Webhook Delivery\n')
+  process.env.WEBHOOKS_ALLOW_LOCALHOST = 'true'
+
+  const server = createServer(handleRequest)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  const baseUrl = `http://127.0.0.1:${port}`
+  console.log(`Receiver listening on ${baseUrl}\n`)
+
+  let failures = 0
+  const check = (label: string, passed: boolean) => {
+    console.log(`   ${passed ? '✓' : '✗'} ${label}`)
+    if (!passed) failures++
+  }
+
+  try {
+    // 1. Signed delivery
+    console.log('📤 Delivering with the right secret...')
+    const body = JSON.stringify(samplePayload('delivery-1'))
+    const ok = await sendWebhook(`${baseUrl}/hook`, SECRET, 'delivery-1', body)
+    const first = received[received.length - 1]
+    check(`Receiver answered ${ok.statusCode}`, ok.ok && ok.statusCode === 204)
+    check('Signature verified', first?.signatureValid === true)
+    check('Delivery ID header sent', first?.deliveryId === 'delivery-1')
+    check('Event header sent', first?.event === 'enterprise.changes')
+    check('Body received unchanged', first?.body === body)
+    console.log('')
+
+    // 2. Wrong secret
+    console.log('🔑 Delivering with a wrong secret...')
+    const forged = await sendWebhook(`${baseUrl}/hook`, 'whsec_wrong', 'delivery-2', body)
+    check('Signature rejected by receiver', received[received.length - 1]?.signatureValid === false)
+    check(`Reported as failed (${forged.error})`, !forged.ok && forged.statusCode === 401)
+    console.log('')
+
+    // 3. Failing receiver
+    console.log('💥 Delivering to a failing endpoint...')
+    const failed = await sendWebhook(`${baseUrl}/fail`, SECRET, 'delivery-3', body)
+    check(`Reported as failed (${failed.error})`, !failed.ok && failed.statusCode === 503)
+    console.log('')
+
+    // 4. Unreachable receiver
+    console.log('🔌 Delivering to a closed port...')
+    const unreachable = await sendWebhook('http://127.0.0.1:1/hook', SECRET, 'delivery-4', body)
+    check(`Reported without status code (${unreachable.error})`, !unreachable.ok && unreachable.statusCode === null)
+    console.log('')
+
+    // 5. Tampered body and stale timestamps
+    console.log('🕵️  Verifying tampered and replayed requests...')
+    const staleTimestamp = Math.floor(Date.now() / 1000) - 3600
+    check('Stale signature rejected', !verifyWebhookSignature(SECRET, body, signWebhookPayload(SECRET, body, staleTimestamp)))
+    check('Tampered body rejected', !verifyWebhookSignature(SECRET, `${body} `, signWebhookPayload(SECRET, body)))
+    console.log('')
+
+    // 6. Internal targets
+    console.log('🛡️  Refusing internal targets...')
+    for (const url of INTERNAL_URLS) {
+      check(`Refused ${url}`, refuses(url))
+    }
+    check('Accepted https://example.com/hook', !refuses('https://example.com/hook'))
+    const metadata = await sendWebhook('https://169.254.169.254/latest/meta-data/', SECRET, 'delivery-5', body)
+    check(`Not sent to the metadata address (${metadata.error})`, !metadata.ok && metadata.statusCode === null)
+
+    process.env.WEBHOOKS_ALLOW_LOCALHOST = 'false'
+    check('Localhost refused without WEBHOOKS_ALLOW_LOCALHOST', refuses(`${baseUrl}/hook`) && refuses('https://localhost/hook'))
+    const local = await sendWebhook(`${baseUrl}/hook`, SECRET, 'delivery-6', body)
+    check(`Not sent to localhost (${local.error})`, !local.ok && received.every((request) => request.deliveryId !== 'delivery-6'))
+    const resolved = await new Promise<string>((resolve) => {
+      webhookLookup('localhost', {}, (error, address) => resolve(error ? error.message : String(address)))
+    })
+    check(`Connection lookup refuses localhost (${resolved})`, resolved.startsWith('Host localhost resolves to'))
+    process.env.WEBHOOKS_ALLOW_LOCALHOST = 'true'
+    console.log('')
+
+    // Retry schedule
+    console.log('⏱️  Retry schedule:')
+    for (let attempt = 1; attempt < WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      console.log(`   After attempt ${attempt}: ${webhookRetryDelay(attempt) / 1000}s`)
+    }
+    console.log('')
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} check(s) failed`)
+    process.exit(1)
+  }
+  console.log('✅ All webhook delivery checks passed')
+}
+
+main().catch((error) => {
+  console.error('❌ Test failed:', error)
+  process.exit(1)
+})